@@ -17,6 +17,12 @@ export const CLOUDINARY_CLOUD_NAME = process.env.CLOUDINARY_CLOUD_NAME || "";
 export const CLOUDINARY_API_KEY = process.env.CLOUDINARY_API_KEY || "";
 export const CLOUDINARY_API_SECRET = process.env.CLOUDINARY_API_SECRET || "";
 export const CLOUDINARY_URL = process.env.CLOUDINARY_URL || "";
+
+// Days deleted tasks and sprints stay in the trash before they are purged
+export const TRASH_RETENTION_DAYS: number = parseInt(
+  process.env.TRASH_RETENTION_DAYS || "30",
+  10,
+);
  
 // Firebase Admin
 // Firebase Admin
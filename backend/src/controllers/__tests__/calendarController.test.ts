@@ -0,0 +1,166 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import {
+  getCalendarFeed,
+  regenerateCalendarFeed,
+  revokeCalendarFeed,
+} from "../calendarController";
+import User from "../../models/User";
+import Task from "../../models/Task";
+import Sprint from "../../models/Sprint";
+import { hashCalendarToken } from "../../utils/calendarFeed";
+
+// Mocks
+vi.mock("../../models/User");
+vi.mock("../../models/Task");
+vi.mock("../../models/Sprint");
+vi.mock("../../utils/workflow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../utils/workflow")>()),
+  getTenantWorkflow: vi.fn(
+    async () => (await import("../../models/Organization")).DEFAULT_WORKFLOW,
+  ),
+}));
+
+const TOKEN = "a".repeat(43);
+
+function createMockRes() {
+  const json = vi.fn();
+  const send = vi.fn();
+  const setHeader = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return {
+    res: { json, send, setHeader, status } as any,
+    json,
+    send,
+    setHeader,
+    status,
+  };
+}
+
+describe("calendarController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getCalendarFeed", () => {
+    it("serves the open tasks and current sprints of the token's user", async () => {
+      const { res, send, setHeader } = createMockRes();
+      (User.findOne as any).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          _id: { toString: () => "u1" },
+          name: "Dev",
+          tenantId: "t1",
+        }),
+      });
+      (Task.find as any).mockReturnValue({
+        sort: vi.fn().mockResolvedValue([
+          {
+            _id: { toString: () => "task1" },
+            title: "Ship it",
+            status: "todo",
+            priority: "high",
+            dueDate: new Date("2026-03-04T18:30:00.000Z"),
+          },
+        ]),
+      });
+      (Sprint.find as any).mockReturnValue({
+        sort: vi.fn().mockResolvedValue([
+          {
+            _id: { toString: () => "sprint1" },
+            name: "Sprint 7",
+            startDate: new Date("2026-03-02T00:00:00.000Z"),
+            endDate: new Date("2026-03-13T00:00:00.000Z"),
+          },
+        ]),
+      });
+
+      await getCalendarFeed({ params: { token: TOKEN } } as any, res, vi.fn());
+
+      expect(User.findOne).toHaveBeenCalledWith({
+        calendarTokenHash: hashCalendarToken(TOKEN),
+      });
+      expect(Task.find).toHaveBeenCalledWith({
+        tenantId: "t1",
+        $or: [{ userId: "u1" }, { assignees: "u1" }, { reviewerId: "u1" }],
+        status: { $nin: ["completed"] },
+        dueDate: { $ne: null },
+      });
+      expect(setHeader).toHaveBeenCalledWith(
+        "Content-Type",
+        "text/calendar; charset=utf-8",
+      );
+      const body = send.mock.calls[0][0] as string;
+      expect(body).toContain("UID:sprint-sprint1@taskflow");
+      expect(body).toContain("DTSTART;VALUE=DATE:20260302");
+      expect(body).toContain("DTEND;VALUE=DATE:20260314");
+      expect(body).toContain("UID:task-task1@taskflow");
+      expect(body).toContain("DTSTART;VALUE=DATE:20260305");
+    });
+
+    it("returns 404 for a revoked token", async () => {
+      const { res, status, json } = createMockRes();
+      (User.findOne as any).mockReturnValue({
+        select: vi.fn().mockResolvedValue(null),
+      });
+
+      await getCalendarFeed({ params: { token: TOKEN } } as any, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(404);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "Calendar not found",
+      });
+      expect(Task.find).not.toHaveBeenCalled();
+    });
+
+    it("rejects malformed tokens without a lookup", async () => {
+      const { res, status } = createMockRes();
+
+      await getCalendarFeed(
+        { params: { token: "not-a-token" } } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(status).toHaveBeenCalledWith(404);
+      expect(User.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("regenerateCalendarFeed", () => {
+    it("stores only the hash of the new token", async () => {
+      const { res, status, json } = createMockRes();
+      (User.findByIdAndUpdate as any).mockResolvedValue({ _id: "u1" });
+
+      await regenerateCalendarFeed(
+        { user: { userId: "u1" } } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(status).toHaveBeenCalledWith(201);
+      const { path } = json.mock.calls[0][0];
+      const token = path.match(/^\/api\/calendar\/(.+)\.ics$/)[1];
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith("u1", {
+        $set: {
+          calendarTokenHash: hashCalendarToken(token),
+          calendarTokenCreatedAt: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe("revokeCalendarFeed", () => {
+    it("removes the token", async () => {
+      const { res, json } = createMockRes();
+
+      await revokeCalendarFeed({ user: { userId: "u1" } } as any, res, vi.fn());
+
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith("u1", {
+        $unset: { calendarTokenHash: 1, calendarTokenCreatedAt: 1 },
+      });
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, enabled: false }),
+      );
+    });
+  });
+});
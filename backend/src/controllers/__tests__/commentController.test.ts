@@ -0,0 +1,228 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from "../commentController";
+import Comment from "../../models/Comment";
+import Task from "../../models/Task";
+import User from "../../models/User";
+import { notificationService } from "../../notification";
+
+vi.mock("../../models/Comment");
+vi.mock("../../models/Task");
+vi.mock("../../models/User");
+vi.mock("../../notification", () => ({
+  notificationService: {
+    sendToUser: vi.fn(),
+  },
+}));
+
+const TASK_ID = "507f1f77bcf86cd799439011";
+const COMMENT_ID = "507f1f77bcf86cd799439022";
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+function createMockTask() {
+  return {
+    _id: { toString: () => TASK_ID },
+    tenantId: { toString: () => "tenant-1" },
+    userId: { toString: () => "assignee-1" },
+    createdBy: { toString: () => "admin-1" },
+    title: "Task A",
+  };
+}
+
+function createMockComment(overrides: Record<string, any> = {}) {
+  return {
+    _id: { toString: () => COMMENT_ID },
+    taskId: { toString: () => TASK_ID },
+    parentId: null,
+    authorId: { toString: () => "assignee-1" },
+    body: "Hello",
+    mentions: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    save: vi.fn().mockResolvedValue(undefined),
+    populate: vi.fn().mockResolvedValue(undefined),
+    deleteOne: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+// The first lookup resolves mentions; later ones (muted types, auto-watch
+// opt-outs) find nobody
+function mockTenantUsers(users: { id: string; name: string; email: string }[]) {
+  (User.find as any).mockReturnValueOnce({
+    select: vi.fn().mockResolvedValue(
+      users.map((u) => ({ _id: { toString: () => u.id }, ...u })),
+    ),
+  });
+}
+
+describe("commentController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (User.find as any).mockReset();
+    (User.find as any).mockReturnValue({
+      select: vi.fn().mockResolvedValue([]),
+    });
+  });
+
+  describe("getComments", () => {
+    it("scopes the task lookup like getTask", async () => {
+      (Task.findOne as any).mockResolvedValue(null);
+      const { res, status } = createMockRes();
+      const req = {
+        params: { id: TASK_ID },
+        user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+      } as any;
+
+      await getComments(req, res, vi.fn());
+
+      expect(Task.findOne).toHaveBeenCalledWith({
+        _id: TASK_ID,
+        tenantId: "tenant-1",
+        $or: [
+          { userId: "user-1" },
+          { assignees: "user-1" },
+          { reviewerId: "user-1" },
+        ],
+      });
+      expect(status).toHaveBeenCalledWith(404);
+    });
+
+    it("returns the task's comments oldest first", async () => {
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      const sort = vi.fn().mockReturnValue({
+        populate: vi.fn().mockReturnValue({
+          exec: vi.fn().mockResolvedValue([createMockComment()]),
+        }),
+      });
+      (Comment.find as any).mockReturnValue({ sort });
+      const { res, json } = createMockRes();
+      const req = {
+        params: { id: TASK_ID },
+        user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+      } as any;
+
+      await getComments(req, res, vi.fn());
+
+      expect(sort).toHaveBeenCalledWith({ createdAt: 1 });
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          count: 1,
+          comments: [expect.objectContaining({ id: COMMENT_ID, body: "Hello" })],
+        }),
+      );
+    });
+  });
+
+  describe("createComment", () => {
+    it("rejects an empty comment", async () => {
+      const { res, status, json } = createMockRes();
+      const req = {
+        params: { id: TASK_ID },
+        body: { body: "   " },
+        user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+      } as any;
+
+      await createComment(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "Comment cannot be empty",
+      });
+      expect(Comment.create).not.toHaveBeenCalled();
+    });
+
+    it("sends mention notifications and comment notifications to the rest", async () => {
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      mockTenantUsers([
+        { id: "bob-1", name: "Bob Smith", email: "bob@example.com" },
+        { id: "assignee-1", name: "Alice", email: "alice@example.com" },
+      ]);
+      (Comment.create as any).mockResolvedValue(
+        createMockComment({ authorId: { toString: () => "admin-1" } }),
+      );
+      const { res, status } = createMockRes();
+      const req = {
+        params: { id: TASK_ID },
+        body: { body: "@Bob Smith please review" },
+        user: {
+          role: "tenantAdmin",
+          tenantId: "tenant-1",
+          userId: "admin-1",
+          name: "Admin",
+        },
+      } as any;
+
+      await createComment(req, res, vi.fn());
+
+      expect(Comment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          authorId: "admin-1",
+          parentId: null,
+          mentions: ["bob-1"],
+        }),
+      );
+      expect(notificationService.sendToUser).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "bob-1", type: "mention" }),
+      );
+      expect(notificationService.sendToUser).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "assignee-1", type: "comment_added" }),
+      );
+      // The author (also the creator) is never notified about their own comment
+      expect(notificationService.sendToUser).toHaveBeenCalledTimes(2);
+      expect(status).toHaveBeenCalledWith(201);
+    });
+  });
+
+  describe("updateComment", () => {
+    it("only lets the author edit", async () => {
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      (Comment.findOne as any).mockResolvedValue(createMockComment());
+      const { res, status } = createMockRes();
+      const req = {
+        params: { id: TASK_ID, commentId: COMMENT_ID },
+        body: { body: "Edited" },
+        user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+      } as any;
+
+      await updateComment(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe("deleteComment", () => {
+    it("lets admins delete other people's comments along with replies", async () => {
+      const comment = createMockComment();
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      (Comment.findOne as any).mockResolvedValue(comment);
+      const { res, json } = createMockRes();
+      const req = {
+        params: { id: TASK_ID, commentId: COMMENT_ID },
+        user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+      } as any;
+
+      await deleteComment(req, res, vi.fn());
+
+      expect(Comment.deleteMany).toHaveBeenCalledWith({
+        parentId: comment._id,
+      });
+      expect(comment.deleteOne).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith({
+        success: true,
+        message: "Comment deleted successfully",
+      });
+    });
+  });
+});
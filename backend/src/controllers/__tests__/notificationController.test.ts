@@ -4,12 +4,16 @@ import {
   getUnreadCount,
   markAsRead,
   deleteNotification,
+  updatePreferences,
 } from "../notificationController";
 import Notification from "../../models/Notification";
+import User from "../../models/User";
 import mongoose from "mongoose";
 
 // Mocks
-vi.mock("../../models/Notification", () => ({
+// Keep the real type list, automocking would empty it
+vi.mock("../../models/Notification", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Notification")>()),
   default: {
     countDocuments: vi.fn(),
     find: vi.fn(),
@@ -164,4 +168,56 @@ describe("notificationController", () => {
       );
     });
   });
+
+  describe("updatePreferences", () => {
+    it("rejects unknown notification types", async () => {
+      const { res, status } = createMockRes();
+      const req = {
+        user: { userId },
+        body: { muted: ["task_updated", "weekly_digest"] },
+      } as any;
+
+      await updatePreferences(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("saves muted types and auto-watching", async () => {
+      const { res, json } = createMockRes();
+      const req = {
+        user: { userId },
+        body: { muted: ["task_updated", "task_updated"], autoWatch: false },
+      } as any;
+
+      (User.findByIdAndUpdate as any).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue({
+            notificationPreferences: {
+              muted: ["task_updated"],
+              autoWatch: false,
+            },
+          }),
+        }),
+      });
+
+      await updatePreferences(req, res, vi.fn());
+
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+        userId,
+        {
+          $set: {
+            "notificationPreferences.muted": ["task_updated"],
+            "notificationPreferences.autoWatch": false,
+          },
+        },
+        { new: true }
+      );
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          preferences: { muted: ["task_updated"], autoWatch: false },
+        })
+      );
+    });
+  });
 });
@@ -0,0 +1,224 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import {
+  getViews,
+  createView,
+  updateView,
+  deleteView,
+  setDefaultView,
+} from "../savedViewController";
+import SavedView from "../../models/SavedView";
+import User from "../../models/User";
+import { isValidObjectId } from "../../utils/validators";
+
+// Mocks
+// Keep the real option lists, automocking would empty them
+vi.mock("../../models/SavedView", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/SavedView")>()),
+  default: Object.assign(vi.fn(), { find: vi.fn(), findOne: vi.fn() }),
+}));
+vi.mock("../../models/User");
+vi.mock("../../models/Tag");
+vi.mock("../../utils/validators");
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+const member = { role: "user", tenantId: "t1", userId: "u1" };
+
+function mockView(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: "v1",
+    name: "My bugs",
+    tenantId: "t1",
+    userId: "u1",
+    visibility: "personal",
+    filters: { q: "label:bug", status: "all", labels: [], excludeLabels: [] },
+    sort: "-dueDate",
+    groupBy: "none",
+    viewMode: "list",
+    set: vi.fn(),
+    save: vi.fn(),
+    deleteOne: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe("savedViewController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as any).mockReturnValue(true);
+  });
+
+  describe("getViews", () => {
+    it("returns personal and shared views with the user's default", async () => {
+      const { res, json } = createMockRes();
+      const req = { user: member } as any;
+
+      (SavedView.find as any).mockReturnValue({
+        sort: vi.fn().mockReturnValue({
+          exec: vi.fn().mockResolvedValue([mockView()]),
+        }),
+      });
+      (User.findById as any).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue({ defaultViewId: "v1" }),
+        }),
+      });
+
+      await getViews(req, res, vi.fn());
+
+      expect(SavedView.find).toHaveBeenCalledWith({
+        tenantId: "t1",
+        $or: [{ userId: "u1" }, { visibility: "shared" }],
+      });
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaultViewId: "v1",
+          views: [expect.objectContaining({ id: "v1", isDefault: true })],
+        }),
+      );
+    });
+  });
+
+  describe("createView", () => {
+    it("validates the view mode", async () => {
+      const { res, status } = createMockRes();
+      const req = {
+        user: member,
+        body: { name: "Board", viewMode: "calendar" },
+      } as any;
+
+      await createView(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(400);
+    });
+
+    it("saves the view for the current user", async () => {
+      const { res, status } = createMockRes();
+      const req = {
+        user: member,
+        body: {
+          name: " Due soon ",
+          visibility: "shared",
+          filters: { q: "due:<7d" },
+          sort: "dueDate",
+          viewMode: "list",
+        },
+      } as any;
+      const saveMock = vi.fn();
+      (SavedView as any).mockImplementation((data: any) =>
+        mockView({ ...data, save: saveMock }),
+      );
+
+      await createView(req, res, vi.fn());
+
+      expect(SavedView).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "Due soon",
+          visibility: "shared",
+          tenantId: "t1",
+          userId: "u1",
+          filters: {
+            q: "due:<7d",
+            status: "all",
+            labels: [],
+            excludeLabels: [],
+          },
+        }),
+      );
+      expect(saveMock).toHaveBeenCalled();
+      expect(status).toHaveBeenCalledWith(201);
+    });
+  });
+
+  describe("updateView", () => {
+    it("only lets the owner or an admin change a shared view", async () => {
+      const { res, status } = createMockRes();
+      const view = mockView({ userId: "u2", visibility: "shared" });
+      (SavedView.findOne as any).mockResolvedValue(view);
+
+      await updateView(
+        { params: { id: "v1" }, user: member, body: { name: "Mine" } } as any,
+        res,
+        vi.fn(),
+      );
+      expect(status).toHaveBeenCalledWith(403);
+      expect(view.save).not.toHaveBeenCalled();
+
+      const admin = { role: "tenantAdmin", tenantId: "t1", userId: "u3" };
+      (User.findById as any).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue(null),
+        }),
+      });
+
+      await updateView(
+        { params: { id: "v1" }, user: admin, body: { name: "Team" } } as any,
+        res,
+        vi.fn(),
+      );
+      expect(view.set).toHaveBeenCalledWith({ name: "Team" });
+      expect(view.save).toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteView", () => {
+    it("clears it as a default before deleting", async () => {
+      const { res, json } = createMockRes();
+      const view = mockView();
+      (SavedView.findOne as any).mockResolvedValue(view);
+
+      await deleteView(
+        { params: { id: "v1" }, user: member } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(User.updateMany).toHaveBeenCalledWith(
+        { defaultViewId: "v1" },
+        { $unset: { defaultViewId: 1 } },
+      );
+      expect(view.deleteOne).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true }),
+      );
+    });
+  });
+
+  describe("setDefaultView", () => {
+    it("rejects views the user cannot see", async () => {
+      const { res, status } = createMockRes();
+      (SavedView.findOne as any).mockResolvedValue(null);
+
+      await setDefaultView(
+        { user: member, body: { viewId: "v9" } } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(status).toHaveBeenCalledWith(404);
+      expect(User.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("clears the default when viewId is null", async () => {
+      const { res, json } = createMockRes();
+
+      await setDefaultView(
+        { user: member, body: { viewId: null } } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: "u1" },
+        { $unset: { defaultViewId: 1 } },
+      );
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ defaultViewId: null }),
+      );
+    });
+  });
+});
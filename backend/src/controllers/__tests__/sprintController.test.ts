@@ -1,19 +1,45 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
+import { mongo } from "mongoose";
 import {
   getSprints,
   getSprint,
   createSprint,
   updateSprint,
   deleteSprint,
+  startSprint,
+  completeSprint,
+  updateSprintCapacity,
+  updateSprintGoals,
+  addRetrospectiveItem,
+  convertActionItem,
 } from "../sprintController";
 import Sprint from "../../models/Sprint";
 import Task from "../../models/Task";
+import User from "../../models/User";
 import { isValidObjectId } from "../../utils/validators";
 
 // Mocks
-vi.mock("../../models/Sprint");
+vi.mock("../../models/Sprint", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Sprint")>()),
+  default: Object.assign(vi.fn(), {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+  }),
+}));
 vi.mock("../../models/Task");
+vi.mock("../../models/User");
+vi.mock("../../models/TaskActivity");
+vi.mock("../../utils/sprintSnapshots");
+vi.mock("../../utils/taskAudience");
 vi.mock("../../utils/validators");
+vi.mock("../../utils/workflow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../utils/workflow")>()),
+  getTenantWorkflow: vi.fn(
+    async () => (await import("../../models/Organization")).DEFAULT_WORKFLOW,
+  ),
+}));
 
 function createMockRes() {
   const json = vi.fn();
@@ -133,18 +159,21 @@ describe("sprintController", () => {
   });
 
   describe("deleteSprint", () => {
-    it("unassigns tasks and deletes sprint", async () => {
+    it("unassigns tasks and moves the sprint to the trash", async () => {
       const { res, json } = createMockRes();
       const req = {
         params: { id: "s1" },
-        user: { role: "tenantAdmin", tenantId: "t1" },
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" },
       } as any;
 
-      const mockSprint = {
+      const mockSprint: any = {
         _id: "s1",
-        deleteOne: vi.fn(),
+        save: vi.fn(),
       };
       (Sprint.findOne as any).mockResolvedValue(mockSprint);
+      (Task.find as any).mockReturnValue({
+        select: vi.fn().mockResolvedValue([{ _id: "task-1" }, { _id: "task-2" }]),
+      });
       (Task.updateMany as any).mockResolvedValue({});
 
       await deleteSprint(req, res, vi.fn());
@@ -153,10 +182,534 @@ describe("sprintController", () => {
         { sprintId: "s1" },
         { $set: { sprintId: null } }
       );
-      expect(mockSprint.deleteOne).toHaveBeenCalled();
+      expect(mockSprint.detachedTaskIds).toEqual(["task-1", "task-2"]);
+      expect(mockSprint.deletedAt).toBeInstanceOf(Date);
+      expect(mockSprint.deletedBy).toBe("admin-1");
+      expect(mockSprint.save).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, message: "Sprint moved to trash" })
+      );
+    });
+  });
+
+  describe("startSprint", () => {
+    const req = {
+      params: { id: "s2" },
+      user: { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" },
+    } as any;
+
+    it("refuses while another sprint is active", async () => {
+      const { res, status, json } = createMockRes();
+      (Sprint.findOne as any)
+        .mockResolvedValueOnce({ _id: "s2", status: "planned", tenantId: "t1" })
+        .mockResolvedValueOnce({ _id: "s1", name: "Sprint 1" });
+
+      await startSprint(req, res, vi.fn());
+
+      expect(Sprint.findOne).toHaveBeenLastCalledWith({
+        tenantId: "t1",
+        status: "active",
+        _id: { $ne: "s2" },
+      });
+      expect(status).toHaveBeenCalledWith(409);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: '"Sprint 1" is still active, complete it first',
+      });
+    });
+
+    it("records the tasks the sprint starts with", async () => {
+      const { res, json } = createMockRes();
+      const sprint: any = {
+        _id: "s2",
+        status: "planned",
+        tenantId: "t1",
+        createdBy: "admin-1",
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any)
+        .mockResolvedValueOnce(sprint)
+        .mockResolvedValueOnce(null);
+      (Task.find as any).mockReturnValue({
+        select: vi.fn().mockResolvedValue([{ _id: "task-1" }, { _id: "task-2" }]),
+      });
+
+      await startSprint(req, res, vi.fn());
+
+      expect(sprint.status).toBe("active");
+      expect(sprint.startedAt).toBeInstanceOf(Date);
+      expect(sprint.committedTaskIds).toEqual(["task-1", "task-2"]);
+      expect(sprint.save).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          sprint: expect.objectContaining({ status: "active", taskCount: 2 }),
+        })
+      );
+    });
+
+    it("refuses when another sprint was started at the same time", async () => {
+      const { res, status, json } = createMockRes();
+      (Sprint.findOne as any)
+        .mockResolvedValueOnce({
+          _id: "s2",
+          status: "planned",
+          tenantId: "t1",
+          // What the driver throws when the one-active-sprint index refuses
+          save: vi.fn().mockRejectedValue(
+            new mongo.MongoServerError({
+              message:
+                "E11000 duplicate key error collection: taskflow.sprints index: one_active_sprint_per_tenant dup key: { tenantId: ObjectId('t1'), deletedAt: null }",
+              code: 11000,
+              keyPattern: { tenantId: 1, deletedAt: 1 },
+            }),
+          ),
+        })
+        .mockResolvedValueOnce(null);
+      (Task.find as any).mockReturnValue({
+        select: vi.fn().mockResolvedValue([]),
+      });
+
+      await startSprint(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(409);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "Another sprint was started at the same time, reload and try again",
+      });
+    });
+  });
+
+  describe("completeSprint", () => {
+    it("moves unfinished tasks to the backlog and records the outcome", async () => {
+      const { res, json } = createMockRes();
+      const req = {
+        params: { id: "s1" },
+        body: {},
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" },
+      } as any;
+      const sprint: any = {
+        _id: "s1",
+        status: "active",
+        tenantId: "t1",
+        createdBy: "admin-1",
+        committedTaskIds: ["task-1", "task-2"],
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any).mockResolvedValue(sprint);
+      const done = { _id: "task-1", status: "completed", estimateMinutes: 60 };
+      const open = { _id: "task-2", status: "todo", estimateMinutes: 30 };
+      const added = { _id: "task-3", status: "todo", estimateMinutes: null };
+      (Task.find as any)
+        .mockReturnValueOnce({
+          select: vi.fn().mockResolvedValue([done, open, added]),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnValue({
+            setOptions: vi.fn().mockResolvedValue([done, open]),
+          }),
+        });
+      (Task.updateMany as any).mockResolvedValue({});
+
+      await completeSprint(req, res, vi.fn());
+
+      expect(Task.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: ["task-2", "task-3"] } },
+        { $set: { sprintId: null } }
+      );
+      expect(sprint.status).toBe("completed");
+      expect(sprint.completion).toEqual(
+        expect.objectContaining({
+          committed: { tasks: 2, estimateMinutes: 90 },
+          added: { tasks: 1, estimateMinutes: 0 },
+          delivered: { tasks: 1, estimateMinutes: 60 },
+          carriedOver: { tasks: 2, estimateMinutes: 30 },
+          nextSprintId: null,
+          completedBy: "admin-1",
+        })
+      );
       expect(json).toHaveBeenCalledWith(
-        expect.objectContaining({ success: true, message: "Sprint deleted successfully" })
+        expect.objectContaining({
+          success: true,
+          message: "Sprint completed, 2 unfinished tasks moved to the backlog",
+        })
+      );
+    });
+
+    it("only rolls over into a planned sprint", async () => {
+      const { res, status, json } = createMockRes();
+      const req = {
+        params: { id: "s1" },
+        body: { nextSprintId: "s3" },
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" },
+      } as any;
+      (Sprint.findOne as any)
+        .mockResolvedValueOnce({ _id: "s1", status: "active", tenantId: "t1" })
+        .mockResolvedValueOnce({ _id: "s3", status: "completed" });
+
+      await completeSprint(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "Unfinished tasks can only move to a planned sprint",
+      });
+      expect(Task.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateSprintCapacity", () => {
+    const admin = { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" };
+
+    it("rejects percentages outside 0 to 100", async () => {
+      const { res, status } = createMockRes();
+
+      await updateSprintCapacity(
+        {
+          params: { id: "s2" },
+          body: { capacity: [{ userId: "u1", percent: 120 }] },
+          user: admin,
+        } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(Sprint.findOne).not.toHaveBeenCalled();
+    });
+
+    it("only accepts members of the sprint's tenant", async () => {
+      const { res, status } = createMockRes();
+      (Sprint.findOne as any).mockResolvedValue({
+        _id: "s2",
+        status: "planned",
+        tenantId: "t1",
+      });
+      (User.countDocuments as any).mockResolvedValue(1);
+
+      await updateSprintCapacity(
+        {
+          params: { id: "s2" },
+          body: {
+            capacity: [
+              { userId: "u1", percent: 50 },
+              { userId: "u-other", percent: 100 },
+            ],
+          },
+          user: admin,
+        } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(User.countDocuments).toHaveBeenCalledWith({
+        _id: { $in: ["u1", "u-other"] },
+        tenantId: "t1",
+      });
+      expect(status).toHaveBeenCalledWith(400);
+    });
+
+    it("replaces the capacity of a planned sprint", async () => {
+      const { res, json } = createMockRes();
+      const sprint: any = {
+        _id: "s2",
+        status: "planned",
+        tenantId: "t1",
+        createdBy: "admin-1",
+        capacity: [{ userId: "u2", percent: 20 }],
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any).mockResolvedValue(sprint);
+      (User.countDocuments as any).mockResolvedValue(1);
+      (Task.countDocuments as any).mockResolvedValue(3);
+
+      await updateSprintCapacity(
+        {
+          params: { id: "s2" },
+          body: { capacity: [{ userId: "u1", percent: 50 }] },
+          user: admin,
+        } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(sprint.capacity).toEqual([{ userId: "u1", percent: 50 }]);
+      expect(sprint.save).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          sprint: expect.objectContaining({
+            capacity: [{ userId: "u1", percent: 50 }],
+          }),
+        })
+      );
+    });
+  });
+
+  describe("updateSprintGoals", () => {
+    const admin = { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" };
+
+    it("only marks goals achieved once the sprint has started", async () => {
+      const { res, status, json } = createMockRes();
+      const sprint: any = {
+        _id: "s2",
+        status: "planned",
+        tenantId: "t1",
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any).mockResolvedValue(sprint);
+
+      await updateSprintGoals(
+        {
+          params: { id: "s2" },
+          body: { goals: [{ text: "Ship the importer", achieved: true }] },
+          user: admin,
+        } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "Goals can only be marked achieved once the sprint has started",
+      });
+      expect(sprint.save).not.toHaveBeenCalled();
+    });
+
+    it("keeps the id of goals sent back and records the outcome", async () => {
+      const { res, json } = createMockRes();
+      const goalId = "64b000000000000000000001";
+      const sprint: any = {
+        _id: "s1",
+        status: "completed",
+        tenantId: "t1",
+        createdBy: "admin-1",
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any).mockResolvedValue(sprint);
+      (Task.countDocuments as any).mockResolvedValue(0);
+
+      await updateSprintGoals(
+        {
+          params: { id: "s1" },
+          body: {
+            goals: [
+              { id: goalId, text: " Ship the importer ", achieved: true },
+              { text: "Write the docs" },
+            ],
+          },
+          user: admin,
+        } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(sprint.save).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          sprint: expect.objectContaining({
+            goals: [
+              { id: goalId, text: "Ship the importer", achieved: true },
+              { id: expect.any(String), text: "Write the docs", achieved: null },
+            ],
+          }),
+        })
+      );
+    });
+  });
+
+  describe("addRetrospectiveItem", () => {
+    it("waits for the sprint to start", async () => {
+      const { res, status } = createMockRes();
+      const sprint: any = {
+        _id: "s2",
+        status: "planned",
+        tenantId: "t1",
+        retrospective: [],
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any).mockResolvedValue(sprint);
+
+      await addRetrospectiveItem(
+        {
+          params: { id: "s2" },
+          body: { category: "went-well", text: "Pairing on reviews" },
+          user: { role: "user", tenantId: "t1", userId: "u1" },
+        } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(status).toHaveBeenCalledWith(409);
+      expect(sprint.retrospective).toHaveLength(0);
+    });
+  });
+
+  describe("convertActionItem", () => {
+    const req = {
+      params: { id: "s1", itemId: "item-1" },
+      body: {},
+      user: { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" },
+    } as any;
+
+    beforeEach(() => {
+      (Task as any).mockImplementation(function (data: Record<string, unknown>) {
+        return { ...data, save: vi.fn() };
+      });
+    });
+
+    it("creates a task in the sprint unfinished work moved to", async () => {
+      const { res, status, json } = createMockRes();
+      const item: any = {
+        _id: "item-1",
+        category: "action-item",
+        text: "Automate the release notes",
+        authorId: "u2",
+        taskId: null,
+      };
+      const sprint: any = {
+        _id: "s1",
+        name: "Sprint 1",
+        status: "completed",
+        tenantId: "t1",
+        createdBy: "admin-1",
+        completion: { nextSprintId: "s2" },
+        retrospective: [item],
+        save: vi.fn(),
+      };
+      const endDate = new Date("2026-03-13T18:30:00.000Z");
+      (Sprint.findOne as any)
+        .mockResolvedValueOnce(sprint)
+        .mockResolvedValueOnce({ _id: "s2", name: "Sprint 2", endDate });
+      (User.findOne as any).mockResolvedValue({ _id: "u2" });
+      (Sprint.findOneAndUpdate as any).mockImplementation(
+        async (_filter: unknown, update: any) => {
+          item.taskId = update.$set["retrospective.$.taskId"];
+          return sprint;
+        },
+      );
+      (Task.countDocuments as any).mockResolvedValue(4);
+
+      await convertActionItem(req, res, vi.fn());
+
+      expect(Sprint.findOne).toHaveBeenLastCalledWith({
+        _id: "s2",
+        tenantId: "t1",
+        status: { $ne: "completed" },
+      });
+      expect(Task).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: "Automate the release notes",
+          status: "todo",
+          dueDate: endDate,
+          sprintId: "s2",
+          userId: "u2",
+          assignees: ["u2"],
+          tenantId: "t1",
+        })
+      );
+      // The item was claimed for the task before the task was created
+      const { _id: taskId } = (Task as any).mock.calls[0][0];
+      expect(Sprint.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: "s1",
+          retrospective: { $elemMatch: { _id: "item-1", taskId: null } },
+        },
+        { $set: { "retrospective.$.taskId": taskId } },
+        { new: true },
+      );
+      expect(item.taskId).toBe(taskId);
+      expect(status).toHaveBeenCalledWith(201);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          message: 'Action item added to "Sprint 2"',
+          task: expect.objectContaining({ title: "Automate the release notes", sprintId: "s2" }),
+        })
+      );
+    });
+
+    it("converts an action item only once", async () => {
+      const { res, status } = createMockRes();
+      (Sprint.findOne as any).mockResolvedValue({
+        _id: "s1",
+        status: "completed",
+        tenantId: "t1",
+        retrospective: [
+          {
+            _id: "item-1",
+            category: "action-item",
+            text: "Automate the release notes",
+            authorId: "u2",
+            taskId: "task-1",
+          },
+        ],
+      });
+
+      await convertActionItem(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(409);
+      expect(Task).not.toHaveBeenCalled();
+    });
+    function openActionItem() {
+      (Sprint.findOne as any)
+        .mockResolvedValueOnce({
+          _id: "s1",
+          status: "completed",
+          tenantId: "t1",
+          completion: { nextSprintId: "s2" },
+          retrospective: [
+            {
+              _id: "item-1",
+              category: "action-item",
+              text: "Automate the release notes",
+              authorId: "u2",
+              taskId: null,
+            },
+          ],
+        })
+        .mockResolvedValueOnce({ _id: "s2", name: "Sprint 2" });
+      (User.findOne as any).mockResolvedValue({ _id: "u2" });
+    }
+
+    it("refuses when another request claimed the item first", async () => {
+      const { res, status, json } = createMockRes();
+      openActionItem();
+      (Sprint.findOneAndUpdate as any).mockResolvedValue(null);
+
+      await convertActionItem(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(409);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "This action item is already a task",
+      });
+      expect(Task).not.toHaveBeenCalled();
+    });
+
+    it("frees the item again when the task cannot be created", async () => {
+      const { res } = createMockRes();
+      const next = vi.fn();
+      const failure = new Error("write failed");
+      openActionItem();
+      (Sprint.findOneAndUpdate as any).mockResolvedValue({ _id: "s1" });
+      (Task as any).mockImplementation(function (data: Record<string, unknown>) {
+        return { ...data, save: vi.fn().mockRejectedValue(failure) };
+      });
+
+      await convertActionItem(req, res, next);
+
+      const { _id: taskId } = (Task as any).mock.calls[0][0];
+      expect(Sprint.updateOne).toHaveBeenCalledWith(
+        {
+          _id: "s1",
+          retrospective: { $elemMatch: { _id: "item-1", taskId } },
+        },
+        { $set: { "retrospective.$.taskId": null } },
       );
+      expect(next).toHaveBeenCalledWith(failure);
     });
   });
 });
@@ -0,0 +1,168 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { getTags, createTag, deleteTag } from "../tagController";
+import Tag from "../../models/Tag";
+import Task from "../../models/Task";
+import SavedView from "../../models/SavedView";
+import { isValidObjectId } from "../../utils/validators";
+
+// Mocks
+vi.mock("../../models/Tag");
+vi.mock("../../models/Task");
+vi.mock("../../models/SavedView");
+vi.mock("../../utils/validators");
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+describe("tagController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as any).mockReturnValue(true);
+  });
+
+  describe("getTags", () => {
+    it("returns the catalog of the actor's tenant sorted by name", async () => {
+      const { res, json } = createMockRes();
+      const req = { user: { role: "user", tenantId: "t1" }, query: {} } as any;
+
+      const sort = vi.fn().mockReturnValue({
+        exec: vi.fn().mockResolvedValue([
+          {
+            _id: "tag1",
+            name: "Backend",
+            color: "blue",
+            tenantId: "t1",
+            createdBy: "u1",
+          },
+        ]),
+      });
+      (Tag.find as any).mockReturnValue({
+        collation: vi.fn().mockReturnValue({ sort }),
+      });
+
+      await getTags(req, res, vi.fn());
+
+      expect(Tag.find).toHaveBeenCalledWith({ tenantId: "t1" });
+      expect(sort).toHaveBeenCalledWith({ name: 1 });
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          tags: [expect.objectContaining({ id: "tag1", name: "Backend" })],
+        }),
+      );
+    });
+  });
+
+  describe("createTag", () => {
+    it("checks for permissions", async () => {
+      const { res, status } = createMockRes();
+      const req = {
+        user: { role: "user", tenantId: "t1" },
+        body: { name: "Bug" },
+      } as any;
+
+      await createTag(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(403);
+    });
+
+    it("rejects names already used in the tenant", async () => {
+      const { res, status, json } = createMockRes();
+      const req = {
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "u1" },
+        body: { name: " bug ", color: "red" },
+      } as any;
+      (Tag.findOne as any).mockReturnValue({
+        collation: vi.fn().mockResolvedValue({ _id: "tag1", name: "Bug" }),
+      });
+
+      await createTag(req, res, vi.fn());
+
+      expect(Tag.findOne).toHaveBeenCalledWith({ tenantId: "t1", name: "bug" });
+      expect(status).toHaveBeenCalledWith(409);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: 'A tag named "bug" already exists',
+      });
+    });
+
+    it("validates the color", async () => {
+      const { res, status } = createMockRes();
+      const req = {
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "u1" },
+        body: { name: "Bug", color: "black" },
+      } as any;
+
+      await createTag(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(Tag.findOne).not.toHaveBeenCalled();
+    });
+
+    it("creates tag successfully", async () => {
+      const { res, status, json } = createMockRes();
+      const req = {
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "u1" },
+        body: { name: "Bug", color: "red" },
+      } as any;
+      (Tag.findOne as any).mockReturnValue({
+        collation: vi.fn().mockResolvedValue(null),
+      });
+      const saveMock = vi.fn();
+      (Tag as any).mockImplementation((data: any) => ({
+        ...data,
+        _id: "tag-new",
+        save: saveMock,
+      }));
+
+      await createTag(req, res, vi.fn());
+
+      expect(saveMock).toHaveBeenCalled();
+      expect(status).toHaveBeenCalledWith(201);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          tag: expect.objectContaining({ name: "Bug", color: "red" }),
+        }),
+      );
+    });
+  });
+
+  describe("deleteTag", () => {
+    it("removes the tag from tasks and deletes it", async () => {
+      const { res, json } = createMockRes();
+      const req = {
+        params: { id: "tag1" },
+        user: { role: "tenantAdmin", tenantId: "t1" },
+      } as any;
+
+      const mockTag = { _id: "tag1", tenantId: "t1", deleteOne: vi.fn() };
+      (Tag.findOne as any).mockResolvedValue(mockTag);
+      (Task.updateMany as any).mockResolvedValue({});
+
+      await deleteTag(req, res, vi.fn());
+
+      expect(Tag.findOne).toHaveBeenCalledWith({ _id: "tag1", tenantId: "t1" });
+      expect(Task.updateMany).toHaveBeenCalledWith(
+        { labels: "tag1" },
+        { $pull: { labels: "tag1" } },
+      );
+      expect(SavedView.updateMany).toHaveBeenCalledWith(
+        { tenantId: "t1" },
+        {
+          $pull: {
+            "filters.labels": "tag1",
+            "filters.excludeLabels": "tag1",
+          },
+        },
+      );
+      expect(mockTag.deleteOne).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true }),
+      );
+    });
+  });
+});
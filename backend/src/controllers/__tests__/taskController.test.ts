@@ -1,6 +1,21 @@
 import { vi } from "vitest";
-import { getTask, updateTask } from "../taskController";
+import {
+  getTask,
+  updateTask,
+  getTaskActivity,
+  bulkTasks,
+  watchTask,
+  moveTask,
+  createTaskFromTemplate,
+  exportTasks,
+} from "../taskController";
 import Task from "../../models/Task";
+import TaskTemplate from "../../models/TaskTemplate";
+import Tag from "../../models/Tag";
+import Sprint from "../../models/Sprint";
+import TaskActivity from "../../models/TaskActivity";
+import Organization from "../../models/Organization";
+import User from "../../models/User";
 import { notificationService } from "../../notification";
 import {
   isValidObjectId,
@@ -10,6 +25,22 @@ import {
 import type { AuthenticatedRequest } from "../../middleware/auth";
 
 vi.mock("../../models/Task");
+vi.mock("../../models/TaskActivity");
+vi.mock("../../models/User");
+vi.mock("../../models/Sprint");
+vi.mock("../../models/TaskTemplate");
+vi.mock("../../models/Tag");
+vi.mock("../../models/Organization", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Organization")>()),
+  default: {
+    find: vi.fn(() => ({
+      select: () => ({ lean: () => Promise.resolve([]) }),
+    })),
+    findById: vi.fn(() => ({
+      select: () => ({ lean: () => Promise.resolve(null) }),
+    })),
+  },
+}));
 vi.mock("../../notification", () => ({
   notificationService: {
     sendToUser: vi.fn(),
@@ -19,8 +50,16 @@ vi.mock("../../utils/validators", () => ({
   isValidObjectId: vi.fn(() => true),
   isValidTaskStatus: vi.fn(() => ({ valid: true })),
   isValidTaskTitle: vi.fn(() => ({ valid: true })),
+  isValidChecklist: vi.fn(() => ({ valid: true })),
 }));
 
+// Nobody has muted notifications unless a test says otherwise
+beforeEach(() => {
+  (User.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+    select: vi.fn().mockResolvedValue([]),
+  });
+});
+
 function createMockRes() {
   const json = vi.fn();
   const status = vi.fn().mockReturnThis();
@@ -84,7 +123,11 @@ describe("taskController.getTask", () => {
     expect(Task.findOne).toHaveBeenCalledWith({
       _id: mockTask._id,
       tenantId: "tenant-1",
-      userId: "user-1",
+      $or: [
+        { userId: "user-1" },
+        { assignees: "user-1" },
+        { reviewerId: "user-1" },
+      ],
     });
     expect(json).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -126,6 +169,7 @@ describe("taskController.updateTask", () => {
     (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
     (isValidTaskStatus as ReturnType<typeof vi.fn>).mockReturnValue({ valid: true });
     (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(savedTask);
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue([]);
 
     const { res, json } = createMockRes();
     const req = {
@@ -141,9 +185,24 @@ describe("taskController.updateTask", () => {
 
     await updateTask(req, res, next);
 
-    expect(isValidTaskStatus).toHaveBeenCalledWith("completed");
+    expect(isValidTaskStatus).toHaveBeenCalledWith("completed", [
+      "todo",
+      "in-progress",
+      "in-review",
+      "completed",
+    ]);
     expect(savedTask.save).toHaveBeenCalled();
 
+    expect(TaskActivity.insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({
+        actorId: "admin-1",
+        action: "updated",
+        field: "status",
+        oldValue: "todo",
+        newValue: "completed",
+      }),
+    ]);
+
     // Assignee notification (userId != actor.userId)
     expect(notificationService.sendToUser).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -162,5 +221,1107 @@ describe("taskController.updateTask", () => {
     );
     expect(next).not.toHaveBeenCalled();
   });
+
+  it("puts the new owner in place of the old one among several assignees", async () => {
+    const task = {
+      _id: "507f1f77bcf86cd799439019",
+      tenantId: { toString: () => "tenant-1" },
+      userId: { toString: () => "user-a" },
+      assignees: ["user-a", "user-b"],
+      createdBy: { toString: () => "admin-1" },
+      title: "Shared task",
+      status: "todo",
+      blockedBy: [],
+      checklist: [],
+      attachments: [],
+      save: vi.fn().mockResolvedValue(undefined),
+    };
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+    (User.findById as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "user-c",
+      tenantId: { toString: () => "tenant-1" },
+    });
+
+    const { res } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { userId: "user-c" },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(task.userId).toBe("user-c");
+    expect(task.assignees).toEqual(["user-c", "user-b"]);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-c", type: "task_assigned" }),
+    );
+  });
+
+  function createTaskWithOpenChecklist() {
+    return {
+      _id: "507f1f77bcf86cd799439013",
+      tenantId: { toString: () => "tenant-1" },
+      userId: { toString: () => "user-1" },
+      createdBy: { toString: () => "user-1" },
+      title: "Parent task",
+      status: "in-progress",
+      checklist: [
+        { _id: "c1", title: "Step one", done: true },
+        { _id: "c2", title: "Step two", done: false },
+      ],
+      attachments: [],
+      save: vi.fn().mockResolvedValue(undefined),
+    };
+  }
+
+  it("refuses to complete a task while checklist items are open", async () => {
+    const task = createTaskWithOpenChecklist();
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+
+    const { res, status, json } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "completed", overrideChecklist: true },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(409);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      error:
+        "Complete all checklist items before marking this task as completed",
+    });
+    expect(task.save).not.toHaveBeenCalled();
+  });
+
+  it("lets an admin override open checklist items", async () => {
+    const task = createTaskWithOpenChecklist();
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+    const { res, json } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "completed", overrideChecklist: true },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(task.save).toHaveBeenCalled();
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        task: expect.objectContaining({
+          status: "completed",
+          progress: { total: 2, completed: 1, percent: 50 },
+        }),
+      }),
+    );
+  });
+
+  it("rejects status changes the tenant's transition rules do not allow", async () => {
+    const task = {
+      _id: "507f1f77bcf86cd799439017",
+      tenantId: "tenant-1",
+      userId: "user-1",
+      status: "todo",
+      checklist: [],
+      save: vi.fn(),
+    };
+    const org = {
+      workflow: [],
+      transitions: [
+        { from: "todo", to: "in-progress", roles: [] },
+        { from: "in-review", to: "completed", roles: ["tenantAdmin"] },
+      ],
+    };
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+    (Organization.findById as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve(org) }),
+    });
+
+    const { res, status, json } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "completed" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(409);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      error: 'Tasks cannot move from "To Do" to "Completed"',
+    });
+
+    task.status = "in-review";
+    await updateTask(req, res, vi.fn());
+
+    expect(json).toHaveBeenLastCalledWith({
+      success: false,
+      error: 'Only tenant admins can move tasks from "In Review" to "Completed"',
+    });
+    expect(task.save).not.toHaveBeenCalled();
+
+    (Organization.findById as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve(null) }),
+    });
+  });
 });
 
+describe("taskController.updateTask dependencies", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("refuses to start a task while a blocker is open", async () => {
+    const task = {
+      _id: "507f1f77bcf86cd799439014",
+      tenantId: "tenant-1",
+      userId: "user-1",
+      status: "todo",
+      blockedBy: ["507f1f77bcf86cd799439015"],
+      save: vi.fn(),
+    };
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([{ title: "Design schema" }]),
+    });
+
+    const { res, status, json } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "in-progress" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(409);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      error: 'Task is blocked by: "Design schema"',
+    });
+    expect(task.save).not.toHaveBeenCalled();
+  });
+
+  it("rejects dependencies that would create a cycle", async () => {
+    const task = {
+      _id: "507f1f77bcf86cd799439014",
+      tenantId: "tenant-1",
+      userId: "user-1",
+      status: "todo",
+      blockedBy: [],
+      save: vi.fn(),
+    };
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+    (Task.countDocuments as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(1);
+    // The proposed blocker is itself blocked by this task
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([
+        {
+          _id: "507f1f77bcf86cd799439015",
+          blockedBy: ["507f1f77bcf86cd799439014"],
+        },
+      ]),
+    });
+
+    const { res, status, json } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { blockedBy: ["507f1f77bcf86cd799439015"] },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(400);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      error: "These dependencies would create a cycle",
+    });
+  });
+
+  it("notifies dependents' assignees when a blocker completes", async () => {
+    const blocker = {
+      _id: "507f1f77bcf86cd799439015",
+      tenantId: "tenant-1",
+      userId: "user-1",
+      createdBy: "user-1",
+      title: "Design schema",
+      status: "in-review",
+      blockedBy: [],
+      checklist: [],
+      attachments: [],
+      save: vi.fn().mockResolvedValue(undefined),
+    };
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(blocker);
+    (Task.find as unknown as ReturnType<typeof vi.fn>)
+      // dependents of the completed task
+      .mockResolvedValueOnce([
+        {
+          _id: "507f1f77bcf86cd799439016",
+          tenantId: "tenant-1",
+          userId: "user-2",
+          title: "Build API",
+          blockedBy: ["507f1f77bcf86cd799439015"],
+        },
+      ])
+      // other blockers still open
+      .mockReturnValueOnce({ select: vi.fn().mockResolvedValue([]) });
+
+    const { res } = createMockRes();
+    const req = {
+      params: { id: blocker._id },
+      body: { status: "completed" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-2",
+        type: "task_unblocked",
+        title: "Task Unblocked",
+        taskId: "507f1f77bcf86cd799439016",
+      }),
+    );
+  });
+
+  function createReviewedTask(status: string) {
+    return {
+      _id: "507f1f77bcf86cd799439018",
+      tenantId: "tenant-1",
+      userId: "user-1",
+      assignees: ["user-1"],
+      reviewerId: { toString: () => "user-2" },
+      createdBy: "admin-1",
+      title: "Write docs",
+      status,
+      blockedBy: [],
+      checklist: [],
+      save: vi.fn().mockResolvedValue(undefined),
+    };
+  }
+
+  it("only lets the reviewer or an admin approve a task under review", async () => {
+    const task = createReviewedTask("in-review");
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+
+    const { res, json, status } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "completed" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(403);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      error: "Only the reviewer or an admin can approve this task",
+    });
+    expect(task.save).not.toHaveBeenCalled();
+  });
+
+  it("asks the reviewer for a review when the task moves into review", async () => {
+    const task = createReviewedTask("in-progress");
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+
+    const { res } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "in-review" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1", name: "Ana" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(task.save).toHaveBeenCalled();
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-2",
+        type: "review_requested",
+        message: 'Ana asked you to review "Write docs"',
+      }),
+    );
+    // The reviewer gets the review request instead of the status change
+    expect(notificationService.sendToUser).not.toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-2", type: "task_updated" }),
+    );
+  });
+
+  it("asks for a review in the status the tenant flagged for it", async () => {
+    (Organization.findById as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({
+        lean: () =>
+          Promise.resolve({
+            workflow: [
+              { key: "in-progress", label: "Doing", category: "open" },
+              { key: "qa", label: "QA", category: "open", review: true },
+              { key: "completed", label: "Done", category: "done" },
+            ],
+          }),
+      }),
+    });
+    const task = createReviewedTask("in-progress");
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(task);
+
+    const { res } = createMockRes();
+    const req = {
+      params: { id: task._id },
+      body: { status: "qa" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1", name: "Ana" },
+    } as unknown as AuthenticatedRequest;
+
+    await updateTask(req, res, vi.fn());
+
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-2", type: "review_requested" }),
+    );
+
+    (Organization.findById as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve(null) }),
+    });
+  });
+});
+
+describe("taskController.getTaskActivity", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 404 when the task is outside the actor's scope", async () => {
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    const { res, status } = createMockRes();
+    const req = {
+      params: { id: "507f1f77bcf86cd799439011" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await getTaskActivity(req, res, vi.fn());
+
+    expect(Task.findOne).toHaveBeenCalledWith({
+      _id: "507f1f77bcf86cd799439011",
+      tenantId: "tenant-1",
+      $or: [
+        { userId: "user-1" },
+        { assignees: "user-1" },
+        { reviewerId: "user-1" },
+      ],
+    });
+    expect(status).toHaveBeenCalledWith(404);
+    expect(TaskActivity.find).not.toHaveBeenCalled();
+  });
+
+  it("returns the history newest first with actor details", async () => {
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "507f1f77bcf86cd799439011",
+    });
+    const sort = vi.fn().mockReturnValue({
+      populate: vi.fn().mockReturnValue({
+        exec: vi.fn().mockResolvedValue([
+          {
+            _id: "a1",
+            taskId: "507f1f77bcf86cd799439011",
+            action: "updated",
+            field: "status",
+            oldValue: "completed",
+            newValue: "todo",
+            actorId: { _id: "u1", name: "Jane", email: "jane@example.com" },
+            createdAt: new Date("2026-01-02T00:00:00Z"),
+          },
+        ]),
+      }),
+    });
+    (TaskActivity.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      sort,
+    });
+
+    const { res, json } = createMockRes();
+    const req = {
+      params: { id: "507f1f77bcf86cd799439011" },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await getTaskActivity(req, res, vi.fn());
+
+    expect(sort).toHaveBeenCalledWith({ createdAt: -1 });
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        count: 1,
+        activities: [
+          expect.objectContaining({
+            field: "status",
+            oldValue: "completed",
+            newValue: "todo",
+            actor: { id: "u1", name: "Jane", email: "jane@example.com" },
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("names the users and labels of list changes", async () => {
+    const [u1, u2, tag] = [
+      "507f1f77bcf86cd799439031",
+      "507f1f77bcf86cd799439032",
+      "507f1f77bcf86cd799439033",
+    ];
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "507f1f77bcf86cd799439011",
+    });
+    (TaskActivity.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      sort: vi.fn().mockReturnValue({
+        populate: vi.fn().mockReturnValue({
+          exec: vi.fn().mockResolvedValue([
+            {
+              _id: "a1",
+              taskId: "507f1f77bcf86cd799439011",
+              action: "updated",
+              field: "assignees",
+              oldValue: u1,
+              newValue: `${u1},${u2}`,
+              actorId: { _id: "u1", name: "Jane" },
+              createdAt: new Date("2026-01-02T00:00:00Z"),
+            },
+            {
+              _id: "a2",
+              taskId: "507f1f77bcf86cd799439011",
+              action: "updated",
+              field: "labels",
+              oldValue: null,
+              newValue: tag,
+              actorId: { _id: "u1", name: "Jane" },
+              createdAt: new Date("2026-01-01T00:00:00Z"),
+            },
+          ]),
+        }),
+      }),
+    });
+    (User.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([
+        { _id: u1, name: "Jane" },
+        { _id: u2, name: "Omar" },
+      ]),
+    });
+    (Tag.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([{ _id: tag, name: "Backend" }]),
+    });
+
+    const { res, json } = createMockRes();
+    const req = {
+      params: { id: "507f1f77bcf86cd799439011" },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await getTaskActivity(req, res, vi.fn());
+
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        activities: [
+          expect.objectContaining({
+            field: "assignees",
+            oldLabel: "Jane",
+            newLabel: "Jane, Omar",
+          }),
+          expect.objectContaining({
+            field: "labels",
+            oldLabel: null,
+            newLabel: "Backend",
+          }),
+        ],
+      }),
+    );
+  });
+});
+
+describe("taskController.bulkTasks", () => {
+  function createBulkTask(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+      _id: { toString: () => id },
+      tenantId: { toString: () => "tenant-1" },
+      userId: { toString: () => "user-1" },
+      createdBy: { toString: () => "admin-1" },
+      title: `Task ${id}`,
+      status: "todo",
+      priority: "medium",
+      checklist: [],
+      blockedBy: [],
+      attachments: [],
+      save: vi.fn().mockResolvedValue(undefined),
+      ...overrides,
+    };
+  }
+
+  const session = {
+    withTransaction: vi.fn((fn: () => Promise<void>) => fn()),
+    endSession: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Drop one-off return values left over by earlier suites
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReset();
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReset();
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (isValidTaskStatus as ReturnType<typeof vi.fn>).mockReturnValue({
+      valid: true,
+    });
+    (Task.startSession as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(
+      session,
+    );
+  });
+
+  it("rejects reassignment by regular users", async () => {
+    const { res, status } = createMockRes();
+    const req = {
+      body: { ids: ["t1"], action: "update", patch: { userId: "user-2" } },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(403);
+    expect(Task.find).not.toHaveBeenCalled();
+  });
+
+  it("reports tasks outside the actor's scope per item", async () => {
+    const task = createBulkTask("t1");
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue([task]);
+
+    const { res, json } = createMockRes();
+    const req = {
+      body: { ids: ["t1", "t2"], action: "update", patch: { priority: "high" } },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    expect(Task.find).toHaveBeenCalledWith({
+      _id: { $in: ["t1", "t2"] },
+      tenantId: "tenant-1",
+      $or: [
+        { userId: "user-1" },
+        { assignees: "user-1" },
+        { reviewerId: "user-1" },
+      ],
+    });
+    expect(task.save).toHaveBeenCalledWith({ session });
+    expect(session.endSession).toHaveBeenCalled();
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        results: [
+          { id: "t1", success: true },
+          { id: "t2", success: false, error: "Task not found" },
+        ],
+      }),
+    );
+  });
+
+  it("skips tasks that fail the status checks", async () => {
+    const open = createBulkTask("t1", {
+      checklist: [{ _id: "c1", title: "Step", done: false }],
+    });
+    const ready = createBulkTask("t2");
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue([
+      open,
+      ready,
+    ]);
+
+    const { res, json } = createMockRes();
+    const req = {
+      body: { ids: ["t1", "t2"], action: "update", patch: { status: "completed" } },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    expect(open.save).not.toHaveBeenCalled();
+    expect(ready.save).toHaveBeenCalled();
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        results: [
+          {
+            id: "t1",
+            success: false,
+            error:
+              "Complete all checklist items before marking this task as completed",
+          },
+          { id: "t2", success: true },
+        ],
+      }),
+    );
+  });
+
+  it("sends one digest per affected user", async () => {
+    const tasks = ["t1", "t2", "t3"].map((id) => createBulkTask(id));
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(tasks);
+    (User.findById as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: { toString: () => "user-2" },
+      tenantId: { toString: () => "tenant-1" },
+    });
+
+    const { res } = createMockRes();
+    const req = {
+      body: {
+        ids: ["t1", "t2", "t3"],
+        action: "update",
+        patch: { userId: "user-2" },
+      },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    // The new and the previous assignee, but not the acting creator
+    expect(notificationService.sendToUser).toHaveBeenCalledTimes(2);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        type: "task_updated",
+        message: '3 tasks have been updated: "Task t1", "Task t2", "Task t3"',
+        metadata: expect.objectContaining({
+          taskIds: ["t1", "t2", "t3"],
+        }),
+      }),
+    );
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-2" }),
+    );
+  });
+
+  it("puts the new owner in place of the old one among several assignees", async () => {
+    const tasks: any[] = [
+      createBulkTask("t1", { assignees: ["user-1", "user-3"] }),
+      // Already a co-assignee: not listed twice
+      createBulkTask("t2", { assignees: ["user-1", "user-2"] }),
+    ];
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(tasks);
+    (User.findById as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "user-2",
+      tenantId: { toString: () => "tenant-1" },
+    });
+
+    const { res } = createMockRes();
+    const req = {
+      body: { ids: ["t1", "t2"], action: "update", patch: { userId: "user-2" } },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    expect(tasks[0].userId).toBe("user-2");
+    expect(tasks[0].assignees).toEqual(["user-2", "user-3"]);
+    expect(tasks[1].assignees).toEqual(["user-2"]);
+  });
+
+  it("writes without a transaction on a standalone server", async () => {
+    const tasks = ["t1", "t2"].map((id) => createBulkTask(id));
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(tasks);
+    session.withTransaction.mockRejectedValueOnce(
+      Object.assign(
+        new Error(
+          "Transaction numbers are only allowed on a replica set member or mongos",
+        ),
+        { code: 20 },
+      ),
+    );
+
+    const { res, json } = createMockRes();
+    const req = {
+      body: { ids: ["t1", "t2"], action: "update", patch: { priority: "high" } },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    for (const task of tasks) {
+      expect(task.save).toHaveBeenCalledWith({ session: undefined });
+    }
+    expect(session.endSession).toHaveBeenCalled();
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true }),
+    );
+  });
+
+  it("moves tasks to the trash in one transaction", async () => {
+    const tasks = ["t1", "t2"].map((id) => createBulkTask(id));
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(tasks);
+
+    const { res, json } = createMockRes();
+    const req = {
+      body: { ids: ["t1", "t2"], action: "delete" },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await bulkTasks(req, res, vi.fn());
+
+    const deletedIds = tasks.map((task) => task._id);
+    expect(session.withTransaction).toHaveBeenCalledTimes(1);
+    expect(Task.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: deletedIds } },
+      { $set: { deletedAt: expect.any(Date), deletedBy: "admin-1" } },
+      { session },
+    );
+    expect(Task.deleteMany).not.toHaveBeenCalled();
+    expect(notificationService.sendToUser).toHaveBeenCalledTimes(1);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", type: "task_deleted" }),
+    );
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "2 of 2 task(s) deleted" }),
+    );
+  });
+});
+
+describe("taskController.watchTask", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+  });
+
+  it("adds the actor to the watchers of a task in scope", async () => {
+    (Task.findOneAndUpdate as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      watchers: [{ toString: () => "user-1" }],
+    });
+
+    const { res, json } = createMockRes();
+    const req = {
+      params: { id: "507f1f77bcf86cd799439011" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await watchTask(req, res, vi.fn());
+
+    expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: "507f1f77bcf86cd799439011",
+        tenantId: "tenant-1",
+        $or: [
+          { userId: "user-1" },
+          { assignees: "user-1" },
+          { reviewerId: "user-1" },
+        ],
+      },
+      { $addToSet: { watchers: "user-1" } },
+      { new: true, timestamps: false },
+    );
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({ watching: true, watchers: ["user-1"] }),
+    );
+  });
+});
+
+describe("taskController.moveTask", () => {
+  const req = {
+    params: { id: "task-2" },
+    body: { afterId: "task-1", beforeId: "task-3" },
+    user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "admin-1" },
+  } as unknown as AuthenticatedRequest;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "task-2",
+      tenantId: "tenant-1",
+      rank: 5000,
+    });
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([
+        { _id: "task-1", rank: 1000 },
+        { _id: "task-3", rank: 2000 },
+      ]),
+    });
+    // The middle of the gap
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it("ranks the task between its new neighbours", async () => {
+    (Task.findOneAndUpdate as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "task-2",
+      title: "Moved",
+      rank: 1500,
+    });
+    const { res, json } = createMockRes();
+
+    await moveTask(req, res, vi.fn());
+
+    expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: "task-2", tenantId: "tenant-1", rank: 5000 },
+      { $set: { rank: 1500 } },
+      { new: true, timestamps: false },
+    );
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        task: expect.objectContaining({ id: "task-2", rank: 1500 }),
+      }),
+    );
+  });
+
+  it("ranks the tenant's tasks first when the task has no stored rank", async () => {
+    (Task.findOne as unknown as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({ _id: "task-2", tenantId: "tenant-1" })
+      .mockResolvedValueOnce({
+        _id: "task-2",
+        tenantId: "tenant-1",
+        rank: 3072,
+      });
+    const neighbours = [
+      { _id: "task-1", rank: 1024 },
+      { _id: "task-3", rank: 2048 },
+    ];
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue(neighbours),
+      sort: vi.fn().mockReturnValue({
+        select: vi.fn().mockResolvedValue([]),
+      }),
+    });
+    (Task.findOneAndUpdate as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "task-2",
+      rank: 1536,
+    });
+    const { res } = createMockRes();
+
+    await moveTask(req, res, vi.fn());
+
+    expect(Task.find).toHaveBeenCalledWith({ tenantId: "tenant-1" });
+    expect(Task.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: "task-2", tenantId: "tenant-1", rank: 3072 },
+      { $set: { rank: 1536 } },
+      { new: true, timestamps: false },
+    );
+  });
+
+  it("refuses a move when the task was moved in the meantime", async () => {
+    (Task.findOneAndUpdate as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    const { res, status, json } = createMockRes();
+
+    await moveTask(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(409);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      error: "The task was moved by someone else, reload and try again",
+    });
+  });
+});
+
+describe("taskController.createTaskFromTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockReturnValue(true);
+    (isValidTaskTitle as ReturnType<typeof vi.fn>).mockReturnValue({ valid: true });
+    (User.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([]),
+    });
+    (Task as unknown as ReturnType<typeof vi.fn>).mockImplementation(function (
+      data: Record<string, unknown>,
+    ) {
+      return { ...data, _id: "task-1", save: vi.fn() };
+    });
+  });
+
+  it("fills in the variables and turns the subtasks into a checklist", async () => {
+    (TaskTemplate.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "template-1",
+      tenantId: "tenant-1",
+      titlePattern: "Release {{version}} - {{sprint}}",
+      description: "Cut on {{date}} by {{assignee}}",
+      priority: "high",
+      assigneeRole: "creator",
+      dueOffsetDays: 3,
+      subtasks: ["Tag {{version}}", "Publish notes"],
+    });
+    (Sprint.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "sprint-1",
+      name: "Sprint 12",
+    });
+    (User.findById as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "user-1",
+      name: "Asha",
+    });
+
+    const { res, status, json } = createMockRes();
+    const req = {
+      params: { templateId: "507f1f77bcf86cd799439011" },
+      body: { sprintId: "sprint-1", variables: { version: "2.4", date: "x" } },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await createTaskFromTemplate(req, res, vi.fn());
+
+    expect(TaskTemplate.findOne).toHaveBeenCalledWith({
+      _id: "507f1f77bcf86cd799439011",
+      tenantId: "tenant-1",
+    });
+    expect(status).toHaveBeenCalledWith(201);
+    const created = (json as ReturnType<typeof vi.fn>).mock.calls[0][0].task;
+    expect(created.title).toBe("Release 2.4 - Sprint 12");
+    // Built-in variables cannot be overridden by the client
+    expect(created.description).toMatch(/^Cut on \d{4}-\d{2}-\d{2} by Asha$/);
+    expect(created.priority).toBe("high");
+    expect(created.sprintId).toBe("sprint-1");
+    expect(created.assignees).toEqual(["user-1"]);
+    expect(created.checklist.map((item: { title: string }) => item.title)).toEqual([
+      "Tag 2.4",
+      "Publish notes",
+    ]);
+  });
+
+  it("does not let members assign template tasks to others", async () => {
+    (TaskTemplate.findOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      _id: "template-1",
+      tenantId: "tenant-1",
+      titlePattern: "Onboard {{assignee}}",
+      assigneeRole: "creator",
+      subtasks: [],
+    });
+
+    const { res, status } = createMockRes();
+    const req = {
+      params: { templateId: "507f1f77bcf86cd799439011" },
+      body: { userId: "user-2" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await createTaskFromTemplate(req, res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(403);
+    expect(Task).not.toHaveBeenCalled();
+  });
+});
+
+describe("taskController.exportTasks", () => {
+  const tasks = [
+    {
+      _id: "task-1",
+      title: "Plan, then ship",
+      description: "",
+      status: "todo",
+      priority: "high",
+      userId: "user-1",
+      assignees: ["user-1"],
+      labels: [],
+      checklist: [],
+      dueDate: new Date("2026-02-28T18:30:00.000Z"),
+      createdAt: new Date("2026-02-01T00:00:00.000Z"),
+      updatedAt: new Date("2026-02-02T00:00:00.000Z"),
+    },
+  ];
+
+  function createStreamRes() {
+    const chunks: string[] = [];
+    const res = {
+      setHeader: vi.fn(),
+      write: vi.fn((chunk: string) => chunks.push(chunk) > 0),
+      end: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+    return { res: res as any, body: () => chunks.join("") };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as ReturnType<typeof vi.fn>).mockImplementation(Boolean);
+    for (const model of [User, Sprint, Tag]) {
+      (model.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+        select: vi.fn().mockResolvedValue(
+          model === User ? [{ _id: "user-1", email: "me@acme.test" }] : [],
+        ),
+      });
+    }
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      sort: vi.fn().mockReturnValue({
+        cursor: () => ({
+          async *[Symbol.asyncIterator]() {
+            yield* tasks;
+          },
+        }),
+      }),
+    });
+  });
+
+  it("streams every task in scope as CSV without a page limit", async () => {
+    const { res, body } = createStreamRes();
+    const req = {
+      query: { format: "csv", priority: "high" },
+      user: { role: "user", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await exportTasks(req, res, vi.fn());
+
+    expect(Task.find).toHaveBeenCalledWith({
+      tenantId: "tenant-1",
+      priority: "high",
+      $or: [
+        { userId: "user-1" },
+        { assignees: "user-1" },
+        { reviewerId: "user-1" },
+      ],
+    });
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "Content-Type",
+      "text/csv; charset=utf-8",
+    );
+    const [header, row] = body().split("\r\n");
+    expect(header).toMatch(/^id,title,description,status,priority,assignee,/);
+    expect(row).toMatch(
+      /^task-1,"Plan, then ship",,To Do,high,me@acme.test,me@acme.test,,,,2026-03-01,/,
+    );
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it("exports tasks with a due date as all-day events", async () => {
+    const { res, body } = createStreamRes();
+    const req = {
+      query: { format: "ics" },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await exportTasks(req, res, vi.fn());
+
+    expect(Task.find).toHaveBeenCalledWith({
+      tenantId: "tenant-1",
+      dueDate: { $ne: null },
+    });
+    expect(body()).toMatch(/^BEGIN:VCALENDAR\r\n/);
+    expect(body()).toContain("DTSTART;VALUE=DATE:20260301\r\n");
+    expect(body()).toContain("SUMMARY:Plan\\, then ship\r\n");
+    expect(body()).toMatch(/END:VCALENDAR\r\n$/);
+  });
+
+  it("rejects unknown formats", async () => {
+    const { res } = createStreamRes();
+    const req = {
+      query: { format: "xlsx" },
+      user: { role: "tenantAdmin", tenantId: "tenant-1", userId: "user-1" },
+    } as unknown as AuthenticatedRequest;
+
+    await exportTasks(req, res, vi.fn());
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(Task.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import fs from "fs/promises";
+import { importTasks } from "../taskImportController";
+import Task from "../../models/Task";
+import User from "../../models/User";
+import { notificationService } from "../../notification";
+
+// Mocks
+vi.mock("fs/promises", () => ({
+  default: { readFile: vi.fn(), unlink: vi.fn(() => Promise.resolve()) },
+}));
+vi.mock("../../models/Task");
+vi.mock("../../models/User");
+vi.mock("../../models/Sprint");
+vi.mock("../../models/TaskActivity");
+vi.mock("../../utils/workflow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../utils/workflow")>()),
+  getTenantWorkflow: vi.fn(
+    async () => (await import("../../models/Organization")).DEFAULT_WORKFLOW,
+  ),
+}));
+vi.mock("../../notification", () => ({
+  notificationService: { sendToUser: vi.fn() },
+}));
+
+const CSV = [
+  "Title,Status,Owner",
+  "Set up CI,To Do,dev@acme.test",
+  ",Done,ghost@acme.test",
+].join("\n");
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+function createReq(body: Record<string, unknown>, content = CSV) {
+  (fs.readFile as any).mockResolvedValue(content);
+  return {
+    user: { role: "tenantAdmin", tenantId: "t1", userId: "u1" },
+    file: { path: "/tmp/upload-1", originalname: "backlog.csv" },
+    body,
+  } as any;
+}
+
+describe("taskImportController.importTasks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (User.find as any).mockImplementation((filter: any) => ({
+      // Notification preferences lookup
+      select: vi
+        .fn()
+        .mockResolvedValue(
+          filter.email
+            ? [{ _id: { toString: () => "u2" }, email: "dev@acme.test" }]
+            : [],
+        ),
+    }));
+  });
+
+  it("reports row errors on a dry run without creating tasks", async () => {
+    const { res, json } = createMockRes();
+
+    await importTasks(createReq({ dryRun: "true" }), res, vi.fn());
+
+    expect(User.find).toHaveBeenCalledWith({
+      tenantId: "t1",
+      email: { $in: ["dev@acme.test", "ghost@acme.test"] },
+    });
+    expect(Task.insertMany).not.toHaveBeenCalled();
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dryRun: true,
+        columns: ["Title", "Status", "Owner"],
+        mapping: { title: "Title", status: "Status", assignee: "Owner" },
+        total: 2,
+        valid: 1,
+        errors: [
+          {
+            row: 2,
+            errors: [
+              "Title is required and must be a string",
+              "Status must be one of: todo, in-progress, in-review, completed",
+              "No user with email ghost@acme.test in this organization",
+            ],
+          },
+        ],
+      }),
+    );
+    expect(fs.unlink).toHaveBeenCalledWith("/tmp/upload-1");
+  });
+
+  it("refuses to import while rows have errors", async () => {
+    const { res, status } = createMockRes();
+
+    await importTasks(createReq({}), res, vi.fn());
+
+    expect(status).toHaveBeenCalledWith(400);
+    expect(Task.insertMany).not.toHaveBeenCalled();
+  });
+
+  it("creates the tasks together and sends one summary notification", async () => {
+    const { res, status, json } = createMockRes();
+    (Task.insertMany as any).mockImplementation(async (docs: any[]) =>
+      docs.map((doc, index) => ({ ...doc, _id: `task-${index}` })),
+    );
+    const req = createReq(
+      { mapping: JSON.stringify({ title: "Name", assignee: "" }) },
+      "Name,Owner\nOne,dev@acme.test\nTwo,\n",
+    );
+
+    await importTasks(req, res, vi.fn());
+
+    expect(Task.insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({
+        title: "One",
+        status: "todo",
+        priority: "medium",
+        // The owner column is not mapped, so the importer gets the task
+        userId: "u1",
+        assignees: ["u1"],
+        tenantId: "t1",
+        rank: expect.any(Number),
+      }),
+      expect.objectContaining({ title: "Two", userId: "u1" }),
+    ]);
+    // Imported tasks keep the order of the file
+    const [[docs]] = (Task.insertMany as any).mock.calls;
+    expect(docs[1].rank).toBe(docs[0].rank + 1);
+    expect(notificationService.sendToUser).toHaveBeenCalledTimes(1);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "u1",
+        type: "tasks_imported",
+        message: '2 tasks were imported from "backlog.csv"',
+      }),
+    );
+    expect(status).toHaveBeenCalledWith(201);
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({ count: 2, taskIds: ["task-0", "task-1"] }),
+    );
+  });
+});
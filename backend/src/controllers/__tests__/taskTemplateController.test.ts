@@ -0,0 +1,125 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { createTemplate, deleteTemplate } from "../taskTemplateController";
+import TaskTemplate from "../../models/TaskTemplate";
+import { isValidObjectId } from "../../utils/validators";
+
+// Mocks
+vi.mock("../../models/TaskTemplate", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/TaskTemplate")>()),
+  default: Object.assign(vi.fn(), {
+    findOne: vi.fn(),
+    findOneAndDelete: vi.fn(),
+  }),
+}));
+vi.mock("../../utils/validators");
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+describe("taskTemplateController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as any).mockReturnValue(true);
+  });
+
+  describe("createTemplate", () => {
+    it("checks for permissions", async () => {
+      const { res, status } = createMockRes();
+      const req = {
+        user: { role: "user", tenantId: "t1" },
+        body: { name: "Release", titlePattern: "Release {{date}}" },
+      } as any;
+
+      await createTemplate(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(403);
+    });
+
+    it("validates the due offset and subtasks", async () => {
+      const { res, status, json } = createMockRes();
+      const req = {
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "u1" },
+        body: {
+          name: "Release",
+          titlePattern: "Release {{date}}",
+          dueOffsetDays: 1.5,
+        },
+      } as any;
+
+      await createTemplate(req, res, vi.fn());
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(json).toHaveBeenCalledWith({
+        success: false,
+        error: "Due offset must be a whole number of days between 0 and 365",
+      });
+
+      req.body = { ...req.body, dueOffsetDays: 2, subtasks: ["Tag", " "] };
+      await createTemplate(req, res, vi.fn());
+
+      expect(json).toHaveBeenLastCalledWith({
+        success: false,
+        error: "Subtasks need a title",
+      });
+    });
+
+    it("saves a template for the actor's tenant", async () => {
+      const { res, status, json } = createMockRes();
+      const save = vi.fn();
+      (TaskTemplate as any).mockImplementation(function (
+        data: Record<string, unknown>,
+      ) {
+        return { ...data, _id: "tpl1", subtasks: [], save };
+      });
+      (TaskTemplate.findOne as any).mockReturnValue({
+        collation: vi.fn().mockResolvedValue(null),
+      });
+      const req = {
+        user: { role: "tenantAdmin", tenantId: "t1", userId: "u1" },
+        body: {
+          name: " Onboarding ",
+          titlePattern: "Onboard {{assignee}}",
+          assigneeRole: "tenantAdmin",
+          subtasks: [" Create accounts ", "Share handbook"],
+        },
+      } as any;
+
+      await createTemplate(req, res, vi.fn());
+
+      expect(save).toHaveBeenCalled();
+      expect(status).toHaveBeenCalledWith(201);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          template: expect.objectContaining({
+            name: "Onboarding",
+            assigneeRole: "tenantAdmin",
+            subtasks: ["Create accounts", "Share handbook"],
+            tenantId: "t1",
+          }),
+        }),
+      );
+    });
+  });
+
+  describe("deleteTemplate", () => {
+    it("only deletes templates of the actor's tenant", async () => {
+      const { res, status } = createMockRes();
+      (TaskTemplate.findOneAndDelete as any).mockResolvedValue(null);
+      const req = {
+        user: { role: "tenantAdmin", tenantId: "t1" },
+        params: { id: "tpl1" },
+      } as any;
+
+      await deleteTemplate(req, res, vi.fn());
+
+      expect(TaskTemplate.findOneAndDelete).toHaveBeenCalledWith({
+        _id: "tpl1",
+        tenantId: "t1",
+      });
+      expect(status).toHaveBeenCalledWith(404);
+    });
+  });
+});
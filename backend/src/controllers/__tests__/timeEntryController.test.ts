@@ -0,0 +1,222 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import {
+  getTimeEntries,
+  logTime,
+  startTimer,
+  stopTimer,
+} from "../timeEntryController";
+import TimeEntry from "../../models/TimeEntry";
+import Task from "../../models/Task";
+
+vi.mock("../../models/TimeEntry");
+vi.mock("../../models/Task");
+
+const TASK_ID = "507f1f77bcf86cd799439011";
+const ENTRY_ID = "507f1f77bcf86cd799439033";
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+function createMockTask(overrides: Record<string, any> = {}) {
+  return {
+    _id: { toString: () => TASK_ID },
+    tenantId: { toString: () => "tenant-1" },
+    userId: { toString: () => "user-1" },
+    sprintId: null,
+    estimateMinutes: 120,
+    title: "Task A",
+    ...overrides,
+  };
+}
+
+function createMockEntry(overrides: Record<string, any> = {}) {
+  return {
+    _id: { toString: () => ENTRY_ID },
+    taskId: { toString: () => TASK_ID },
+    userId: { toString: () => "user-1" },
+    startedAt: new Date("2026-03-02T09:00:00Z"),
+    endedAt: new Date("2026-03-02T10:30:00Z"),
+    durationMinutes: 90,
+    note: "",
+    save: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+const member = { role: "user", tenantId: "tenant-1", userId: "user-1" };
+
+describe("timeEntryController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe("getTimeEntries", () => {
+    it("totals logged time against the estimate", async () => {
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      (TimeEntry.find as any).mockReturnValue({
+        sort: vi.fn().mockReturnValue({
+          populate: vi.fn().mockReturnValue({
+            exec: vi.fn().mockResolvedValue([
+              createMockEntry({
+                userId: { _id: "user-1", name: "Asha", email: "a@x.com" },
+              }),
+              createMockEntry({
+                userId: { _id: "user-2", name: "Ravi", email: "r@x.com" },
+                durationMinutes: 15,
+              }),
+            ]),
+          }),
+        }),
+      });
+      (TimeEntry.findOne as any).mockResolvedValue(null);
+      const { res, json } = createMockRes();
+
+      await getTimeEntries(
+        { params: { id: TASK_ID }, user: member } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(Task.findOne).toHaveBeenCalledWith({
+        _id: TASK_ID,
+        tenantId: "tenant-1",
+        $or: [
+          { userId: "user-1" },
+          { assignees: "user-1" },
+          { reviewerId: "user-1" },
+        ],
+      });
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          count: 2,
+          totals: {
+            totalMinutes: 105,
+            estimateMinutes: 120,
+            remainingMinutes: 15,
+            byUser: [
+              { userId: "user-1", name: "Asha", minutes: 90 },
+              { userId: "user-2", name: "Ravi", minutes: 15 },
+            ],
+          },
+          runningTimer: null,
+        }),
+      );
+    });
+  });
+
+  describe("logTime", () => {
+    it("rejects entries without a start time or duration", async () => {
+      const { res, status } = createMockRes();
+
+      await logTime(
+        { params: { id: TASK_ID }, user: member, body: {} } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(status).toHaveBeenCalledWith(400);
+      expect(TimeEntry).not.toHaveBeenCalled();
+    });
+
+    it("logs a duration ending at the given time", async () => {
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      (TimeEntry as any).mockImplementation((data: any) =>
+        createMockEntry(data),
+      );
+      const { res, status } = createMockRes();
+
+      await logTime(
+        {
+          params: { id: TASK_ID },
+          user: member,
+          body: {
+            durationMinutes: 45,
+            endedAt: "2026-03-02T10:00:00Z",
+            note: " Review ",
+          },
+        } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(TimeEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-1",
+          startedAt: new Date("2026-03-02T09:15:00Z"),
+          endedAt: new Date("2026-03-02T10:00:00Z"),
+          durationMinutes: 45,
+          note: "Review",
+        }),
+      );
+      expect(status).toHaveBeenCalledWith(201);
+    });
+  });
+
+  describe("startTimer", () => {
+    it("allows only one running timer per user", async () => {
+      (Task.findOne as any).mockResolvedValue(createMockTask());
+      (TimeEntry.findOne as any).mockResolvedValue(
+        createMockEntry({
+          taskId: { toString: () => "507f1f77bcf86cd799439099" },
+          endedAt: null,
+        }),
+      );
+      const { res, status, json } = createMockRes();
+
+      await startTimer(
+        { params: { id: TASK_ID }, user: member, body: {} } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(TimeEntry.findOne).toHaveBeenCalledWith({
+        userId: "user-1",
+        endedAt: null,
+      });
+      expect(status).toHaveBeenCalledWith(409);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          runningTimer: expect.objectContaining({
+            taskId: "507f1f77bcf86cd799439099",
+          }),
+        }),
+      );
+      expect(TimeEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stopTimer", () => {
+    it("records the elapsed minutes", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-03-02T09:50:00Z"));
+      const entry = createMockEntry({
+        endedAt: null,
+        durationMinutes: 0,
+      });
+      (TimeEntry.findOne as any).mockResolvedValue(entry);
+      const { res, json } = createMockRes();
+
+      await stopTimer(
+        { params: { id: TASK_ID }, user: member } as any,
+        res,
+        vi.fn(),
+      );
+
+      expect(TimeEntry.findOne).toHaveBeenCalledWith({
+        taskId: TASK_ID,
+        userId: "user-1",
+        endedAt: null,
+      });
+      expect(entry.endedAt).toEqual(new Date("2026-03-02T09:50:00Z"));
+      expect(entry.durationMinutes).toBe(50);
+      expect(entry.save).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Timer stopped" }),
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { vi, describe, it, expect, beforeEach } from "vitest";
+import { getTrash, restoreTask, restoreSprint } from "../trashController";
+import Task from "../../models/Task";
+import Sprint from "../../models/Sprint";
+import { isValidObjectId } from "../../utils/validators";
+
+vi.mock("../../models/Task");
+vi.mock("../../models/Sprint");
+vi.mock("../../models/TaskActivity");
+vi.mock("../../models/User");
+vi.mock("../../utils/validators");
+vi.mock("../../notification", () => ({
+  notificationService: {
+    sendToUser: vi.fn(),
+  },
+}));
+
+function createMockRes() {
+  const json = vi.fn();
+  const status = vi.fn().mockReturnThis();
+  return { res: { json, status } as any, json, status };
+}
+
+const member = { role: "user", tenantId: "t1", userId: "user-1" };
+const admin = { role: "tenantAdmin", tenantId: "t1", userId: "admin-1" };
+
+describe("trashController", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isValidObjectId as any).mockReturnValue(true);
+  });
+
+  describe("getTrash", () => {
+    it("only lists the tasks a member deleted", async () => {
+      const sort = vi.fn().mockReturnValue({ populate: vi.fn().mockResolvedValue([]) });
+      (Task.find as any).mockReturnValue({ sort });
+      const { res, json } = createMockRes();
+
+      await getTrash({ query: {}, user: member } as any, res, vi.fn());
+
+      expect(Task.find).toHaveBeenCalledWith({
+        deletedAt: { $ne: null },
+        tenantId: "t1",
+        deletedBy: "user-1",
+      });
+      expect(Sprint.find).not.toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, tasks: [], sprints: [] })
+      );
+    });
+  });
+
+  describe("restoreTask", () => {
+    it("hands the task back to a sprint that is itself in the trash", async () => {
+      const task: any = {
+        _id: "task-1",
+        tenantId: "t1",
+        userId: "user-1",
+        title: "Write docs",
+        status: "todo",
+        sprintId: "s1",
+        deletedAt: new Date(),
+        deletedBy: "user-1",
+        save: vi.fn(),
+      };
+      (Task.findOne as any).mockResolvedValue(task);
+      (Sprint.exists as any).mockResolvedValue({ _id: "s1" });
+      const { res, json } = createMockRes();
+
+      await restoreTask(
+        { params: { id: "task-1" }, user: member } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(Task.findOne).toHaveBeenCalledWith({
+        _id: "task-1",
+        deletedAt: { $ne: null },
+        tenantId: "t1",
+        deletedBy: "user-1",
+      });
+      expect(Sprint.updateOne).toHaveBeenCalledWith(
+        { _id: "s1", deletedAt: { $ne: null } },
+        { $addToSet: { detachedTaskIds: "task-1" } }
+      );
+      expect(task.sprintId).toBeNull();
+      expect(task.deletedAt).toBeNull();
+      expect(task.save).toHaveBeenCalled();
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Task restored successfully" })
+      );
+    });
+
+    it("returns 404 for tasks that are not in the trash", async () => {
+      (Task.findOne as any).mockResolvedValue(null);
+      const { res, status } = createMockRes();
+
+      await restoreTask(
+        { params: { id: "task-1" }, user: admin } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe("restoreSprint", () => {
+    it("checks for permissions", async () => {
+      const { res, status } = createMockRes();
+
+      await restoreSprint(
+        { params: { id: "s1" }, user: member } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(status).toHaveBeenCalledWith(403);
+    });
+
+    it("puts the detached tasks back in the sprint", async () => {
+      const sprint: any = {
+        _id: "s1",
+        tenantId: "t1",
+        name: "Sprint 1",
+        detachedTaskIds: ["task-1", "task-2"],
+        deletedAt: new Date(),
+        save: vi.fn(),
+      };
+      (Sprint.findOne as any).mockResolvedValue(sprint);
+      const setOptions = vi.fn().mockResolvedValue({ modifiedCount: 2 });
+      (Task.updateMany as any).mockReturnValue({ setOptions });
+      const { res, json } = createMockRes();
+
+      await restoreSprint(
+        { params: { id: "s1" }, user: admin } as any,
+        res,
+        vi.fn()
+      );
+
+      expect(Task.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: ["task-1", "task-2"] }, sprintId: null },
+        { $set: { sprintId: "s1" } }
+      );
+      expect(setOptions).toHaveBeenCalledWith({ withDeleted: true });
+      expect(sprint.deletedAt).toBeNull();
+      expect(sprint.detachedTaskIds).toEqual([]);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ restoredTaskCount: 2 })
+      );
+    });
+  });
+});
@@ -2,7 +2,30 @@ import { Response, NextFunction } from "express";
 import mongoose from "mongoose";
 import Task from "../models/Task";
 import User from "../models/User";
+import TimeEntry from "../models/TimeEntry";
+import Sprint from "../models/Sprint";
+import SprintSnapshot from "../models/SprintSnapshot";
 import { AuthenticatedRequest } from "../middleware/auth";
+import { getTenantWorkflow, getDoneStatuses } from "../utils/workflow";
+import { isValidObjectId } from "../utils/validators";
+import { parseDateIST } from "../utils/dateUtils";
+import { BurndownMetric, buildBurndown } from "../utils/sprintSnapshots";
+import { summarizeWork } from "../utils/sprintLifecycle";
+import {
+  DEFAULT_VELOCITY_SPRINTS,
+  MAX_VELOCITY_SPRINTS,
+  averageVelocity,
+  buildThroughput,
+  capacityFactor,
+  exceedsForecast,
+  scaleWork,
+} from "../utils/velocity";
+
+// `metric` query values, estimates are charted in minutes
+const BURNDOWN_METRIC_PARAMS: Record<string, BurndownMetric> = {
+  tasks: "tasks",
+  estimate: "estimateMinutes",
+};
 
 /**
  * Get overall task statistics (Completion, Status counts)
@@ -17,6 +40,8 @@ export async function getTaskStats(
     const { startDate, endDate } = req.query;
 
     const tenantId = new mongoose.Types.ObjectId(actor.tenantId);
+    const workflow = await getTenantWorkflow(actor.tenantId);
+    const doneStatuses = getDoneStatuses(workflow);
 
     // Base match for tenant
     const matchStage: any = { tenantId };
@@ -38,25 +63,25 @@ export async function getTaskStats(
       },
     ]);
 
-    // Format status stats
-    const statusCounts = {
-      todo: 0,
-      "in-progress": 0,
-      "in-review": 0,
-      completed: 0,
-    };
+    // Format status stats, one entry per workflow column in board order
+    const statusCounts: Record<string, number> = {};
+    workflow.forEach((s) => {
+      statusCounts[s.key] = 0;
+    });
     statusStats.forEach((s) => {
       if (s._id in statusCounts) {
-        statusCounts[s._id as keyof typeof statusCounts] = s.count;
+        statusCounts[s._id] = s.count;
       }
     });
 
-    // 2. Completion Rate (Tasks completed vs Total)
+    // 2. Completion Rate (Tasks in a done status vs Total)
     const totalTasks = Object.values(statusCounts).reduce((a, b) => a + b, 0);
+    const doneTasks = doneStatuses.reduce(
+      (sum, key) => sum + statusCounts[key],
+      0,
+    );
     const completionRate =
-      totalTasks > 0
-        ? Math.round((statusCounts.completed / totalTasks) * 100)
-        : 0;
+      totalTasks > 0 ? Math.round((doneTasks / totalTasks) * 100) : 0;
 
     // 3. Due Date Stats (Overdue vs Due Soon)
     const now = new Date();
@@ -67,7 +92,7 @@ export async function getTaskStats(
       {
         $match: {
           ...matchStage,
-          status: { $ne: "completed" },
+          status: { $nin: doneStatuses },
           dueDate: { $ne: null },
         },
       },
@@ -93,16 +118,61 @@ export async function getTaskStats(
 
     const dueData = dueStats[0] || { overdue: 0, dueSoon: 0 };
 
+    // 4. Checklist Progress (items done across all tasks with a checklist)
+    const checklistStats = await Task.aggregate([
+      { $match: { ...matchStage, "checklist.0": { $exists: true } } },
+      {
+        $project: {
+          total: { $size: "$checklist" },
+          completed: {
+            $size: {
+              $filter: {
+                input: "$checklist",
+                as: "item",
+                cond: { $eq: ["$$item.done", true] },
+              },
+            },
+          },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          tasks: { $sum: 1 },
+          total: { $sum: "$total" },
+          completed: { $sum: "$completed" },
+        },
+      },
+    ]);
+
+    const checklistData = checklistStats[0] || {
+      tasks: 0,
+      total: 0,
+      completed: 0,
+    };
+
     res.json({
       success: true,
       data: {
         total: totalTasks,
         completionRate,
         statusCounts,
+        workflow,
         dueStats: {
           overdue: dueData.overdue,
           dueSoon: dueData.dueSoon,
         },
+        checklistProgress: {
+          tasks: checklistData.tasks,
+          totalItems: checklistData.total,
+          completedItems: checklistData.completed,
+          percent:
+            checklistData.total > 0
+              ? Math.round(
+                  (checklistData.completed / checklistData.total) * 100,
+                )
+              : 0,
+        },
       },
     });
   } catch (err) {
@@ -111,7 +181,8 @@ export async function getTaskStats(
 }
 
 /**
- * Get workload distribution (Tasks per user)
+ * Get workload distribution (Tasks per user). A task counts towards each of
+ * its assignees; open tasks a user reviews are counted separately.
  */
 export async function getWorkloadStats(
   req: AuthenticatedRequest,
@@ -121,24 +192,95 @@ export async function getWorkloadStats(
   try {
     const actor = req.user!;
     const tenantId = new mongoose.Types.ObjectId(actor.tenantId);
+    const doneStatuses = getDoneStatuses(
+      await getTenantWorkflow(actor.tenantId),
+    );
 
     const workload = await Task.aggregate([
       { $match: { tenantId } },
+      // One row per person on the task; tasks saved before `assignees`
+      // existed only have their owner
+      {
+        $project: {
+          status: 1,
+          people: {
+            $concatArrays: [
+              {
+                $map: {
+                  input: {
+                    $cond: [
+                      { $gt: [{ $size: { $ifNull: ["$assignees", []] } }, 0] },
+                      "$assignees",
+                      ["$userId"],
+                    ],
+                  },
+                  as: "assignee",
+                  in: { userId: "$$assignee", reviewing: false },
+                },
+              },
+              {
+                $cond: [
+                  { $ifNull: ["$reviewerId", false] },
+                  [{ userId: "$reviewerId", reviewing: true }],
+                  [],
+                ],
+              },
+            ],
+          },
+        },
+      },
+      { $unwind: "$people" },
+      // Count per user and status first, so any workflow column works
       {
         $group: {
-          _id: "$userId",
-          total: { $sum: 1 },
-          completed: {
-            $sum: { $cond: [{ $eq: ["$status", "completed"] }, 1, 0] },
+          _id: {
+            userId: "$people.userId",
+            status: "$status",
+            reviewing: "$people.reviewing",
+          },
+          count: { $sum: 1 },
+        },
+      },
+      {
+        $group: {
+          _id: "$_id.userId",
+          total: {
+            $sum: { $cond: ["$_id.reviewing", 0, "$count"] },
           },
-          inProgress: {
-            $sum: { $cond: [{ $eq: ["$status", "in-progress"] }, 1, 0] },
+          completed: {
+            $sum: {
+              $cond: [
+                {
+                  $and: [
+                    { $not: ["$_id.reviewing"] },
+                    { $in: ["$_id.status", doneStatuses] },
+                  ],
+                },
+                "$count",
+                0,
+              ],
+            },
           },
-          inReview: {
-            $sum: { $cond: [{ $eq: ["$status", "in-review"] }, 1, 0] },
+          reviewing: {
+            $sum: {
+              $cond: [
+                {
+                  $and: [
+                    "$_id.reviewing",
+                    { $not: [{ $in: ["$_id.status", doneStatuses] }] },
+                  ],
+                },
+                "$count",
+                0,
+              ],
+            },
           },
-          todo: {
-            $sum: { $cond: [{ $eq: ["$status", "todo"] }, 1, 0] },
+          statusCounts: {
+            $push: {
+              k: "$_id.status",
+              v: "$count",
+              reviewing: "$_id.reviewing",
+            },
           },
         },
       },
@@ -158,9 +300,21 @@ export async function getWorkloadStats(
           email: "$userDetails.email",
           total: 1,
           completed: 1,
-          inProgress: 1,
-          inReview: 1,
-          todo: 1,
+          open: { $subtract: ["$total", "$completed"] },
+          reviewing: 1,
+          statusCounts: {
+            $arrayToObject: {
+              $map: {
+                input: {
+                  $filter: {
+                    input: "$statusCounts",
+                    cond: { $not: ["$$this.reviewing"] },
+                  },
+                },
+                in: { k: "$$this.k", v: "$$this.v" },
+              },
+            },
+          },
           completionRate: {
             $cond: [
               { $eq: ["$total", 0] },
@@ -181,3 +335,340 @@ export async function getWorkloadStats(
     next(err);
   }
 }
+
+/**
+ * Logged time for a date range, grouped by user, by sprint and by day (IST).
+ * Running timers are left out until they are stopped.
+ */
+export async function getTimeReport(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { startDate, endDate, userId, sprintId } = req.query as {
+      startDate?: string;
+      endDate?: string;
+      userId?: string;
+      sprintId?: string;
+    };
+
+    const matchStage: any = {
+      tenantId: new mongoose.Types.ObjectId(actor.tenantId),
+      endedAt: { $ne: null },
+    };
+
+    // Whole IST days, both ends inclusive
+    const start = startDate ? parseDateIST(startDate) : null;
+    const end = endDate ? parseDateIST(endDate) : null;
+    if ((startDate && !start) || (endDate && !end)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid date range" });
+    }
+    if (start || end) {
+      matchStage.startedAt = {};
+      if (start) matchStage.startedAt.$gte = start;
+      if (end) {
+        matchStage.startedAt.$lt = new Date(end.getTime() + 24 * 3600 * 1000);
+      }
+    }
+
+    for (const [field, value] of [
+      ["userId", userId],
+      ["sprintId", sprintId],
+    ] as const) {
+      if (!value) continue;
+      if (!isValidObjectId(value)) {
+        return res
+          .status(400)
+          .json({ success: false, error: `Invalid ${field} filter` });
+      }
+      matchStage[field] = new mongoose.Types.ObjectId(value);
+    }
+
+    const [report] = await TimeEntry.aggregate([
+      { $match: matchStage },
+      {
+        $facet: {
+          total: [
+            {
+              $group: {
+                _id: null,
+                minutes: { $sum: "$durationMinutes" },
+                entries: { $sum: 1 },
+              },
+            },
+          ],
+          byUser: [
+            {
+              $group: {
+                _id: "$userId",
+                minutes: { $sum: "$durationMinutes" },
+                entries: { $sum: 1 },
+                tasks: { $addToSet: "$taskId" },
+              },
+            },
+            {
+              $lookup: {
+                from: "users",
+                localField: "_id",
+                foreignField: "_id",
+                as: "user",
+              },
+            },
+            { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+            {
+              $project: {
+                _id: 0,
+                userId: "$_id",
+                name: "$user.name",
+                email: "$user.email",
+                minutes: 1,
+                entries: 1,
+                tasks: { $size: "$tasks" },
+              },
+            },
+            { $sort: { minutes: -1 } },
+          ],
+          bySprint: [
+            {
+              $group: {
+                _id: "$sprintId",
+                minutes: { $sum: "$durationMinutes" },
+                entries: { $sum: 1 },
+              },
+            },
+            {
+              $lookup: {
+                from: "sprints",
+                localField: "_id",
+                foreignField: "_id",
+                as: "sprint",
+              },
+            },
+            { $unwind: { path: "$sprint", preserveNullAndEmptyArrays: true } },
+            {
+              $project: {
+                _id: 0,
+                sprintId: "$_id",
+                // Time logged outside any sprint has no name
+                name: { $ifNull: ["$sprint.name", null] },
+                minutes: 1,
+                entries: 1,
+              },
+            },
+            { $sort: { minutes: -1 } },
+          ],
+          byDate: [
+            {
+              $group: {
+                _id: {
+                  $dateToString: {
+                    format: "%Y-%m-%d",
+                    date: "$startedAt",
+                    timezone: "Asia/Kolkata",
+                  },
+                },
+                minutes: { $sum: "$durationMinutes" },
+              },
+            },
+            { $project: { _id: 0, date: "$_id", minutes: 1 } },
+            { $sort: { date: 1 } },
+          ],
+        },
+      },
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        range: { startDate: startDate || null, endDate: endDate || null },
+        totalMinutes: report?.total[0]?.minutes ?? 0,
+        entries: report?.total[0]?.entries ?? 0,
+        byUser: report?.byUser ?? [],
+        bySprint: report?.bySprint ?? [],
+        byDate: report?.byDate ?? [],
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Burndown (remaining work against an ideal line) and burnup (completed
+ * work against scope) of a sprint from its daily snapshots
+ */
+export async function getSprintBurndown(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { id } = req.params as { id: string };
+    const { metric = "tasks" } = req.query as { metric?: string };
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    const burndownMetric = BURNDOWN_METRIC_PARAMS[metric];
+    if (!burndownMetric) {
+      return res.status(400).json({
+        success: false,
+        error: `Metric must be one of: ${Object.keys(BURNDOWN_METRIC_PARAMS).join(", ")}`,
+      });
+    }
+
+    const filters: any = { _id: id };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    if (sprint.status === "planned") {
+      return res.status(400).json({
+        success: false,
+        error: "The sprint has not been started yet",
+      });
+    }
+
+    const snapshots = await SprintSnapshot.find({ sprintId: sprint._id })
+      .sort({ date: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: {
+        sprint: {
+          id: sprint._id.toString(),
+          name: sprint.name,
+          startDate: sprint.startDate,
+          endDate: sprint.endDate,
+          status: sprint.status,
+        },
+        metric,
+        points: buildBurndown(sprint, snapshots, burndownMetric),
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Velocity of the last `sprints` completed sprints (what each committed to
+ * and delivered, from their completion snapshots), the throughput of each
+ * member over them, and for every planned sprint its work against a
+ * forecast scaled by the capacity of its members
+ */
+export async function getVelocity(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { sprints: sprintsParam } = req.query as { sprints?: string };
+
+    const sprintCount = sprintsParam
+      ? Number(sprintsParam)
+      : DEFAULT_VELOCITY_SPRINTS;
+    if (
+      !Number.isInteger(sprintCount) ||
+      sprintCount < 1 ||
+      sprintCount > MAX_VELOCITY_SPRINTS
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `sprints must be a whole number from 1 to ${MAX_VELOCITY_SPRINTS}`,
+      });
+    }
+
+    const tenantId = actor.tenantId;
+    const [completed, planned] = await Promise.all([
+      Sprint.find({ tenantId, status: "completed", completion: { $ne: null } })
+        .sort({ completedAt: -1 })
+        .limit(sprintCount),
+      Sprint.find({ tenantId, status: "planned" }).sort({ startDate: 1 }),
+    ]);
+
+    // Delivered tasks count even if they were deleted since
+    const [deliveredTasks, plannedTasks] = await Promise.all([
+      Task.find({
+        _id: { $in: completed.flatMap((s) => s.completion!.deliveredTaskIds) },
+      })
+        .select("_id userId assignees estimateMinutes")
+        .setOptions({ withDeleted: true }),
+      Task.find({ sprintId: { $in: planned.map((s) => s._id) } }).select(
+        "_id sprintId status estimateMinutes",
+      ),
+    ]);
+
+    const average = averageVelocity(
+      completed.map((sprint) => sprint.completion!.delivered),
+    );
+    const throughput = buildThroughput(deliveredTasks, completed.length);
+    const users = await User.find({
+      _id: { $in: throughput.map((member) => member.userId) },
+    }).select("_id name email");
+    const usersById = new Map(users.map((u) => [u._id.toString(), u]));
+
+    res.json({
+      success: true,
+      data: {
+        // Oldest first, for charts
+        sprints: completed.reverse().map((sprint) => ({
+          id: sprint._id.toString(),
+          name: sprint.name,
+          startDate: sprint.startDate,
+          endDate: sprint.endDate,
+          completedAt: sprint.completedAt,
+          committed: sprint.completion!.committed,
+          delivered: sprint.completion!.delivered,
+        })),
+        average,
+        throughput: throughput.map((member) => ({
+          ...member,
+          name: usersById.get(member.userId)?.name ?? null,
+          email: usersById.get(member.userId)?.email ?? null,
+        })),
+        planned: planned.map((sprint) => {
+          const committed = summarizeWork(
+            plannedTasks.filter(
+              (task) => String(task.sprintId) === sprint._id.toString(),
+            ),
+          );
+          const forecast = scaleWork(
+            average,
+            capacityFactor(throughput, sprint.capacity || []),
+          );
+          return {
+            sprintId: sprint._id.toString(),
+            name: sprint.name,
+            committed,
+            forecast,
+            // Nothing to compare with before the first completed sprint
+            overCommitted:
+              completed.length > 0 && exceedsForecast(committed, forecast),
+          };
+        }),
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+}
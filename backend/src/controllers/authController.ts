@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import User, { UserRole, IUser } from "../models/User";
-import Organization from "../models/Organization";
+import Organization, { ANY_STATUS } from "../models/Organization";
 import PasswordReset from "../models/PasswordReset";
+import Task from "../models/Task";
 import { signJwt, AuthenticatedRequest } from "../middleware/auth";
 import {
   isValidEmail,
@@ -10,6 +11,16 @@ import {
   isValidName,
 } from "../utils/validators";
 import { sendPasswordResetEmail, generateOTP } from "../services/emailService";
+import {
+  getTenantTransitions,
+  getTenantWorkflow,
+  validateTransitions,
+  validateWorkflow,
+} from "../utils/workflow";
+import {
+  getTenantCustomFields,
+  validateCustomFieldDefinitions,
+} from "../utils/customFields";
 
 const buildAuthToken = (user: IUser) =>
   signJwt(
@@ -583,6 +594,257 @@ export async function updateOrganizationName(
   }
 }
 
+export async function getWorkflow(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user;
+    if (!actor) {
+      return res.status(401).json({ success: false, error: "Unauthorized" });
+    }
+
+    const queryTenantId = req.query.tenantId as string | undefined;
+    const tenantId =
+      actor.role === "superadmin" &&
+      queryTenantId &&
+      isValidObjectId(queryTenantId)
+        ? queryTenantId
+        : actor.tenantId;
+
+    const [workflow, transitions] = await Promise.all([
+      getTenantWorkflow(tenantId),
+      getTenantTransitions(tenantId),
+    ]);
+
+    return res.json({ success: true, workflow, transitions });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateWorkflow(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user;
+    if (!actor) {
+      return res.status(401).json({ success: false, error: "Unauthorized" });
+    }
+
+    const {
+      workflow: workflowInput,
+      transitions: transitionsInput,
+      tenantId: bodyTenantId,
+    } = req.body as {
+      workflow?: unknown;
+      transitions?: unknown;
+      tenantId?: string;
+    };
+
+    const workflowCheck = validateWorkflow(workflowInput);
+    if (!workflowCheck.valid) {
+      return res
+        .status(400)
+        .json({ success: false, error: workflowCheck.message });
+    }
+
+    const transitionsCheck =
+      transitionsInput === undefined
+        ? null
+        : validateTransitions(transitionsInput, workflowCheck.workflow);
+    if (transitionsCheck && !transitionsCheck.valid) {
+      return res
+        .status(400)
+        .json({ success: false, error: transitionsCheck.message });
+    }
+
+    let targetTenantId = actor.tenantId;
+
+    if (actor.role === "superadmin") {
+      if (!bodyTenantId || !isValidObjectId(bodyTenantId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Valid tenantId is required for superadmin updates",
+        });
+      }
+      targetTenantId = bodyTenantId;
+    }
+
+    if (!targetTenantId) {
+      return res.status(400).json({
+        success: false,
+        error: "Tenant context is required to update the workflow",
+      });
+    }
+
+    const organization = await Organization.findById(targetTenantId);
+
+    if (!organization) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Organization not found" });
+    }
+
+    // Statuses can only be dropped once no task sits in them anymore
+    const newKeys = workflowCheck.workflow.map((status) => status.key);
+    const removed = (await getTenantWorkflow(targetTenantId)).filter(
+      (status) => !newKeys.includes(status.key),
+    );
+    if (removed.length > 0) {
+      const inUse = await Task.distinct("status", {
+        tenantId: targetTenantId,
+        status: { $in: removed.map((status) => status.key) },
+      });
+      if (inUse.length > 0) {
+        const labels = removed
+          .filter((status) => inUse.includes(status.key))
+          .map((status) => `"${status.label}"`);
+        return res.status(409).json({
+          success: false,
+          error: `Move tasks out of ${labels.join(", ")} before removing ${labels.length === 1 ? "it" : "them"} from the workflow`,
+        });
+      }
+    }
+
+    organization.workflow = workflowCheck.workflow;
+    // Without new rules, keep the existing ones that still apply
+    organization.transitions = transitionsCheck
+      ? transitionsCheck.transitions
+      : organization.transitions.filter((rule) =>
+          [rule.from, rule.to].every(
+            (key) => key === ANY_STATUS || newKeys.includes(key),
+          ),
+        );
+    await organization.save();
+
+    return res.json({
+      success: true,
+      workflow: organization.workflow,
+      transitions: organization.transitions,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getCustomFields(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user;
+    if (!actor) {
+      return res.status(401).json({ success: false, error: "Unauthorized" });
+    }
+
+    const queryTenantId = req.query.tenantId as string | undefined;
+    const tenantId =
+      actor.role === "superadmin" &&
+      queryTenantId &&
+      isValidObjectId(queryTenantId)
+        ? queryTenantId
+        : actor.tenantId;
+
+    const customFields = await getTenantCustomFields(tenantId);
+
+    return res.json({ success: true, customFields });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateCustomFields(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user;
+    if (!actor) {
+      return res.status(401).json({ success: false, error: "Unauthorized" });
+    }
+
+    const { customFields: fieldsInput, tenantId: bodyTenantId } = req.body as {
+      customFields?: unknown;
+      tenantId?: string;
+    };
+
+    const fieldsCheck = validateCustomFieldDefinitions(fieldsInput);
+    if (!fieldsCheck.valid) {
+      return res
+        .status(400)
+        .json({ success: false, error: fieldsCheck.message });
+    }
+
+    let targetTenantId = actor.tenantId;
+
+    if (actor.role === "superadmin") {
+      if (!bodyTenantId || !isValidObjectId(bodyTenantId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Valid tenantId is required for superadmin updates",
+        });
+      }
+      targetTenantId = bodyTenantId;
+    }
+
+    if (!targetTenantId) {
+      return res.status(400).json({
+        success: false,
+        error: "Tenant context is required to update custom fields",
+      });
+    }
+
+    const organization = await Organization.findById(targetTenantId);
+
+    if (!organization) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Organization not found" });
+    }
+
+    // Drop values that no longer fit: removed fields, changed types and
+    // removed select options
+    const cleanups = organization.customFields.flatMap((previous) => {
+      const path = `customFields.${previous.key}`;
+      const current = fieldsCheck.fields.find((f) => f.key === previous.key);
+      if (!current || current.type !== previous.type) {
+        return [
+          Task.updateMany(
+            { tenantId: targetTenantId, [path]: { $exists: true } },
+            { $unset: { [path]: "" } },
+          ),
+        ];
+      }
+      if (current.type === "select") {
+        return [
+          Task.updateMany(
+            {
+              tenantId: targetTenantId,
+              [path]: { $exists: true, $nin: current.options },
+            },
+            { $unset: { [path]: "" } },
+          ),
+        ];
+      }
+      return [];
+    });
+    await Promise.all(cleanups);
+
+    organization.customFields = fieldsCheck.fields;
+    await organization.save();
+
+    return res.json({ success: true, customFields: organization.customFields });
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function logout(req: AuthenticatedRequest, res: Response) {
   try {
     console.log(`✅ User ${req.user?.userId} logged out successfully`);
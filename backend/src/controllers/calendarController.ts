@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from "express";
+import User from "../models/User";
+import Task from "../models/Task";
+import Sprint from "../models/Sprint";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { memberTaskConditions } from "../utils/taskAccess";
+import { getDoneStatuses, getTenantWorkflow } from "../utils/workflow";
+import { buildTaskEvent } from "../utils/taskExport";
+import { ICS_CALENDAR_END, icsCalendarStart, icsEvent } from "../utils/ical";
+import {
+  buildSprintEvent,
+  calendarFeedPath,
+  generateCalendarToken,
+  hashCalendarToken,
+  isCalendarToken,
+} from "../utils/calendarFeed";
+
+/**
+ * Whether the user has a calendar feed. The URL itself is only shown when
+ * the token is generated.
+ */
+export async function getCalendarFeedStatus(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const user = await User.findById(actor.userId)
+      .select("+calendarTokenHash calendarTokenCreatedAt")
+      .lean();
+
+    res.json({
+      success: true,
+      message: "Calendar feed fetched successfully",
+      enabled: Boolean(user?.calendarTokenHash),
+      createdAt: user?.calendarTokenCreatedAt || null,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Create the user's calendar feed, or replace its URL. The previous URL
+ * stops working straight away.
+ */
+export async function regenerateCalendarFeed(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { token, tokenHash } = generateCalendarToken();
+    const createdAt = new Date();
+
+    const user = await User.findByIdAndUpdate(actor.userId, {
+      $set: { calendarTokenHash: tokenHash, calendarTokenCreatedAt: createdAt },
+    });
+    if (!user) {
+      return res.status(404).json({ success: false, error: "User not found" });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Calendar feed created successfully",
+      enabled: true,
+      createdAt,
+      path: calendarFeedPath(token),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function revokeCalendarFeed(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    await User.findByIdAndUpdate(actor.userId, {
+      $unset: { calendarTokenHash: 1, calendarTokenCreatedAt: 1 },
+    });
+
+    res.json({
+      success: true,
+      message: "Calendar feed revoked successfully",
+      enabled: false,
+      createdAt: null,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * The calendar a user subscribes to: their open tasks on their due dates
+ * and the current sprints of their tenant. Calendar apps cannot send the
+ * JWT, so the secret token in the URL identifies the user instead.
+ */
+export async function getCalendarFeed(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { token } = req.params as { token: string };
+    // Unknown and revoked tokens look the same
+    const notFound = () =>
+      res.status(404).json({ success: false, error: "Calendar not found" });
+
+    if (!isCalendarToken(token)) return notFound();
+
+    const user = await User.findOne({
+      calendarTokenHash: hashCalendarToken(token),
+    }).select("_id name tenantId");
+    if (!user) return notFound();
+
+    const userId = user._id.toString();
+    const tenantId = user.tenantId || null;
+    const workflow = await getTenantWorkflow(tenantId);
+    const now = new Date();
+
+    const [tasks, sprints] = await Promise.all([
+      Task.find({
+        ...(tenantId && { tenantId }),
+        $or: memberTaskConditions(userId),
+        status: { $nin: getDoneStatuses(workflow) },
+        dueDate: { $ne: null },
+      }).sort({ dueDate: 1 }),
+      tenantId
+        ? Sprint.find({
+            tenantId,
+            $or: [
+              { status: "active" },
+              {
+                status: "planned",
+                startDate: { $lte: now },
+                endDate: { $gte: now },
+              },
+            ],
+          }).sort({ startDate: 1 })
+        : [],
+    ]);
+
+    const body = [
+      icsCalendarStart(`TaskFlow - ${user.name}`),
+      ...sprints.map((sprint) => icsEvent(buildSprintEvent(sprint), now)),
+      ...tasks.map((task) => icsEvent(buildTaskEvent(task, workflow), now)),
+      ICS_CALENDAR_END,
+    ].join("");
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "private, max-age=300");
+    res.send(body);
+  } catch (err) {
+    next(err);
+  }
+}
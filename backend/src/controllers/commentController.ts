@@ -0,0 +1,339 @@
+import { Response, NextFunction } from "express";
+import Comment, { IComment } from "../models/Comment";
+import Task, { ITask } from "../models/Task";
+import User from "../models/User";
+import { isValidObjectId } from "../utils/validators";
+import { memberTaskConditions } from "../utils/taskAccess";
+import { extractMentions } from "../utils/mentions";
+import { notifyTaskAudience, autoWatchTask } from "../utils/taskAudience";
+import { AuthenticatedRequest, AuthPayload } from "../middleware/auth";
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Find a task the actor is allowed to see, using the same tenant/role
+ * scoping as getTask.
+ */
+async function findAccessibleTask(actor: AuthPayload, id: string) {
+  const filters: any = { _id: id };
+
+  if (actor.role !== "superadmin") {
+    filters.tenantId = actor.tenantId;
+  }
+  if (actor.role === "user") {
+    filters.$or = memberTaskConditions(actor.userId);
+  }
+
+  return Task.findOne(filters);
+}
+
+function validateBody(body: unknown) {
+  if (!body || typeof body !== "string" || body.trim().length === 0) {
+    return { valid: false, message: "Comment cannot be empty" };
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return {
+      valid: false,
+      message: `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`,
+    };
+  }
+  return { valid: true };
+}
+
+async function resolveMentions(task: ITask, body: string, authorId: string) {
+  const users = await User.find({ tenantId: task.tenantId }).select(
+    "name email",
+  );
+  return extractMentions(
+    body,
+    users.map((u) => ({
+      id: u._id.toString(),
+      name: u.name,
+      email: u.email,
+    })),
+  ).filter((id) => id !== authorId);
+}
+
+function formatComment(comment: IComment) {
+  const author: any = comment.authorId;
+  const isPopulated = author && typeof author === "object" && "name" in author;
+
+  return {
+    id: comment._id.toString(),
+    taskId: comment.taskId?.toString() || null,
+    parentId: comment.parentId?.toString() || null,
+    author: isPopulated
+      ? { id: author._id.toString(), name: author.name, email: author.email }
+      : { id: author?.toString() || null, name: null, email: null },
+    body: comment.body,
+    mentions: (comment.mentions || []).map((m) => m.toString()),
+    editedAt: comment.editedAt || null,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+  };
+}
+
+async function notifyMentions(
+  task: ITask,
+  comment: IComment,
+  userIds: string[],
+  actor: AuthPayload,
+) {
+  if (userIds.length === 0) return;
+
+  await notifyTaskAudience(
+    task,
+    { type: "mention", actorId: actor.userId, only: userIds },
+    {
+      title: "You Were Mentioned",
+      message: `${actor.name || "Someone"} mentioned you on task "${task.title}"`,
+      metadata: { commentId: comment._id.toString() },
+    },
+  );
+}
+
+export async function getComments(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const comments = await Comment.find({ taskId: task._id })
+      .sort({ createdAt: 1 })
+      .populate("authorId", "name email")
+      .exec();
+
+    res.json({
+      success: true,
+      message: "Comments fetched successfully",
+      count: comments.length,
+      comments: comments.map(formatComment),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createComment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { body, parentId } = req.body as {
+      body?: string;
+      parentId?: string | null;
+    };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const bodyCheck = validateBody(body);
+    if (!bodyCheck.valid) {
+      return res.status(400).json({ success: false, error: bodyCheck.message });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    // Threads are one level deep: replying to a reply attaches to its root
+    let parent: IComment | null = null;
+    if (parentId) {
+      if (!isValidObjectId(parentId)) {
+        return res
+          .status(400)
+          .json({ success: false, error: "Invalid parent comment identifier" });
+      }
+      parent = await Comment.findOne({ _id: parentId, taskId: task._id });
+      if (!parent) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Parent comment not found" });
+      }
+    }
+
+    const mentionIds = await resolveMentions(task, body!, actor.userId);
+
+    const comment = await Comment.create({
+      taskId: task._id,
+      tenantId: task.tenantId,
+      authorId: actor.userId,
+      parentId: parent ? parent.parentId || parent._id : null,
+      body: body!.trim(),
+      mentions: mentionIds,
+    });
+
+    // --- NOTIFICATIONS ---
+
+    await notifyMentions(task, comment, mentionIds, actor);
+
+    // Everyone else involved in the task or thread hears about the comment,
+    // unless they already got a mention notification for it
+    await notifyTaskAudience(
+      task,
+      {
+        type: "comment_added",
+        actorId: actor.userId,
+        also: parent ? [parent.authorId.toString()] : [],
+        except: mentionIds,
+      },
+      {
+        title: "New Comment",
+        message: `${actor.name || "Someone"} commented on task "${task.title}"`,
+        metadata: { commentId: comment._id.toString() },
+      },
+    );
+
+    // The author and anyone mentioned follow the conversation from now on
+    await autoWatchTask(task, [actor.userId, ...mentionIds]);
+
+    await comment.populate("authorId", "name email");
+
+    res.status(201).json({
+      success: true,
+      message: "Comment added successfully",
+      comment: formatComment(comment),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateComment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const { body } = req.body as { body?: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id) || !isValidObjectId(commentId)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid comment identifier" });
+    }
+
+    const bodyCheck = validateBody(body);
+    if (!bodyCheck.valid) {
+      return res.status(400).json({ success: false, error: bodyCheck.message });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const comment = await Comment.findOne({ _id: commentId, taskId: task._id });
+    if (!comment) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Comment not found" });
+    }
+
+    // Only the author can edit a comment, even admins cannot
+    if (comment.authorId.toString() !== actor.userId) {
+      return res.status(403).json({
+        success: false,
+        error: "You can only edit your own comments",
+      });
+    }
+
+    const previousMentions = new Set(
+      (comment.mentions || []).map((m) => m.toString()),
+    );
+    const mentionIds = await resolveMentions(task, body!, actor.userId);
+
+    comment.body = body!.trim();
+    comment.mentions = mentionIds as any;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    // Only people newly mentioned by the edit get notified
+    const newMentions = mentionIds.filter(
+      (userId) => !previousMentions.has(userId),
+    );
+    await notifyMentions(task, comment, newMentions, actor);
+    await autoWatchTask(task, newMentions);
+
+    await comment.populate("authorId", "name email");
+
+    res.json({
+      success: true,
+      message: "Comment updated successfully",
+      comment: formatComment(comment),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteComment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, commentId } = req.params as { id: string; commentId: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id) || !isValidObjectId(commentId)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid comment identifier" });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const comment = await Comment.findOne({ _id: commentId, taskId: task._id });
+    if (!comment) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Comment not found" });
+    }
+
+    // Authors can delete their own comments; admins can moderate any
+    if (actor.role === "user" && comment.authorId.toString() !== actor.userId) {
+      return res.status(403).json({
+        success: false,
+        error: "You can only delete your own comments",
+      });
+    }
+
+    // Replies go with the comment they answer
+    await Comment.deleteMany({ parentId: comment._id });
+    await comment.deleteOne();
+
+    res.json({
+      success: true,
+      message: "Comment deleted successfully",
+    });
+  } catch (err) {
+    next(err);
+  }
+}
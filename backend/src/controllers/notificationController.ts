@@ -1,6 +1,9 @@
 import { Response, NextFunction } from "express";
 import mongoose from "mongoose";
-import Notification from "../models/Notification";
+import Notification, {
+  NotificationType,
+  NOTIFICATION_TYPES,
+} from "../models/Notification";
 import User from "../models/User";
 import { AuthenticatedRequest } from "../middleware/auth";
 
@@ -268,3 +271,97 @@ export async function registerFcmToken(
     next(err);
   }
 }
+
+function formatPreferences(user: any) {
+  return {
+    muted: user?.notificationPreferences?.muted || [],
+    autoWatch: user?.notificationPreferences?.autoWatch !== false,
+  };
+}
+
+/**
+ * Get the authenticated user's notification preferences
+ */
+export async function getPreferences(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const user = await User.findById(actor.userId)
+      .select("notificationPreferences")
+      .lean();
+
+    res.json({
+      success: true,
+      message: "Notification preferences fetched successfully",
+      preferences: formatPreferences(user),
+      types: NOTIFICATION_TYPES,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Update which notification types the user receives and whether commenting
+ * on or being mentioned in a task starts watching it
+ */
+export async function updatePreferences(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { muted, autoWatch } = req.body as {
+      muted?: unknown;
+      autoWatch?: unknown;
+    };
+    const actor = req.user!;
+    const update: Record<string, unknown> = {};
+
+    if (muted !== undefined) {
+      if (
+        !Array.isArray(muted) ||
+        muted.some(
+          (type) => !NOTIFICATION_TYPES.includes(type as NotificationType),
+        )
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: `Muted types must be from: ${NOTIFICATION_TYPES.join(", ")}`,
+        });
+      }
+      update["notificationPreferences.muted"] = Array.from(new Set(muted));
+    }
+
+    if (autoWatch !== undefined) {
+      if (typeof autoWatch !== "boolean") {
+        return res
+          .status(400)
+          .json({ success: false, error: "autoWatch must be true or false" });
+      }
+      update["notificationPreferences.autoWatch"] = autoWatch;
+    }
+
+    const user = await User.findByIdAndUpdate(
+      actor.userId,
+      { $set: update },
+      { new: true },
+    )
+      .select("notificationPreferences")
+      .lean();
+    if (!user) {
+      return res.status(404).json({ success: false, error: "User not found" });
+    }
+
+    res.json({
+      success: true,
+      message: "Notification preferences updated successfully",
+      preferences: formatPreferences(user),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,422 @@
+import { Response, NextFunction } from "express";
+import SavedView, {
+  ISavedView,
+  SAVED_VIEW_GROUPINGS,
+  SAVED_VIEW_MODES,
+  SAVED_VIEW_VISIBILITIES,
+  SavedViewGroupBy,
+  SavedViewMode,
+  SavedViewVisibility,
+} from "../models/SavedView";
+import User from "../models/User";
+import Tag from "../models/Tag";
+import { isValidObjectId } from "../utils/validators";
+import { getTenantWorkflow, getStatusKeys } from "../utils/workflow";
+import { AuthenticatedRequest, AuthPayload } from "../middleware/auth";
+
+interface ViewInput {
+  name?: unknown;
+  visibility?: unknown;
+  filters?: {
+    q?: unknown;
+    status?: unknown;
+    labels?: unknown;
+    excludeLabels?: unknown;
+  };
+  sort?: unknown;
+  groupBy?: unknown;
+  viewMode?: unknown;
+}
+
+// "-dueDate,title"; the fields themselves are checked when tasks are fetched
+const SORT_PATTERN = /^[-+]?[\w.]+(,[-+]?[\w.]+)*$/;
+
+function formatView(view: ISavedView, defaultViewId?: string) {
+  return {
+    id: view._id.toString(),
+    name: view.name,
+    tenantId: view.tenantId.toString(),
+    userId: view.userId.toString(),
+    visibility: view.visibility,
+    filters: {
+      q: view.filters?.q || "",
+      status: view.filters?.status || "all",
+      labels: (view.filters?.labels || []).map((id) => id.toString()),
+      excludeLabels: (view.filters?.excludeLabels || []).map((id) =>
+        id.toString(),
+      ),
+    },
+    sort: view.sort,
+    groupBy: view.groupBy,
+    viewMode: view.viewMode,
+    isDefault: view._id.toString() === defaultViewId,
+    createdAt: view.createdAt,
+    updatedAt: view.updatedAt,
+  };
+}
+
+// Personal views of the actor plus every shared view of the tenant
+function visibleViews(actor: AuthPayload) {
+  return {
+    tenantId: actor.tenantId,
+    $or: [{ userId: actor.userId }, { visibility: "shared" }],
+  };
+}
+
+// Owners manage their views, admins also manage the tenant's shared views
+const canManageView = (actor: AuthPayload, view: ISavedView) =>
+  view.userId.toString() === actor.userId ||
+  (view.visibility === "shared" &&
+    (actor.role === "tenantAdmin" || actor.role === "superadmin"));
+
+async function getDefaultViewId(userId: string) {
+  const user = await User.findById(userId).select("defaultViewId").lean();
+  return user?.defaultViewId?.toString();
+}
+
+async function validateLabelIds(value: unknown, tenantId: unknown) {
+  if (!Array.isArray(value)) return null;
+  const ids = Array.from(new Set(value.map((id) => String(id))));
+  if (ids.some((id) => !isValidObjectId(id))) return null;
+  if (ids.length === 0) return ids;
+  const found = await Tag.countDocuments({ _id: { $in: ids }, tenantId });
+  return found === ids.length ? ids : null;
+}
+
+/**
+ * Validate the fields present in `input`; missing fields keep their current
+ * value, or the schema default for new views.
+ */
+async function validateViewInput(
+  input: ViewInput,
+  tenantId: unknown,
+): Promise<
+  | { valid: true; values: Record<string, unknown> }
+  | { valid: false; message: string }
+> {
+  const values: Record<string, unknown> = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { valid: false, message: "View name is required" };
+    }
+    if (input.name.trim().length > 50) {
+      return { valid: false, message: "View name cannot exceed 50 characters" };
+    }
+    values.name = input.name.trim();
+  }
+
+  if (input.visibility !== undefined) {
+    if (
+      !SAVED_VIEW_VISIBILITIES.includes(input.visibility as SavedViewVisibility)
+    ) {
+      return {
+        valid: false,
+        message: "Visibility must be one of: personal, shared",
+      };
+    }
+    values.visibility = input.visibility;
+  }
+
+  if (input.viewMode !== undefined) {
+    if (!SAVED_VIEW_MODES.includes(input.viewMode as SavedViewMode)) {
+      return {
+        valid: false,
+        message: `View mode must be one of: ${SAVED_VIEW_MODES.join(", ")}`,
+      };
+    }
+    values.viewMode = input.viewMode;
+  }
+
+  if (input.groupBy !== undefined) {
+    if (!SAVED_VIEW_GROUPINGS.includes(input.groupBy as SavedViewGroupBy)) {
+      return {
+        valid: false,
+        message: `Grouping must be one of: ${SAVED_VIEW_GROUPINGS.join(", ")}`,
+      };
+    }
+    values.groupBy = input.groupBy;
+  }
+
+  if (input.sort !== undefined) {
+    if (
+      typeof input.sort !== "string" ||
+      input.sort.length > 100 ||
+      (input.sort && !SORT_PATTERN.test(input.sort))
+    ) {
+      return {
+        valid: false,
+        message: 'Sort must look like "-dueDate,title"',
+      };
+    }
+    values.sort = input.sort;
+  }
+
+  if (input.filters !== undefined) {
+    const {
+      q = "",
+      status = "all",
+      labels = [],
+      excludeLabels = [],
+    } = input.filters || {};
+
+    if (typeof q !== "string" || q.length > 500) {
+      return {
+        valid: false,
+        message: "Search cannot exceed 500 characters",
+      };
+    }
+
+    if (status !== "all") {
+      const keys = getStatusKeys(await getTenantWorkflow(tenantId));
+      if (typeof status !== "string" || !keys.includes(status)) {
+        return {
+          valid: false,
+          message: `Status filter must be "all" or one of: ${keys.join(", ")}`,
+        };
+      }
+    }
+
+    const included = await validateLabelIds(labels, tenantId);
+    const excluded = await validateLabelIds(excludeLabels, tenantId);
+    if (!included || !excluded) {
+      return {
+        valid: false,
+        message: "Label filters must use tags of the tenant",
+      };
+    }
+
+    values.filters = {
+      q: q.trim(),
+      status,
+      labels: included,
+      excludeLabels: excluded,
+    };
+  }
+
+  return { valid: true, values };
+}
+
+export async function getViews(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+
+    const [views, defaultViewId] = await Promise.all([
+      SavedView.find(visibleViews(actor)).sort({ name: 1 }).exec(),
+      getDefaultViewId(actor.userId),
+    ]);
+
+    res.json({
+      success: true,
+      message: "Views fetched successfully",
+      views: views.map((view) => formatView(view, defaultViewId)),
+      // A default that was deleted or unshared no longer applies
+      defaultViewId: views.some((view) => view._id.toString() === defaultViewId)
+        ? defaultViewId
+        : null,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createView(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const body = req.body as ViewInput;
+
+    if (!actor.tenantId) {
+      return res.status(400).json({
+        success: false,
+        error: "Tenant context is required to save views",
+      });
+    }
+
+    if (body.name === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "View name is required",
+      });
+    }
+
+    const validation = await validateViewInput(body, actor.tenantId);
+    if (!validation.valid) {
+      return res
+        .status(400)
+        .json({ success: false, error: validation.message });
+    }
+
+    const view = new SavedView({
+      ...validation.values,
+      tenantId: actor.tenantId,
+      userId: actor.userId,
+    });
+
+    await view.save();
+
+    res.status(201).json({
+      success: true,
+      message: "View created successfully",
+      view: formatView(view),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateView(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid view identifier",
+      });
+    }
+
+    const view = await SavedView.findOne({ _id: id, ...visibleViews(actor) });
+
+    if (!view) {
+      return res.status(404).json({
+        success: false,
+        error: "View not found",
+      });
+    }
+
+    if (!canManageView(actor, view)) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the owner or an administrator can change this view",
+      });
+    }
+
+    const validation = await validateViewInput(
+      req.body as ViewInput,
+      view.tenantId,
+    );
+    if (!validation.valid) {
+      return res
+        .status(400)
+        .json({ success: false, error: validation.message });
+    }
+
+    view.set(validation.values);
+    await view.save();
+
+    res.json({
+      success: true,
+      message: "View updated successfully",
+      view: formatView(view, await getDefaultViewId(actor.userId)),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteView(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid view identifier",
+      });
+    }
+
+    const view = await SavedView.findOne({ _id: id, ...visibleViews(actor) });
+
+    if (!view) {
+      return res.status(404).json({
+        success: false,
+        error: "View not found",
+      });
+    }
+
+    if (!canManageView(actor, view)) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the owner or an administrator can delete this view",
+      });
+    }
+
+    // Nobody opens the tasks page with a deleted view
+    await User.updateMany(
+      { defaultViewId: view._id },
+      { $unset: { defaultViewId: 1 } },
+    );
+
+    await view.deleteOne();
+
+    res.json({
+      success: true,
+      message: "View deleted successfully",
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function setDefaultView(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { viewId } = req.body as { viewId?: string | null };
+    const actor = req.user!;
+
+    if (viewId) {
+      if (!isValidObjectId(viewId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid view identifier",
+        });
+      }
+      const view = await SavedView.findOne({
+        _id: viewId,
+        ...visibleViews(actor),
+      });
+      if (!view) {
+        return res.status(404).json({
+          success: false,
+          error: "View not found",
+        });
+      }
+    }
+
+    await User.updateOne(
+      { _id: actor.userId },
+      viewId
+        ? { $set: { defaultViewId: viewId } }
+        : { $unset: { defaultViewId: 1 } },
+    );
+
+    res.json({
+      success: true,
+      message: viewId ? "Default view set" : "Default view cleared",
+      defaultViewId: viewId || null,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -1,8 +1,59 @@
 import { Response, NextFunction } from "express";
-import Sprint from "../models/Sprint";
+import mongoose from "mongoose";
+import Sprint, {
+  ISprint,
+  RETROSPECTIVE_CATEGORIES,
+  RetrospectiveCategory,
+} from "../models/Sprint";
 import Task from "../models/Task";
+import User from "../models/User";
 import { isValidObjectId } from "../utils/validators";
 import { AuthenticatedRequest } from "../middleware/auth";
+import { getTenantWorkflow, getInitialStatus } from "../utils/workflow";
+import { recordTaskActivity } from "../utils/taskActivity";
+import { notifyTaskAudience } from "../utils/taskAudience";
+import {
+  buildSprintCompletion,
+  findActiveSprint,
+  findNextSprint,
+} from "../utils/sprintLifecycle";
+import { recordSprintSnapshot } from "../utils/sprintSnapshots";
+
+function formatSprint(sprint: ISprint, taskCount: number) {
+  return {
+    id: sprint._id.toString(),
+    name: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    status: sprint.status,
+    tenantId: sprint.tenantId.toString(),
+    createdBy: sprint.createdBy.toString(),
+    taskCount,
+    startedAt: sprint.startedAt ?? null,
+    completedAt: sprint.completedAt ?? null,
+    completion: sprint.completion ?? null,
+    capacity: (sprint.capacity || []).map((entry) => ({
+      userId: entry.userId.toString(),
+      percent: entry.percent,
+    })),
+    goals: (sprint.goals || []).map((goal) => ({
+      id: goal._id.toString(),
+      text: goal.text,
+      achieved: goal.achieved ?? null,
+    })),
+    reviewNotes: sprint.reviewNotes || "",
+    retrospective: (sprint.retrospective || []).map((item) => ({
+      id: item._id.toString(),
+      category: item.category,
+      text: item.text,
+      authorId: item.authorId.toString(),
+      taskId: item.taskId ? item.taskId.toString() : null,
+      createdAt: item.createdAt,
+    })),
+    createdAt: sprint.createdAt,
+    updatedAt: sprint.updatedAt,
+  };
+}
 
 export async function getSprints(
   req: AuthenticatedRequest,
@@ -25,18 +76,7 @@ export async function getSprints(
     const sprintsWithTaskCount = await Promise.all(
       sprints.map(async (sprint) => {
         const taskCount = await Task.countDocuments({ sprintId: sprint._id });
-        return {
-          id: sprint._id.toString(),
-          name: sprint.name,
-          startDate: sprint.startDate,
-          endDate: sprint.endDate,
-          status: sprint.status,
-          tenantId: sprint.tenantId.toString(),
-          createdBy: sprint.createdBy.toString(),
-          taskCount,
-          createdAt: sprint.createdAt,
-          updatedAt: sprint.updatedAt,
-        };
+        return formatSprint(sprint, taskCount);
       }),
     );
 
@@ -86,18 +126,7 @@ export async function getSprint(
     res.json({
       success: true,
       message: "Sprint fetched successfully",
-      sprint: {
-        id: sprint._id.toString(),
-        name: sprint.name,
-        startDate: sprint.startDate,
-        endDate: sprint.endDate,
-        status: sprint.status,
-        tenantId: sprint.tenantId.toString(),
-        createdBy: sprint.createdBy.toString(),
-        taskCount,
-        createdAt: sprint.createdAt,
-        updatedAt: sprint.updatedAt,
-      },
+      sprint: formatSprint(sprint, taskCount),
     });
   } catch (err) {
     next(err);
@@ -184,6 +213,14 @@ export async function createSprint(
       });
     }
 
+    // Starting and completing go through their own endpoints
+    if (status !== "planned") {
+      return res.status(400).json({
+        success: false,
+        error: "New sprints are planned, start them once they are ready",
+      });
+    }
+
     const sprint = new Sprint({
       name: name.trim(),
       startDate: parsedStartDate,
@@ -198,18 +235,7 @@ export async function createSprint(
     res.status(201).json({
       success: true,
       message: "Sprint created successfully",
-      sprint: {
-        id: sprint._id.toString(),
-        name: sprint.name,
-        startDate: sprint.startDate,
-        endDate: sprint.endDate,
-        status: sprint.status,
-        tenantId: sprint.tenantId.toString(),
-        createdBy: sprint.createdBy.toString(),
-        taskCount: 0,
-        createdAt: sprint.createdAt,
-        updatedAt: sprint.updatedAt,
-      },
+      sprint: formatSprint(sprint, 0),
     });
   } catch (err) {
     next(err);
@@ -223,11 +249,12 @@ export async function updateSprint(
 ) {
   try {
     const { id } = req.params as { id: string };
-    const { name, startDate, endDate, status } = req.body as {
+    const { name, startDate, endDate, status, reviewNotes } = req.body as {
       name?: string;
       startDate?: string;
       endDate?: string;
       status?: string;
+      reviewNotes?: string;
     };
 
     const actor = req.user!;
@@ -302,7 +329,23 @@ export async function updateSprint(
           error: "Status must be one of: planned, active, completed",
         });
       }
-      sprint.status = status as any;
+      if (status !== sprint.status) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Use the start and complete actions to change a sprint's status",
+        });
+      }
+    }
+
+    if (reviewNotes !== undefined) {
+      if (typeof reviewNotes !== "string" || reviewNotes.length > 2000) {
+        return res.status(400).json({
+          success: false,
+          error: "Review notes cannot exceed 2000 characters",
+        });
+      }
+      sprint.reviewNotes = reviewNotes.trim();
     }
 
     await sprint.save();
@@ -312,18 +355,7 @@ export async function updateSprint(
     res.json({
       success: true,
       message: "Sprint updated successfully",
-      sprint: {
-        id: sprint._id.toString(),
-        name: sprint.name,
-        startDate: sprint.startDate,
-        endDate: sprint.endDate,
-        status: sprint.status,
-        tenantId: sprint.tenantId.toString(),
-        createdBy: sprint.createdBy.toString(),
-        taskCount,
-        createdAt: sprint.createdAt,
-        updatedAt: sprint.updatedAt,
-      },
+      sprint: formatSprint(sprint, taskCount),
     });
   } catch (err) {
     next(err);
@@ -369,17 +401,815 @@ export async function deleteSprint(
       });
     }
 
-    // Unassign all tasks from this sprint
+    // Unassign all tasks from this sprint, remembering them for a restore
+    const tasks = await Task.find({ sprintId: sprint._id }).select("_id");
     await Task.updateMany(
       { sprintId: sprint._id },
       { $set: { sprintId: null } },
     );
 
-    await sprint.deleteOne();
+    sprint.detachedTaskIds = tasks.map((task) => task._id);
+    sprint.deletedAt = new Date();
+    sprint.deletedBy = actor.userId as any;
+    await sprint.save();
+
+    res.json({
+      success: true,
+      message: "Sprint moved to trash",
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Make a planned sprint the tenant's active one, remembering the tasks it
+ * starts with as its commitment
+ */
+export async function startSprint(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins can start sprints
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can start sprints",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    if (sprint.status !== "planned") {
+      return res.status(409).json({
+        success: false,
+        error: "Only planned sprints can be started",
+      });
+    }
+
+    const activeSprint = await findActiveSprint(sprint.tenantId, sprint._id);
+    if (activeSprint) {
+      return res.status(409).json({
+        success: false,
+        error: `"${activeSprint.name}" is still active, complete it first`,
+      });
+    }
+
+    const tasks = await Task.find({ sprintId: sprint._id }).select("_id");
+
+    sprint.status = "active";
+    sprint.startedAt = new Date();
+    sprint.committedTaskIds = tasks.map((task) => task._id);
+    try {
+      await sprint.save();
+    } catch (err: any) {
+      // Lost a race with another start request; the unique index caught it
+      if (err?.code === 11000) {
+        return res.status(409).json({
+          success: false,
+          error:
+            "Another sprint was started at the same time, reload and try again",
+        });
+      }
+      throw err;
+    }
+    // The first point of the burndown
+    await recordSprintSnapshot(sprint);
+
+    res.json({
+      success: true,
+      message: "Sprint started successfully",
+      sprint: formatSprint(sprint, tasks.length),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Close the active sprint. Unfinished tasks move to `nextSprintId` (a
+ * planned sprint) or to the backlog when it is left out, and what the
+ * sprint committed to and delivered is recorded on it.
+ */
+export async function completeSprint(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { nextSprintId } = (req.body || {}) as {
+      nextSprintId?: string | null;
+    };
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins can complete sprints
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can complete sprints",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    if (sprint.status !== "active") {
+      return res.status(409).json({
+        success: false,
+        error: "Only active sprints can be completed",
+      });
+    }
+
+    let nextSprint = null;
+    if (nextSprintId) {
+      if (!isValidObjectId(nextSprintId) || nextSprintId === id) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid next sprint identifier",
+        });
+      }
+      nextSprint = await Sprint.findOne({
+        _id: nextSprintId,
+        tenantId: sprint.tenantId,
+      });
+      if (!nextSprint) {
+        return res.status(404).json({
+          success: false,
+          error: "Next sprint not found",
+        });
+      }
+      if (nextSprint.status !== "planned") {
+        return res.status(400).json({
+          success: false,
+          error: "Unfinished tasks can only move to a planned sprint",
+        });
+      }
+    }
+
+    const [tasks, committedTasks, workflow] = await Promise.all([
+      Task.find({ sprintId: sprint._id }).select("_id status estimateMinutes"),
+      // Committed tasks count even if they were deleted since
+      Task.find({ _id: { $in: sprint.committedTaskIds } })
+        .select("_id status estimateMinutes")
+        .setOptions({ withDeleted: true }),
+      getTenantWorkflow(sprint.tenantId),
+    ]);
+
+    // The last point of the burndown, before unfinished work moves out
+    await recordSprintSnapshot(sprint);
+
+    const completion = buildSprintCompletion(tasks, committedTasks, workflow);
+    const nextSprintIdValue = nextSprint?._id ?? null;
+
+    if (completion.carriedOverTaskIds.length > 0) {
+      await Task.updateMany(
+        { _id: { $in: completion.carriedOverTaskIds } },
+        { $set: { sprintId: nextSprintIdValue } },
+      );
+      await recordTaskActivity(
+        completion.carriedOverTaskIds.map((taskId) => ({
+          taskId,
+          tenantId: sprint.tenantId,
+          actorId: actor.userId,
+          action: "updated",
+          field: "sprintId",
+          oldValue: sprint._id.toString(),
+          newValue: nextSprintIdValue ? nextSprintIdValue.toString() : null,
+        })),
+      );
+    }
+
+    sprint.status = "completed";
+    sprint.completedAt = new Date();
+    sprint.completion = {
+      ...completion,
+      completedBy: actor.userId as any,
+      nextSprintId: nextSprintIdValue,
+    };
+    await sprint.save();
+
+    res.json({
+      success: true,
+      message: nextSprint
+        ? `Sprint completed, ${completion.carriedOver.tasks} unfinished tasks moved to "${nextSprint.name}"`
+        : `Sprint completed, ${completion.carriedOver.tasks} unfinished tasks moved to the backlog`,
+      sprint: formatSprint(sprint, completion.delivered.tasks),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Set how available each member is for a sprint that has not finished yet,
+ * as a percentage. The list replaces the previous one; members left out are
+ * fully available.
+ */
+export async function updateSprintCapacity(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { capacity } = req.body as { capacity?: unknown };
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins can plan capacity
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can plan sprint capacity",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    const entries = Array.isArray(capacity) ? capacity : null;
+    if (
+      !entries ||
+      entries.some(
+        (entry) =>
+          !entry ||
+          !isValidObjectId(entry.userId) ||
+          !Number.isInteger(entry.percent) ||
+          entry.percent < 0 ||
+          entry.percent > 100,
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error:
+          "Capacity must be a list of members with a whole percentage from 0 to 100",
+      });
+    }
+
+    const userIds = Array.from(
+      new Set(entries.map((entry) => String(entry.userId))),
+    );
+    if (userIds.length !== entries.length) {
+      return res.status(400).json({
+        success: false,
+        error: "Each member can only be listed once",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    if (sprint.status === "completed") {
+      return res.status(409).json({
+        success: false,
+        error: "Capacity cannot change once a sprint is completed",
+      });
+    }
+
+    const members = await User.countDocuments({
+      _id: { $in: userIds },
+      tenantId: sprint.tenantId,
+    });
+    if (members !== userIds.length) {
+      return res.status(400).json({
+        success: false,
+        error: "Capacity can only be set for members of the sprint's tenant",
+      });
+    }
+
+    sprint.capacity = entries.map((entry) => ({
+      userId: entry.userId,
+      percent: entry.percent,
+    }));
+    await sprint.save();
+
+    const taskCount = await Task.countDocuments({ sprintId: sprint._id });
 
     res.json({
       success: true,
-      message: "Sprint deleted successfully",
+      message: "Sprint capacity updated successfully",
+      sprint: formatSprint(sprint, taskCount),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+const MAX_SPRINT_GOALS = 10;
+
+/**
+ * Replace the goals of a sprint. Goals keep their id when it is sent back,
+ * and are only marked achieved or missed once the sprint has started.
+ */
+export async function updateSprintGoals(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { goals } = req.body as { goals?: unknown };
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins can set sprint goals
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can set sprint goals",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    const entries = Array.isArray(goals) ? goals : null;
+    if (
+      !entries ||
+      entries.some(
+        (goal) =>
+          !goal ||
+          typeof goal.text !== "string" ||
+          !goal.text.trim() ||
+          goal.text.trim().length > 200 ||
+          (goal.id !== undefined && !isValidObjectId(goal.id)) ||
+          (goal.achieved !== undefined &&
+            goal.achieved !== null &&
+            typeof goal.achieved !== "boolean"),
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Goals must be a list of texts of up to 200 characters",
+      });
+    }
+
+    if (entries.length > MAX_SPRINT_GOALS) {
+      return res.status(400).json({
+        success: false,
+        error: `A sprint can have at most ${MAX_SPRINT_GOALS} goals`,
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    if (
+      sprint.status === "planned" &&
+      entries.some((goal) => typeof goal.achieved === "boolean")
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Goals can only be marked achieved once the sprint has started",
+      });
+    }
+
+    sprint.goals = entries.map((goal) => ({
+      _id: new mongoose.Types.ObjectId(goal.id),
+      text: goal.text.trim(),
+      achieved: goal.achieved ?? null,
+    }));
+    await sprint.save();
+
+    const taskCount = await Task.countDocuments({ sprintId: sprint._id });
+
+    res.json({
+      success: true,
+      message: "Sprint goals updated successfully",
+      sprint: formatSprint(sprint, taskCount),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Add a card to the retrospective board of a started sprint. Any member of
+ * the tenant can add cards.
+ */
+export async function addRetrospectiveItem(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { category, text } = req.body as {
+      category?: string;
+      text?: string;
+    };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    if (
+      !category ||
+      !(RETROSPECTIVE_CATEGORIES as readonly string[]).includes(category)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Category must be one of: went-well, to-improve, action-item",
+      });
+    }
+
+    if (typeof text !== "string" || !text.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "Text is required",
+      });
+    }
+    if (text.trim().length > 200) {
+      return res.status(400).json({
+        success: false,
+        error: "Retrospective items cannot exceed 200 characters",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    if (sprint.status === "planned") {
+      return res.status(409).json({
+        success: false,
+        error: "The retrospective opens once the sprint has started",
+      });
+    }
+
+    sprint.retrospective.push({
+      _id: new mongoose.Types.ObjectId(),
+      category: category as RetrospectiveCategory,
+      text: text.trim(),
+      authorId: new mongoose.Types.ObjectId(actor.userId),
+      taskId: null,
+      createdAt: new Date(),
+    });
+    await sprint.save();
+
+    const taskCount = await Task.countDocuments({ sprintId: sprint._id });
+
+    res.status(201).json({
+      success: true,
+      message: "Retrospective item added successfully",
+      sprint: formatSprint(sprint, taskCount),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Remove a card from the retrospective board, by its author or an
+ * administrator. A task made from it is kept.
+ */
+export async function deleteRetrospectiveItem(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, itemId } = req.params as { id: string; itemId: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id) || !isValidObjectId(itemId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint or item identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    const item = sprint.retrospective.find(
+      (entry) => entry._id.toString() === itemId,
+    );
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: "Retrospective item not found",
+      });
+    }
+
+    if (actor.role === "user" && item.authorId.toString() !== actor.userId) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the author or an administrator can remove this item",
+      });
+    }
+
+    sprint.retrospective = sprint.retrospective.filter(
+      (entry) => entry._id.toString() !== itemId,
+    );
+    await sprint.save();
+
+    const taskCount = await Task.countDocuments({ sprintId: sprint._id });
+
+    res.json({
+      success: true,
+      message: "Retrospective item removed successfully",
+      sprint: formatSprint(sprint, taskCount),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Turn a retrospective action item into a task of the next sprint
+ * (`sprintId`, or see findNextSprint), due when that sprint ends. The task
+ * goes to `userId`, or else to the author of the item.
+ */
+export async function convertActionItem(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, itemId } = req.params as { id: string; itemId: string };
+    const { sprintId, userId } = (req.body || {}) as {
+      sprintId?: string;
+      userId?: string;
+    };
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins can plan work into sprints
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can turn action items into tasks",
+      });
+    }
+
+    if (!isValidObjectId(id) || !isValidObjectId(itemId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint or item identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found",
+      });
+    }
+
+    const item = sprint.retrospective.find(
+      (entry) => entry._id.toString() === itemId,
+    );
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: "Retrospective item not found",
+      });
+    }
+
+    if (item.category !== "action-item") {
+      return res.status(400).json({
+        success: false,
+        error: "Only action items can become tasks",
+      });
+    }
+
+    if (item.taskId) {
+      return res.status(409).json({
+        success: false,
+        error: "This action item is already a task",
+      });
+    }
+
+    let targetSprint = null;
+    if (sprintId) {
+      if (!isValidObjectId(sprintId) || sprintId === id) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid next sprint identifier",
+        });
+      }
+      targetSprint = await Sprint.findOne({
+        _id: sprintId,
+        tenantId: sprint.tenantId,
+      });
+      if (!targetSprint) {
+        return res.status(404).json({
+          success: false,
+          error: "Next sprint not found",
+        });
+      }
+      if (targetSprint.status === "completed") {
+        return res.status(400).json({
+          success: false,
+          error: "Action items cannot go to a completed sprint",
+        });
+      }
+    } else {
+      targetSprint = await findNextSprint(sprint);
+      if (!targetSprint) {
+        return res.status(400).json({
+          success: false,
+          error: "Plan the next sprint before turning action items into tasks",
+        });
+      }
+    }
+
+    const assigneeId = userId || item.authorId.toString();
+    const assignee = isValidObjectId(assigneeId)
+      ? await User.findOne({ _id: assigneeId, tenantId: sprint.tenantId })
+      : null;
+    if (!assignee) {
+      return res.status(400).json({
+        success: false,
+        error: userId
+          ? "User does not belong to the sprint's tenant"
+          : "Choose who the action item is assigned to",
+      });
+    }
+
+    // Claim the item for the new task first, so two requests at the same
+    // time cannot both turn it into a task
+    const taskId = new mongoose.Types.ObjectId();
+    const itemMatch = (current: mongoose.Types.ObjectId | null) => ({
+      _id: sprint._id,
+      retrospective: { $elemMatch: { _id: item._id, taskId: current } },
+    });
+    const claimed = await Sprint.findOneAndUpdate(
+      itemMatch(null),
+      { $set: { "retrospective.$.taskId": taskId } },
+      { new: true },
+    );
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        error: "This action item is already a task",
+      });
+    }
+
+    const workflow = await getTenantWorkflow(sprint.tenantId);
+    const ownerUserId = assignee._id.toString();
+    const task = new Task({
+      _id: taskId,
+      title: item.text,
+      description: `Action item from the retrospective of "${sprint.name}"`,
+      status: getInitialStatus(workflow),
+      dueDate: targetSprint.endDate,
+      sprintId: targetSprint._id,
+      userId: ownerUserId,
+      assignees: [ownerUserId],
+      createdBy: actor.userId,
+      tenantId: sprint.tenantId,
+    });
+    try {
+      await task.save();
+    } catch (err) {
+      // Free the item again so the conversion can be retried
+      await Sprint.updateOne(itemMatch(taskId), {
+        $set: { "retrospective.$.taskId": null },
+      });
+      throw err;
+    }
+
+    await recordTaskActivity([
+      {
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "created",
+        newValue: task.title,
+      },
+    ]);
+
+    await notifyTaskAudience(
+      task,
+      { type: "task_assigned", actorId: actor.userId, only: [ownerUserId] },
+      {
+        title: "New Task Assigned",
+        message: `You have been assigned a new task: "${task.title}"`,
+      },
+    );
+
+    const taskCount = await Task.countDocuments({ sprintId: sprint._id });
+
+    res.status(201).json({
+      success: true,
+      message: `Action item added to "${targetSprint.name}"`,
+      task: {
+        id: task._id.toString(),
+        title: task.title,
+        sprintId: targetSprint._id.toString(),
+      },
+      sprint: formatSprint(claimed, taskCount),
     });
   } catch (err) {
     next(err);
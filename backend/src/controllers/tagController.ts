@@ -0,0 +1,274 @@
+import { Response, NextFunction } from "express";
+import Tag, { ITag } from "../models/Tag";
+import Task from "../models/Task";
+import SavedView from "../models/SavedView";
+import { WORKFLOW_COLORS, WorkflowColor } from "../models/Organization";
+import { isValidObjectId } from "../utils/validators";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+// Names are compared case-insensitively within a tenant
+const NAME_COLLATION = { locale: "en", strength: 2 };
+
+function formatTag(tag: ITag) {
+  return {
+    id: tag._id.toString(),
+    name: tag.name,
+    color: tag.color,
+    tenantId: tag.tenantId.toString(),
+    createdBy: tag.createdBy.toString(),
+    createdAt: tag.createdAt,
+    updatedAt: tag.updatedAt,
+  };
+}
+
+function validateTagName(name: unknown) {
+  if (typeof name !== "string" || !name.trim()) {
+    return "Tag name is required";
+  }
+  if (name.trim().length > 30) {
+    return "Tag name cannot exceed 30 characters";
+  }
+  return null;
+}
+
+function validateTagColor(color: unknown) {
+  if (!WORKFLOW_COLORS.includes(color as WorkflowColor)) {
+    return `Tag color must be one of: ${WORKFLOW_COLORS.join(", ")}`;
+  }
+  return null;
+}
+
+async function findDuplicate(tenantId: unknown, name: string, id?: string) {
+  return Tag.findOne({
+    tenantId,
+    name: name.trim(),
+    ...(id && { _id: { $ne: id } }),
+  }).collation(NAME_COLLATION);
+}
+
+export async function getTags(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { tenantId: tenantIdQuery } = req.query as { tenantId?: string };
+
+    const query: any = {};
+
+    // Non-superadmins can only see their tenant's catalog
+    if (actor.role !== "superadmin") {
+      query.tenantId = actor.tenantId;
+    } else if (tenantIdQuery && isValidObjectId(tenantIdQuery)) {
+      query.tenantId = tenantIdQuery;
+    }
+
+    const tags = await Tag.find(query)
+      .collation(NAME_COLLATION)
+      .sort({ name: 1 })
+      .exec();
+
+    res.json({
+      success: true,
+      message: "Tags fetched successfully",
+      tags: tags.map(formatTag),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createTag(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { name, color = "gray" } = req.body as {
+      name?: string;
+      color?: string;
+    };
+
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins manage the catalog
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can create tags",
+      });
+    }
+
+    if (!actor.tenantId) {
+      return res.status(400).json({
+        success: false,
+        error: "Tenant context is required to create tags",
+      });
+    }
+
+    const validationError = validateTagName(name) || validateTagColor(color);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (await findDuplicate(actor.tenantId, name!)) {
+      return res.status(409).json({
+        success: false,
+        error: `A tag named "${name!.trim()}" already exists`,
+      });
+    }
+
+    const tag = new Tag({
+      name: name!.trim(),
+      color,
+      tenantId: actor.tenantId,
+      createdBy: actor.userId,
+    });
+
+    await tag.save();
+
+    res.status(201).json({
+      success: true,
+      message: "Tag created successfully",
+      tag: formatTag(tag),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateTag(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { name, color } = req.body as { name?: string; color?: string };
+
+    const actor = req.user!;
+
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can update tags",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid tag identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const tag = await Tag.findOne(filters);
+
+    if (!tag) {
+      return res.status(404).json({
+        success: false,
+        error: "Tag not found",
+      });
+    }
+
+    if (name !== undefined) {
+      const nameError = validateTagName(name);
+      if (nameError) {
+        return res.status(400).json({ success: false, error: nameError });
+      }
+      if (await findDuplicate(tag.tenantId, name, id)) {
+        return res.status(409).json({
+          success: false,
+          error: `A tag named "${name.trim()}" already exists`,
+        });
+      }
+      tag.name = name.trim();
+    }
+
+    if (color !== undefined) {
+      const colorError = validateTagColor(color);
+      if (colorError) {
+        return res.status(400).json({ success: false, error: colorError });
+      }
+      tag.color = color as WorkflowColor;
+    }
+
+    await tag.save();
+
+    res.json({
+      success: true,
+      message: "Tag updated successfully",
+      tag: formatTag(tag),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteTag(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can delete tags",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid tag identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const tag = await Tag.findOne(filters);
+
+    if (!tag) {
+      return res.status(404).json({
+        success: false,
+        error: "Tag not found",
+      });
+    }
+
+    // Remove the tag from every task and saved view that uses it
+    await Task.updateMany({ labels: tag._id }, { $pull: { labels: tag._id } });
+    await SavedView.updateMany(
+      { tenantId: tag.tenantId },
+      {
+        $pull: {
+          "filters.labels": tag._id,
+          "filters.excludeLabels": tag._id,
+        },
+      },
+    );
+
+    await tag.deleteOne();
+
+    res.json({
+      success: true,
+      message: "Tag deleted successfully",
+    });
+  } catch (err) {
+    next(err);
+  }
+}
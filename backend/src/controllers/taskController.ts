@@ -1,16 +1,567 @@
 import { Response, NextFunction } from "express";
-import Task from "../models/Task";
-import Organization from "../models/Organization";
-import User from "../models/User";
+import { once } from "events";
+import { ClientSession } from "mongoose";
+import Task, { ITask } from "../models/Task";
+import Organization, { IWorkflowStatus } from "../models/Organization";
+import User, { IUser } from "../models/User";
+import Sprint from "../models/Sprint";
+import Tag from "../models/Tag";
+import TaskActivity from "../models/TaskActivity";
+import TaskTemplate from "../models/TaskTemplate";
 import {
   isValidTaskStatus,
   isValidTaskTitle,
   isValidObjectId,
+  isValidChecklist,
+  isValidEstimate,
 } from "../utils/validators";
-import { AuthenticatedRequest } from "../middleware/auth";
+import { AuthenticatedRequest, AuthPayload } from "../middleware/auth";
 import { notificationService } from "../notification";
-import { parseDateIST, getTomorrowIST } from "../utils/dateUtils";
+import {
+  parseDateIST,
+  getTomorrowIST,
+  formatDateInputIST,
+} from "../utils/dateUtils";
 import { checkAndNotifyDueSoon } from "../utils/dueDateNotification";
+import {
+  snapshotTask,
+  diffTaskSnapshots,
+  recordTaskActivity,
+  TaskActivityEntry,
+  TaskSnapshot,
+} from "../utils/taskActivity";
+import {
+  buildChecklist,
+  formatChecklist,
+  getChecklistProgress,
+  ChecklistItemInput,
+} from "../utils/checklist";
+import {
+  createsDependencyCycle,
+  tenantBlockedByLookup,
+  findOpenBlockers,
+} from "../utils/taskDependencies";
+import { normalizeRecurrence } from "../utils/recurrence";
+import {
+  buildCustomFieldFilters,
+  CUSTOM_FIELD_PARAM_PREFIX,
+  formatCustomFields,
+  getTenantCustomFields,
+  resolveCustomFieldValues,
+} from "../utils/customFields";
+import { ICustomFieldDefinition } from "../models/Organization";
+import {
+  parseTaskSearch,
+  buildTaskSearchConditions,
+  buildTextCondition,
+  TASK_PRIORITIES,
+} from "../utils/taskSearch";
+import {
+  getTenantWorkflow,
+  getTenantTransitions,
+  checkTransition,
+  getStatusKeys,
+  getDoneStatuses,
+  getInitialStatus,
+  getStatusLabel,
+  getReviewStatus,
+} from "../utils/workflow";
+import { assigneeConditions, memberTaskConditions } from "../utils/taskAccess";
+import {
+  taskParticipants,
+  taskAssigneeIds,
+  filterByPreferences,
+  notifyTaskAudience,
+} from "../utils/taskAudience";
+import {
+  renderTemplate,
+  sanitizeTemplateVariables,
+  getTemplateDueDate,
+} from "../utils/taskTemplates";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  buildExportRow,
+  buildTaskEvent,
+  loadExportLookups,
+  toCsvLine,
+} from "../utils/taskExport";
+import { icsCalendarStart, icsEvent, ICS_CALENDAR_END } from "../utils/ical";
+import { rankBetween, rebalanceTaskRanks } from "../utils/taskRank";
+
+// The new owner takes the previous one's place among the assignees
+function replaceTaskOwner(task: ITask, newOwner: IUser) {
+  const oldOwnerId = task.userId.toString();
+  const newOwnerId = newOwner._id.toString();
+  const others = taskAssigneeIds(task).filter(
+    (id) => id !== oldOwnerId && id !== newOwnerId,
+  );
+  task.userId = newOwner._id as any;
+  task.assignees = [newOwner._id, ...others] as any;
+}
+
+function formatTask(task: ITask) {
+  return {
+    id: task._id.toString(),
+    tenantId: task.tenantId?.toString() || null,
+    userId: task.userId?.toString() || null,
+    assignees: taskAssigneeIds(task),
+    reviewerId: task.reviewerId?.toString() || null,
+    createdBy: task.createdBy?.toString() || null,
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    sprintId: task.sprintId?.toString() || null,
+    dueDate: task.dueDate,
+    estimateMinutes: task.estimateMinutes ?? null,
+    rank: task.rank ?? null,
+    attachments: task.attachments,
+    checklist: formatChecklist(task.checklist),
+    progress: getChecklistProgress(task.checklist),
+    blockedBy: (task.blockedBy || []).map((id) => id.toString()),
+    labels: (task.labels || []).map((id) => id.toString()),
+    watchers: (task.watchers || []).map((id) => id.toString()),
+    recurrence: task.recurrence || null,
+    seriesId: task.seriesId?.toString() || null,
+    customFields: formatCustomFields(task.customFields),
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt,
+  };
+}
+
+const SORTABLE_TASK_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "dueDate",
+  "title",
+  "rank",
+];
+
+// Short names accepted in `sort`
+const SORT_ALIASES: Record<string, string> = {
+  created: "createdAt",
+  updated: "updatedAt",
+  due: "dueDate",
+};
+
+/**
+ * Turn a `sort` parameter like "-dueDate,title" or "cf.story_points" into a
+ * Mongo sort, newest first by default and as a tie-breaker.
+ */
+function resolveTaskSort(
+  sort: string | undefined,
+  customFields: ICustomFieldDefinition[],
+): Record<string, 1 | -1> | null {
+  if (!sort) return { createdAt: -1 };
+  const sortBy: Record<string, 1 | -1> = {};
+
+  for (const part of sort.split(",").filter(Boolean)) {
+    const direction = part.startsWith("-") ? -1 : 1;
+    const name = part.replace(/^[-+]/, "");
+    const field = SORT_ALIASES[name] || name;
+
+    if (field.startsWith(CUSTOM_FIELD_PARAM_PREFIX)) {
+      const key = field.slice(CUSTOM_FIELD_PARAM_PREFIX.length);
+      if (!customFields.some((definition) => definition.key === key)) {
+        return null;
+      }
+      sortBy[`customFields.${key}`] = direction;
+    } else if (SORTABLE_TASK_FIELDS.includes(field)) {
+      sortBy[field] = direction;
+    } else {
+      return null;
+    }
+  }
+
+  return "createdAt" in sortBy ? sortBy : { ...sortBy, createdAt: -1 };
+}
+
+const isAdminRole = (role?: string) =>
+  role === "tenantAdmin" || role === "superadmin";
+
+// A task waiting on open blockers has to stay in the first column
+const isBlockedStatus = (workflow: IWorkflowStatus[], status: string) =>
+  status !== getInitialStatus(workflow);
+
+/**
+ * Validate a blockedBy list: same-tenant tasks only, no self references and,
+ * for existing tasks, no dependency cycles.
+ */
+async function resolveBlockers(
+  blockedBy: unknown,
+  tenantId: unknown,
+  taskId?: string,
+): Promise<{ ids?: string[]; error?: string }> {
+  if (!Array.isArray(blockedBy)) {
+    return { error: "blockedBy must be an array of task identifiers" };
+  }
+  const ids = Array.from(new Set(blockedBy.map((id) => String(id))));
+  if (ids.some((id) => !isValidObjectId(id))) {
+    return { error: "Invalid blocking task identifier" };
+  }
+  if (taskId && ids.includes(taskId)) {
+    return { error: "A task cannot block itself" };
+  }
+  if (ids.length === 0) return { ids };
+
+  const found = await Task.countDocuments({ _id: { $in: ids }, tenantId });
+  if (found !== ids.length) {
+    return { error: "Blocking tasks must exist in the same tenant" };
+  }
+
+  if (
+    taskId &&
+    (await createsDependencyCycle(taskId, ids, tenantBlockedByLookup(tenantId)))
+  ) {
+    return { error: "These dependencies would create a cycle" };
+  }
+
+  return { ids };
+}
+
+/**
+ * Validate a labels list against the tenant's tag catalog
+ */
+async function resolveLabels(
+  labels: unknown,
+  tenantId: unknown,
+): Promise<{ ids?: string[]; error?: string }> {
+  if (!Array.isArray(labels)) {
+    return { error: "labels must be an array of tag identifiers" };
+  }
+  const ids = Array.from(new Set(labels.map((id) => String(id))));
+  if (ids.some((id) => !isValidObjectId(id))) {
+    return { error: "Invalid tag identifier" };
+  }
+  if (ids.length === 0) return { ids };
+
+  const found = await Tag.countDocuments({ _id: { $in: ids }, tenantId });
+  if (found !== ids.length) {
+    return { error: "Tags must exist in the task's tenant" };
+  }
+  return { ids };
+}
+
+const MAX_ASSIGNEES = 10;
+
+/**
+ * Validate a list of users (assignees or a reviewer) against the task's tenant
+ */
+async function resolveTaskUsers(
+  userIds: unknown,
+  tenantId: unknown,
+): Promise<{ ids?: string[]; error?: string }> {
+  if (!Array.isArray(userIds) || userIds.length > MAX_ASSIGNEES) {
+    return {
+      error: `assignees must be an array of at most ${MAX_ASSIGNEES} user identifiers`,
+    };
+  }
+  const ids = Array.from(new Set(userIds.map((id) => String(id))));
+  if (ids.some((id) => !isValidObjectId(id))) {
+    return { error: "Invalid user identifier" };
+  }
+  if (ids.length === 0) return { ids };
+
+  const found = await User.countDocuments({ _id: { $in: ids }, tenantId });
+  if (found !== ids.length) {
+    return { error: "Users must belong to the task's tenant" };
+  }
+  return { ids };
+}
+
+// Comma-separated ids from a query parameter, ignoring invalid ones
+const parseIdList = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => isValidObjectId(id));
+
+function blockedMessage(blockers: { title: string }[]) {
+  return `Task is blocked by: ${blockers.map((b) => `"${b.title}"`).join(", ")}`;
+}
+
+/**
+ * Whether `actor` may move `task` to `status` under the tenant's transition
+ * rules, its open checklist items and its open blockers
+ */
+async function checkStatusChange(
+  task: ITask,
+  status: string,
+  actor: AuthPayload,
+  workflow: IWorkflowStatus[],
+  overrideChecklist?: boolean,
+): Promise<{ code: number; error: string } | null> {
+  const statusCheck = isValidTaskStatus(status, getStatusKeys(workflow));
+  if (!statusCheck.valid) {
+    return { code: 400, error: statusCheck.message! };
+  }
+  if (status === task.status) return null;
+
+  // The tenant's transition rules decide which moves are allowed, and by whom
+  const transitionCheck = checkTransition(
+    await getTenantTransitions(task.tenantId),
+    workflow,
+    task.status,
+    status,
+    actor.role,
+  );
+  if (!transitionCheck.allowed) {
+    return { code: 409, error: transitionCheck.message };
+  }
+
+  // With a reviewer set, completing the task is their approval to give
+  const doneStatuses = getDoneStatuses(workflow);
+  if (
+    task.reviewerId &&
+    doneStatuses.includes(status) &&
+    !doneStatuses.includes(task.status) &&
+    task.reviewerId.toString() !== actor.userId &&
+    !isAdminRole(actor.role)
+  ) {
+    return {
+      code: 403,
+      error: "Only the reviewer or an admin can approve this task",
+    };
+  }
+
+  // Open checklist items block completion unless an admin overrides
+  const { completed, total } = getChecklistProgress(task.checklist);
+  if (
+    doneStatuses.includes(status) &&
+    !doneStatuses.includes(task.status) &&
+    completed < total &&
+    !(overrideChecklist && isAdminRole(actor.role))
+  ) {
+    return {
+      code: 409,
+      error:
+        "Complete all checklist items before marking this task as completed",
+    };
+  }
+
+  if (isBlockedStatus(workflow, status)) {
+    const openBlockers = await findOpenBlockers(
+      task.blockedBy,
+      task.tenantId,
+      doneStatuses,
+    );
+    if (openBlockers.length > 0) {
+      return { code: 409, error: blockedMessage(openBlockers) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the user a task of `tenantId` is being reassigned to
+ */
+async function resolveAssignee(
+  userId: string,
+  tenantId: unknown,
+): Promise<{ user: IUser } | { code: number; error: string }> {
+  if (!isValidObjectId(userId)) {
+    return { code: 400, error: "Invalid user identifier" };
+  }
+
+  // Verify the new assignee exists in the tenant
+  const user = await User.findById(userId);
+  if (!user) {
+    return { code: 404, error: "Assignee user not found" };
+  }
+  if (!user.tenantId || user.tenantId.toString() !== String(tenantId)) {
+    return { code: 400, error: "User does not belong to the task's tenant" };
+  }
+
+  return { user };
+}
+
+/**
+ * Ask the reviewer of a task that just moved into review to approve it
+ */
+async function notifyReviewer(task: ITask, actor: AuthPayload) {
+  await notifyTaskAudience(
+    task,
+    {
+      type: "review_requested",
+      actorId: actor.userId,
+      only: [task.reviewerId!.toString()],
+    },
+    {
+      title: "Review Requested",
+      message: `${actor.name || "Someone"} asked you to review "${task.title}"`,
+    },
+  );
+}
+
+/**
+ * Tell the assignees of tasks waiting on `blocker` that it has been completed
+ */
+async function notifyDependents(
+  blocker: ITask,
+  actorId: string,
+  doneStatuses: string[],
+) {
+  const dependents = await Task.find({
+    blockedBy: blocker._id,
+    tenantId: blocker.tenantId,
+  });
+  if (!dependents || dependents.length === 0) return;
+
+  // Blockers other than this one that are still open
+  const otherBlockerIds = dependents
+    .flatMap((task) => task.blockedBy.map((id) => id.toString()))
+    .filter((id) => id !== blocker._id.toString());
+  const stillOpen = new Set(
+    (
+      await findOpenBlockers(otherBlockerIds, blocker.tenantId, doneStatuses)
+    ).map((task) => task._id.toString()),
+  );
+
+  await Promise.all(
+    dependents.map((task) => {
+      const remaining = task.blockedBy.filter((id) =>
+        stillOpen.has(id.toString()),
+      ).length;
+      return notifyTaskAudience(
+        task,
+        { type: "task_unblocked", actorId },
+        {
+          title: remaining === 0 ? "Task Unblocked" : "Blocker Completed",
+          message:
+            remaining === 0
+              ? `"${blocker.title}" is completed, "${task.title}" is ready to start`
+              : `"${blocker.title}" is completed, "${task.title}" is still waiting on ${remaining} other task(s)`,
+          metadata: { blockerId: blocker._id.toString(), remaining },
+        },
+      );
+    }),
+  );
+}
+
+interface TaskListParams {
+  status?: string;
+  priority?: string;
+  q?: string;
+  tenantId?: string;
+  userId?: string;
+  sort?: string;
+  labels?: string;
+  excludeLabels?: string;
+}
+
+/**
+ * The Mongo filter and sort for a list of tasks, from the query parameters
+ * of getTasks. Scoped to the actor's tenant, and for members to the tasks
+ * they work on.
+ */
+async function buildTaskListQuery(
+  rawQuery: Record<string, unknown>,
+  actor: AuthPayload,
+): Promise<
+  | { query: any; sortBy: Record<string, 1 | -1>; tenantId: unknown }
+  | { code: number; error: string }
+> {
+  const {
+    status,
+    priority,
+    q,
+    tenantId: tenantIdQuery,
+    userId: queryUserId,
+    sort,
+    labels,
+    excludeLabels,
+  } = rawQuery as TaskListParams;
+
+  const effectiveTenantId =
+    actor.role === "superadmin"
+      ? tenantIdQuery && isValidObjectId(tenantIdQuery)
+        ? tenantIdQuery
+        : actor.tenantId
+      : actor.tenantId;
+
+  const query: any = {};
+
+  if (effectiveTenantId) {
+    query.tenantId = effectiveTenantId;
+  } else if (actor.role !== "superadmin") {
+    return { code: 403, error: "Tenant context is required" };
+  }
+
+  // Members see the tasks they are assigned to or reviewing
+  if (actor.role === "user") {
+    query.$or = memberTaskConditions(actor.userId);
+  } else if (queryUserId && isValidObjectId(queryUserId)) {
+    query.$or = assigneeConditions(queryUserId);
+  }
+
+  if (status) {
+    const workflow = await getTenantWorkflow(effectiveTenantId);
+    if (getStatusKeys(workflow).includes(status)) {
+      query.status = status;
+    }
+  }
+  if (priority && TASK_PRIORITIES.includes(priority as ITask["priority"])) {
+    query.priority = priority;
+  }
+
+  // `q` takes free text mixed with filters like "priority:high due:<7d"
+  const search = parseTaskSearch(typeof q === "string" ? q : "");
+  const searchFilters = await buildTaskSearchConditions(search.terms, {
+    tenantId: effectiveTenantId,
+    actorId: actor.userId,
+  });
+  if (searchFilters.error) {
+    return { code: 400, error: searchFilters.error };
+  }
+  const conditions = searchFilters.conditions;
+  if (search.text) {
+    conditions.push(buildTextCondition(search.text));
+  }
+  if (conditions.length > 0) {
+    query.$and = conditions;
+  }
+
+  // Tasks carrying any of `labels` and none of `excludeLabels`
+  const includedLabels = parseIdList(labels);
+  const excludedLabels = parseIdList(excludeLabels);
+  if (includedLabels.length > 0 || excludedLabels.length > 0) {
+    query.labels = {
+      ...(includedLabels.length > 0 && { $in: includedLabels }),
+      ...(excludedLabels.length > 0 && { $nin: excludedLabels }),
+    };
+  }
+
+  // A sort in the search string wins over the `sort` parameter
+  const sortParam = search.sort ?? sort;
+  const usesCustomFields =
+    sortParam?.includes(CUSTOM_FIELD_PARAM_PREFIX) ||
+    Object.keys(rawQuery).some((param) =>
+      param.startsWith(CUSTOM_FIELD_PARAM_PREFIX),
+    );
+  const customFields = usesCustomFields
+    ? await getTenantCustomFields(effectiveTenantId)
+    : [];
+
+  const customFilters = buildCustomFieldFilters(rawQuery, customFields);
+  if (customFilters.error) {
+    return { code: 400, error: customFilters.error };
+  }
+  Object.assign(query, customFilters.filters);
+
+  const sortBy = resolveTaskSort(sortParam, customFields);
+  if (!sortBy) {
+    return {
+      code: 400,
+      error: `Sort must be a comma-separated list of: ${SORTABLE_TASK_FIELDS.join(", ")} or cf.<field>, each optionally prefixed with "-"`,
+    };
+  }
+
+  return { query, sortBy, tenantId: effectiveTenantId };
+}
 
 export async function getTasks(
   req: AuthenticatedRequest,
@@ -18,20 +569,9 @@ export async function getTasks(
   next: NextFunction,
 ) {
   try {
-    const {
-      page = "1",
-      limit = "10",
-      status,
-      q,
-      tenantId: tenantIdQuery,
-      userId: queryUserId,
-    } = req.query as {
+    const { page = "1", limit = "10" } = req.query as {
       page?: string;
       limit?: string;
-      status?: string;
-      q?: string;
-      tenantId?: string;
-      userId?: string;
     };
 
     const parsedPage = Math.max(parseInt(page as string, 10) || 1, 1);
@@ -40,49 +580,21 @@ export async function getTasks(
       100,
     );
 
-    const actor = req.user!;
-    const effectiveTenantId =
-      actor.role === "superadmin"
-        ? tenantIdQuery && isValidObjectId(tenantIdQuery)
-          ? tenantIdQuery
-          : actor.tenantId
-        : actor.tenantId;
-
-    const query: any = {};
-
-    if (effectiveTenantId) {
-      query.tenantId = effectiveTenantId;
-    } else if (actor.role !== "superadmin") {
-      return res.status(403).json({
-        success: false,
-        error: "Tenant context is required",
-      });
-    }
-
-    if (actor.role === "user") {
-      query.userId = actor.userId;
-    } else if (queryUserId && isValidObjectId(queryUserId)) {
-      query.userId = queryUserId;
-    }
-
-    if (
-      status &&
-      ["todo", "in-progress", "in-review", "completed"].includes(status)
-    ) {
-      query.status = status;
-    }
-    if (q && typeof q === "string" && q.trim().length > 0) {
-      const regex = new RegExp(
-        q.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
-        "i",
-      );
-      query.$or = [{ title: regex }, { description: regex }];
+    const listQuery = await buildTaskListQuery(
+      req.query as Record<string, unknown>,
+      req.user!,
+    );
+    if ("error" in listQuery) {
+      return res
+        .status(listQuery.code)
+        .json({ success: false, error: listQuery.error });
     }
+    const { query, sortBy } = listQuery;
 
     const [total, tasks] = await Promise.all([
       Task.countDocuments(query).exec(),
       Task.find(query)
-        .sort({ createdAt: -1 })
+        .sort(sortBy)
         .skip((parsedPage - 1) * parsedLimit)
         .limit(parsedLimit)
         .exec(),
@@ -98,27 +610,96 @@ export async function getTasks(
       total,
       totalPages,
       count: tasks.length,
-      tasks: tasks.map((task) => ({
-        id: task._id.toString(),
-        tenantId: task.tenantId?.toString() || null,
-        userId: task.userId?.toString() || null,
-        createdBy: task.createdBy?.toString() || null,
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        sprintId: task.sprintId?.toString() || null,
-        dueDate: task.dueDate,
-        attachments: task.attachments,
-        createdAt: task.createdAt,
-        updatedAt: task.updatedAt,
-      })),
+      tasks: tasks.map(formatTask),
     });
   } catch (err) {
     next(err);
   }
 }
 
+/**
+ * Download every task matching the filters of getTasks, without its page
+ * limit, as CSV, JSON or an iCalendar file of the tasks that have a due
+ * date. Tasks are streamed from a cursor so large exports are never held in
+ * memory.
+ */
+export async function exportTasks(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { format = "csv" } = req.query as { format?: string };
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    const listQuery = await buildTaskListQuery(
+      req.query as Record<string, unknown>,
+      req.user!,
+    );
+    if ("error" in listQuery) {
+      return res
+        .status(listQuery.code)
+        .json({ success: false, error: listQuery.error });
+    }
+    const { sortBy, tenantId } = listQuery;
+    // Only tasks with a due date have a place in a calendar
+    const query =
+      format === "ics"
+        ? { ...listQuery.query, dueDate: { $ne: null } }
+        : listQuery.query;
+
+    const lookups = await loadExportLookups(tenantId);
+    const fileName = `tasks-${formatDateInputIST(new Date())}.${format}`;
+
+    res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format as ExportFormat]);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+    // Respect backpressure so a slow client does not buffer the whole export
+    const write = async (chunk: string) => {
+      if (!res.write(chunk)) await once(res, "drain");
+    };
+
+    const now = new Date();
+    let count = 0;
+
+    if (format === "csv") await write(toCsvLine([...EXPORT_COLUMNS]));
+    if (format === "json") await write("[");
+    if (format === "ics") await write(icsCalendarStart("TaskFlow tasks"));
+
+    for await (const task of Task.find(query).sort(sortBy).cursor()) {
+      if (format === "ics") {
+        await write(icsEvent(buildTaskEvent(task, lookups.workflow), now));
+      } else {
+        const row = buildExportRow(task, lookups);
+        await write(
+          format === "csv"
+            ? toCsvLine(EXPORT_COLUMNS.map((column) => row[column]))
+            : `${count > 0 ? "," : ""}\n${JSON.stringify(row)}`,
+        );
+      }
+      count++;
+    }
+
+    if (format === "json") await write("\n]\n");
+    if (format === "ics") await write(ICS_CALENDAR_END);
+    res.end();
+  } catch (err) {
+    // Once streaming has started the status can no longer change, so the
+    // download is cut off instead of ending with a truncated file
+    if (res.headersSent) {
+      console.error("Task export failed:", err);
+      return res.destroy();
+    }
+    next(err);
+  }
+}
+
 export async function getTask(
   req: AuthenticatedRequest,
   res: Response,
@@ -139,7 +720,7 @@ export async function getTask(
       filters.tenantId = actor.tenantId;
     }
     if (actor.role === "user") {
-      filters.userId = actor.userId;
+      filters.$or = memberTaskConditions(actor.userId);
     }
 
     const task = await Task.findOne(filters);
@@ -149,20 +730,7 @@ export async function getTask(
     res.json({
       success: true,
       message: "Task fetched successfully",
-      task: {
-        id: task._id.toString(),
-        tenantId: task.tenantId?.toString() || null,
-        userId: task.userId?.toString() || null,
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        sprintId: task.sprintId?.toString() || null,
-        dueDate: task.dueDate,
-        attachments: task.attachments,
-        createdAt: task.createdAt,
-        updatedAt: task.updatedAt,
-      },
+      task: formatTask(task),
     });
   } catch (err) {
     next(err);
@@ -178,12 +746,21 @@ export async function createTask(
     const {
       title,
       description = "",
-      status = "todo",
+      status: bodyStatus,
       priority = "medium",
       dueDate,
       sprintId,
       userId: bodyUserId,
+      assignees,
+      reviewerId,
       tenantId: bodyTenantId,
+      estimateMinutes,
+      checklist,
+      overrideChecklist,
+      blockedBy,
+      labels,
+      recurrence,
+      customFields,
     } = req.body as {
       title?: string;
       description?: string;
@@ -192,7 +769,16 @@ export async function createTask(
       dueDate?: string | null;
       sprintId?: string | null;
       userId?: string;
+      assignees?: string[];
+      reviewerId?: string | null;
       tenantId?: string;
+      estimateMinutes?: number | null;
+      checklist?: ChecklistItemInput[];
+      overrideChecklist?: boolean;
+      blockedBy?: string[];
+      labels?: string[];
+      recurrence?: Record<string, unknown> | null;
+      customFields?: Record<string, unknown>;
     };
 
     const actor = req.user!;
@@ -225,7 +811,10 @@ export async function createTask(
         .json({ success: false, error: titleCheck.message });
     }
 
-    const statusCheck = isValidTaskStatus(status);
+    const workflow = await getTenantWorkflow(tenantId);
+    const doneStatuses = getDoneStatuses(workflow);
+    const status = bodyStatus || getInitialStatus(workflow);
+    const statusCheck = isValidTaskStatus(status, getStatusKeys(workflow));
     if (!statusCheck.valid) {
       return res
         .status(400)
@@ -239,6 +828,93 @@ export async function createTask(
       });
     }
 
+    let checklistItems: ReturnType<typeof buildChecklist> = [];
+    if (checklist !== undefined) {
+      const checklistCheck = isValidChecklist(checklist);
+      if (!checklistCheck.valid) {
+        return res
+          .status(400)
+          .json({ success: false, error: checklistCheck.message });
+      }
+      checklistItems = buildChecklist(checklist);
+    }
+
+    if (
+      doneStatuses.includes(status) &&
+      checklistItems.some((item) => !item.done) &&
+      !(overrideChecklist && isAdminRole(actor.role))
+    ) {
+      return res.status(409).json({
+        success: false,
+        error:
+          "Complete all checklist items before marking this task as completed",
+      });
+    }
+
+    let blockerIds: string[] = [];
+    if (blockedBy !== undefined) {
+      const blockers = await resolveBlockers(blockedBy, tenantId);
+      if (blockers.error) {
+        return res.status(400).json({ success: false, error: blockers.error });
+      }
+      blockerIds = blockers.ids!;
+
+      if (isBlockedStatus(workflow, status)) {
+        const openBlockers = await findOpenBlockers(
+          blockerIds,
+          tenantId,
+          doneStatuses,
+        );
+        if (openBlockers.length > 0) {
+          return res
+            .status(409)
+            .json({ success: false, error: blockedMessage(openBlockers) });
+        }
+      }
+    }
+
+    if (estimateMinutes !== undefined) {
+      const estimateCheck = isValidEstimate(estimateMinutes);
+      if (!estimateCheck.valid) {
+        return res
+          .status(400)
+          .json({ success: false, error: estimateCheck.message });
+      }
+    }
+
+    let labelIds: string[] = [];
+    if (labels !== undefined) {
+      const labelCheck = await resolveLabels(labels, tenantId);
+      if (labelCheck.error) {
+        return res
+          .status(400)
+          .json({ success: false, error: labelCheck.error });
+      }
+      labelIds = labelCheck.ids!;
+    }
+
+    let recurrenceRule = null;
+    if (recurrence) {
+      const recurrenceCheck = normalizeRecurrence(recurrence);
+      if (!recurrenceCheck.valid) {
+        return res
+          .status(400)
+          .json({ success: false, error: recurrenceCheck.message });
+      }
+      recurrenceRule = recurrenceCheck.rule;
+    }
+
+    const customFieldValues = await resolveCustomFieldValues(
+      customFields,
+      await getTenantCustomFields(tenantId),
+      tenantId,
+    );
+    if (customFieldValues.error) {
+      return res
+        .status(400)
+        .json({ success: false, error: customFieldValues.error });
+    }
+
     // Parse due date in IST, default to tomorrow if not provided
     let parsedDueDate: Date | null = null;
     if (dueDate) {
@@ -327,84 +1003,326 @@ export async function createTask(
       });
     }
 
+    // The owner is always the first assignee; only admins add others
+    let assigneeIds = [ownerUserId];
+    if (assignees !== undefined) {
+      const assigneeCheck = await resolveTaskUsers(assignees, tenantId);
+      if (assigneeCheck.error) {
+        return res
+          .status(400)
+          .json({ success: false, error: assigneeCheck.error });
+      }
+      const others = assigneeCheck.ids!.filter((id) => id !== ownerUserId);
+      if (others.length > 0 && !isAdminRole(actor.role)) {
+        return res.status(403).json({
+          success: false,
+          error: "Users cannot assign tasks to others",
+        });
+      }
+      assigneeIds = [ownerUserId, ...others];
+    }
+
+    let reviewer: string | null = null;
+    if (reviewerId) {
+      const reviewerCheck = await resolveTaskUsers([reviewerId], tenantId);
+      if (reviewerCheck.error) {
+        return res
+          .status(400)
+          .json({ success: false, error: reviewerCheck.error });
+      }
+      if (assigneeIds.includes(reviewerId)) {
+        return res.status(400).json({
+          success: false,
+          error: "The reviewer cannot also be an assignee",
+        });
+      }
+      reviewer = reviewerId;
+    }
+
     const task = new Task({
       title: (title || "").trim(),
       description: description ? description.trim() : "",
       status,
       priority,
       dueDate: parsedDueDate,
+      estimateMinutes: estimateMinutes ?? null,
       sprintId: sprintId && isValidObjectId(sprintId) ? sprintId : null,
       userId: ownerUserId,
+      assignees: assigneeIds,
+      reviewerId: reviewer,
       createdBy: actor.userId,
       tenantId,
+      checklist: checklistItems,
+      blockedBy: blockerIds,
+      labels: labelIds,
+      recurrence: recurrenceRule,
+      customFields: customFieldValues.values,
     });
     await task.save();
 
+    await recordTaskActivity([
+      {
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "created",
+        newValue: task.title,
+      },
+    ]);
+
     // Send notification if task was assigned to another user
-    if (ownerUserId !== actor.userId) {
-      await notificationService.sendToUser({
-        userId: ownerUserId,
-        tenantId: tenantId,
-        type: "task_assigned",
+    await notifyTaskAudience(
+      task,
+      { type: "task_assigned", actorId: actor.userId, only: assigneeIds },
+      {
         title: "New Task Assigned",
         message: `You have been assigned a new task: "${task.title}"`,
-        taskId: task._id.toString(),
-        triggeredBy: actor.userId,
-      });
+      },
+    );
+
+    if (reviewer && task.status === getReviewStatus(workflow)) {
+      await notifyReviewer(task, actor);
     }
 
     // Check if task is due within 1 day and send notification immediately
     if (parsedDueDate) {
-      await checkAndNotifyDueSoon(task);
+      await checkAndNotifyDueSoon(task, doneStatuses);
     }
 
     res.status(201).json({
       success: true,
       message: "Task created successfully",
-      task: {
-        id: task._id.toString(),
-        tenantId: task.tenantId?.toString() || null,
-        userId: task.userId?.toString() || null,
-        createdBy: task.createdBy?.toString() || null,
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        sprintId: task.sprintId?.toString() || null,
-        dueDate: task.dueDate,
-        attachments: task.attachments,
-        createdAt: task.createdAt,
-        updatedAt: task.updatedAt,
-      },
+      task: formatTask(task),
     });
   } catch (err) {
     next(err);
   }
 }
 
-export async function updateTask(
+/**
+ * Create a task from a template of the tenant. `{{date}}`, `{{sprint}}` and
+ * `{{assignee}}` in the title and description are filled in, along with any
+ * custom `variables` sent by the client, and the template's subtasks become
+ * the checklist.
+ */
+export async function createTaskFromTemplate(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction,
 ) {
   try {
-    const { id } = req.params as { id: string };
+    const { templateId } = req.params as { templateId: string };
     const {
-      title,
-      description,
-      status,
-      priority,
-      dueDate,
       sprintId,
-      userId: newAssigneeId,
+      userId: bodyUserId,
+      variables,
     } = req.body as {
-      title?: string;
-      description?: string;
+      sprintId?: string | null;
+      userId?: string;
+      variables?: Record<string, unknown>;
+    };
+
+    const actor = req.user!;
+
+    if (!isValidObjectId(templateId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid template identifier",
+      });
+    }
+
+    const templateFilters: any = { _id: templateId };
+    if (actor.role !== "superadmin") {
+      templateFilters.tenantId = actor.tenantId;
+    }
+
+    const template = await TaskTemplate.findOne(templateFilters);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: "Template not found",
+      });
+    }
+
+    const tenantId = template.tenantId;
+
+    let sprint = null;
+    if (sprintId) {
+      if (!isValidObjectId(sprintId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid sprint identifier",
+        });
+      }
+      sprint = await Sprint.findOne({ _id: sprintId, tenantId });
+      if (!sprint) {
+        return res.status(404).json({
+          success: false,
+          error: "Sprint not found",
+        });
+      }
+    }
+
+    // An explicit assignee wins over the template's default role
+    let owner: IUser | null = null;
+    if (bodyUserId) {
+      if (!isAdminRole(actor.role) && bodyUserId !== actor.userId) {
+        return res.status(403).json({
+          success: false,
+          error: "Users cannot assign tasks to others",
+        });
+      }
+      const assigneeCheck = await resolveAssignee(bodyUserId, tenantId);
+      if ("error" in assigneeCheck) {
+        return res
+          .status(assigneeCheck.code)
+          .json({ success: false, error: assigneeCheck.error });
+      }
+      owner = assigneeCheck.user;
+    } else if (template.assigneeRole === "tenantAdmin") {
+      owner = await User.findOne({ tenantId, role: "tenantAdmin" }).sort({
+        createdAt: 1,
+      });
+    }
+    if (!owner && actor.role !== "superadmin") {
+      owner = await User.findById(actor.userId);
+    }
+    if (!owner) {
+      return res.status(400).json({
+        success: false,
+        error: "userId is required when creating tasks as superadmin",
+      });
+    }
+
+    const templateVariables = sanitizeTemplateVariables(variables, {
+      date: formatDateInputIST(new Date()),
+      sprint: sprint?.name || "",
+      assignee: owner.name || owner.email,
+    });
+    const title = renderTemplate(template.titlePattern, templateVariables)
+      .replace(/\s+/g, " ")
+      .trim();
+
+    const titleCheck = isValidTaskTitle(title);
+    if (!titleCheck.valid) {
+      return res
+        .status(400)
+        .json({ success: false, error: titleCheck.message });
+    }
+
+    const description = renderTemplate(
+      template.description || "",
+      templateVariables,
+    ).trim();
+    if (description.length > 2000) {
+      return res.status(400).json({
+        success: false,
+        error: "Task description cannot exceed 2000 characters",
+      });
+    }
+
+    const workflow = await getTenantWorkflow(tenantId);
+    const doneStatuses = getDoneStatuses(workflow);
+
+    const dueDate =
+      template.dueOffsetDays !== null && template.dueOffsetDays !== undefined
+        ? getTemplateDueDate(template.dueOffsetDays)
+        : getTomorrowIST();
+
+    const ownerUserId = owner._id.toString();
+    const task = new Task({
+      title,
+      description,
+      status: getInitialStatus(workflow),
+      priority: template.priority,
+      dueDate,
+      sprintId: sprint?._id || null,
+      userId: ownerUserId,
+      assignees: [ownerUserId],
+      createdBy: actor.userId,
+      tenantId,
+      checklist: buildChecklist(
+        (template.subtasks || []).map((subtask) => ({
+          title: renderTemplate(subtask, templateVariables),
+        })),
+      ),
+    });
+    await task.save();
+
+    await recordTaskActivity([
+      {
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "created",
+        newValue: task.title,
+      },
+    ]);
+
+    await notifyTaskAudience(
+      task,
+      { type: "task_assigned", actorId: actor.userId, only: [ownerUserId] },
+      {
+        title: "New Task Assigned",
+        message: `You have been assigned a new task: "${task.title}"`,
+      },
+    );
+
+    if (dueDate) {
+      await checkAndNotifyDueSoon(task, doneStatuses);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Task created from template",
+      task: formatTask(task),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateTask(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const {
+      title,
+      description,
+      status,
+      priority,
+      dueDate,
+      sprintId,
+      userId: newAssigneeId,
+      assignees,
+      reviewerId,
+      estimateMinutes,
+      checklist,
+      overrideChecklist,
+      blockedBy,
+      labels,
+      recurrence,
+      customFields,
+    } = req.body as {
+      title?: string;
+      description?: string;
       status?: string;
       priority?: string;
       dueDate?: string | null;
       sprintId?: string | null;
       userId?: string;
+      assignees?: string[];
+      reviewerId?: string | null;
+      estimateMinutes?: number | null;
+      checklist?: ChecklistItemInput[];
+      overrideChecklist?: boolean;
+      blockedBy?: string[];
+      labels?: string[];
+      recurrence?: Record<string, unknown> | null;
+      customFields?: Record<string, unknown>;
     };
 
     const actor = req.user!;
@@ -421,7 +1339,7 @@ export async function updateTask(
       filters.tenantId = actor.tenantId;
     }
     if (actor.role === "user") {
-      filters.userId = actor.userId;
+      filters.$or = memberTaskConditions(actor.userId);
     }
 
     const task = await Task.findOne(filters);
@@ -429,9 +1347,14 @@ export async function updateTask(
       return res.status(404).json({ success: false, error: "Task not found" });
     }
 
+    const workflow = await getTenantWorkflow(task.tenantId);
+    const doneStatuses = getDoneStatuses(workflow);
     const oldStatus = task.status;
     const oldDueDate = task.dueDate;
     const oldAssigneeId = task.userId.toString();
+    const oldAssigneeIds = taskAssigneeIds(task);
+    const oldReviewerId = task.reviewerId?.toString() || null;
+    const before = snapshotTask(task);
 
     // 1. Update basic fields
     if (title !== undefined) {
@@ -448,13 +1371,108 @@ export async function updateTask(
       task.description = description ? description.trim() : "";
     }
 
+    // 1.5. Replace Checklist
+    if (checklist !== undefined) {
+      const checklistCheck = isValidChecklist(checklist);
+      if (!checklistCheck.valid) {
+        return res
+          .status(400)
+          .json({ success: false, error: checklistCheck.message });
+      }
+      task.checklist = buildChecklist(checklist, task.checklist) as any;
+    }
+
+    // 1.6. Replace Dependencies
+    if (blockedBy !== undefined) {
+      const blockers = await resolveBlockers(
+        blockedBy,
+        task.tenantId,
+        task._id.toString(),
+      );
+      if (blockers.error) {
+        return res.status(400).json({ success: false, error: blockers.error });
+      }
+      task.blockedBy = blockers.ids as any;
+    }
+
+    // 1.65. Replace Labels
+    if (labels !== undefined) {
+      const labelCheck = await resolveLabels(labels, task.tenantId);
+      if (labelCheck.error) {
+        return res
+          .status(400)
+          .json({ success: false, error: labelCheck.error });
+      }
+      task.labels = labelCheck.ids as any;
+    }
+
+    // 1.7. Update Recurrence (null stops the series)
+    if (recurrence !== undefined) {
+      if (recurrence === null) {
+        task.recurrence = null;
+      } else {
+        const recurrenceCheck = normalizeRecurrence(recurrence);
+        if (!recurrenceCheck.valid) {
+          return res
+            .status(400)
+            .json({ success: false, error: recurrenceCheck.message });
+        }
+        task.recurrence = recurrenceCheck.rule;
+      }
+    }
+
+    // 1.8. Merge Custom Field values
+    if (customFields !== undefined) {
+      const customFieldValues = await resolveCustomFieldValues(
+        customFields,
+        await getTenantCustomFields(task.tenantId),
+        task.tenantId,
+        task.customFields,
+      );
+      if (customFieldValues.error) {
+        return res
+          .status(400)
+          .json({ success: false, error: customFieldValues.error });
+      }
+      task.customFields = customFieldValues.values as any;
+    }
+
+    // 1.9. Update Reviewer (null removes it)
+    // Anyone may ask for a review, but only admins change or drop a reviewer
+    if (reviewerId !== undefined && (reviewerId || null) !== oldReviewerId) {
+      if (oldReviewerId && !isAdminRole(actor.role)) {
+        return res.status(403).json({
+          success: false,
+          error: "Only an admin can change the reviewer",
+        });
+      }
+      if (reviewerId) {
+        const reviewerCheck = await resolveTaskUsers(
+          [reviewerId],
+          task.tenantId,
+        );
+        if (reviewerCheck.error) {
+          return res
+            .status(400)
+            .json({ success: false, error: reviewerCheck.error });
+        }
+      }
+      task.reviewerId = (reviewerId || null) as any;
+    }
+
     // 2. Update Status
     if (status !== undefined) {
-      const statusCheck = isValidTaskStatus(status);
-      if (!statusCheck.valid) {
+      const statusError = await checkStatusChange(
+        task,
+        status,
+        actor,
+        workflow,
+        overrideChecklist,
+      );
+      if (statusError) {
         return res
-          .status(400)
-          .json({ success: false, error: statusCheck.message });
+          .status(statusError.code)
+          .json({ success: false, error: statusError.error });
       }
       task.status = status as any;
     }
@@ -486,6 +1504,17 @@ export async function updateTask(
       }
     }
 
+    // 3.2. Update Estimate (null clears it)
+    if (estimateMinutes !== undefined) {
+      const estimateCheck = isValidEstimate(estimateMinutes);
+      if (!estimateCheck.valid) {
+        return res
+          .status(400)
+          .json({ success: false, error: estimateCheck.message });
+      }
+      task.estimateMinutes = estimateMinutes;
+    }
+
     // 3.5. Update Sprint
     if (sprintId !== undefined) {
       if (sprintId === null) {
@@ -512,95 +1541,110 @@ export async function updateTask(
           error: "Users cannot reassign tasks",
         });
       }
-      if (!isValidObjectId(newAssigneeId)) {
-        return res.status(400).json({
+      const assignee = await resolveAssignee(newAssigneeId, task.tenantId);
+      if ("error" in assignee) {
+        return res
+          .status(assignee.code)
+          .json({ success: false, error: assignee.error });
+      }
+
+      replaceTaskOwner(task, assignee.user);
+    }
+
+    // 4.5. Replace Assignees (Only for Admins)
+    if (assignees !== undefined) {
+      if (actor.role === "user") {
+        return res.status(403).json({
           success: false,
-          error: "Invalid user identifier",
+          error: "Users cannot reassign tasks",
         });
       }
-
-      // Verify the new assignee exists in the tenant
-      const targetUser = await User.findById(newAssigneeId);
-      if (!targetUser) {
+      const assigneeCheck = await resolveTaskUsers(assignees, task.tenantId);
+      if (assigneeCheck.error) {
         return res
-          .status(404)
-          .json({ success: false, error: "Assignee user not found" });
+          .status(400)
+          .json({ success: false, error: assigneeCheck.error });
       }
-
-      const taskTenantId = task.tenantId.toString();
-      if (
-        !targetUser.tenantId ||
-        targetUser.tenantId.toString() !== taskTenantId
-      ) {
+      const ids = assigneeCheck.ids!;
+      if (ids.length === 0) {
         return res.status(400).json({
           success: false,
-          error: "User does not belong to the task's tenant",
+          error: "A task needs at least one assignee",
         });
       }
+      // Keep the primary assignee when they are still on the task
+      const primary = ids.includes(task.userId.toString())
+        ? task.userId.toString()
+        : ids[0];
+      task.userId = primary as any;
+      task.assignees = ids as any;
+    }
 
-      task.userId = targetUser._id;
+    if (
+      task.reviewerId &&
+      [task.userId.toString(), ...taskAssigneeIds(task)].includes(
+        task.reviewerId.toString(),
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "The reviewer cannot also be an assignee",
+      });
     }
 
     await task.save();
 
+    await recordTaskActivity(
+      diffTaskSnapshots(before, snapshotTask(task)).map((change) => ({
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "updated" as const,
+        ...change,
+      })),
+    );
+
     // --- NOTIFICATIONS ---
 
-    const notifications: Promise<void>[] = [];
+    const notifications: Promise<unknown>[] = [];
 
     // A. Status Change Notifications
-    if (status !== undefined && status !== oldStatus) {
-      const metadata = { oldStatus, newStatus: status };
-      const message =
-        status === "completed"
-          ? `Task "${task.title}" has been marked as completed`
-          : `Task "${task.title}" status changed from ${oldStatus} to ${status}`;
-
-      // 1. Notify Assignee (if actor is NOT the assignee)
-      // Note: If assignee changed in this same request, we notify the NEW assignee about assignment,
-      // but maybe we should notify them about status too?
-      // Simpler: Notify CURRENT task.userId (which is new assignee if changed).
-      if (task.userId.toString() !== actor.userId) {
-        notifications.push(
-          notificationService.sendToUser({
-            userId: task.userId.toString(),
-            tenantId: task.tenantId.toString(),
-            type: status === "completed" ? "task_completed" : "task_updated",
-            title:
-              status === "completed" ? "Task Completed" : "Task Status Updated",
-            message: message,
-            taskId: task._id.toString(),
-            triggeredBy: actor.userId,
-            metadata,
-          }),
-        );
-      }
+    // Assignee, creator and watchers, except whoever made the change
+    const isCompleted =
+      status !== undefined &&
+      doneStatuses.includes(status) &&
+      !doneStatuses.includes(oldStatus);
+    const reviewer = task.reviewerId?.toString() || null;
+    const reviewStatus = getReviewStatus(workflow);
+    // The reviewer hears about a task entering review, or joining one in review
+    const isReviewRequested =
+      reviewer !== null &&
+      reviewStatus !== null &&
+      task.status === reviewStatus &&
+      (oldStatus !== reviewStatus || reviewer !== oldReviewerId);
 
-      // 2. Notify Creator (if actor is NOT the creator) - Admin Case
-      // This covers "status change notif from user to admin"
-      if (task.createdBy.toString() !== actor.userId) {
-        // Avoid double notification if Creator IS the Assignee (already handled above)
-        if (task.createdBy.toString() !== task.userId.toString()) {
-          notifications.push(
-            notificationService.sendToUser({
-              userId: task.createdBy.toString(),
-              tenantId: task.tenantId.toString(),
-              type: status === "completed" ? "task_completed" : "task_updated",
-              title:
-                status === "completed"
-                  ? "Task Completed"
-                  : "Task Status Updated",
-              message: `${message} by user`, // Add context
-              taskId: task._id.toString(),
-              triggeredBy: actor.userId,
-              metadata,
-            }),
-          );
-        }
-      }
+    if (status !== undefined && status !== oldStatus) {
+      const newLabel = getStatusLabel(workflow, status);
+      notifications.push(
+        notifyTaskAudience(
+          task,
+          {
+            type: isCompleted ? "task_completed" : "task_updated",
+            actorId: actor.userId,
+            except: isReviewRequested ? [reviewer] : [],
+          },
+          {
+            title: isCompleted ? "Task Completed" : "Task Status Updated",
+            message: isCompleted
+              ? `Task "${task.title}" has been marked as ${newLabel}`
+              : `Task "${task.title}" status changed from ${getStatusLabel(workflow, oldStatus)} to ${newLabel}`,
+            metadata: { oldStatus, newStatus: status },
+          },
+        ),
+      );
     }
 
     // B. Due Date Change Notifications
-    // "duedate to both"
     const isDueDateChanged =
       (dueDate !== undefined &&
         oldDueDate?.getTime() !== task.dueDate?.getTime()) ||
@@ -609,111 +1653,85 @@ export async function updateTask(
 
     if (isDueDateChanged) {
       const dateText = task.dueDate ? task.dueDate.toDateString() : "No Date";
-      const message = `Task "${task.title}" due date updated to ${dateText}`;
-
-      // Notify Assignee (if not actor)
-      if (task.userId.toString() !== actor.userId) {
-        notifications.push(
-          notificationService.sendToUser({
-            userId: task.userId.toString(),
-            tenantId: task.tenantId.toString(),
-            type: "task_updated",
+      notifications.push(
+        notifyTaskAudience(
+          task,
+          { type: "task_updated", actorId: actor.userId },
+          {
             title: "Task Due Date Updated",
-            message,
-            taskId: task._id.toString(),
-            triggeredBy: actor.userId,
+            message: `Task "${task.title}" due date updated to ${dateText}`,
             metadata: {
               oldDueDate: oldDueDate ? oldDueDate.toISOString() : "",
               newDueDate: task.dueDate ? task.dueDate.toISOString() : "",
             },
-          }),
-        );
-      }
+          },
+        ),
+      );
+    }
 
-      // Notify Creator (if not actor)
-      // Avoid double notif if Creator == Assignee
-      if (
-        task.createdBy.toString() !== actor.userId &&
-        task.createdBy.toString() !== task.userId.toString()
-      ) {
-        notifications.push(
-          notificationService.sendToUser({
-            userId: task.createdBy.toString(),
-            tenantId: task.tenantId.toString(),
-            type: "task_updated",
-            title: "Task Due Date Updated",
-            message,
-            taskId: task._id.toString(),
-            triggeredBy: actor.userId,
-            metadata: {
-              oldDueDate: oldDueDate ? oldDueDate.toISOString() : "",
-              newDueDate: task.dueDate ? task.dueDate.toISOString() : "",
-            },
-          }),
-        );
-      }
+    if (isReviewRequested) {
+      notifications.push(notifyReviewer(task, actor));
     }
 
     // C. Assignment Change Notifications (Re-assignment)
-    // "assign task notif from admin to user"
-    if (newAssigneeId !== undefined && newAssigneeId !== oldAssigneeId) {
-      // Notify New Assignee
-      if (newAssigneeId !== actor.userId) {
-        notifications.push(
-          notificationService.sendToUser({
-            userId: newAssigneeId,
-            tenantId: task.tenantId.toString(),
+    // Only the added and the removed assignees hear about it
+    const newAssigneeIds = taskAssigneeIds(task);
+    const addedAssignees = newAssigneeIds.filter(
+      (userId) => !oldAssigneeIds.includes(userId),
+    );
+    const removedAssignees = oldAssigneeIds.filter(
+      (userId) => !newAssigneeIds.includes(userId),
+    );
+    if (addedAssignees.length > 0) {
+      notifications.push(
+        notifyTaskAudience(
+          task,
+          {
             type: "task_assigned",
+            actorId: actor.userId,
+            only: addedAssignees,
+          },
+          {
             title: "New Task Assigned",
             message: `You have been assigned a task: "${task.title}"`,
-            taskId: task._id.toString(),
-            triggeredBy: actor.userId,
             metadata: { previousAssignee: oldAssigneeId },
-          }),
-        );
-      }
-
-      // Optional: Notify Old Assignee (if not actor)
-      if (oldAssigneeId !== actor.userId) {
-        notifications.push(
-          notificationService.sendToUser({
-            userId: oldAssigneeId,
-            tenantId: task.tenantId.toString(),
-            type: "task_updated", // or task_unassigned if such type exists, sticking to general
+          },
+        ),
+      );
+    }
+    if (removedAssignees.length > 0) {
+      notifications.push(
+        notifyTaskAudience(
+          task,
+          {
+            type: "task_updated",
+            actorId: actor.userId,
+            only: removedAssignees,
+          },
+          {
             title: "Task Unassigned",
             message: `You have been unassigned from task: "${task.title}"`,
-            taskId: task._id.toString(),
-            triggeredBy: actor.userId,
-          }),
-        );
-      }
+          },
+        ),
+      );
+    }
+
+    // D. Dependents waiting on this task
+    if (isCompleted) {
+      notifications.push(notifyDependents(task, actor.userId, doneStatuses));
     }
 
     await Promise.all(notifications);
 
     // Check if task is due within 1 day and send notification immediately (if due date was changed)
     if (isDueDateChanged && task.dueDate) {
-      await checkAndNotifyDueSoon(task);
+      await checkAndNotifyDueSoon(task, doneStatuses);
     }
 
     res.json({
       success: true,
       message: "Task updated successfully",
-      task: {
-        id: task._id.toString(),
-        tenantId: task.tenantId?.toString() || null,
-        userId: task.userId?.toString() || null,
-        createdBy: task.createdBy?.toString() || null,
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        sprintId: task.sprintId?.toString() || null,
-        dueDate: task.dueDate,
-        attachments: task.attachments,
-        createdAt: task.createdAt,
-        updatedAt: task.updatedAt,
-      },
+      task: formatTask(task),
     });
   } catch (err) {
     next(err);
@@ -740,30 +1758,45 @@ export async function deleteTask(
     if (actor.role !== "superadmin") {
       filters.tenantId = actor.tenantId;
     }
+    // Reviewers cannot delete the tasks they review
     if (actor.role === "user") {
-      filters.userId = actor.userId;
+      filters.$or = assigneeConditions(actor.userId);
     }
 
-    const task = await Task.findOneAndDelete(filters);
+    const task = await Task.findOne(filters);
     if (!task) {
       return res.status(404).json({ success: false, error: "Task not found" });
     }
 
+    // Trashed tasks keep their sprint, attachments and dependency links so
+    // they can be restored; trashed blockers no longer block anything
+    task.deletedAt = new Date();
+    task.deletedBy = actor.userId as any;
+    await task.save();
+
+    await recordTaskActivity([
+      {
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "deleted",
+        oldValue: task.title,
+      },
+    ]);
+
     // Send notification about task deletion
-    if (task.userId.toString() !== actor.userId) {
-      await notificationService.sendToUser({
-        userId: task.userId.toString(),
-        tenantId: task.tenantId.toString(),
-        type: "task_deleted",
+    await notifyTaskAudience(
+      task,
+      { type: "task_deleted", actorId: actor.userId },
+      {
         title: "Task Deleted",
         message: `Task "${task.title}" has been deleted`,
-        triggeredBy: actor.userId,
-      });
-    }
+      },
+    );
 
     res.json({
       success: true,
-      message: "Task deleted successfully",
+      message: "Task moved to trash",
       task: {
         id: task._id.toString(),
         tenantId: task.tenantId,
@@ -780,17 +1813,381 @@ export async function deleteTask(
   }
 }
 
-export async function addAttachments(
+const BULK_TASK_LIMIT = 100;
+
+interface BulkTaskPatch {
+  status?: string;
+  priority?: string;
+  sprintId?: string | null;
+  userId?: string;
+}
+
+interface BulkTaskDigest {
+  tenantId: string;
+  titles: string[];
+  taskIds: string[];
+}
+
+/**
+ * Group bulk-changed tasks by the users who hear about them, so each user
+ * gets one notification for the whole batch
+ */
+function addToDigest(
+  digests: Map<string, BulkTaskDigest>,
+  userIds: string[],
+  task: ITask,
+  actorId: string,
+) {
+  for (const userId of new Set(userIds)) {
+    if (userId === actorId) continue;
+    const digest = digests.get(userId) || {
+      tenantId: task.tenantId.toString(),
+      titles: [],
+      taskIds: [],
+    };
+    digest.titles.push(task.title);
+    digest.taskIds.push(task._id.toString());
+    digests.set(userId, digest);
+  }
+}
+
+function digestMessage(titles: string[], verb: string) {
+  const listed = titles
+    .slice(0, 3)
+    .map((title) => `"${title}"`)
+    .join(", ");
+  const more = titles.length > 3 ? ` and ${titles.length - 3} more` : "";
+  return titles.length === 1
+    ? `Task ${listed} has been ${verb}`
+    : `${titles.length} tasks have been ${verb}: ${listed}${more}`;
+}
+
+// The error a standalone mongod (no replica set) gives for a transaction
+function transactionsUnsupported(err: any) {
+  return (
+    err?.code === 20 &&
+    /replica set member or mongos/.test(String(err?.message || ""))
+  );
+}
+
+/**
+ * Apply one patch, or a delete, to a list of tasks. Every task goes through
+ * the checks of updateTask/deleteTask; the ones that pass are written in a
+ * single transaction and each affected user gets one digest notification.
+ */
+export async function bulkTasks(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction,
 ) {
   try {
-    const { id } = req.params as { id: string };
-    const files = req.files as Express.Multer.File[];
+    const { ids, action, patch, overrideChecklist } = req.body as {
+      ids?: unknown;
+      action?: string;
+      patch?: BulkTaskPatch;
+      overrideChecklist?: boolean;
+    };
+
     const actor = req.user!;
 
-    if (!isValidObjectId(id)) {
+    if (action !== "update" && action !== "delete") {
+      return res.status(400).json({
+        success: false,
+        error: "Action must be one of: update, delete",
+      });
+    }
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "ids must be a non-empty array of task identifiers",
+      });
+    }
+
+    const taskIds = Array.from(new Set(ids.map((id) => String(id))));
+    if (taskIds.length > BULK_TASK_LIMIT) {
+      return res.status(400).json({
+        success: false,
+        error: `Bulk operations are limited to ${BULK_TASK_LIMIT} tasks`,
+      });
+    }
+
+    const changes: BulkTaskPatch = {};
+    if (action === "update") {
+      const { status, priority, sprintId, userId } = patch || {};
+
+      if (
+        status === undefined &&
+        priority === undefined &&
+        sprintId === undefined &&
+        userId === undefined
+      ) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Patch must set at least one of: status, priority, sprintId, userId",
+        });
+      }
+
+      if (priority !== undefined) {
+        if (!TASK_PRIORITIES.includes(priority as any)) {
+          return res.status(400).json({
+            success: false,
+            error: "Priority must be one of: low, medium, high",
+          });
+        }
+        changes.priority = priority;
+      }
+
+      if (sprintId !== undefined) {
+        if (sprintId !== null && !isValidObjectId(sprintId)) {
+          return res.status(400).json({
+            success: false,
+            error: "Invalid sprint identifier",
+          });
+        }
+        changes.sprintId = sprintId;
+      }
+
+      if (userId !== undefined && userId !== null && userId !== "") {
+        if (actor.role === "user") {
+          return res.status(403).json({
+            success: false,
+            error: "Users cannot reassign tasks",
+          });
+        }
+        changes.userId = userId;
+      }
+
+      if (status !== undefined) changes.status = status;
+    }
+
+    const filters: any = { _id: { $in: taskIds.filter(isValidObjectId) } };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+    // Reviewers cannot delete the tasks they review
+    if (actor.role === "user") {
+      filters.$or =
+        action === "delete"
+          ? assigneeConditions(actor.userId)
+          : memberTaskConditions(actor.userId);
+    }
+
+    const tasks = await Task.find(filters);
+    const tasksById = new Map(tasks.map((task) => [task._id.toString(), task]));
+
+    const results: { id: string; success: boolean; error?: string }[] = [];
+    const accepted: {
+      task: ITask;
+      before: TaskSnapshot;
+      oldAssigneeId: string;
+    }[] = [];
+
+    for (const id of taskIds) {
+      if (!isValidObjectId(id)) {
+        results.push({ id, success: false, error: "Invalid task identifier" });
+        continue;
+      }
+      const task = tasksById.get(id);
+      if (!task) {
+        results.push({ id, success: false, error: "Task not found" });
+        continue;
+      }
+
+      const before = snapshotTask(task);
+      const oldAssigneeId = task.userId.toString();
+
+      if (action === "update") {
+        if (changes.status !== undefined) {
+          const statusError = await checkStatusChange(
+            task,
+            changes.status,
+            actor,
+            await getTenantWorkflow(task.tenantId),
+            overrideChecklist,
+          );
+          if (statusError) {
+            results.push({ id, success: false, error: statusError.error });
+            continue;
+          }
+          task.status = changes.status as any;
+        }
+
+        if (changes.userId !== undefined) {
+          const assignee = await resolveAssignee(changes.userId, task.tenantId);
+          if ("error" in assignee) {
+            results.push({ id, success: false, error: assignee.error });
+            continue;
+          }
+          if (task.reviewerId?.toString() === changes.userId) {
+            results.push({
+              id,
+              success: false,
+              error: "The reviewer cannot also be an assignee",
+            });
+            continue;
+          }
+          replaceTaskOwner(task, assignee.user);
+        }
+
+        if (changes.priority !== undefined) {
+          task.priority = changes.priority as any;
+        }
+        if (changes.sprintId !== undefined) {
+          task.sprintId = changes.sprintId as any;
+        }
+      }
+
+      results.push({ id, success: true });
+      accepted.push({ task, before, oldAssigneeId });
+    }
+
+    // Everything that passed its checks is written, or nothing is
+    if (accepted.length > 0) {
+      const write = async (session?: ClientSession) => {
+        if (action === "delete") {
+          await Task.updateMany(
+            { _id: { $in: accepted.map(({ task }) => task._id) } },
+            { $set: { deletedAt: new Date(), deletedBy: actor.userId } },
+            { session },
+          );
+        } else {
+          for (const { task } of accepted) {
+            await task.save({ session });
+          }
+        }
+      };
+
+      const session = await Task.startSession();
+      try {
+        await session.withTransaction(() => write(session));
+      } catch (err) {
+        // A standalone mongod has no transactions; the first write failed,
+        // so nothing was written yet and the tasks are saved one by one
+        if (!transactionsUnsupported(err)) throw err;
+        await write();
+      } finally {
+        await session.endSession();
+      }
+    }
+
+    await recordTaskActivity(
+      accepted.flatMap(({ task, before }): TaskActivityEntry[] =>
+        action === "delete"
+          ? [
+              {
+                taskId: task._id,
+                tenantId: task.tenantId,
+                actorId: actor.userId,
+                action: "deleted" as const,
+                oldValue: task.title,
+              },
+            ]
+          : diffTaskSnapshots(before, snapshotTask(task)).map((change) => ({
+              taskId: task._id,
+              tenantId: task.tenantId,
+              actorId: actor.userId,
+              action: "updated" as const,
+              ...change,
+            })),
+      ),
+    );
+
+    // --- NOTIFICATIONS ---
+
+    // Everyone involved in a task hears about it, previous assignees too
+    const digests = new Map<string, BulkTaskDigest>();
+    for (const { task, before, oldAssigneeId } of accepted) {
+      if (action === "delete") {
+        addToDigest(digests, taskParticipants(task), task, actor.userId);
+      } else if (diffTaskSnapshots(before, snapshotTask(task)).length > 0) {
+        addToDigest(
+          digests,
+          [...taskParticipants(task), oldAssigneeId],
+          task,
+          actor.userId,
+        );
+      }
+    }
+
+    const notificationType =
+      action === "delete" ? "task_deleted" : "task_updated";
+    const recipients = await filterByPreferences(
+      Array.from(digests.keys()),
+      notificationType,
+    );
+    const notifications: Promise<unknown>[] = [];
+
+    for (const userId of recipients) {
+      const digest = digests.get(userId)!;
+      notifications.push(
+        notificationService.sendToUser({
+          userId,
+          tenantId: digest.tenantId,
+          type: notificationType,
+          title: action === "delete" ? "Tasks Deleted" : "Tasks Updated",
+          message: digestMessage(
+            digest.titles,
+            action === "delete" ? "deleted" : "updated",
+          ),
+          // Deleted tasks have nothing left to open
+          taskId:
+            action === "update" && digest.taskIds.length === 1
+              ? digest.taskIds[0]
+              : undefined,
+          triggeredBy: actor.userId,
+          metadata: { bulk: true, taskIds: digest.taskIds, changes },
+        }),
+      );
+    }
+
+    // Dependents waiting on tasks completed by this batch
+    if (action === "update" && changes.status !== undefined) {
+      for (const { task, before } of accepted) {
+        const doneStatuses = getDoneStatuses(
+          await getTenantWorkflow(task.tenantId),
+        );
+        if (
+          doneStatuses.includes(task.status) &&
+          !doneStatuses.includes(before.status!)
+        ) {
+          notifications.push(
+            notifyDependents(task, actor.userId, doneStatuses),
+          );
+        }
+      }
+    }
+
+    await Promise.all(notifications);
+
+    const updated = accepted.length;
+    res.json({
+      success: true,
+      message:
+        action === "delete"
+          ? `${updated} of ${taskIds.length} task(s) deleted`
+          : `${updated} of ${taskIds.length} task(s) updated`,
+      results,
+      tasks:
+        action === "update" ? accepted.map(({ task }) => formatTask(task)) : [],
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function addAttachments(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const files = req.files as Express.Multer.File[];
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
       return res
         .status(400)
         .json({ success: false, error: "Invalid task identifier" });
@@ -807,7 +2204,7 @@ export async function addAttachments(
       filters.tenantId = actor.tenantId;
     }
     if (actor.role === "user") {
-      filters.userId = actor.userId;
+      filters.$or = memberTaskConditions(actor.userId);
     }
 
     const task = await Task.findOne(filters);
@@ -850,6 +2247,17 @@ export async function addAttachments(
     task.attachments = [...(task.attachments || []), ...uploadedAttachments];
     await task.save();
 
+    await recordTaskActivity(
+      uploadedAttachments.map((attachment) => ({
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "attachment_added" as const,
+        field: "attachments",
+        newValue: attachment.name,
+      })),
+    );
+
     res.json({
       success: true,
       message: "Attachments added successfully",
@@ -885,7 +2293,7 @@ export async function removeAttachment(
     }
     // Users can remove their own task attachments? Let's assume yes if they created the task or are assigned.
     if (actor.role === "user") {
-      filters.userId = actor.userId;
+      filters.$or = memberTaskConditions(actor.userId);
     }
 
     const task = await Task.findOne(filters);
@@ -916,6 +2324,17 @@ export async function removeAttachment(
     task.attachments.splice(attachmentIndex, 1);
     await task.save();
 
+    await recordTaskActivity([
+      {
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "attachment_removed",
+        field: "attachments",
+        oldValue: attachment.name,
+      },
+    ]);
+
     res.json({
       success: true,
       message: "Attachment removed successfully",
@@ -925,3 +2344,328 @@ export async function removeAttachment(
     next(err);
   }
 }
+
+export async function getTaskActivity(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const filters: any = { _id: id };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+    if (actor.role === "user") {
+      filters.$or = memberTaskConditions(actor.userId);
+    }
+
+    const task = await Task.findOne(filters);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const activities = await TaskActivity.find({ taskId: task._id })
+      .sort({ createdAt: -1 })
+      .populate("actorId", "name email")
+      .exec();
+
+    // People, sprint, label and blocker changes are stored as IDs (lists as
+    // "id1,id2"), resolve them to names
+    const idTargets: Record<string, "users" | "sprints" | "tags" | "tasks"> = {
+      userId: "users",
+      assignees: "users",
+      reviewerId: "users",
+      sprintId: "sprints",
+      labels: "tags",
+      blockedBy: "tasks",
+    };
+    const idsOf = (value: unknown) =>
+      typeof value === "string"
+        ? value.split(",").filter((id) => isValidObjectId(id))
+        : [];
+    const ids = {
+      users: new Set<string>(),
+      sprints: new Set<string>(),
+      tags: new Set<string>(),
+      tasks: new Set<string>(),
+    };
+    activities.forEach((activity) => {
+      const target = activity.field ? idTargets[activity.field] : undefined;
+      if (!target) return;
+      [activity.oldValue, activity.newValue].forEach((value) =>
+        idsOf(value).forEach((id) => ids[target].add(id)),
+      );
+    });
+
+    const [users, sprints, tags, blockers] = await Promise.all([
+      ids.users.size > 0
+        ? User.find({ _id: { $in: Array.from(ids.users) } }).select("name")
+        : [],
+      ids.sprints.size > 0
+        ? // Deleted sprints keep their name in the history
+          Sprint.find({ _id: { $in: Array.from(ids.sprints) } })
+            .setOptions({ withDeleted: true })
+            .select("name")
+        : [],
+      ids.tags.size > 0
+        ? Tag.find({ _id: { $in: Array.from(ids.tags) } }).select("name")
+        : [],
+      ids.tasks.size > 0
+        ? Task.find({ _id: { $in: Array.from(ids.tasks) } })
+            .setOptions({ withDeleted: true })
+            .select("title")
+        : [],
+    ]);
+    const names = new Map<string, string>();
+    users.forEach((u) => names.set(u._id.toString(), u.name));
+    sprints.forEach((s) => names.set(s._id.toString(), s.name));
+    tags.forEach((t) => names.set(t._id.toString(), t.name));
+    blockers.forEach((t) => names.set(t._id.toString(), t.title));
+    const labelOf = (field: string | null | undefined, value: unknown) => {
+      if (!field || !idTargets[field]) return null;
+      const known = idsOf(value)
+        .map((id) => names.get(id))
+        .filter(Boolean);
+      return known.length > 0 ? known.join(", ") : null;
+    };
+
+    res.json({
+      success: true,
+      message: "Task activity fetched successfully",
+      count: activities.length,
+      activities: activities.map((activity) => {
+        const activityActor: any = activity.actorId;
+        return {
+          id: activity._id.toString(),
+          taskId: activity.taskId.toString(),
+          action: activity.action,
+          field: activity.field || null,
+          oldValue: activity.oldValue ?? null,
+          newValue: activity.newValue ?? null,
+          oldLabel: labelOf(activity.field, activity.oldValue),
+          newLabel: labelOf(activity.field, activity.newValue),
+          actor: {
+            id: activityActor?._id?.toString() || null,
+            name: activityActor?.name || null,
+            email: activityActor?.email || null,
+          },
+          createdAt: activity.createdAt,
+        };
+      }),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Move a task in the manual order: after `afterId` and/or before
+ * `beforeId`, the tasks around the spot it was dropped on. Ranks are spread
+ * out again when they have run out of room. A move based on an order that
+ * changed in the meantime is refused, so the client can reload and retry.
+ */
+export async function moveTask(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { afterId, beforeId } = (req.body || {}) as {
+      afterId?: string | null;
+      beforeId?: string | null;
+    };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const neighbourIds = [afterId, beforeId].filter(Boolean) as string[];
+    if (neighbourIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "afterId or beforeId is required to move a task",
+      });
+    }
+    if (
+      neighbourIds.some(
+        (neighbourId) => !isValidObjectId(neighbourId) || neighbourId === id,
+      ) ||
+      afterId === beforeId
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid neighbouring task identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+    if (actor.role === "user") {
+      filters.$or = memberTaskConditions(actor.userId);
+    }
+
+    const loadPositions = async () => {
+      const task = await Task.findOne(filters);
+      if (!task) return null;
+      const neighbours = await Task.find({
+        _id: { $in: neighbourIds },
+        tenantId: task.tenantId,
+      }).select("_id rank");
+      // Null for a missing side, undefined for a neighbour without a rank
+      const rankOf = (neighbourId?: string | null) => {
+        if (!neighbourId) return null;
+        const neighbour = neighbours.find(
+          (candidate) => candidate._id.toString() === neighbourId,
+        );
+        return neighbour ? (neighbour.rank ?? undefined) : undefined;
+      };
+      return {
+        task,
+        found: neighbours.length === neighbourIds.length,
+        after: rankOf(afterId),
+        before: rankOf(beforeId),
+      };
+    };
+
+    let positions = await loadPositions();
+    if (!positions) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+    if (!positions.found) {
+      return res.status(404).json({
+        success: false,
+        error: "Neighbouring task not found",
+      });
+    }
+
+    // Older tasks have no stored rank until the tenant's ranks are spread out
+    const unranked =
+      positions.task.rank === null ||
+      positions.task.rank === undefined ||
+      positions.after === undefined ||
+      positions.before === undefined;
+    let rank = unranked
+      ? null
+      : rankBetween(positions.after ?? null, positions.before ?? null);
+    if (rank === null) {
+      await rebalanceTaskRanks(positions.task.tenantId);
+      positions = (await loadPositions())!;
+      rank = rankBetween(positions.after ?? null, positions.before ?? null);
+    }
+
+    if (
+      rank === null ||
+      (positions.after != null &&
+        positions.before != null &&
+        positions.after >= positions.before)
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: "The order has changed, reload and try again",
+      });
+    }
+
+    // Only moves the task if nobody moved it since it was read. Reordering
+    // is not an edit, so it leaves updatedAt alone.
+    const task = await Task.findOneAndUpdate(
+      { ...filters, rank: positions.task.rank },
+      { $set: { rank } },
+      { new: true, timestamps: false },
+    );
+    if (!task) {
+      return res.status(409).json({
+        success: false,
+        error: "The task was moved by someone else, reload and try again",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Task moved successfully",
+      task: formatTask(task),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Add or remove the actor from a task's watchers
+ */
+async function setWatching(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  watching: boolean,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const filters: any = { _id: id };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+    if (actor.role === "user") {
+      filters.$or = memberTaskConditions(actor.userId);
+    }
+
+    // Watching is not an edit, so it leaves updatedAt alone
+    const task = await Task.findOneAndUpdate(
+      filters,
+      watching
+        ? { $addToSet: { watchers: actor.userId } }
+        : { $pull: { watchers: actor.userId } },
+      { new: true, timestamps: false },
+    );
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    res.json({
+      success: true,
+      message: watching ? "Watching task" : "Stopped watching task",
+      watching,
+      watchers: (task.watchers || []).map((watcherId) => watcherId.toString()),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function watchTask(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  return setWatching(req, res, next, true);
+}
+
+export async function unwatchTask(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  return setWatching(req, res, next, false);
+}
@@ -0,0 +1,265 @@
+import { Response, NextFunction } from "express";
+import fs from "fs/promises";
+import Task from "../models/Task";
+import User from "../models/User";
+import Sprint from "../models/Sprint";
+import { isValidObjectId } from "../utils/validators";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { notificationService } from "../notification";
+import { getTomorrowIST } from "../utils/dateUtils";
+import { getTenantWorkflow, getInitialStatus } from "../utils/workflow";
+import { recordTaskActivity } from "../utils/taskActivity";
+import { filterByPreferences } from "../utils/taskAudience";
+import {
+  IMPORT_ROW_LIMIT,
+  ImportMapping,
+  ImportedTask,
+  parseImportFile,
+  suggestMapping,
+  validateImportRow,
+  validateMapping,
+} from "../utils/taskImport";
+
+// Multipart fields arrive as strings
+const parseBoolean = (value: unknown) => value === true || value === "true";
+
+/**
+ * Import tasks from an uploaded CSV or JSON file. The columns of the file
+ * are mapped to task fields (`mapping`, guessed from the header when left
+ * out) and every row is checked like a task created by hand. A dry run
+ * reports the problems of each row without creating anything; otherwise the
+ * tasks are created together, only when every row is valid, and the
+ * importer gets one summary notification.
+ */
+export async function importTasks(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  const file = req.file;
+  try {
+    const {
+      mapping: mappingField,
+      dryRun: dryRunField,
+      sprintId,
+      tenantId: bodyTenantId,
+    } = req.body as {
+      mapping?: string;
+      dryRun?: string | boolean;
+      sprintId?: string;
+      tenantId?: string;
+    };
+
+    const actor = req.user!;
+    const dryRun = parseBoolean(dryRunField);
+    const tenantId =
+      actor.role === "superadmin"
+        ? bodyTenantId && isValidObjectId(bodyTenantId)
+          ? bodyTenantId
+          : actor.tenantId
+        : actor.tenantId;
+
+    if (!tenantId) {
+      return res.status(400).json({
+        success: false,
+        error: "Tenant context is required to import tasks",
+      });
+    }
+
+    if (!file) {
+      return res
+        .status(400)
+        .json({ success: false, error: "No file uploaded" });
+    }
+
+    const parsed = parseImportFile(
+      await fs.readFile(file.path, "utf8"),
+      file.originalname,
+    );
+    if ("error" in parsed) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+    const { columns, rows } = parsed;
+
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "The file has no tasks to import",
+      });
+    }
+    if (rows.length > IMPORT_ROW_LIMIT) {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot import more than ${IMPORT_ROW_LIMIT} tasks at once`,
+      });
+    }
+
+    let mapping: ImportMapping = suggestMapping(columns);
+    if (mappingField) {
+      let requested: unknown;
+      try {
+        requested =
+          typeof mappingField === "string"
+            ? JSON.parse(mappingField)
+            : mappingField;
+      } catch {
+        return res
+          .status(400)
+          .json({ success: false, error: "Invalid column mapping" });
+      }
+      const mappingCheck = validateMapping(requested, columns);
+      if ("error" in mappingCheck) {
+        return res
+          .status(400)
+          .json({ success: false, error: mappingCheck.error });
+      }
+      mapping = mappingCheck.mapping;
+    } else if (!mapping.title) {
+      return res.status(400).json({
+        success: false,
+        error: "A column must be mapped to the task title",
+      });
+    }
+
+    let sprint = null;
+    if (sprintId) {
+      if (!isValidObjectId(sprintId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid sprint identifier",
+        });
+      }
+      sprint = await Sprint.findOne({ _id: sprintId, tenantId });
+      if (!sprint) {
+        return res.status(404).json({
+          success: false,
+          error: "Sprint not found",
+        });
+      }
+    }
+
+    // Assignees are resolved by email within the tenant
+    const emails = mapping.assignee
+      ? Array.from(
+          new Set(
+            rows
+              .map((row) => row[mapping.assignee!].trim().toLowerCase())
+              .filter(Boolean),
+          ),
+        )
+      : [];
+    const users =
+      emails.length > 0
+        ? await User.find({ tenantId, email: { $in: emails } }).select(
+            "_id email",
+          )
+        : [];
+
+    const workflow = await getTenantWorkflow(tenantId);
+    const context = {
+      workflow,
+      initialStatus: getInitialStatus(workflow),
+      usersByEmail: new Map(
+        users.map((user) => [user.email.toLowerCase(), user._id.toString()]),
+      ),
+      // Superadmins do not belong to the tenant, so every row needs an assignee
+      defaultAssigneeId: actor.role === "superadmin" ? null : actor.userId,
+      canAssignOthers: actor.role !== "user",
+    };
+
+    const accepted: ImportedTask[] = [];
+    const rowErrors: { row: number; errors: string[] }[] = [];
+    rows.forEach((row, index) => {
+      const result = validateImportRow(row, mapping, context);
+      if (result.task) {
+        accepted.push(result.task);
+      } else {
+        // Rows are numbered from 1, not counting a CSV header
+        rowErrors.push({ row: index + 1, errors: result.errors });
+      }
+    });
+
+    if (dryRun) {
+      return res.json({
+        success: true,
+        message: "Import checked successfully",
+        dryRun: true,
+        columns,
+        mapping,
+        total: rows.length,
+        valid: accepted.length,
+        errors: rowErrors,
+      });
+    }
+
+    if (rowErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `${rowErrors.length} of ${rows.length} rows have errors, fix them before importing`,
+        errors: rowErrors,
+      });
+    }
+
+    // insertMany skips the save hook that ranks new tasks, so rank them
+    // here, in file order at the bottom of the manual order
+    const firstRank = Date.now();
+    const tasks = await Task.insertMany(
+      accepted.map((task, index) => ({
+        ...task,
+        rank: firstRank + index,
+        // Default to tomorrow in IST, like a task created by hand
+        dueDate: task.dueDate || getTomorrowIST(),
+        assignees: [task.userId],
+        sprintId: sprint?._id || null,
+        createdBy: actor.userId,
+        tenantId,
+      })),
+    );
+
+    await recordTaskActivity(
+      tasks.map((task) => ({
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "created",
+        newValue: task.title,
+      })),
+    );
+
+    // One notification for the whole import instead of one per task
+    const [recipient] = await filterByPreferences(
+      [actor.userId],
+      "tasks_imported",
+    );
+    if (recipient) {
+      await notificationService.sendToUser({
+        userId: recipient,
+        tenantId: String(tenantId),
+        type: "tasks_imported",
+        title: "Import Complete",
+        message: `${tasks.length} ${
+          tasks.length === 1 ? "task was" : "tasks were"
+        } imported from "${file.originalname}"`,
+        triggeredBy: actor.userId,
+        metadata: {
+          fileName: file.originalname,
+          taskIds: tasks.map((task) => task._id.toString()),
+        },
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Imported ${tasks.length} tasks`,
+      count: tasks.length,
+      taskIds: tasks.map((task) => task._id.toString()),
+    });
+  } catch (err) {
+    next(err);
+  } finally {
+    // The upload is only needed for this request
+    if (file) {
+      await fs.unlink(file.path).catch(() => undefined);
+    }
+  }
+}
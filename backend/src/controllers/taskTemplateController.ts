@@ -0,0 +1,341 @@
+import { Response, NextFunction } from "express";
+import TaskTemplate, {
+  ITaskTemplate,
+  MAX_TEMPLATE_SUBTASKS,
+  TEMPLATE_ASSIGNEE_ROLES,
+  TemplateAssigneeRole,
+} from "../models/TaskTemplate";
+import { TaskPriority } from "../models/Task";
+import { isValidObjectId } from "../utils/validators";
+import { TASK_PRIORITIES } from "../utils/taskSearch";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+// Names are compared case-insensitively within a tenant
+const NAME_COLLATION = { locale: "en", strength: 2 };
+
+interface TemplateInput {
+  name?: string;
+  titlePattern?: string;
+  description?: string;
+  priority?: string;
+  assigneeRole?: string;
+  dueOffsetDays?: number | null;
+  subtasks?: string[];
+}
+
+function formatTemplate(template: ITaskTemplate) {
+  return {
+    id: template._id.toString(),
+    name: template.name,
+    titlePattern: template.titlePattern,
+    description: template.description,
+    priority: template.priority,
+    assigneeRole: template.assigneeRole,
+    dueOffsetDays: template.dueOffsetDays ?? null,
+    subtasks: template.subtasks,
+    tenantId: template.tenantId.toString(),
+    createdBy: template.createdBy.toString(),
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * Check the fields present in `input`; `name` and `titlePattern` are only
+ * required when creating
+ */
+function validateTemplate(input: TemplateInput, creating: boolean) {
+  const { name, titlePattern, description, priority, assigneeRole } = input;
+
+  if (creating || name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) {
+      return "Template name is required";
+    }
+    if (name.trim().length > 50) {
+      return "Template name cannot exceed 50 characters";
+    }
+  }
+  if (creating || titlePattern !== undefined) {
+    if (typeof titlePattern !== "string" || !titlePattern.trim()) {
+      return "Title pattern is required";
+    }
+    if (titlePattern.trim().length > 200) {
+      return "Title pattern cannot exceed 200 characters";
+    }
+  }
+  if (description !== undefined) {
+    if (typeof description !== "string") {
+      return "Description must be a string";
+    }
+    if (description.trim().length > 2000) {
+      return "Description cannot exceed 2000 characters";
+    }
+  }
+  if (
+    priority !== undefined &&
+    !TASK_PRIORITIES.includes(priority as TaskPriority)
+  ) {
+    return `Priority must be one of: ${TASK_PRIORITIES.join(", ")}`;
+  }
+  if (
+    assigneeRole !== undefined &&
+    !TEMPLATE_ASSIGNEE_ROLES.includes(assigneeRole as TemplateAssigneeRole)
+  ) {
+    return `Assignee role must be one of: ${TEMPLATE_ASSIGNEE_ROLES.join(", ")}`;
+  }
+  if (input.dueOffsetDays !== undefined && input.dueOffsetDays !== null) {
+    const offset = input.dueOffsetDays;
+    if (!Number.isInteger(offset) || offset < 0 || offset > 365) {
+      return "Due offset must be a whole number of days between 0 and 365";
+    }
+  }
+  if (input.subtasks !== undefined) {
+    if (!Array.isArray(input.subtasks)) {
+      return "Subtasks must be an array";
+    }
+    if (input.subtasks.length > MAX_TEMPLATE_SUBTASKS) {
+      return `Templates cannot have more than ${MAX_TEMPLATE_SUBTASKS} subtasks`;
+    }
+    for (const subtask of input.subtasks) {
+      if (typeof subtask !== "string" || !subtask.trim()) {
+        return "Subtasks need a title";
+      }
+      if (subtask.trim().length > 200) {
+        return "Subtask cannot exceed 200 characters";
+      }
+    }
+  }
+  return null;
+}
+
+function applyTemplateInput(template: ITaskTemplate, input: TemplateInput) {
+  if (input.name !== undefined) template.name = input.name.trim();
+  if (input.titlePattern !== undefined) {
+    template.titlePattern = input.titlePattern.trim();
+  }
+  if (input.description !== undefined) {
+    template.description = input.description.trim();
+  }
+  if (input.priority !== undefined) {
+    template.priority = input.priority as TaskPriority;
+  }
+  if (input.assigneeRole !== undefined) {
+    template.assigneeRole = input.assigneeRole as TemplateAssigneeRole;
+  }
+  if (input.dueOffsetDays !== undefined) {
+    template.dueOffsetDays = input.dueOffsetDays;
+  }
+  if (input.subtasks !== undefined) {
+    template.subtasks = input.subtasks.map((subtask) => subtask.trim());
+  }
+}
+
+async function findDuplicate(tenantId: unknown, name: string, id?: string) {
+  return TaskTemplate.findOne({
+    tenantId,
+    name: name.trim(),
+    ...(id && { _id: { $ne: id } }),
+  }).collation(NAME_COLLATION);
+}
+
+export async function getTemplates(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { tenantId: tenantIdQuery } = req.query as { tenantId?: string };
+
+    const query: any = {};
+
+    // Non-superadmins can only see their tenant's templates
+    if (actor.role !== "superadmin") {
+      query.tenantId = actor.tenantId;
+    } else if (tenantIdQuery && isValidObjectId(tenantIdQuery)) {
+      query.tenantId = tenantIdQuery;
+    }
+
+    const templates = await TaskTemplate.find(query)
+      .collation(NAME_COLLATION)
+      .sort({ name: 1 })
+      .exec();
+
+    res.json({
+      success: true,
+      message: "Templates fetched successfully",
+      templates: templates.map(formatTemplate),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function createTemplate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const input = req.body as TemplateInput;
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins manage templates
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can create templates",
+      });
+    }
+
+    if (!actor.tenantId) {
+      return res.status(400).json({
+        success: false,
+        error: "Tenant context is required to create templates",
+      });
+    }
+
+    const validationError = validateTemplate(input, true);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (await findDuplicate(actor.tenantId, input.name!)) {
+      return res.status(409).json({
+        success: false,
+        error: `A template named "${input.name!.trim()}" already exists`,
+      });
+    }
+
+    const template = new TaskTemplate({
+      tenantId: actor.tenantId,
+      createdBy: actor.userId,
+    });
+    applyTemplateInput(template, input);
+
+    await template.save();
+
+    res.status(201).json({
+      success: true,
+      message: "Template created successfully",
+      template: formatTemplate(template),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateTemplate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const input = req.body as TemplateInput;
+    const actor = req.user!;
+
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can update templates",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid template identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const template = await TaskTemplate.findOne(filters);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: "Template not found",
+      });
+    }
+
+    const validationError = validateTemplate(input, false);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (
+      input.name !== undefined &&
+      (await findDuplicate(template.tenantId, input.name, id))
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: `A template named "${input.name.trim()}" already exists`,
+      });
+    }
+
+    applyTemplateInput(template, input);
+    await template.save();
+
+    res.json({
+      success: true,
+      message: "Template updated successfully",
+      template: formatTemplate(template),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteTemplate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can delete templates",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid template identifier",
+      });
+    }
+
+    const filters: any = { _id: id };
+
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const template = await TaskTemplate.findOneAndDelete(filters);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: "Template not found",
+      });
+    }
+
+    // Tasks created from the template are independent copies and stay as they are
+    res.json({
+      success: true,
+      message: "Template deleted successfully",
+    });
+  } catch (err) {
+    next(err);
+  }
+}
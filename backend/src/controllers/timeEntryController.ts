@@ -0,0 +1,408 @@
+import { Response, NextFunction } from "express";
+import TimeEntry, { ITimeEntry } from "../models/TimeEntry";
+import Task from "../models/Task";
+import { isValidObjectId } from "../utils/validators";
+import { memberTaskConditions } from "../utils/taskAccess";
+import { AuthenticatedRequest, AuthPayload } from "../middleware/auth";
+
+// A single entry covers at most one day of work
+const MAX_ENTRY_MINUTES = 24 * 60;
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Find a task the actor is allowed to see, using the same tenant/role
+ * scoping as getTask.
+ */
+async function findAccessibleTask(actor: AuthPayload, id: string) {
+  const filters: any = { _id: id };
+
+  if (actor.role !== "superadmin") {
+    filters.tenantId = actor.tenantId;
+  }
+  if (actor.role === "user") {
+    filters.$or = memberTaskConditions(actor.userId);
+  }
+
+  return Task.findOne(filters);
+}
+
+const minutesBetween = (start: Date, end: Date) =>
+  Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+
+// Running timers report the time elapsed so far
+const entryMinutes = (entry: ITimeEntry, now = new Date()) =>
+  entry.endedAt ? entry.durationMinutes : minutesBetween(entry.startedAt, now);
+
+function formatTimeEntry(entry: ITimeEntry) {
+  const user: any = entry.userId;
+  const isPopulated = user && typeof user === "object" && "name" in user;
+
+  return {
+    id: entry._id.toString(),
+    taskId: entry.taskId.toString(),
+    user: isPopulated
+      ? { id: user._id.toString(), name: user.name, email: user.email }
+      : { id: user?.toString() || null, name: null, email: null },
+    startedAt: entry.startedAt,
+    endedAt: entry.endedAt || null,
+    durationMinutes: entryMinutes(entry),
+    note: entry.note,
+    isRunning: !entry.endedAt,
+    createdAt: entry.createdAt,
+  };
+}
+
+function formatRunningTimer(entry: ITimeEntry | null) {
+  if (!entry) return null;
+  return {
+    id: entry._id.toString(),
+    taskId: entry.taskId.toString(),
+    startedAt: entry.startedAt,
+  };
+}
+
+function validateNote(note: unknown) {
+  if (note === undefined) return { valid: true };
+  if (typeof note !== "string" || note.length > MAX_NOTE_LENGTH) {
+    return {
+      valid: false,
+      message: `Note cannot exceed ${MAX_NOTE_LENGTH} characters`,
+    };
+  }
+  return { valid: true };
+}
+
+export async function getTimeEntries(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const [entries, runningTimer] = await Promise.all([
+      TimeEntry.find({ taskId: task._id })
+        .sort({ startedAt: -1 })
+        .populate("userId", "name email")
+        .exec(),
+      TimeEntry.findOne({ userId: actor.userId, endedAt: null }),
+    ]);
+
+    const formatted = entries.map(formatTimeEntry);
+    const byUser = new Map<
+      string,
+      { userId: string; name: string | null; minutes: number }
+    >();
+    formatted.forEach((entry) => {
+      const key = entry.user.id || "";
+      const total = byUser.get(key) || {
+        userId: key,
+        name: entry.user.name,
+        minutes: 0,
+      };
+      total.minutes += entry.durationMinutes;
+      byUser.set(key, total);
+    });
+    const totalMinutes = formatted.reduce(
+      (sum, entry) => sum + entry.durationMinutes,
+      0,
+    );
+
+    res.json({
+      success: true,
+      message: "Time entries fetched successfully",
+      count: formatted.length,
+      entries: formatted,
+      totals: {
+        totalMinutes,
+        estimateMinutes: task.estimateMinutes ?? null,
+        remainingMinutes:
+          task.estimateMinutes != null
+            ? Math.max(0, task.estimateMinutes - totalMinutes)
+            : null,
+        byUser: Array.from(byUser.values()).sort(
+          (a, b) => b.minutes - a.minutes,
+        ),
+      },
+      // The actor's timer, which may be running on another task
+      runningTimer: formatRunningTimer(runningTimer),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Log finished work: either a start and end time, or a duration that ended
+ * at `endedAt` (default now)
+ */
+export async function logTime(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { startedAt, endedAt, durationMinutes, note } = req.body as {
+      startedAt?: string;
+      endedAt?: string;
+      durationMinutes?: number;
+      note?: string;
+    };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const noteCheck = validateNote(note);
+    if (!noteCheck.valid) {
+      return res.status(400).json({ success: false, error: noteCheck.message });
+    }
+
+    const end = endedAt ? new Date(endedAt) : new Date();
+    if (isNaN(end.getTime())) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid end time" });
+    }
+
+    let start: Date;
+    if (startedAt) {
+      start = new Date(startedAt);
+      if (isNaN(start.getTime()) || start >= end) {
+        return res.status(400).json({
+          success: false,
+          error: "Start time must be a valid time before the end time",
+        });
+      }
+    } else {
+      if (
+        typeof durationMinutes !== "number" ||
+        !Number.isInteger(durationMinutes) ||
+        durationMinutes <= 0
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Provide a start time or a duration in whole minutes",
+        });
+      }
+      start = new Date(end.getTime() - durationMinutes * 60000);
+    }
+
+    if (end > new Date()) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Time cannot be logged in the future" });
+    }
+
+    const minutes = minutesBetween(start, end);
+    if (minutes > MAX_ENTRY_MINUTES) {
+      return res.status(400).json({
+        success: false,
+        error: "A single entry cannot exceed 24 hours",
+      });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const entry = new TimeEntry({
+      tenantId: task.tenantId,
+      taskId: task._id,
+      userId: actor.userId,
+      sprintId: task.sprintId || null,
+      startedAt: start,
+      endedAt: end,
+      durationMinutes: minutes,
+      note: note ? note.trim() : "",
+    });
+    await entry.save();
+
+    res.status(201).json({
+      success: true,
+      message: "Time logged successfully",
+      entry: formatTimeEntry(entry),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteTimeEntry(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, entryId } = req.params as { id: string; entryId: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id) || !isValidObjectId(entryId)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid identifier" });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const entry = await TimeEntry.findOne({ _id: entryId, taskId: task._id });
+    if (!entry) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Time entry not found" });
+    }
+
+    const isAdmin = actor.role === "tenantAdmin" || actor.role === "superadmin";
+    if (entry.userId.toString() !== actor.userId && !isAdmin) {
+      return res.status(403).json({
+        success: false,
+        error: "You can only delete your own time entries",
+      });
+    }
+
+    await entry.deleteOne();
+
+    res.json({ success: true, message: "Time entry deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function startTimer(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const { note } = req.body as { note?: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const noteCheck = validateNote(note);
+    if (!noteCheck.valid) {
+      return res.status(400).json({ success: false, error: noteCheck.message });
+    }
+
+    const task = await findAccessibleTask(actor, id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: "Task not found" });
+    }
+
+    const running = await TimeEntry.findOne({
+      userId: actor.userId,
+      endedAt: null,
+    });
+    if (running) {
+      return res.status(409).json({
+        success: false,
+        error:
+          running.taskId.toString() === task._id.toString()
+            ? "A timer is already running on this task"
+            : "You already have a timer running on another task, stop it first",
+        runningTimer: formatRunningTimer(running),
+      });
+    }
+
+    const entry = new TimeEntry({
+      tenantId: task.tenantId,
+      taskId: task._id,
+      userId: actor.userId,
+      sprintId: task.sprintId || null,
+      startedAt: new Date(),
+      endedAt: null,
+      note: note ? note.trim() : "",
+    });
+
+    try {
+      await entry.save();
+    } catch (err: any) {
+      // Lost a race with another start request; the unique index caught it
+      if (err?.code === 11000) {
+        return res.status(409).json({
+          success: false,
+          error: "You already have a timer running, stop it first",
+        });
+      }
+      throw err;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Timer started",
+      entry: formatTimeEntry(entry),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function stopTimer(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const entry = await TimeEntry.findOne({
+      taskId: id,
+      userId: actor.userId,
+      endedAt: null,
+    });
+    if (!entry) {
+      return res
+        .status(404)
+        .json({ success: false, error: "No timer is running on this task" });
+    }
+
+    // A timer left running for days is capped at one day of work
+    const endedAt = new Date();
+    entry.endedAt = endedAt;
+    entry.durationMinutes = Math.min(
+      minutesBetween(entry.startedAt, endedAt),
+      MAX_ENTRY_MINUTES,
+    );
+    await entry.save();
+
+    res.json({
+      success: true,
+      message: "Timer stopped",
+      entry: formatTimeEntry(entry),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
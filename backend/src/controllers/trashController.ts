@@ -0,0 +1,263 @@
+import { Response, NextFunction } from "express";
+import Task, { ITask } from "../models/Task";
+import Sprint, { ISprint } from "../models/Sprint";
+import { isValidObjectId } from "../utils/validators";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { recordTaskActivity } from "../utils/taskActivity";
+import { notifyTaskAudience } from "../utils/taskAudience";
+import { getPurgeDate } from "../utils/trash";
+import { findActiveSprint } from "../utils/sprintLifecycle";
+import { TRASH_RETENTION_DAYS } from "../config/env";
+
+function formatDeletedBy(deletedBy: any) {
+  if (!deletedBy || !deletedBy._id) return null;
+  return {
+    id: deletedBy._id.toString(),
+    name: deletedBy.name,
+    email: deletedBy.email,
+  };
+}
+
+function formatTrashedTask(task: ITask) {
+  return {
+    id: task._id.toString(),
+    tenantId: task.tenantId.toString(),
+    title: task.title,
+    status: task.status,
+    sprintId: task.sprintId?.toString() || null,
+    attachmentCount: task.attachments.length,
+    deletedAt: task.deletedAt,
+    deletedBy: formatDeletedBy(task.deletedBy),
+    purgeAt: getPurgeDate(task.deletedAt!),
+  };
+}
+
+function formatTrashedSprint(sprint: ISprint) {
+  return {
+    id: sprint._id.toString(),
+    tenantId: sprint.tenantId.toString(),
+    name: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    taskCount: sprint.detachedTaskIds.length,
+    deletedAt: sprint.deletedAt,
+    deletedBy: formatDeletedBy(sprint.deletedBy),
+    purgeAt: getPurgeDate(sprint.deletedAt!),
+  };
+}
+
+/**
+ * Deleted tasks and sprints of the tenant that can still be restored.
+ * Members only see the tasks they deleted themselves.
+ */
+export async function getTrash(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const actor = req.user!;
+    const { tenantId: tenantIdQuery } = req.query as { tenantId?: string };
+
+    const query: any = { deletedAt: { $ne: null } };
+
+    // Non-superadmins can only see their tenant's trash
+    if (actor.role !== "superadmin") {
+      query.tenantId = actor.tenantId;
+    } else if (tenantIdQuery && isValidObjectId(tenantIdQuery)) {
+      query.tenantId = tenantIdQuery;
+    }
+
+    const [tasks, sprints] = await Promise.all([
+      Task.find(
+        actor.role === "user" ? { ...query, deletedBy: actor.userId } : query,
+      )
+        .sort({ deletedAt: -1 })
+        .populate("deletedBy", "name email"),
+      actor.role === "user"
+        ? []
+        : Sprint.find(query)
+            .sort({ deletedAt: -1 })
+            .populate("deletedBy", "name email"),
+    ]);
+
+    res.json({
+      success: true,
+      message: "Trash fetched successfully",
+      retentionDays: TRASH_RETENTION_DAYS,
+      tasks: tasks.map(formatTrashedTask),
+      sprints: sprints.map(formatTrashedSprint),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Bring a task back from the trash with its attachments, dependencies and,
+ * when the sprint still exists, its sprint
+ */
+export async function restoreTask(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    if (!isValidObjectId(id)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "Invalid task identifier" });
+    }
+
+    const filters: any = { _id: id, deletedAt: { $ne: null } };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+    if (actor.role === "user") {
+      filters.deletedBy = actor.userId;
+    }
+
+    const task = await Task.findOne(filters);
+    if (!task) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Task not found in trash" });
+    }
+
+    if (task.sprintId) {
+      // A sprint that is itself in the trash takes the task back when it is
+      // restored; a purged sprint leaves the task in the backlog
+      const sprintInTrash = await Sprint.exists({
+        _id: task.sprintId,
+        deletedAt: { $ne: null },
+      });
+      if (sprintInTrash) {
+        await Sprint.updateOne(
+          { _id: task.sprintId, deletedAt: { $ne: null } },
+          { $addToSet: { detachedTaskIds: task._id } },
+        );
+        task.sprintId = null;
+      } else if (!(await Sprint.exists({ _id: task.sprintId }))) {
+        task.sprintId = null;
+      }
+    }
+
+    task.deletedAt = null;
+    task.deletedBy = null;
+    await task.save();
+
+    await recordTaskActivity([
+      {
+        taskId: task._id,
+        tenantId: task.tenantId,
+        actorId: actor.userId,
+        action: "restored",
+        newValue: task.title,
+      },
+    ]);
+
+    await notifyTaskAudience(
+      task,
+      { type: "task_updated", actorId: actor.userId },
+      {
+        title: "Task Restored",
+        message: `Task "${task.title}" has been restored from the trash`,
+      },
+    );
+
+    res.json({
+      success: true,
+      message: "Task restored successfully",
+      task: {
+        id: task._id.toString(),
+        tenantId: task.tenantId.toString(),
+        title: task.title,
+        status: task.status,
+        sprintId: task.sprintId?.toString() || null,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Bring a sprint back from the trash and put its tasks back in it, unless
+ * they have been moved to another sprint in the meantime
+ */
+export async function restoreSprint(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as { id: string };
+    const actor = req.user!;
+
+    // Only tenant admins and superadmins can restore sprints
+    if (actor.role === "user") {
+      return res.status(403).json({
+        success: false,
+        error: "Only administrators can restore sprints",
+      });
+    }
+
+    if (!isValidObjectId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sprint identifier",
+      });
+    }
+
+    const filters: any = { _id: id, deletedAt: { $ne: null } };
+    if (actor.role !== "superadmin") {
+      filters.tenantId = actor.tenantId;
+    }
+
+    const sprint = await Sprint.findOne(filters);
+    if (!sprint) {
+      return res.status(404).json({
+        success: false,
+        error: "Sprint not found in trash",
+      });
+    }
+
+    // Trashed tasks are relinked too, so they come back in the sprint
+    const relinked = await Task.updateMany(
+      { _id: { $in: sprint.detachedTaskIds }, sprintId: null },
+      { $set: { sprintId: sprint._id } },
+    ).setOptions({ withDeleted: true });
+
+    // Another sprint may have been started while this one was in the trash
+    if (
+      sprint.status === "active" &&
+      (await findActiveSprint(sprint.tenantId, sprint._id))
+    ) {
+      sprint.status = "planned";
+    }
+
+    sprint.deletedAt = null;
+    sprint.deletedBy = null;
+    sprint.detachedTaskIds = [];
+    await sprint.save();
+
+    res.json({
+      success: true,
+      message: "Sprint restored successfully",
+      sprint: {
+        id: sprint._id.toString(),
+        name: sprint.name,
+        startDate: sprint.startDate,
+        endDate: sprint.endDate,
+        status: sprint.status,
+        tenantId: sprint.tenantId.toString(),
+      },
+      restoredTaskCount: relinked.modifiedCount,
+    });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export interface IComment extends Document {
+  taskId: mongoose.Types.ObjectId;
+  tenantId: mongoose.Types.ObjectId;
+  authorId: mongoose.Types.ObjectId;
+  parentId?: mongoose.Types.ObjectId | null;
+  body: string;
+  mentions: mongoose.Types.ObjectId[];
+  editedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const commentSchema = new Schema<IComment>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: [true, "Task ID is required"],
+      index: true,
+    },
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Author ID is required"],
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Comment",
+      default: null,
+    },
+    body: {
+      type: String,
+      required: [true, "Comment body is required"],
+      trim: true,
+      minlength: [1, "Comment cannot be empty"],
+      maxlength: [2000, "Comment cannot exceed 2000 characters"],
+    },
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    editedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+commentSchema.index({ taskId: 1, createdAt: 1 });
+commentSchema.index({ parentId: 1 });
+
+const Comment: Model<IComment> = mongoose.model<IComment>(
+  "Comment",
+  commentSchema,
+);
+
+export default Comment;
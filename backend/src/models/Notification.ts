@@ -8,7 +8,24 @@ export type NotificationType =
   | "task_due_soon"
   | "task_overdue"
   | "comment_added"
-  | "mention";
+  | "mention"
+  | "task_unblocked"
+  | "review_requested"
+  | "tasks_imported";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "task_assigned",
+  "task_updated",
+  "task_completed",
+  "task_deleted",
+  "task_due_soon",
+  "task_overdue",
+  "comment_added",
+  "mention",
+  "task_unblocked",
+  "review_requested",
+  "tasks_imported",
+];
 
 export interface INotification extends Document {
   userId: mongoose.Types.ObjectId;
@@ -48,16 +65,7 @@ const notificationSchema = new Schema<INotification, INotificationModel>(
     },
     type: {
       type: String,
-      enum: [
-        "task_assigned",
-        "task_updated",
-        "task_completed",
-        "task_deleted",
-        "task_due_soon",
-        "task_overdue",
-        "comment_added",
-        "mention",
-      ],
+      enum: NOTIFICATION_TYPES,
       required: [true, "Notification type is required"],
     },
     title: {
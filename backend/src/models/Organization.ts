@@ -1,12 +1,172 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { UserRole } from "./User";
+
+export type WorkflowCategory = "open" | "done";
+
+export const WORKFLOW_COLORS = [
+  "gray",
+  "blue",
+  "purple",
+  "green",
+  "yellow",
+  "orange",
+  "red",
+  "teal",
+  "pink",
+] as const;
+
+export type WorkflowColor = (typeof WORKFLOW_COLORS)[number];
+
+export interface IWorkflowStatus {
+  key: string;
+  label: string;
+  category: WorkflowCategory;
+  color: WorkflowColor;
+  // Moving a task with a reviewer here asks them for a review (at most one)
+  review?: boolean;
+}
+
+// Used for organizations that have not customised their columns
+export const DEFAULT_WORKFLOW: IWorkflowStatus[] = [
+  { key: "todo", label: "To Do", category: "open", color: "gray" },
+  { key: "in-progress", label: "In Progress", category: "open", color: "blue" },
+  {
+    key: "in-review",
+    label: "In Review",
+    category: "open",
+    color: "purple",
+    review: true,
+  },
+  { key: "completed", label: "Completed", category: "done", color: "green" },
+];
+
+// "*" matches any status on either side of a transition rule
+export const ANY_STATUS = "*";
+
+/**
+ * An allowed move between two statuses. Once a tenant defines any rule, a
+ * status change must match one of them; `roles` limits who may make it
+ * (empty means everyone).
+ */
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+  roles: UserRole[];
+}
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "date",
+  "select",
+  "user",
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+// A tenant-defined task attribute; values live in Task.customFields by key
+export interface ICustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // select only
+  required: boolean;
+}
 
 export interface IOrganization extends Document {
   name: string;
+  workflow: IWorkflowStatus[];
+  transitions: IWorkflowTransition[];
+  customFields: ICustomFieldDefinition[];
   createdBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const workflowStatusSchema = new Schema<IWorkflowStatus>(
+  {
+    key: {
+      type: String,
+      required: [true, "Status key is required"],
+      trim: true,
+      lowercase: true,
+      maxlength: [30, "Status key cannot exceed 30 characters"],
+    },
+    label: {
+      type: String,
+      required: [true, "Status label is required"],
+      trim: true,
+      maxlength: [40, "Status label cannot exceed 40 characters"],
+    },
+    category: {
+      type: String,
+      enum: {
+        values: ["open", "done"],
+        message: "Status category must be one of: open, done",
+      },
+      required: [true, "Status category is required"],
+    },
+    color: {
+      type: String,
+      enum: WORKFLOW_COLORS,
+      default: "gray",
+    },
+    review: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const workflowTransitionSchema = new Schema<IWorkflowTransition>(
+  {
+    from: {
+      type: String,
+      required: [true, "Transition source status is required"],
+      trim: true,
+      lowercase: true,
+    },
+    to: {
+      type: String,
+      required: [true, "Transition target status is required"],
+      trim: true,
+      lowercase: true,
+    },
+    roles: {
+      type: [String],
+      enum: ["superadmin", "tenantAdmin", "user"],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const customFieldSchema = new Schema<ICustomFieldDefinition>(
+  {
+    key: {
+      type: String,
+      required: [true, "Custom field key is required"],
+      trim: true,
+      maxlength: [30, "Custom field key cannot exceed 30 characters"],
+    },
+    label: {
+      type: String,
+      required: [true, "Custom field label is required"],
+      trim: true,
+      maxlength: [40, "Custom field label cannot exceed 40 characters"],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: CUSTOM_FIELD_TYPES,
+        message: `Custom field type must be one of: ${CUSTOM_FIELD_TYPES.join(", ")}`,
+      },
+      required: [true, "Custom field type is required"],
+    },
+    options: { type: [String], default: [] },
+    required: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
 const organizationSchema = new Schema<IOrganization>(
   {
     name: {
@@ -22,6 +182,20 @@ const organizationSchema = new Schema<IOrganization>(
       ref: "User",
       required: false,
     },
+    // Ordered board columns for this tenant's tasks
+    workflow: {
+      type: [workflowStatusSchema],
+      default: () => DEFAULT_WORKFLOW.map((status) => ({ ...status })),
+    },
+    // No rules means any status change is allowed
+    transitions: {
+      type: [workflowTransitionSchema],
+      default: [],
+    },
+    customFields: {
+      type: [customFieldSchema],
+      default: [],
+    },
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now },
   },
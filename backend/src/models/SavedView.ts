@@ -0,0 +1,118 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const SAVED_VIEW_VISIBILITIES = ["personal", "shared"] as const;
+export type SavedViewVisibility = (typeof SAVED_VIEW_VISIBILITIES)[number];
+
+export const SAVED_VIEW_MODES = [
+  "list",
+  "board",
+  "timeline",
+  "backlog",
+] as const;
+export type SavedViewMode = (typeof SAVED_VIEW_MODES)[number];
+
+export const SAVED_VIEW_GROUPINGS = [
+  "none",
+  "status",
+  "priority",
+  "assignee",
+] as const;
+export type SavedViewGroupBy = (typeof SAVED_VIEW_GROUPINGS)[number];
+
+// Mirrors the filter parameters of GET /api/tasks
+export interface ISavedViewFilters {
+  q: string;
+  status: string;
+  labels: mongoose.Types.ObjectId[];
+  excludeLabels: mongoose.Types.ObjectId[];
+}
+
+export interface ISavedView extends Document {
+  name: string;
+  tenantId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  visibility: SavedViewVisibility;
+  filters: ISavedViewFilters;
+  sort: string;
+  groupBy: SavedViewGroupBy;
+  viewMode: SavedViewMode;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedViewFiltersSchema = new Schema<ISavedViewFilters>(
+  {
+    q: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Search cannot exceed 500 characters"],
+      default: "",
+    },
+    status: { type: String, default: "all" },
+    labels: [{ type: Schema.Types.ObjectId, ref: "Tag" }],
+    excludeLabels: [{ type: Schema.Types.ObjectId, ref: "Tag" }],
+  },
+  { _id: false },
+);
+
+const savedViewSchema = new Schema<ISavedView>(
+  {
+    name: {
+      type: String,
+      required: [true, "View name is required"],
+      trim: true,
+      minlength: [1, "View name cannot be empty"],
+      maxlength: [50, "View name cannot exceed 50 characters"],
+    },
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Owner ID is required"],
+      index: true,
+    },
+    visibility: {
+      type: String,
+      enum: {
+        values: SAVED_VIEW_VISIBILITIES,
+        message: "Visibility must be one of: personal, shared",
+      },
+      default: "personal",
+    },
+    filters: { type: savedViewFiltersSchema, default: () => ({}) },
+    sort: { type: String, default: "" },
+    groupBy: {
+      type: String,
+      enum: {
+        values: SAVED_VIEW_GROUPINGS,
+        message: `Grouping must be one of: ${SAVED_VIEW_GROUPINGS.join(", ")}`,
+      },
+      default: "none",
+    },
+    viewMode: {
+      type: String,
+      enum: {
+        values: SAVED_VIEW_MODES,
+        message: `View mode must be one of: ${SAVED_VIEW_MODES.join(", ")}`,
+      },
+      default: "board",
+    },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: true },
+);
+
+savedViewSchema.pre("save", function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const SavedView = mongoose.model<ISavedView>("SavedView", savedViewSchema);
+
+export default SavedView;
@@ -1,18 +1,134 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { softDeletePlugin, SoftDeleteFields } from "../utils/softDelete";
 
 export type SprintStatus = "planned" | "active" | "completed";
 
-export interface ISprint extends Document {
+// Number of tasks and their estimated effort
+export interface SprintWorkSummary {
+  tasks: number;
+  estimateMinutes: number;
+}
+
+// What a sprint set out to do against what it delivered, recorded once
+// when it is completed
+export interface ISprintCompletion {
+  completedBy: mongoose.Types.ObjectId;
+  // Tasks in the sprint when it was started
+  committed: SprintWorkSummary;
+  // Tasks moved into the sprint after it was started
+  added: SprintWorkSummary;
+  delivered: SprintWorkSummary;
+  carriedOver: SprintWorkSummary;
+  // Where unfinished tasks went, null for the backlog
+  nextSprintId: mongoose.Types.ObjectId | null;
+  deliveredTaskIds: mongoose.Types.ObjectId[];
+  carriedOverTaskIds: mongoose.Types.ObjectId[];
+}
+
+// How much of the sprint a member is available for, e.g. 50 for half
+export interface ISprintCapacity {
+  userId: mongoose.Types.ObjectId;
+  percent: number;
+}
+
+export interface ISprintGoal {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  // Null until the goal is reviewed
+  achieved: boolean | null;
+}
+
+export const RETROSPECTIVE_CATEGORIES = [
+  "went-well",
+  "to-improve",
+  "action-item",
+] as const;
+export type RetrospectiveCategory = (typeof RETROSPECTIVE_CATEGORIES)[number];
+
+export interface ISprintRetrospectiveItem {
+  _id: mongoose.Types.ObjectId;
+  category: RetrospectiveCategory;
+  text: string;
+  authorId: mongoose.Types.ObjectId;
+  // The task an action item was turned into
+  taskId: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+export interface ISprint extends Document, SoftDeleteFields {
   name: string;
   startDate: Date;
   endDate: Date;
   tenantId: mongoose.Types.ObjectId;
   status: SprintStatus;
   createdBy: mongoose.Types.ObjectId;
+  // Tasks taken out of the sprint when it was deleted, relinked on restore
+  detachedTaskIds: mongoose.Types.ObjectId[];
+  startedAt: Date | null;
+  completedAt: Date | null;
+  // Tasks in the sprint when it was started
+  committedTaskIds: mongoose.Types.ObjectId[];
+  completion: ISprintCompletion | null;
+  // Members left out are fully available
+  capacity: ISprintCapacity[];
+  goals: ISprintGoal[];
+  // What was shown and decided in the sprint review
+  reviewNotes: string;
+  retrospective: ISprintRetrospectiveItem[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const workSummarySchema = new Schema<SprintWorkSummary>(
+  {
+    tasks: { type: Number, default: 0 },
+    estimateMinutes: { type: Number, default: 0 },
+  },
+  { _id: false },
+);
+
+const completionSchema = new Schema<ISprintCompletion>(
+  {
+    completedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Completed by is required"],
+    },
+    committed: { type: workSummarySchema, required: true },
+    added: { type: workSummarySchema, required: true },
+    delivered: { type: workSummarySchema, required: true },
+    carriedOver: { type: workSummarySchema, required: true },
+    nextSprintId: { type: Schema.Types.ObjectId, ref: "Sprint", default: null },
+    deliveredTaskIds: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+    carriedOverTaskIds: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+  },
+  { _id: false },
+);
+
+const retrospectiveItemSchema = new Schema<ISprintRetrospectiveItem>({
+  category: {
+    type: String,
+    enum: {
+      values: RETROSPECTIVE_CATEGORIES,
+      message: "Category must be one of: went-well, to-improve, action-item",
+    },
+    required: [true, "Category is required"],
+  },
+  text: {
+    type: String,
+    required: [true, "Text is required"],
+    trim: true,
+    maxlength: [200, "Retrospective items cannot exceed 200 characters"],
+  },
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: [true, "Author is required"],
+  },
+  taskId: { type: Schema.Types.ObjectId, ref: "Task", default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
 const sprintSchema = new Schema<ISprint>(
   {
     name: {
@@ -40,7 +156,6 @@ const sprintSchema = new Schema<ISprint>(
       type: Schema.Types.ObjectId,
       ref: "Organization",
       required: [true, "Tenant ID is required"],
-      index: true,
     },
     status: {
       type: String,
@@ -55,6 +170,45 @@ const sprintSchema = new Schema<ISprint>(
       ref: "User",
       required: [true, "Creator ID is required"],
     },
+    detachedTaskIds: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+    startedAt: { type: Date, default: null },
+    completedAt: { type: Date, default: null },
+    committedTaskIds: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+    completion: { type: completionSchema, default: null },
+    capacity: [
+      {
+        _id: false,
+        userId: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: [true, "Member is required"],
+        },
+        percent: {
+          type: Number,
+          required: [true, "Capacity is required"],
+          min: [0, "Capacity cannot be negative"],
+          max: [100, "Capacity cannot exceed 100%"],
+        },
+      },
+    ],
+    goals: [
+      {
+        text: {
+          type: String,
+          required: [true, "Goal is required"],
+          trim: true,
+          maxlength: [200, "Goals cannot exceed 200 characters"],
+        },
+        achieved: { type: Boolean, default: null },
+      },
+    ],
+    reviewNotes: {
+      type: String,
+      trim: true,
+      maxlength: [2000, "Review notes cannot exceed 2000 characters"],
+      default: "",
+    },
+    retrospective: [retrospectiveItemSchema],
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now },
   },
@@ -66,8 +220,22 @@ sprintSchema.pre("save", function (next) {
   next();
 });
 
+// Deleted sprints stay in the trash until purged (see utils/trash)
+sprintSchema.plugin(softDeletePlugin);
+
 sprintSchema.index({ tenantId: 1, createdAt: -1 });
 sprintSchema.index({ tenantId: 1, status: 1 });
+// At most one active sprint per tenant. Keyed on deletedAt too, so sprints in
+// the trash (each with its own date) do not count, while a null and a missing
+// deletedAt (sprints saved before soft deletion) collide as they should.
+sprintSchema.index(
+  { tenantId: 1, deletedAt: 1 },
+  {
+    name: "one_active_sprint_per_tenant",
+    unique: true,
+    partialFilterExpression: { status: "active" },
+  },
+);
 
 const Sprint = mongoose.model<ISprint>("Sprint", sprintSchema);
 
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { SprintWorkSummary } from "./Sprint";
+
+export interface SprintStatusSummary extends SprintWorkSummary {
+  status: string;
+}
+
+// The tasks of an active sprint at the end of one day, for burndown charts
+export interface ISprintSnapshot extends Document {
+  sprintId: mongoose.Types.ObjectId;
+  tenantId: mongoose.Types.ObjectId;
+  // IST day, YYYY-MM-DD
+  date: string;
+  byStatus: SprintStatusSummary[];
+  total: SprintWorkSummary;
+  // Tasks not in a done status
+  remaining: SprintWorkSummary;
+  completed: SprintWorkSummary;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const workSummary = {
+  tasks: { type: Number, default: 0 },
+  estimateMinutes: { type: Number, default: 0 },
+};
+
+const sprintSnapshotSchema = new Schema<ISprintSnapshot>(
+  {
+    sprintId: {
+      type: Schema.Types.ObjectId,
+      ref: "Sprint",
+      required: [true, "Sprint ID is required"],
+    },
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    date: {
+      type: String,
+      required: [true, "Snapshot date is required"],
+      match: [/^\d{4}-\d{2}-\d{2}$/, "Snapshot date must be YYYY-MM-DD"],
+    },
+    byStatus: [
+      {
+        _id: false,
+        status: { type: String, required: true },
+        ...workSummary,
+      },
+    ],
+    total: workSummary,
+    remaining: workSummary,
+    completed: workSummary,
+  },
+  { timestamps: true },
+);
+
+// One snapshot per sprint and day, updated until the day is over
+sprintSnapshotSchema.index({ sprintId: 1, date: 1 }, { unique: true });
+
+export default mongoose.model<ISprintSnapshot>(
+  "SprintSnapshot",
+  sprintSnapshotSchema,
+);
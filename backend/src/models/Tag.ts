@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { WORKFLOW_COLORS, WorkflowColor } from "./Organization";
+
+export interface ITag extends Document {
+  name: string;
+  color: WorkflowColor;
+  tenantId: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const tagSchema = new Schema<ITag>(
+  {
+    name: {
+      type: String,
+      required: [true, "Tag name is required"],
+      trim: true,
+      minlength: [1, "Tag name cannot be empty"],
+      maxlength: [30, "Tag name cannot exceed 30 characters"],
+    },
+    color: {
+      type: String,
+      enum: {
+        values: WORKFLOW_COLORS,
+        message: `Tag color must be one of: ${WORKFLOW_COLORS.join(", ")}`,
+      },
+      default: "gray",
+    },
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Creator ID is required"],
+    },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: true },
+);
+
+tagSchema.pre("save", function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Tag names are unique per tenant, ignoring case
+tagSchema.index(
+  { tenantId: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } },
+);
+
+const Tag = mongoose.model<ITag>("Tag", tagSchema);
+
+export default Tag;
@@ -1,18 +1,47 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { softDeletePlugin, SoftDeleteFields } from "../utils/softDelete";
 
-export type TaskStatus = "todo" | "in-progress" | "in-review" | "completed";
+// One of the keys in the tenant's workflow (see Organization.workflow)
+export type TaskStatus = string;
 export type TaskPriority = "low" | "medium" | "high";
 
-export interface ITask extends Document {
+export interface IChecklistItem {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  done: boolean;
+  completedAt?: Date | null;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday, weekly only
+  dayOfMonth: number | null; // monthly only
+  until: Date | null;
+  rrule: string | null;
+}
+
+// Text, select and user values are strings, numbers numbers, dates Dates
+export type CustomFieldValue = string | number | Date;
+
+export interface ITask extends Document, SoftDeleteFields {
   title: string;
   description: string;
   status: TaskStatus;
   priority: TaskPriority;
+  // Primary assignee, always the first of `assignees`
   userId: mongoose.Types.ObjectId;
+  assignees: mongoose.Types.ObjectId[];
+  reviewerId?: mongoose.Types.ObjectId | null;
   createdBy: mongoose.Types.ObjectId;
   tenantId: mongoose.Types.ObjectId;
   sprintId?: mongoose.Types.ObjectId | null;
   dueDate?: Date | null;
+  estimateMinutes?: number | null;
+  // Manual order of the task (see utils/taskRank), lowest first
+  rank?: number | null;
   createdAt: Date;
   updatedAt: Date;
   attachments: {
@@ -21,7 +50,15 @@ export interface ITask extends Document {
     publicId: string;
     uploadedAt: Date;
   }[];
-  isOverdue(): boolean;
+  checklist: IChecklistItem[];
+  blockedBy: mongoose.Types.ObjectId[];
+  labels: mongoose.Types.ObjectId[];
+  watchers: mongoose.Types.ObjectId[];
+  recurrence?: RecurrenceRule | null;
+  seriesId?: mongoose.Types.ObjectId | null;
+  recurrenceProcessedAt?: Date | null;
+  customFields: Map<string, CustomFieldValue>;
+  isOverdue(doneStatuses: string[]): boolean;
 }
 
 interface ITaskModel extends Model<ITask> {
@@ -31,6 +68,22 @@ interface ITaskModel extends Model<ITask> {
   ): Promise<ITask[]>;
 }
 
+const recurrenceSchema = new Schema<RecurrenceRule>(
+  {
+    frequency: {
+      type: String,
+      enum: ["daily", "weekly", "monthly"],
+      required: [true, "Recurrence frequency is required"],
+    },
+    interval: { type: Number, default: 1, min: 1, max: 365 },
+    weekdays: [{ type: Number, min: 0, max: 6 }],
+    dayOfMonth: { type: Number, min: 1, max: 31, default: null },
+    until: { type: Date, default: null },
+    rrule: { type: String, default: null },
+  },
+  { _id: false },
+);
+
 const taskSchema = new Schema<ITask, ITaskModel>(
   {
     title: {
@@ -48,13 +101,10 @@ const taskSchema = new Schema<ITask, ITaskModel>(
     },
     status: {
       type: String,
-      enum: {
-        values: ["todo", "in-progress", "in-review", "completed"],
-        message:
-          "Status must be one of: todo, in-progress, in-review, completed",
-      },
-      default: "todo",
+      required: [true, "Task status is required"],
+      trim: true,
       lowercase: true,
+      maxlength: [30, "Task status cannot exceed 30 characters"],
     },
     priority: {
       type: String,
@@ -67,6 +117,20 @@ const taskSchema = new Schema<ITask, ITaskModel>(
       required: [true, "User ID is required"],
       index: true,
     },
+    assignees: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        index: true,
+      },
+    ],
+    // Approves the task out of review (see getReviewStatus in utils/workflow)
+    reviewerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+      index: true,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
@@ -86,6 +150,13 @@ const taskSchema = new Schema<ITask, ITaskModel>(
       index: true,
     },
     dueDate: { type: Date, default: null },
+    // Expected effort; logged work lives in TimeEntry
+    estimateMinutes: {
+      type: Number,
+      min: [0, "Estimate cannot be negative"],
+      max: [60000, "Estimate cannot exceed 1000 hours"],
+      default: null,
+    },
     createdAt: { type: Date, default: Date.now, index: true },
     updatedAt: { type: Date, default: Date.now },
     attachments: [
@@ -96,24 +167,94 @@ const taskSchema = new Schema<ITask, ITaskModel>(
         uploadedAt: { type: Date, default: Date.now },
       },
     ],
+    checklist: [
+      {
+        title: {
+          type: String,
+          required: [true, "Checklist item title is required"],
+          trim: true,
+          maxlength: [200, "Checklist item cannot exceed 200 characters"],
+        },
+        done: { type: Boolean, default: false },
+        completedAt: { type: Date, default: null },
+      },
+    ],
+    blockedBy: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Task",
+        index: true,
+      },
+    ],
+    // Tags from the tenant's catalog (see Tag)
+    labels: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Tag",
+        index: true,
+      },
+    ],
+    // People who asked to hear about this task besides assignee and creator
+    watchers: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        index: true,
+      },
+    ],
+    recurrence: { type: recurrenceSchema, default: null },
+    // First task of a recurring series, shared by every generated instance
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      default: null,
+      index: true,
+    },
+    // Set once the scheduler has generated (or ended) the next occurrence
+    recurrenceProcessedAt: { type: Date, default: null },
+    // Place in the manual order, set when the task is first saved (see
+    // utils/taskRank). Tasks from before ranks existed have none.
+    rank: { type: Number },
+    // Values of the tenant's custom fields (Organization.customFields), by key
+    customFields: {
+      type: Map,
+      of: Schema.Types.Mixed,
+      default: {},
+    },
   },
   { timestamps: true },
 );
 
 taskSchema.pre("save", function (next) {
   this.updatedAt = new Date();
+  // New tasks go to the bottom of the manual order. Not a schema default,
+  // which would also hand older tasks a rank that is never stored.
+  if (this.isNew && (this.rank === null || this.rank === undefined)) {
+    this.rank = Date.now();
+  }
+  // Keep the primary assignee first in `assignees`, which older tasks lack
+  if (this.userId) {
+    const others = (this.assignees || []).filter(
+      (id) => id.toString() !== this.userId.toString(),
+    );
+    this.assignees = [this.userId, ...others];
+  }
   next();
 });
 
+// Deleted tasks stay in the trash until purged (see utils/trash)
+taskSchema.plugin(softDeletePlugin);
+
 taskSchema.index({ userId: 1, createdAt: -1 });
 taskSchema.index({ tenantId: 1, createdAt: -1 });
+taskSchema.index({ tenantId: 1, rank: 1 });
 taskSchema.index({ title: "text", description: "text" });
 
-taskSchema.methods.isOverdue = function () {
+taskSchema.methods.isOverdue = function (doneStatuses: string[]) {
   return !!(
     this.dueDate &&
     this.dueDate < new Date() &&
-    this.status !== "completed"
+    !doneStatuses.includes(this.status)
   );
 };
 
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export type TaskActivityAction =
+  | "created"
+  | "updated"
+  | "deleted"
+  | "restored"
+  | "attachment_added"
+  | "attachment_removed";
+
+export interface ITaskActivity extends Document {
+  taskId: mongoose.Types.ObjectId;
+  tenantId: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId;
+  action: TaskActivityAction;
+  field?: string | null;
+  oldValue?: any;
+  newValue?: any;
+  createdAt: Date;
+}
+
+const taskActivitySchema = new Schema<ITaskActivity>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: [true, "Task ID is required"],
+    },
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Actor ID is required"],
+    },
+    action: {
+      type: String,
+      enum: [
+        "created",
+        "updated",
+        "deleted",
+        "restored",
+        "attachment_added",
+        "attachment_removed",
+      ],
+      required: [true, "Activity action is required"],
+    },
+    field: { type: String, default: null },
+    oldValue: { type: Schema.Types.Mixed, default: null },
+    newValue: { type: Schema.Types.Mixed, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+taskActivitySchema.index({ taskId: 1, createdAt: -1 });
+
+const TaskActivity: Model<ITaskActivity> = mongoose.model<ITaskActivity>(
+  "TaskActivity",
+  taskActivitySchema,
+);
+
+export default TaskActivity;
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { TaskPriority } from "./Task";
+
+// Who a task created from the template is assigned to: whoever creates it,
+// or the tenant's admin
+export const TEMPLATE_ASSIGNEE_ROLES = ["creator", "tenantAdmin"] as const;
+export type TemplateAssigneeRole = (typeof TEMPLATE_ASSIGNEE_ROLES)[number];
+
+export const MAX_TEMPLATE_SUBTASKS = 50;
+
+export interface ITaskTemplate extends Document {
+  name: string;
+  tenantId: mongoose.Types.ObjectId;
+  // Title and description may use {{date}}, {{sprint}} and {{assignee}}
+  titlePattern: string;
+  description: string;
+  priority: TaskPriority;
+  assigneeRole: TemplateAssigneeRole;
+  // Days after creation the task is due, null for the usual default
+  dueOffsetDays: number | null;
+  // Become the checklist of the created task
+  subtasks: string[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taskTemplateSchema = new Schema<ITaskTemplate>(
+  {
+    name: {
+      type: String,
+      required: [true, "Template name is required"],
+      trim: true,
+      minlength: [1, "Template name cannot be empty"],
+      maxlength: [50, "Template name cannot exceed 50 characters"],
+    },
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    titlePattern: {
+      type: String,
+      required: [true, "Title pattern is required"],
+      trim: true,
+      maxlength: [200, "Title pattern cannot exceed 200 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [2000, "Description cannot exceed 2000 characters"],
+      default: "",
+    },
+    priority: {
+      type: String,
+      enum: {
+        values: ["low", "medium", "high"],
+        message: "Priority must be one of: low, medium, high",
+      },
+      default: "medium",
+    },
+    assigneeRole: {
+      type: String,
+      enum: {
+        values: TEMPLATE_ASSIGNEE_ROLES,
+        message: `Assignee role must be one of: ${TEMPLATE_ASSIGNEE_ROLES.join(", ")}`,
+      },
+      default: "creator",
+    },
+    dueOffsetDays: {
+      type: Number,
+      min: [0, "Due offset cannot be negative"],
+      max: [365, "Due offset cannot exceed 365 days"],
+      default: null,
+    },
+    subtasks: {
+      type: [
+        {
+          type: String,
+          trim: true,
+          maxlength: [200, "Subtask cannot exceed 200 characters"],
+        },
+      ],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Creator ID is required"],
+    },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: true },
+);
+
+taskTemplateSchema.pre("save", function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const TaskTemplate = mongoose.model<ITaskTemplate>(
+  "TaskTemplate",
+  taskTemplateSchema,
+);
+
+export default TaskTemplate;
@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export interface ITimeEntry extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  taskId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  // Denormalised from the task so reports can group by sprint
+  sprintId?: mongoose.Types.ObjectId | null;
+  startedAt: Date;
+  // Null while the timer is running
+  endedAt?: Date | null;
+  durationMinutes: number;
+  note: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const timeEntrySchema = new Schema<ITimeEntry>(
+  {
+    tenantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: [true, "Task ID is required"],
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    sprintId: {
+      type: Schema.Types.ObjectId,
+      ref: "Sprint",
+      default: null,
+    },
+    startedAt: {
+      type: Date,
+      required: [true, "Start time is required"],
+    },
+    endedAt: { type: Date, default: null },
+    durationMinutes: {
+      type: Number,
+      min: [0, "Duration cannot be negative"],
+      default: 0,
+    },
+    note: {
+      type: String,
+      trim: true,
+      default: "",
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { timestamps: true },
+);
+
+timeEntrySchema.pre("save", function (next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// At most one running timer per user
+timeEntrySchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { endedAt: { $type: "null" } } },
+);
+timeEntrySchema.index({ userId: 1, startedAt: -1 });
+timeEntrySchema.index({ tenantId: 1, startedAt: -1 });
+
+const TimeEntry: Model<ITimeEntry> = mongoose.model<ITimeEntry>(
+  "TimeEntry",
+  timeEntrySchema,
+);
+
+export default TimeEntry;
@@ -1,8 +1,16 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 import bcrypt from "bcryptjs";
+import { NotificationType, NOTIFICATION_TYPES } from "./Notification";
 
 export type UserRole = "superadmin" | "tenantAdmin" | "user";
 
+export interface NotificationPreferences {
+  // Notification types the user has switched off
+  muted: NotificationType[];
+  // Start watching tasks the user comments on or is mentioned in
+  autoWatch: boolean;
+}
+
 export interface IUser extends Document {
   name: string;
   email: string;
@@ -10,6 +18,11 @@ export interface IUser extends Document {
   role: UserRole;
   tenantId?: mongoose.Types.ObjectId;
   fcmTokens: string[];
+  defaultViewId?: mongoose.Types.ObjectId;
+  notificationPreferences: NotificationPreferences;
+  // SHA-256 of the secret in the user's calendar feed URL
+  calendarTokenHash?: string;
+  calendarTokenCreatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   matchPassword(enteredPassword: string): Promise<boolean>;
@@ -58,6 +71,25 @@ const userSchema = new Schema<IUser>(
       type: [String],
       default: [],
     },
+    // Saved view the tasks page opens with
+    defaultViewId: {
+      type: Schema.Types.ObjectId,
+      ref: "SavedView",
+      required: false,
+    },
+    notificationPreferences: {
+      muted: {
+        type: [{ type: String, enum: NOTIFICATION_TYPES }],
+        default: [],
+      },
+      autoWatch: { type: Boolean, default: true },
+    },
+    calendarTokenHash: {
+      type: String,
+      select: false,
+      index: { unique: true, sparse: true },
+    },
+    calendarTokenCreatedAt: { type: Date },
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now },
   },
@@ -83,6 +115,7 @@ userSchema.methods.matchPassword = async function (enteredPassword: string) {
 userSchema.methods.toJSON = function () {
   const obj = this.toObject();
   delete obj.passwordHash;
+  delete obj.calendarTokenHash;
   return obj;
 };
 
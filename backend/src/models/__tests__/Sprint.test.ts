@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import Sprint from "../Sprint";
+
+describe("Sprint indexes", () => {
+  const indexes = Sprint.schema.indexes();
+
+  it("allows one active sprint per tenant outside the trash", () => {
+    expect(indexes).toContainEqual([
+      { tenantId: 1, deletedAt: 1 },
+      expect.objectContaining({
+        name: "one_active_sprint_per_tenant",
+        unique: true,
+        partialFilterExpression: { status: "active" },
+      }),
+    ]);
+  });
+
+  it("gives every index its own key, so none is skipped under a taken name", () => {
+    const keys = indexes.map(([fields]) => JSON.stringify(fields));
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keys).not.toContain(JSON.stringify({ tenantId: 1 }));
+  });
+});
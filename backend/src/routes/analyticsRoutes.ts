@@ -1,6 +1,12 @@
 import { Router } from "express";
 import { authenticateToken, authorizeRoles } from "../middleware/auth";
-import { getTaskStats, getWorkloadStats } from "../controllers/analyticsController";
+import {
+  getTaskStats,
+  getWorkloadStats,
+  getTimeReport,
+  getSprintBurndown,
+  getVelocity,
+} from "../controllers/analyticsController";
 
 const router = Router();
 
@@ -11,5 +17,8 @@ router.use(authenticateToken);
 // Regular users might not need to see full org stats
 router.get("/stats", authorizeRoles("superadmin", "tenantAdmin"), getTaskStats);
 router.get("/workload", authorizeRoles("superadmin", "tenantAdmin"), getWorkloadStats);
+router.get("/time", authorizeRoles("superadmin", "tenantAdmin"), getTimeReport);
+router.get("/velocity", authorizeRoles("superadmin", "tenantAdmin"), getVelocity);
+router.get("/sprints/:id/burndown", authorizeRoles("superadmin", "tenantAdmin"), getSprintBurndown);
 
 export default router;
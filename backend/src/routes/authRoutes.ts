@@ -10,6 +10,10 @@ import {
   getAllOrganizations,
   createOrganization,
   updateOrganizationName,
+  getWorkflow,
+  updateWorkflow,
+  getCustomFields,
+  updateCustomFields,
   logout,
   forgotPassword,
   verifyOTP,
@@ -74,6 +78,24 @@ router.post(
 
 router.post("/logout", authenticateToken, logout);
 
+router.get("/organization/workflow", authenticateToken, getWorkflow);
+
+router.put(
+  "/organization/workflow",
+  authenticateToken,
+  authorizeRoles("tenantAdmin", "superadmin"),
+  updateWorkflow
+);
+
+router.get("/organization/custom-fields", authenticateToken, getCustomFields);
+
+router.put(
+  "/organization/custom-fields",
+  authenticateToken,
+  authorizeRoles("tenantAdmin", "superadmin"),
+  updateCustomFields
+);
+
 router.patch(
   "/organization",
   authenticateToken,
@@ -0,0 +1,40 @@
+import express from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  getCalendarFeed,
+  getCalendarFeedStatus,
+  regenerateCalendarFeed,
+  revokeCalendarFeed,
+} from "../controllers/calendarController";
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/calendar/feed
+ * @desc    Whether the user has a calendar feed
+ * @access  Private
+ */
+router.get("/feed", authenticateToken, getCalendarFeedStatus);
+
+/**
+ * @route   POST /api/calendar/feed
+ * @desc    Create or regenerate the user's calendar feed URL
+ * @access  Private
+ */
+router.post("/feed", authenticateToken, regenerateCalendarFeed);
+
+/**
+ * @route   DELETE /api/calendar/feed
+ * @desc    Revoke the user's calendar feed URL
+ * @access  Private
+ */
+router.delete("/feed", authenticateToken, revokeCalendarFeed);
+
+/**
+ * @route   GET /api/calendar/:token.ics
+ * @desc    iCalendar feed of the user's open tasks and current sprints
+ * @access  Public (secret token)
+ */
+router.get("/:token.ics", getCalendarFeed);
+
+export default router;
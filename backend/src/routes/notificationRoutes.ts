@@ -8,6 +8,8 @@ import {
   deleteNotification,
   deleteAllRead,
   registerFcmToken,
+  getPreferences,
+  updatePreferences,
 } from "../controllers/notificationController";
 
 const router = express.Router();
@@ -29,6 +31,20 @@ router.get("/", getNotifications);
  */
 router.get("/unread-count", getUnreadCount);
 
+/**
+ * @route   GET /api/notifications/preferences
+ * @desc    Get the user's notification preferences
+ * @access  Private
+ */
+router.get("/preferences", getPreferences);
+
+/**
+ * @route   PUT /api/notifications/preferences
+ * @desc    Update muted notification types and auto-watching
+ * @access  Private
+ */
+router.put("/preferences", updatePreferences);
+
 /**
  * @route   PATCH /api/notifications/mark-read
  * @desc    Mark specific notifications as read
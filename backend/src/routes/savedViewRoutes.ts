@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  getViews,
+  createView,
+  updateView,
+  deleteView,
+  setDefaultView,
+} from "../controllers/savedViewController";
+
+const router = Router();
+
+// All saved view routes require authentication
+router.use(authenticateToken);
+
+// GET /api/views - Get the user's personal views and the tenant's shared views
+router.get("/", getViews);
+
+// POST /api/views - Save a view
+router.post("/", createView);
+
+// PUT /api/views/default - Set or clear (viewId: null) the user's default view
+router.put("/default", setDefaultView);
+
+// PUT /api/views/:id - Update a view (owner, or admin for shared views)
+router.put("/:id", updateView);
+
+// DELETE /api/views/:id - Delete a view (owner, or admin for shared views)
+router.delete("/:id", deleteView);
+
+export default router;
@@ -6,6 +6,13 @@ import {
   createSprint,
   updateSprint,
   deleteSprint,
+  startSprint,
+  completeSprint,
+  updateSprintCapacity,
+  updateSprintGoals,
+  addRetrospectiveItem,
+  deleteRetrospectiveItem,
+  convertActionItem,
 } from "../controllers/sprintController";
 
 const router = Router();
@@ -25,6 +32,27 @@ router.post("/", createSprint);
 // PUT /api/sprints/:id - Update a sprint
 router.put("/:id", updateSprint);
 
+// POST /api/sprints/:id/start - Make a planned sprint the active one (admin only)
+router.post("/:id/start", startSprint);
+
+// POST /api/sprints/:id/complete - Complete the active sprint and roll over unfinished tasks (admin only)
+router.post("/:id/complete", completeSprint);
+
+// PUT /api/sprints/:id/capacity - Set member availability for the sprint (admin only)
+router.put("/:id/capacity", updateSprintCapacity);
+
+// PUT /api/sprints/:id/goals - Set the goals of a sprint and whether they were achieved (admin only)
+router.put("/:id/goals", updateSprintGoals);
+
+// POST /api/sprints/:id/retrospective - Add an item to the retrospective board
+router.post("/:id/retrospective", addRetrospectiveItem);
+
+// DELETE /api/sprints/:id/retrospective/:itemId - Remove a retrospective item (author or admin)
+router.delete("/:id/retrospective/:itemId", deleteRetrospectiveItem);
+
+// POST /api/sprints/:id/retrospective/:itemId/task - Turn an action item into a task of the next sprint (admin only)
+router.post("/:id/retrospective/:itemId/task", convertActionItem);
+
 // DELETE /api/sprints/:id - Delete a sprint (admin only)
 router.delete("/:id", deleteSprint);
 
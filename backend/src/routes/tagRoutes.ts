@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  getTags,
+  createTag,
+  updateTag,
+  deleteTag,
+} from "../controllers/tagController";
+
+const router = Router();
+
+// All tag routes require authentication
+router.use(authenticateToken);
+
+// GET /api/tags - Get the tag catalog of the user's tenant
+router.get("/", getTags);
+
+// POST /api/tags - Create a tag (admin only)
+router.post("/", createTag);
+
+// PUT /api/tags/:id - Rename or recolor a tag (admin only)
+router.put("/:id", updateTag);
+
+// DELETE /api/tags/:id - Delete a tag and remove it from tasks (admin only)
+router.delete("/:id", deleteTag);
+
+export default router;
@@ -2,13 +2,34 @@ import { Router } from "express";
 import { authenticateToken } from "../middleware/auth";
 import {
   getTasks,
+  exportTasks,
   getTask,
   createTask,
+  createTaskFromTemplate,
   updateTask,
   deleteTask,
+  bulkTasks,
   addAttachments,
   removeAttachment,
+  getTaskActivity,
+  watchTask,
+  unwatchTask,
+  moveTask,
 } from "../controllers/taskController";
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from "../controllers/commentController";
+import {
+  getTimeEntries,
+  logTime,
+  deleteTimeEntry,
+  startTimer,
+  stopTimer,
+} from "../controllers/timeEntryController";
+import { importTasks } from "../controllers/taskImportController";
 import { upload } from "../middleware/upload";
 
 const router = Router();
@@ -16,11 +37,28 @@ const router = Router();
 router.use(authenticateToken);
 
 router.get("/", getTasks);
+router.get("/export", exportTasks);
 router.get("/:id", getTask);
 router.post("/", createTask);
+router.post("/bulk", bulkTasks);
+router.post("/from-template/:templateId", createTaskFromTemplate);
+router.post("/import", upload.single("file"), importTasks);
 router.put("/:id", updateTask);
+router.put("/:id/rank", moveTask);
 router.delete("/:id", deleteTask);
 router.post("/:id/attachments", upload.array("files", 10), addAttachments);
 router.delete("/:id/attachments/:attachmentId", removeAttachment);
+router.get("/:id/activity", getTaskActivity);
+router.post("/:id/watch", watchTask);
+router.delete("/:id/watch", unwatchTask);
+router.get("/:id/comments", getComments);
+router.post("/:id/comments", createComment);
+router.patch("/:id/comments/:commentId", updateComment);
+router.delete("/:id/comments/:commentId", deleteComment);
+router.get("/:id/time", getTimeEntries);
+router.post("/:id/time", logTime);
+router.delete("/:id/time/:entryId", deleteTimeEntry);
+router.post("/:id/timer/start", startTimer);
+router.post("/:id/timer/stop", stopTimer);
 
 export default router;
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  getTemplates,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from "../controllers/taskTemplateController";
+
+const router = Router();
+
+// All template routes require authentication
+router.use(authenticateToken);
+
+// GET /api/task-templates - Get the task templates of the user's tenant
+router.get("/", getTemplates);
+
+// POST /api/task-templates - Create a template (admin only)
+router.post("/", createTemplate);
+
+// PUT /api/task-templates/:id - Update a template (admin only)
+router.put("/:id", updateTemplate);
+
+// DELETE /api/task-templates/:id - Delete a template (admin only)
+router.delete("/:id", deleteTemplate);
+
+export default router;
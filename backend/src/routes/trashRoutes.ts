@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  getTrash,
+  restoreTask,
+  restoreSprint,
+} from "../controllers/trashController";
+
+const router = Router();
+
+// All trash routes require authentication
+router.use(authenticateToken);
+
+// GET /api/trash - Deleted tasks and sprints of the tenant
+router.get("/", getTrash);
+
+// POST /api/trash/tasks/:id/restore - Restore a deleted task
+router.post("/tasks/:id/restore", restoreTask);
+
+// POST /api/trash/sprints/:id/restore - Restore a deleted sprint (admin only)
+router.post("/sprints/:id/restore", restoreSprint);
+
+export default router;
@@ -8,10 +8,20 @@ import taskRoutes from "./routes/taskRoutes";
 import notificationRoutes from "./routes/notificationRoutes";
 import analyticsRoutes from "./routes/analyticsRoutes";
 import sprintRoutes from "./routes/sprintRoutes";
+import tagRoutes from "./routes/tagRoutes";
+import savedViewRoutes from "./routes/savedViewRoutes";
+import trashRoutes from "./routes/trashRoutes";
+import taskTemplateRoutes from "./routes/taskTemplateRoutes";
+import calendarRoutes from "./routes/calendarRoutes";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 import { notificationService } from "./notification";
 import { initializeFirebase } from "./config/firebase";
-import { checkTaskDueDates } from "./utils/taskScheduler";
+import {
+  checkTaskDueDates,
+  generateRecurringTasks,
+} from "./utils/taskScheduler";
+import { purgeTrash } from "./utils/trash";
+import { snapshotActiveSprints } from "./utils/sprintSnapshots";
 
 const app = express();
 
@@ -95,6 +105,11 @@ app.use("/api/auth", authRoutes);
 app.use("/api/notifications", notificationRoutes);
 app.use("/api/tasks", taskRoutes);
 app.use("/api/sprints", sprintRoutes);
+app.use("/api/tags", tagRoutes);
+app.use("/api/views", savedViewRoutes);
+app.use("/api/trash", trashRoutes);
+app.use("/api/task-templates", taskTemplateRoutes);
+app.use("/api/calendar", calendarRoutes);
 app.use("/api/analytics", analyticsRoutes);
 
 app.use(notFoundHandler);
@@ -118,14 +133,41 @@ const server = httpServer.listen(PORT, () => {
     } catch (error) {
       console.error("Error in scheduled due date check:", error);
     }
+    try {
+      await generateRecurringTasks();
+    } catch (error) {
+      console.error("Error in scheduled recurring task generation:", error);
+    }
+    try {
+      await purgeTrash();
+    } catch (error) {
+      console.error("Error in scheduled trash purge:", error);
+    }
+    try {
+      await snapshotActiveSprints();
+    } catch (error) {
+      console.error("Error in scheduled sprint snapshots:", error);
+    }
   }, 60 * 60 * 1000); // Run every hour (60 minutes * 60 seconds * 1000 milliseconds)
   
   // Also run immediately on server start
   checkTaskDueDates().catch((error) => {
     console.error("Error in initial due date check:", error);
   });
+  generateRecurringTasks().catch((error) => {
+    console.error("Error in initial recurring task generation:", error);
+  });
+  purgeTrash().catch((error) => {
+    console.error("Error in initial trash purge:", error);
+  });
+  snapshotActiveSprints().catch((error) => {
+    console.error("Error in initial sprint snapshots:", error);
+  });
   
   console.log("✅ Due date notification scheduler started (checks every hour)");
+  console.log("✅ Recurring task scheduler started (checks every hour)");
+  console.log("✅ Trash purge scheduler started (checks every hour)");
+  console.log("✅ Sprint snapshot scheduler started (checks every hour)");
 });
 
 process.on("SIGTERM", () => {
@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+import { buildChecklist, getChecklistProgress } from "../checklist";
+
+describe("checklist", () => {
+  it("calculates completion progress", () => {
+    expect(getChecklistProgress([])).toEqual({
+      total: 0,
+      completed: 0,
+      percent: 0,
+    });
+    expect(
+      getChecklistProgress([{ done: true }, { done: false }, { done: true }]),
+    ).toEqual({ total: 3, completed: 2, percent: 67 });
+  });
+
+  it("keeps existing ids and completion times", () => {
+    const id = new mongoose.Types.ObjectId();
+    const completedAt = new Date("2026-01-01T00:00:00Z");
+
+    const [kept, added] = buildChecklist(
+      [
+        { id: id.toString(), title: " Write docs ", done: true },
+        { title: "Ship it" },
+      ],
+      [{ _id: id, title: "Write docs", done: true, completedAt }],
+    );
+
+    expect(kept).toEqual({
+      _id: id,
+      title: "Write docs",
+      done: true,
+      completedAt,
+    });
+    expect(added._id).toBeInstanceOf(mongoose.Types.ObjectId);
+    expect(added.done).toBe(false);
+    expect(added.completedAt).toBeNull();
+  });
+
+  it("stamps completedAt when an item is checked off", () => {
+    const id = new mongoose.Types.ObjectId();
+
+    const [item] = buildChecklist(
+      [{ id: id.toString(), title: "Review", done: true }],
+      [{ _id: id, title: "Review", done: false, completedAt: null }],
+    );
+
+    expect(item.completedAt).toBeInstanceOf(Date);
+  });
+});
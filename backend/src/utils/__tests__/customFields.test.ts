@@ -0,0 +1,181 @@
+import { vi } from "vitest";
+import User from "../../models/User";
+import { ICustomFieldDefinition } from "../../models/Organization";
+import {
+  buildCustomFieldFilters,
+  resolveCustomFieldValues,
+  validateCustomFieldDefinitions,
+} from "../customFields";
+
+vi.mock("../../models/User");
+vi.mock("../../models/Organization", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Organization")>()),
+  default: { find: vi.fn(), findById: vi.fn() },
+}));
+
+const fields: ICustomFieldDefinition[] = [
+  {
+    key: "story_points",
+    label: "Story Points",
+    type: "number",
+    options: [],
+    required: false,
+  },
+  {
+    key: "environment",
+    label: "Environment",
+    type: "select",
+    options: ["staging", "production"],
+    required: true,
+  },
+  {
+    key: "launch",
+    label: "Launch",
+    type: "date",
+    options: [],
+    required: false,
+  },
+  {
+    key: "reviewer",
+    label: "Reviewer",
+    type: "user",
+    options: [],
+    required: false,
+  },
+];
+
+describe("customFields.validateCustomFieldDefinitions", () => {
+  it("normalises definitions and drops options of non-select fields", () => {
+    const result = validateCustomFieldDefinitions([
+      { key: "customer", label: " Customer ", type: "text", options: ["x"] },
+      { key: "env", label: "Env", type: "select", options: ["a", "a", " b "] },
+    ]);
+    expect(result).toEqual({
+      valid: true,
+      fields: [
+        {
+          key: "customer",
+          label: "Customer",
+          type: "text",
+          options: [],
+          required: false,
+        },
+        {
+          key: "env",
+          label: "Env",
+          type: "select",
+          options: ["a", "b"],
+          required: false,
+        },
+      ],
+    });
+  });
+
+  it("rejects select fields without options and unknown types", () => {
+    expect(
+      validateCustomFieldDefinitions([
+        { key: "env", label: "Env", type: "select", options: [] },
+      ]).valid,
+    ).toBe(false);
+    expect(
+      validateCustomFieldDefinitions([
+        { key: "env", label: "Env", type: "checkbox" },
+      ]).valid,
+    ).toBe(false);
+  });
+});
+
+describe("customFields.resolveCustomFieldValues", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("parses typed values for a new task", async () => {
+    const result = await resolveCustomFieldValues(
+      { story_points: "5", environment: "staging", launch: "2026-03-01" },
+      fields,
+      "tenant-1",
+    );
+    expect(result.error).toBeUndefined();
+    expect(result.values).toEqual({
+      story_points: 5,
+      environment: "staging",
+      launch: new Date("2026-03-01T00:00:00+05:30"),
+    });
+  });
+
+  it("requires required fields on new tasks", async () => {
+    const result = await resolveCustomFieldValues(
+      { story_points: 3 },
+      fields,
+      "tenant-1",
+    );
+    expect(result).toEqual({ error: '"Environment" is required' });
+  });
+
+  it("merges into existing values and clears empty ones", async () => {
+    const result = await resolveCustomFieldValues(
+      { story_points: null },
+      fields,
+      "tenant-1",
+      new Map<string, any>([
+        ["story_points", 8],
+        ["environment", "production"],
+      ]),
+    );
+    expect(result.values).toEqual({ environment: "production" });
+  });
+
+  it("rejects unknown fields, invalid options and users of other tenants", async () => {
+    await expect(
+      resolveCustomFieldValues({ color: "red" }, fields, "tenant-1", {}),
+    ).resolves.toEqual({ error: 'Unknown custom field "color"' });
+    await expect(
+      resolveCustomFieldValues({ environment: "dev" }, fields, "tenant-1", {}),
+    ).resolves.toEqual({
+      error: '"Environment" must be one of: staging, production',
+    });
+
+    (
+      User.countDocuments as unknown as ReturnType<typeof vi.fn>
+    ).mockResolvedValue(0);
+    await expect(
+      resolveCustomFieldValues(
+        { reviewer: "507f1f77bcf86cd799439011" },
+        fields,
+        "tenant-1",
+        {},
+      ),
+    ).resolves.toEqual({
+      error: "Custom field users must belong to the same tenant",
+    });
+  });
+});
+
+describe("customFields.buildCustomFieldFilters", () => {
+  it("builds ranges, lists and ignores other parameters", () => {
+    const result = buildCustomFieldFilters(
+      {
+        status: "todo",
+        "cf.story_points": "3..",
+        "cf.environment": "staging,production",
+        "cf.launch": "2026-03-01",
+      },
+      fields,
+    );
+    expect(result.filters).toEqual({
+      "customFields.story_points": { $gte: 3 },
+      "customFields.environment": { $in: ["staging", "production"] },
+      "customFields.launch": {
+        $gte: new Date("2026-03-01T00:00:00+05:30"),
+        $lt: new Date("2026-03-02T00:00:00+05:30"),
+      },
+    });
+  });
+
+  it("reports unknown fields", () => {
+    expect(buildCustomFieldFilters({ "cf.size": "1" }, fields).error).toBe(
+      'Unknown custom field "size"',
+    );
+  });
+});
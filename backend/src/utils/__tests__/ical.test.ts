@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { escapeIcsText, foldIcsLine, icsEvent } from "../ical";
+
+describe("escapeIcsText", () => {
+  it("escapes backslashes, separators and line breaks", () => {
+    expect(escapeIcsText("a\\b; c, d\ne")).toBe("a\\\\b\\; c\\, d\\ne");
+  });
+});
+
+describe("foldIcsLine", () => {
+  it("folds lines longer than 75 octets", () => {
+    const folded = foldIcsLine(`SUMMARY:${"x".repeat(100)}`);
+    const lines = folded.split("\r\n");
+
+    expect(lines[0]).toHaveLength(75);
+    expect(lines[1]).toBe(` ${"x".repeat(33)}`);
+  });
+
+  it("never splits a multi-byte character", () => {
+    const folded = foldIcsLine(`SUMMARY:${"é".repeat(40)}`);
+
+    for (const line of folded.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"é".repeat(40)}`);
+  });
+});
+
+describe("icsEvent", () => {
+  it("places the event on the IST day of the due date", () => {
+    // Midnight IST on 1 March is still 28 February in UTC
+    const event = icsEvent(
+      {
+        uid: "task-1@taskflow",
+        date: new Date("2026-02-28T18:30:00.000Z"),
+        summary: "Ship, finally",
+      },
+      new Date("2026-02-20T08:30:00.000Z"),
+    );
+
+    expect(event).toBe(
+      [
+        "BEGIN:VEVENT",
+        "UID:task-1@taskflow",
+        "DTSTAMP:20260220T083000Z",
+        "DTSTART;VALUE=DATE:20260301",
+        "DTEND;VALUE=DATE:20260302",
+        "SUMMARY:Ship\\, finally",
+        "END:VEVENT",
+        "",
+      ].join("\r\n"),
+    );
+  });
+
+  it("ends a multi-day event after its last day", () => {
+    const event = icsEvent({
+      uid: "sprint-1@taskflow",
+      date: new Date("2026-03-01T18:30:00.000Z"),
+      endDate: new Date("2026-03-12T18:30:00.000Z"),
+      summary: "Sprint 7",
+    });
+
+    expect(event).toContain("DTSTART;VALUE=DATE:20260302");
+    expect(event).toContain("DTEND;VALUE=DATE:20260314");
+  });
+});
@@ -0,0 +1,30 @@
+import { extractMentions } from "../mentions";
+
+describe("mentions", () => {
+  const users = [
+    { id: "u1", name: "Jane", email: "jane@example.com" },
+    { id: "u2", name: "Jane Doe", email: "jdoe@example.com" },
+    { id: "u3", name: "Bob Smith", email: "bob.smith@example.com" },
+  ];
+
+  it("resolves mentions by full name, case-insensitively", () => {
+    expect(extractMentions("Thanks @jane doe!", users)).toEqual(["u2"]);
+    expect(extractMentions("@Jane can you check?", users)).toEqual(["u1"]);
+  });
+
+  it("resolves mentions by email local part", () => {
+    expect(extractMentions("ping @bob.smith.", users)).toEqual(["u3"]);
+  });
+
+  it("returns each user once", () => {
+    expect(extractMentions("@Bob Smith and again @bob.smith", users)).toEqual([
+      "u3",
+    ]);
+  });
+
+  it("ignores email addresses and unknown handles", () => {
+    expect(extractMentions("mail jane@example.com", users)).toEqual([]);
+    expect(extractMentions("@nobody here", users)).toEqual([]);
+    expect(extractMentions("@Janet", users)).toEqual([]);
+  });
+});
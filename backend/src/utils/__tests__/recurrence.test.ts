@@ -0,0 +1,97 @@
+import { vi } from "vitest";
+import {
+  getNextOccurrence,
+  normalizeRecurrence,
+  parseRRule,
+} from "../recurrence";
+import { formatDateInputIST, parseDateIST } from "../dateUtils";
+
+vi.mock("../../models/Task");
+
+const day = (value: string) => parseDateIST(value)!;
+const next = (rule: any, from: string, notBefore?: string) => {
+  const result = getNextOccurrence(
+    rule,
+    day(from),
+    notBefore ? day(notBefore) : undefined,
+  );
+  return result ? formatDateInputIST(result) : null;
+};
+
+describe("recurrence", () => {
+  it("validates rules", () => {
+    expect(normalizeRecurrence({ frequency: "yearly" }).valid).toBe(false);
+    expect(normalizeRecurrence({ frequency: "daily", interval: 0 }).valid).toBe(
+      false,
+    );
+    expect(
+      normalizeRecurrence({ frequency: "weekly", weekdays: [1, 9] }).valid,
+    ).toBe(false);
+    expect(
+      normalizeRecurrence({ frequency: "weekly", weekdays: [5, 1] }),
+    ).toEqual({
+      valid: true,
+      rule: {
+        frequency: "weekly",
+        interval: 1,
+        weekdays: [1, 5],
+        dayOfMonth: null,
+        until: null,
+        rrule: null,
+      },
+    });
+  });
+
+  it("parses the supported RRULE subset", () => {
+    const result = parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH");
+    expect(result).toEqual(
+      expect.objectContaining({
+        valid: true,
+        rule: expect.objectContaining({
+          frequency: "weekly",
+          interval: 2,
+          weekdays: [1, 4],
+          rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH",
+        }),
+      }),
+    );
+    expect(parseRRule("FREQ=WEEKLY;COUNT=3")).toEqual({
+      valid: false,
+      message: "Unsupported RRULE parts: COUNT",
+    });
+  });
+
+  it("steps daily and weekly rules", () => {
+    const daily = normalizeRecurrence({ frequency: "daily", interval: 2 });
+    const weekly = normalizeRecurrence({ frequency: "weekly", weekdays: [1] });
+    if (!daily.valid || !weekly.valid) throw new Error("invalid rule");
+
+    expect(next(daily.rule, "2026-03-10")).toBe("2026-03-12");
+    // 2026-03-10 is a Tuesday, the next Monday is the 16th
+    expect(next(weekly.rule, "2026-03-10")).toBe("2026-03-16");
+    expect(next(weekly.rule, "2026-03-16")).toBe("2026-03-23");
+  });
+
+  it("clamps monthly rules to the end of shorter months", () => {
+    const monthly = normalizeRecurrence({
+      frequency: "monthly",
+      dayOfMonth: 31,
+    });
+    if (!monthly.valid) throw new Error("invalid rule");
+
+    expect(next(monthly.rule, "2026-01-31")).toBe("2026-02-28");
+    expect(next(monthly.rule, "2026-02-28")).toBe("2026-03-31");
+  });
+
+  it("skips missed occurrences and stops after the end date", () => {
+    const weekly = normalizeRecurrence({
+      frequency: "weekly",
+      weekdays: [1],
+      until: "2026-04-01",
+    });
+    if (!weekly.valid) throw new Error("invalid rule");
+
+    expect(next(weekly.rule, "2026-03-02", "2026-03-20")).toBe("2026-03-23");
+    expect(next(weekly.rule, "2026-03-30")).toBeNull();
+  });
+});
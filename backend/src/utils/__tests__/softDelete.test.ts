@@ -0,0 +1,49 @@
+import mongoose, { Schema } from "mongoose";
+import { softDeletePlugin } from "../softDelete";
+
+const schema = new Schema({ title: String });
+schema.plugin(softDeletePlugin);
+const Item = mongoose.model("SoftDeleteItem", schema);
+
+// Without a connection queries fail, but only after their middleware ran
+beforeAll(() => {
+  mongoose.set("bufferCommands", false);
+});
+
+const run = (query: { exec: () => Promise<unknown> }) =>
+  query.exec().catch(() => undefined);
+
+describe("softDeletePlugin", () => {
+  it("hides trashed documents from normal queries", async () => {
+    const query = Item.find({ title: "a" });
+    await run(query);
+
+    expect(query.getFilter()).toEqual({ title: "a", deletedAt: null });
+  });
+
+  it("leaves queries about deletedAt alone", async () => {
+    const query = Item.find({ deletedAt: { $ne: null } });
+    await run(query);
+
+    expect(query.getFilter()).toEqual({ deletedAt: { $ne: null } });
+  });
+
+  it("includes trashed documents with the withDeleted option", async () => {
+    const query = Item.updateMany({ title: "a" }, { title: "b" }).setOptions({
+      withDeleted: true,
+    });
+    await run(query);
+
+    expect(query.getFilter()).toEqual({ title: "a" });
+  });
+
+  it("filters aggregations", async () => {
+    const aggregate = Item.aggregate([{ $match: { title: "a" } }]);
+    await run(aggregate);
+
+    expect(aggregate.pipeline()).toEqual([
+      { $match: { deletedAt: null } },
+      { $match: { title: "a" } },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_WORKFLOW } from "../../models/Organization";
+import { buildBurndown, summarizeSprintTasks } from "../sprintSnapshots";
+
+const snapshot = (date: string, remaining: number, completed: number) => ({
+  date,
+  total: {
+    tasks: remaining + completed,
+    estimateMinutes: (remaining + completed) * 60,
+  },
+  remaining: { tasks: remaining, estimateMinutes: remaining * 60 },
+  completed: { tasks: completed, estimateMinutes: completed * 60 },
+});
+
+describe("summarizeSprintTasks", () => {
+  it("counts tasks and estimates per status and by done category", () => {
+    const summary = summarizeSprintTasks(
+      [
+        { _id: "1", status: "todo", estimateMinutes: 30 },
+        { _id: "2", status: "completed", estimateMinutes: 60 },
+        { _id: "3", status: "archived", estimateMinutes: null },
+      ] as any,
+      DEFAULT_WORKFLOW,
+    );
+
+    expect(summary.byStatus).toEqual([
+      { status: "todo", tasks: 1, estimateMinutes: 30 },
+      { status: "in-progress", tasks: 0, estimateMinutes: 0 },
+      { status: "in-review", tasks: 0, estimateMinutes: 0 },
+      { status: "completed", tasks: 1, estimateMinutes: 60 },
+      { status: "archived", tasks: 1, estimateMinutes: 0 },
+    ]);
+    expect(summary.remaining).toEqual({ tasks: 2, estimateMinutes: 30 });
+    expect(summary.completed).toEqual({ tasks: 1, estimateMinutes: 60 });
+  });
+});
+
+describe("buildBurndown", () => {
+  // 2 to 6 March in IST
+  const sprint = {
+    startDate: new Date("2026-03-01T18:30:00.000Z"),
+    endDate: new Date("2026-03-05T18:30:00.000Z"),
+  };
+
+  it("burns the starting work down to zero on the end date", () => {
+    const points = buildBurndown(
+      sprint,
+      [snapshot("2026-03-02", 8, 0), snapshot("2026-03-04", 5, 3)],
+      "tasks",
+    );
+
+    expect(points.map((point) => point.date)).toEqual([
+      "2026-03-02",
+      "2026-03-03",
+      "2026-03-04",
+      "2026-03-05",
+      "2026-03-06",
+    ]);
+    expect(points.map((point) => point.ideal)).toEqual([8, 6, 4, 2, 0]);
+    expect(points.map((point) => point.remaining)).toEqual([
+      8,
+      null,
+      5,
+      null,
+      null,
+    ]);
+    expect(points[2]).toEqual(
+      expect.objectContaining({ completed: 3, scope: 8 }),
+    );
+  });
+
+  it("extends past the end date while the sprint runs over", () => {
+    const points = buildBurndown(
+      sprint,
+      [snapshot("2026-03-02", 4, 0), snapshot("2026-03-07", 1, 3)],
+      "estimateMinutes",
+    );
+
+    expect(points).toHaveLength(6);
+    expect(points[0].ideal).toBe(240);
+    expect(points[5]).toEqual({
+      date: "2026-03-07",
+      ideal: 0,
+      remaining: 60,
+      completed: 180,
+      scope: 240,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { snapshotTask, diffTaskSnapshots } from "../taskActivity";
+
+describe("taskActivity", () => {
+  it("snapshots tracked fields as strings", () => {
+    const snapshot = snapshotTask({
+      title: "Task",
+      description: "",
+      status: "todo",
+      priority: "high",
+      dueDate: new Date("2026-01-01T00:00:00.000Z"),
+      estimateMinutes: 90,
+      sprintId: null,
+      userId: { toString: () => "user-1" },
+      attachments: [],
+    });
+
+    expect(snapshot).toEqual({
+      title: "Task",
+      description: "",
+      status: "todo",
+      priority: "high",
+      dueDate: "2026-01-01T00:00:00.000Z",
+      estimateMinutes: "90",
+      sprintId: null,
+      userId: "user-1",
+      assignees: null,
+      reviewerId: null,
+      checklist: null,
+      labels: null,
+      blockedBy: null,
+      customFields: null,
+    });
+  });
+
+  it("tracks id lists regardless of their order", () => {
+    const before = snapshotTask({
+      assignees: ["u1", "u2"],
+      labels: [{ toString: () => "tag-2" }, { toString: () => "tag-1" }],
+      blockedBy: [],
+    });
+    const after = snapshotTask({
+      assignees: ["u1", "u3"],
+      labels: ["tag-1", "tag-2"],
+      blockedBy: ["task-9"],
+    });
+
+    expect(before.labels).toBe("tag-1,tag-2");
+    expect(diffTaskSnapshots(before, after)).toEqual([
+      { field: "assignees", oldValue: "u1,u2", newValue: "u1,u3" },
+      { field: "blockedBy", oldValue: null, newValue: "task-9" },
+    ]);
+  });
+
+  it("tracks custom field values, leaving out empty ones", () => {
+    const before = snapshotTask({
+      customFields: new Map<string, unknown>([
+        ["team", "core"],
+        ["points", null],
+      ]),
+    });
+    const after = snapshotTask({ customFields: { points: 3, team: "core" } });
+
+    expect(before.customFields).toBe('{"team":"core"}');
+    expect(diffTaskSnapshots(before, after)).toEqual([
+      {
+        field: "customFields",
+        oldValue: '{"team":"core"}',
+        newValue: '{"points":3,"team":"core"}',
+      },
+    ]);
+  });
+
+  it("summarises the checklist as completed/total", () => {
+    const snapshot = snapshotTask({
+      checklist: [{ done: true }, { done: false }, { done: false }],
+    });
+
+    expect(snapshot.checklist).toBe("1/3");
+  });
+
+  it("reports only the fields that changed", () => {
+    const before = snapshotTask({ title: "A", status: "todo", userId: "u1" });
+    const after = snapshotTask({
+      title: "A",
+      status: "completed",
+      userId: "u2",
+    });
+
+    expect(diffTaskSnapshots(before, after)).toEqual([
+      { field: "status", oldValue: "todo", newValue: "completed" },
+      { field: "userId", oldValue: "u1", newValue: "u2" },
+    ]);
+  });
+});
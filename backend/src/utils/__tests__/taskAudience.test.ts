@@ -0,0 +1,97 @@
+import { vi } from "vitest";
+import {
+  taskParticipants,
+  resolveTaskAudience,
+  autoWatchTask,
+} from "../taskAudience";
+import Task from "../../models/Task";
+import User from "../../models/User";
+
+vi.mock("../../models/Task");
+vi.mock("../../models/User");
+vi.mock("../../notification", () => ({
+  notificationService: {
+    sendToUser: vi.fn(),
+  },
+}));
+
+const id = (value: string) => ({ toString: () => value });
+
+function createTask(watchers: string[] = []) {
+  return {
+    _id: id("task-1"),
+    tenantId: id("tenant-1"),
+    userId: id("assignee-1"),
+    createdBy: id("admin-1"),
+    title: "Ship it",
+    watchers: watchers.map(id),
+  } as any;
+}
+
+function mockUsersFound(userIds: string[]) {
+  (User.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+    select: vi
+      .fn()
+      .mockResolvedValue(userIds.map((userId) => ({ _id: id(userId) }))),
+  });
+}
+
+describe("taskAudience", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUsersFound([]);
+  });
+
+  it("lists assignee, creator and watchers once each", () => {
+    expect(taskParticipants(createTask(["watcher-1", "admin-1"]))).toEqual([
+      "assignee-1",
+      "admin-1",
+      "watcher-1",
+    ]);
+  });
+
+  it("leaves out the actor and users who muted the notification type", async () => {
+    mockUsersFound(["watcher-2"]);
+
+    const audience = await resolveTaskAudience(
+      createTask(["watcher-1", "watcher-2"]),
+      { type: "task_updated", actorId: "admin-1" },
+    );
+
+    expect(User.find).toHaveBeenCalledWith({
+      _id: { $in: ["assignee-1", "watcher-1", "watcher-2"] },
+      "notificationPreferences.muted": "task_updated",
+    });
+    expect(audience).toEqual(["assignee-1", "watcher-1"]);
+  });
+
+  it("only targets the given users when asked to", async () => {
+    const audience = await resolveTaskAudience(createTask(["watcher-1"]), {
+      type: "task_assigned",
+      actorId: "admin-1",
+      only: ["user-9"],
+    });
+
+    expect(audience).toEqual(["user-9"]);
+  });
+
+  it("auto-watches new people unless they opted out", async () => {
+    mockUsersFound(["user-3"]);
+
+    await autoWatchTask(createTask(["watcher-1"]), [
+      "assignee-1",
+      "watcher-1",
+      "user-2",
+      "user-3",
+    ]);
+
+    expect(User.find).toHaveBeenCalledWith({
+      _id: { $in: ["user-2", "user-3"] },
+      "notificationPreferences.autoWatch": false,
+    });
+    expect(Task.updateOne).toHaveBeenCalledWith(
+      { _id: expect.anything() },
+      { $addToSet: { watchers: { $each: ["user-2"] } } },
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { vi } from "vitest";
+import { createsDependencyCycle } from "../taskDependencies";
+
+vi.mock("../../models/Task");
+
+// a <- b <- c  (b is blocked by a, c is blocked by b)
+const graph: Record<string, string[]> = {
+  a: [],
+  b: ["a"],
+  c: ["b"],
+};
+
+const lookup = async (ids: string[]) =>
+  new Map(ids.map((id) => [id, graph[id] || []]));
+
+describe("taskDependencies.createsDependencyCycle", () => {
+  it("allows dependencies that keep the graph acyclic", async () => {
+    await expect(createsDependencyCycle("c", ["a"], lookup)).resolves.toBe(
+      false,
+    );
+  });
+
+  it("detects a direct cycle", async () => {
+    await expect(createsDependencyCycle("a", ["b"], lookup)).resolves.toBe(
+      true,
+    );
+  });
+
+  it("detects an indirect cycle", async () => {
+    await expect(createsDependencyCycle("a", ["c"], lookup)).resolves.toBe(
+      true,
+    );
+  });
+
+  it("treats a self reference as a cycle", async () => {
+    await expect(createsDependencyCycle("a", ["a"], lookup)).resolves.toBe(
+      true,
+    );
+  });
+});
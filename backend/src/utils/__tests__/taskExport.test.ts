@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { buildExportRow, escapeCsvCell, toCsvLine } from "../taskExport";
+import { DEFAULT_WORKFLOW } from "../../models/Organization";
+
+describe("escapeCsvCell", () => {
+  it("quotes cells with separators and doubles quotes", () => {
+    expect(escapeCsvCell('Say "hi", then go')).toBe('"Say ""hi"", then go"');
+    expect(escapeCsvCell(null)).toBe("");
+    expect(escapeCsvCell(-5)).toBe("-5");
+  });
+
+  it("keeps spreadsheets from running cells as formulas", () => {
+    expect(escapeCsvCell("=HYPERLINK(1)")).toBe("'=HYPERLINK(1)");
+  });
+
+  it("joins a line with CRLF", () => {
+    expect(toCsvLine(["a", 1, null])).toBe("a,1,\r\n");
+  });
+});
+
+describe("buildExportRow", () => {
+  it("shows names instead of ids and due dates as IST days", () => {
+    const row = buildExportRow(
+      {
+        _id: "task-1",
+        title: "Write docs",
+        description: "",
+        status: "in-progress",
+        priority: "high",
+        userId: "u1",
+        assignees: ["u1", "u2"],
+        reviewerId: null,
+        sprintId: "s1",
+        labels: ["tag-1"],
+        dueDate: new Date("2026-02-28T18:30:00.000Z"),
+        checklist: [{ done: true }, { done: false }],
+        createdAt: new Date("2026-02-01T00:00:00.000Z"),
+      } as any,
+      {
+        workflow: DEFAULT_WORKFLOW,
+        users: new Map([
+          ["u1", "me@acme.test"],
+          ["u2", "dev@acme.test"],
+        ]),
+        sprints: new Map([["s1", "Sprint 4"]]),
+        tags: new Map([["tag-1", "Docs"]]),
+      },
+    );
+
+    expect(row).toEqual(
+      expect.objectContaining({
+        status: "In Progress",
+        assignee: "me@acme.test",
+        assignees: "me@acme.test; dev@acme.test",
+        reviewer: null,
+        sprint: "Sprint 4",
+        labels: "Docs",
+        dueDate: "2026-03-01",
+        progress: 50,
+        createdAt: "2026-02-01T00:00:00.000Z",
+        updatedAt: null,
+      }),
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCsv,
+  parseImportFile,
+  suggestMapping,
+  validateMapping,
+  validateImportRow,
+  ImportContext,
+} from "../taskImport";
+import { DEFAULT_WORKFLOW } from "../../models/Organization";
+
+const context: ImportContext = {
+  workflow: DEFAULT_WORKFLOW,
+  initialStatus: "todo",
+  usersByEmail: new Map([
+    ["me@acme.test", "user-1"],
+    ["dev@acme.test", "user-2"],
+  ]),
+  defaultAssigneeId: "user-1",
+  canAssignOthers: true,
+};
+
+describe("parseCsv", () => {
+  it("handles quoted cells, escaped quotes, CRLF and blank lines", () => {
+    expect(
+      parseCsv(
+        '\uFEFFTitle,Notes\r\n"Fix, now","Say ""hi""\nthen"\r\n\r\nShip,\n',
+      ),
+    ).toEqual([
+      ["Title", "Notes"],
+      ["Fix, now", 'Say "hi"\nthen'],
+      ["Ship", ""],
+    ]);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("reads JSON arrays and objects with a tasks array", () => {
+    expect(
+      parseImportFile(
+        JSON.stringify({ tasks: [{ title: "A", points: 3 }, { title: "B" }] }),
+        "backlog.json",
+      ),
+    ).toEqual({
+      columns: ["title", "points"],
+      rows: [
+        { title: "A", points: "3" },
+        { title: "B", points: "" },
+      ],
+    });
+  });
+
+  it("rejects other file types", () => {
+    expect(parseImportFile("", "tasks.xlsx")).toEqual({
+      error: "Only .csv and .json files can be imported",
+    });
+  });
+});
+
+describe("mapping", () => {
+  it("guesses task fields from common column names", () => {
+    expect(
+      suggestMapping(["Summary", "Due Date", "Assignee Email", "Points"]),
+    ).toEqual({
+      title: "Summary",
+      dueDate: "Due Date",
+      assignee: "Assignee Email",
+    });
+  });
+
+  it("requires a title column that exists in the file", () => {
+    expect(validateMapping({ status: "State" }, ["State"])).toEqual({
+      error: "A column must be mapped to the task title",
+    });
+    expect(validateMapping({ title: "Name" }, ["Title"])).toEqual({
+      error: 'Column "Name" is not in the file',
+    });
+  });
+});
+
+describe("validateImportRow", () => {
+  const mapping = {
+    title: "Title",
+    status: "Status",
+    priority: "Priority",
+    dueDate: "Due",
+    assignee: "Email",
+  };
+
+  it("accepts status labels and resolves assignees by email", () => {
+    const result = validateImportRow(
+      {
+        Title: "Write docs",
+        Status: "In Progress",
+        Priority: "High",
+        Due: "2026-03-01",
+        Email: "Dev@acme.test",
+      },
+      mapping,
+      context,
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.task).toEqual(
+      expect.objectContaining({
+        title: "Write docs",
+        status: "in-progress",
+        priority: "high",
+        userId: "user-2",
+        dueDate: new Date("2026-02-28T18:30:00.000Z"),
+      }),
+    );
+  });
+
+  it("reports every problem of a row", () => {
+    const result = validateImportRow(
+      {
+        Title: "",
+        Status: "blocked",
+        Priority: "urgent",
+        Due: "someday",
+        Email: "ghost@acme.test",
+      },
+      mapping,
+      context,
+    );
+
+    expect(result.task).toBeNull();
+    expect(result.errors).toEqual([
+      "Title is required and must be a string",
+      "Status must be one of: todo, in-progress, in-review, completed",
+      "Priority must be one of: low, medium, high",
+      "Invalid due date format",
+      "No user with email ghost@acme.test in this organization",
+    ]);
+  });
+
+  it("keeps members to their own tasks", () => {
+    const result = validateImportRow(
+      { Title: "Mine?", Email: "dev@acme.test" },
+      mapping,
+      { ...context, canAssignOthers: false },
+    );
+
+    expect(result.errors).toEqual(["Users cannot assign tasks to others"]);
+  });
+});
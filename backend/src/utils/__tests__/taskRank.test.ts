@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { MIN_RANK_GAP_RATIO, RANK_STEP, rankBetween } from "../taskRank";
+
+describe("rankBetween", () => {
+  it("steps past the neighbour at the ends of a list", () => {
+    expect(rankBetween(null, 2048)).toBe(2048 - RANK_STEP);
+    expect(rankBetween(2048, null)).toBe(2048 + RANK_STEP);
+  });
+
+  it("stays within the middle half of the gap", () => {
+    expect(rankBetween(1000, 2000, () => 0)).toBe(1250);
+    expect(rankBetween(1000, 2000, () => 0.5)).toBe(1500);
+    expect(rankBetween(1000, 2000, () => 0.999)).toBeLessThan(1750);
+  });
+
+  it("asks for a rebalance once the gap is used up", () => {
+    expect(rankBetween(1, 1 + MIN_RANK_GAP_RATIO / 2)).toBeNull();
+    expect(rankBetween(2, 1)).toBeNull();
+  });
+
+  it("runs out of room relative to the size of timestamp ranks", () => {
+    let after = 1_700_000_000_000;
+    const before = after + 1;
+    for (let moves = 0; moves < 100; moves++) {
+      const rank = rankBetween(after, before, () => 0.5);
+      if (rank === null) return;
+      expect(rank).toBeGreaterThan(after);
+      expect(rank).toBeLessThan(before);
+      after = rank;
+    }
+    throw new Error("the gap never ran out");
+  });
+});
@@ -0,0 +1,212 @@
+import { vi } from "vitest";
+import { checkTaskDueDates, generateRecurringTasks } from "../taskScheduler";
+import Task from "../../models/Task";
+import User from "../../models/User";
+import { notificationService } from "../../notification";
+import { parseDateIST } from "../dateUtils";
+
+vi.mock("../../models/Task");
+vi.mock("../../models/TaskActivity");
+vi.mock("../../models/User");
+vi.mock("../../models/Organization", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Organization")>()),
+  default: {
+    find: vi.fn(() => ({
+      select: () => ({ lean: () => Promise.resolve([]) }),
+    })),
+    findById: vi.fn(() => ({
+      select: () => ({ lean: () => Promise.resolve(null) }),
+    })),
+  },
+}));
+vi.mock("../../notification", () => ({
+  notificationService: {
+    sendToUser: vi.fn(),
+  },
+}));
+
+// Nobody has muted notifications unless a test says otherwise
+beforeEach(() => {
+  (User.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+    select: vi.fn().mockResolvedValue([]),
+  });
+});
+
+function muteFor(userIds: string[]) {
+  (User.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+    select: vi.fn().mockResolvedValue(
+      userIds.map((id) => ({ _id: { toString: () => id } })),
+    ),
+  });
+}
+
+describe("taskScheduler.checkTaskDueDates", () => {
+  const overdueTask = {
+    _id: "507f1f77bcf86cd799439021",
+    title: "Pay invoices",
+    userId: "user-1",
+    createdBy: "admin-1",
+    tenantId: "tenant-1",
+    dueDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (Task.find as unknown as ReturnType<typeof vi.fn>)
+      .mockReturnValueOnce({ exec: vi.fn().mockResolvedValue([overdueTask]) })
+      .mockReturnValueOnce({ exec: vi.fn().mockResolvedValue([]) });
+  });
+
+  it("reminds the assignee of an overdue task", async () => {
+    await checkTaskDueDates();
+
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        type: "task_overdue",
+        taskId: overdueTask._id,
+      }),
+    );
+  });
+
+  it("reminds every assignee of a shared task", async () => {
+    (Task.find as unknown as ReturnType<typeof vi.fn>)
+      .mockReset()
+      .mockReturnValueOnce({
+        exec: vi.fn().mockResolvedValue([
+          { ...overdueTask, assignees: ["user-1", "user-2"] },
+        ]),
+      })
+      .mockReturnValueOnce({ exec: vi.fn().mockResolvedValue([]) });
+
+    await checkTaskDueDates();
+
+    expect(notificationService.sendToUser).toHaveBeenCalledTimes(2);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-2", type: "task_overdue" }),
+    );
+  });
+
+  it("leaves out users who muted overdue reminders", async () => {
+    muteFor(["user-1"]);
+
+    await checkTaskDueDates();
+
+    expect(notificationService.sendToUser).not.toHaveBeenCalled();
+  });
+});
+
+describe("taskScheduler.generateRecurringTasks", () => {
+  const recurringTask = {
+    _id: "507f1f77bcf86cd799439011",
+    title: "Weekly report",
+    description: "Send the numbers",
+    priority: "high",
+    status: "completed",
+    userId: "user-1",
+    createdBy: "admin-1",
+    tenantId: "tenant-1",
+    sprintId: "sprint-1",
+    seriesId: null,
+    dueDate: parseDateIST("2026-03-02"),
+    createdAt: parseDateIST("2026-03-01"),
+    recurrence: {
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [1],
+      dayOfMonth: null,
+      until: null,
+      rrule: null,
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      exec: vi.fn().mockResolvedValue([recurringTask]),
+    });
+    (Task.create as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      async (data: any) => ({ _id: "507f1f77bcf86cd799439012", ...data }),
+    );
+  });
+
+  it("creates the next instance with the copied fields", async () => {
+    (Task.updateOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      modifiedCount: 1,
+    });
+
+    const result = await generateRecurringTasks();
+
+    expect(result).toEqual({ processed: 1, created: 1 });
+    expect(Task.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: "Weekly report",
+        description: "Send the numbers",
+        priority: "high",
+        status: "todo",
+        userId: "user-1",
+        sprintId: "sprint-1",
+        seriesId: recurringTask._id,
+        recurrence: recurringTask.recurrence,
+      }),
+    );
+    const { dueDate } = (Task.create as unknown as ReturnType<typeof vi.fn>)
+      .mock.calls[0][0];
+    expect(dueDate.getTime()).toBeGreaterThan(Date.now() - 24 * 60 * 60 * 1000);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", type: "task_assigned" }),
+    );
+  });
+
+  it("keeps the assignees and reviewer of the series", async () => {
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      exec: vi.fn().mockResolvedValue([
+        {
+          ...recurringTask,
+          assignees: ["user-1", "user-3"],
+          reviewerId: "user-2",
+        },
+      ]),
+    });
+    (Task.updateOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      modifiedCount: 1,
+    });
+
+    await generateRecurringTasks();
+
+    expect(Task.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        assignees: ["user-1", "user-3"],
+        reviewerId: "user-2",
+      }),
+    );    // Every assignee hears about the new instance, the reviewer does not
+    expect(notificationService.sendToUser).toHaveBeenCalledTimes(2);
+    expect(notificationService.sendToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-3", type: "task_assigned" }),
+    );
+  });
+
+  it("leaves out users who muted assignment notifications", async () => {
+    (Task.updateOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      modifiedCount: 1,
+    });
+    muteFor(["user-1"]);
+
+    await generateRecurringTasks();
+
+    expect(Task.create).toHaveBeenCalled();
+    expect(notificationService.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it("skips instances another run already claimed", async () => {
+    (Task.updateOne as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      modifiedCount: 0,
+    });
+
+    const result = await generateRecurringTasks();
+
+    expect(result).toEqual({ processed: 1, created: 0 });
+    expect(Task.create).not.toHaveBeenCalled();
+  });
+});
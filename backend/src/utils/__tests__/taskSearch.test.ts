@@ -0,0 +1,146 @@
+import { vi } from "vitest";
+import User from "../../models/User";
+import Sprint from "../../models/Sprint";
+import Tag from "../../models/Tag";
+import { buildTaskSearchConditions, parseTaskSearch } from "../taskSearch";
+
+vi.mock("../../models/User");
+vi.mock("../../models/Sprint");
+vi.mock("../../models/Tag");
+vi.mock("../../models/Organization", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Organization")>()),
+  default: {
+    findById: vi.fn().mockReturnValue({
+      select: vi
+        .fn()
+        .mockReturnValue({ lean: vi.fn().mockResolvedValue(null) }),
+    }),
+  },
+}));
+
+const ctx = { tenantId: "507f1f77bcf86cd799439011", actorId: "u1" };
+
+// Stub for `Model.find(...).select(...).lean()` chains
+const lean = (value: unknown) => ({
+  select: vi.fn().mockReturnValue({ lean: vi.fn().mockResolvedValue(value) }),
+});
+
+describe("taskSearch.parseTaskSearch", () => {
+  it("separates filters, sort and free text", () => {
+    expect(
+      parseTaskSearch(
+        'login bug priority:high,medium status:!done sprint:"Sprint 12" sort:-due',
+      ),
+    ).toEqual({
+      text: "login bug",
+      sort: "-due",
+      terms: [
+        { key: "priority", negate: false, values: ["high", "medium"] },
+        { key: "status", negate: true, values: ["done"] },
+        { key: "sprint", negate: false, values: ["Sprint 12"] },
+      ],
+    });
+  });
+
+  it("keeps tokens with unknown keys as text", () => {
+    const parsed = parseTaskSearch("see https://example.com CREATEDBY:me");
+    expect(parsed.text).toBe("see https://example.com");
+    expect(parsed.terms).toEqual([
+      { key: "createdBy", negate: false, values: ["me"] },
+    ]);
+  });
+});
+
+describe("taskSearch.buildTaskSearchConditions", () => {
+  it("negates terms with $nor and resolves assignee:me", async () => {
+    const { terms } = parseTaskSearch("status:!completed assignee:me");
+    const result = await buildTaskSearchConditions(terms, ctx);
+
+    expect(result).toEqual({
+      conditions: [
+        { $nor: [{ status: { $in: ["completed"] } }] },
+        { $or: [{ userId: { $in: ["u1"] } }, { assignees: { $in: ["u1"] } }] },
+      ],
+    });
+  });
+
+  it("rejects unknown statuses and priorities", async () => {
+    const status = await buildTaskSearchConditions(
+      parseTaskSearch("status:shipped").terms,
+      ctx,
+    );
+    expect(status.error).toBe('Unknown status "shipped"');
+
+    const priority = await buildTaskSearchConditions(
+      parseTaskSearch("priority:urgent").terms,
+      ctx,
+    );
+    expect(priority.error).toBe("Priority must be one of: low, medium, high");
+  });
+
+  it("turns relative and absolute due dates into ranges", async () => {
+    vi.useFakeTimers();
+    // 10:00 IST on 2026-03-10
+    vi.setSystemTime(new Date("2026-03-10T04:30:00Z"));
+
+    const { conditions } = await buildTaskSearchConditions(
+      parseTaskSearch("due:<7d due:2026-03-01..2026-03-31").terms,
+      ctx,
+    );
+    expect(conditions).toEqual([
+      { dueDate: { $lt: new Date("2026-03-17T00:00:00+05:30") } },
+      {
+        dueDate: {
+          $gte: new Date("2026-03-01T00:00:00+05:30"),
+          $lt: new Date("2026-04-01T00:00:00+05:30"),
+        },
+      },
+    ]);
+
+    const invalid = await buildTaskSearchConditions(
+      parseTaskSearch("due:soon").terms,
+      ctx,
+    );
+    expect(invalid.error).toMatch(/^due must be/);
+
+    vi.useRealTimers();
+  });
+
+  it("resolves sprint:current to the tenant's active sprints", async () => {
+    (Sprint.find as any).mockReturnValue(lean([{ _id: "s1" }]));
+
+    const { conditions } = await buildTaskSearchConditions(
+      parseTaskSearch("sprint:current,none").terms,
+      ctx,
+    );
+
+    expect(Sprint.find).toHaveBeenCalledWith({
+      tenantId: ctx.tenantId,
+      status: "active",
+    });
+    expect(conditions).toEqual([{ sprintId: { $in: ["s1", null] } }]);
+  });
+
+  it("looks up assignees by email and labels by name", async () => {
+    (User.find as any).mockReturnValue(
+      lean([{ _id: "u2", email: "ana@example.com" }]),
+    );
+    (Tag.findOne as any).mockReturnValue({
+      collation: vi.fn().mockReturnValue(lean(null)),
+    });
+
+    const users = await buildTaskSearchConditions(
+      parseTaskSearch("assignee:Ana@example.com").terms,
+      ctx,
+    );
+    expect(users.conditions).toEqual([
+      { $or: [{ userId: { $in: ["u2"] } }, { assignees: { $in: ["u2"] } }] },
+    ]);
+
+    const tags = await buildTaskSearchConditions(
+      parseTaskSearch("label:missing").terms,
+      ctx,
+    );
+    expect(tags.error).toBe('Unknown label "missing"');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderTemplate,
+  sanitizeTemplateVariables,
+  getTemplateDueDate,
+} from "../taskTemplates";
+
+describe("renderTemplate", () => {
+  it("replaces known variables and keeps unknown ones", () => {
+    expect(
+      renderTemplate("Standup {{ date }} ({{sprint}}) {{missing}}", {
+        date: "2026-01-05",
+        sprint: "Sprint 3",
+      }),
+    ).toBe("Standup 2026-01-05 (Sprint 3) {{missing}}");
+  });
+});
+
+describe("sanitizeTemplateVariables", () => {
+  it("keeps string values and never overrides the built-in variables", () => {
+    expect(
+      sanitizeTemplateVariables(
+        { version: " 1.2 ", date: "tomorrow", count: 3, "bad name": "x" },
+        { date: "2026-01-05" },
+      ),
+    ).toEqual({ version: "1.2", date: "2026-01-05" });
+  });
+
+  it("ignores anything that is not an object", () => {
+    expect(sanitizeTemplateVariables(["a"], { sprint: "" })).toEqual({
+      sprint: "",
+    });
+  });
+});
+
+describe("getTemplateDueDate", () => {
+  it("returns midnight IST the given number of days later", () => {
+    // 20:00 UTC is already the next day in IST
+    const from = new Date("2026-01-05T20:00:00Z");
+    expect(getTemplateDueDate(2, from)?.toISOString()).toBe(
+      "2026-01-07T18:30:00.000Z",
+    );
+  });
+});
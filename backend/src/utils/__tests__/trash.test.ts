@@ -0,0 +1,52 @@
+import { vi } from "vitest";
+import { purgeTrash } from "../trash";
+import Task from "../../models/Task";
+import Sprint from "../../models/Sprint";
+import cloudinary from "../../config/cloudinary";
+
+vi.mock("../../models/Task");
+vi.mock("../../models/Sprint");
+vi.mock("../../config/cloudinary", () => ({
+  default: { uploader: { destroy: vi.fn() } },
+}));
+
+const attachment = (publicId: string) => ({ publicId });
+
+describe("trash.purgeTrash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (Task.updateMany as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      setOptions: vi.fn().mockResolvedValue({}),
+    });
+    (Sprint.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([]),
+    });
+  });
+
+  it("removes attachments from Cloudinary before deleting expired tasks", async () => {
+    (Task.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: vi.fn().mockResolvedValue([
+        { _id: "task-1", attachments: [attachment("a1"), attachment("a2")] },
+        { _id: "task-2", attachments: [attachment("b1")] },
+      ]),
+    });
+    const destroy = cloudinary.uploader.destroy as ReturnType<typeof vi.fn>;
+    destroy.mockImplementation(async (publicId: string) => {
+      if (publicId === "b1") throw new Error("Cloudinary is down");
+    });
+
+    const result = await purgeTrash(new Date("2026-03-31T00:00:00Z"));
+
+    expect(Task.find).toHaveBeenCalledWith({
+      deletedAt: { $lte: new Date("2026-03-01T00:00:00Z") },
+    });
+    expect(destroy).toHaveBeenCalledWith("a1");
+    expect(destroy).toHaveBeenCalledWith("a2");
+    // task-2 stays in the trash until its assets can be removed
+    expect(Task.deleteMany).toHaveBeenCalledWith({
+      _id: { $in: ["task-1"] },
+      deletedAt: { $ne: null },
+    });
+    expect(result).toEqual({ tasks: 1, sprints: 0 });
+  });
+});
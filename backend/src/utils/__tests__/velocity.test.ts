@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  averageVelocity,
+  buildThroughput,
+  capacityFactor,
+  exceedsForecast,
+} from "../velocity";
+
+describe("averageVelocity", () => {
+  it("averages delivered work per sprint", () => {
+    expect(
+      averageVelocity([
+        { tasks: 8, estimateMinutes: 600 },
+        { tasks: 5, estimateMinutes: 300 },
+      ]),
+    ).toEqual({ tasks: 6.5, estimateMinutes: 450 });
+    expect(averageVelocity([])).toEqual({ tasks: 0, estimateMinutes: 0 });
+  });
+});
+
+describe("buildThroughput", () => {
+  it("credits each assignee and falls back to the owner", () => {
+    const throughput = buildThroughput(
+      [
+        {
+          _id: "t1",
+          userId: "u1",
+          assignees: ["u1", "u2"],
+          estimateMinutes: 60,
+        },
+        { _id: "t2", userId: "u1", assignees: [], estimateMinutes: null },
+      ] as any,
+      2,
+    );
+
+    expect(throughput).toEqual([
+      {
+        userId: "u1",
+        delivered: { tasks: 2, estimateMinutes: 60 },
+        perSprint: { tasks: 1, estimateMinutes: 30 },
+      },
+      {
+        userId: "u2",
+        delivered: { tasks: 1, estimateMinutes: 60 },
+        perSprint: { tasks: 0.5, estimateMinutes: 30 },
+      },
+    ]);
+  });
+});
+
+describe("capacityFactor", () => {
+  const throughput = [
+    { userId: "u1", delivered: { tasks: 6, estimateMinutes: 0 } },
+    { userId: "u2", delivered: { tasks: 2, estimateMinutes: 0 } },
+  ] as any;
+
+  it("weights each member's availability by what they usually deliver", () => {
+    expect(
+      capacityFactor(throughput, [{ userId: "u1", percent: 50 } as any]),
+    ).toBe((3 + 2) / 8);
+  });
+
+  it("treats members without an entry as fully available", () => {
+    expect(capacityFactor(throughput, [])).toBe(1);
+    expect(capacityFactor([], [{ userId: "u1", percent: 0 } as any])).toBe(1);
+  });
+});
+
+describe("exceedsForecast", () => {
+  it("compares estimates only when the forecast has them", () => {
+    const committed = { tasks: 4, estimateMinutes: 600 };
+    expect(exceedsForecast(committed, { tasks: 5, estimateMinutes: 0 })).toBe(
+      false,
+    );
+    expect(exceedsForecast(committed, { tasks: 5, estimateMinutes: 480 })).toBe(
+      true,
+    );
+    expect(exceedsForecast(committed, { tasks: 3, estimateMinutes: 0 })).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,234 @@
+import { vi } from "vitest";
+import Organization, { DEFAULT_WORKFLOW } from "../../models/Organization";
+import {
+  checkTransition,
+  getDoneStatuses,
+  getInitialStatus,
+  getReviewStatus,
+  getTenantWorkflow,
+  statusCategoryFilter,
+  validateTransitions,
+  validateWorkflow,
+} from "../workflow";
+
+vi.mock("../../models/Organization", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../models/Organization")>()),
+  default: { find: vi.fn(), findById: vi.fn() },
+}));
+
+const workflow = [
+  { key: "backlog", label: "Backlog", category: "open", color: "gray" },
+  { key: "qa", label: "QA", category: "open", color: "yellow" },
+  { key: "deployed", label: "Deployed", category: "done", color: "green" },
+];
+
+describe("workflow.validateWorkflow", () => {
+  it("accepts an ordered custom workflow", () => {
+    const result = validateWorkflow(workflow);
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(getInitialStatus(result.workflow)).toBe("backlog");
+      expect(getDoneStatuses(result.workflow)).toEqual(["deployed"]);
+    }
+  });
+
+  it("defaults the color to gray", () => {
+    const result = validateWorkflow([
+      { key: "open", label: "Open", category: "open" },
+      { key: "closed", label: "Closed", category: "done" },
+    ]);
+    expect(result.valid && result.workflow[0].color).toBe("gray");
+  });
+
+  it("rejects duplicate keys", () => {
+    const result = validateWorkflow([...workflow, workflow[1]]);
+    expect(result).toEqual({
+      valid: false,
+      message: 'Duplicate status key "qa"',
+    });
+  });
+
+  it("rejects keys that are not slugs", () => {
+    const result = validateWorkflow([
+      { ...workflow[0], key: "In Progress" },
+      workflow[2],
+    ]);
+    expect(result.valid).toBe(false);
+  });
+
+  it("requires the first status to be open and one to be done", () => {
+    expect(validateWorkflow([workflow[2], workflow[0]])).toEqual({
+      valid: false,
+      message: "The first status must be an open one",
+    });
+    expect(validateWorkflow([workflow[0], workflow[1]])).toEqual({
+      valid: false,
+      message: "Workflow needs at least one done status",
+    });
+  });
+});
+
+describe("workflow.getReviewStatus", () => {
+  it("uses the status flagged for review", () => {
+    expect(getReviewStatus(DEFAULT_WORKFLOW)).toBe("in-review");
+    expect(
+      getReviewStatus([
+        workflow[0],
+        { ...workflow[1], review: true },
+        workflow[2],
+      ] as any),
+    ).toBe("qa");
+    expect(getReviewStatus(workflow as any)).toBeNull();
+  });
+
+  it("keeps in-review as the review status of workflows saved before the flag", async () => {
+    const legacy = [
+      workflow[0],
+      { key: "in-review", label: "Review", category: "open", color: "gray" },
+      workflow[2],
+    ];
+    (Organization.findById as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve({ workflow: legacy }) }),
+    });
+    expect(getReviewStatus(await getTenantWorkflow("tenant-1"))).toBe(
+      "in-review",
+    );
+
+    // Saved with the flag cleared on every status: no review status
+    (Organization.findById as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({
+        lean: () =>
+          Promise.resolve({
+            workflow: legacy.map((status) => ({ ...status, review: false })),
+          }),
+      }),
+    });
+    expect(getReviewStatus(await getTenantWorkflow("tenant-1"))).toBeNull();
+  });
+
+  it("accepts one open review status", () => {
+    const flagged = { ...workflow[1], review: true };
+    expect(validateWorkflow([workflow[0], flagged, workflow[2]])).toEqual(
+      expect.objectContaining({ valid: true }),
+    );
+    expect(
+      validateWorkflow([
+        workflow[0],
+        flagged,
+        { ...flagged, key: "uat" },
+        workflow[2],
+      ]),
+    ).toEqual({
+      valid: false,
+      message: "Only one status can ask for a review",
+    });
+    expect(
+      validateWorkflow([workflow[0], { ...workflow[2], review: true }]),
+    ).toEqual({
+      valid: false,
+      message: 'Review status "deployed" must be an open one',
+    });
+  });
+});
+
+describe("workflow.validateTransitions", () => {
+  it("accepts rules between workflow statuses and wildcards", () => {
+    const result = validateTransitions(
+      [
+        { from: "backlog", to: "qa" },
+        { from: "*", to: "deployed", roles: ["tenantAdmin"] },
+      ],
+      workflow as any,
+    );
+    expect(result).toEqual({
+      valid: true,
+      transitions: [
+        { from: "backlog", to: "qa", roles: [] },
+        { from: "*", to: "deployed", roles: ["tenantAdmin"] },
+      ],
+    });
+  });
+
+  it("rejects unknown statuses and roles", () => {
+    expect(
+      validateTransitions([{ from: "backlog", to: "done" }], workflow as any)
+        .valid,
+    ).toBe(false);
+    expect(
+      validateTransitions(
+        [{ from: "backlog", to: "qa", roles: ["superadmin"] }],
+        workflow as any,
+      ).valid,
+    ).toBe(false);
+  });
+});
+
+describe("workflow.checkTransition", () => {
+  const rules = [
+    { from: "backlog", to: "qa", roles: [] },
+    { from: "qa", to: "deployed", roles: ["tenantAdmin" as const] },
+  ];
+
+  it("allows any move when no rules are defined", () => {
+    expect(
+      checkTransition([], workflow as any, "backlog", "deployed", "user"),
+    ).toEqual({ allowed: true });
+  });
+
+  it("only allows listed moves", () => {
+    expect(
+      checkTransition(rules, workflow as any, "backlog", "qa", "user"),
+    ).toEqual({ allowed: true });
+    expect(
+      checkTransition(rules, workflow as any, "backlog", "deployed", "user"),
+    ).toEqual({
+      allowed: false,
+      message: 'Tasks cannot move from "Backlog" to "Deployed"',
+    });
+  });
+
+  it("restricts moves to the listed roles, superadmins included", () => {
+    expect(
+      checkTransition(rules, workflow as any, "qa", "deployed", "user"),
+    ).toEqual({
+      allowed: false,
+      message: 'Only tenant admins can move tasks from "QA" to "Deployed"',
+    });
+    expect(
+      checkTransition(rules, workflow as any, "qa", "deployed", "tenantAdmin")
+        .allowed,
+    ).toBe(true);
+    expect(
+      checkTransition(rules, workflow as any, "qa", "deployed", "superadmin")
+        .allowed,
+    ).toBe(true);
+  });
+});
+
+describe("workflow.statusCategoryFilter", () => {
+  it("matches each tenant against its own done statuses", async () => {
+    (Organization.find as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      select: () => ({
+        lean: () =>
+          Promise.resolve([
+            { _id: "tenant-1", workflow },
+            { _id: "tenant-2", workflow: [] },
+          ]),
+      }),
+    });
+
+    await expect(statusCategoryFilter("done")).resolves.toEqual({
+      $or: [
+        { tenantId: "tenant-1", status: { $in: ["deployed"] } },
+        {
+          tenantId: { $nin: ["tenant-1"] },
+          status: {
+            $in: DEFAULT_WORKFLOW.filter((s) => s.category === "done").map(
+              (s) => s.key,
+            ),
+          },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import { ISprint } from "../models/Sprint";
+import { formatDateInputIST } from "./dateUtils";
+import { CalendarEvent } from "./ical";
+
+// 32 random bytes in base64url
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export function isCalendarToken(value: string) {
+  return TOKEN_PATTERN.test(value);
+}
+
+/**
+ * Only the hash of a feed token is stored, so a leaked database does not
+ * leak working feed URLs
+ */
+export function hashCalendarToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateCalendarToken() {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashCalendarToken(token) };
+}
+
+export const calendarFeedPath = (token: string) => `/api/calendar/${token}.ics`;
+
+/**
+ * A sprint as one event spanning its first to its last day
+ */
+export function buildSprintEvent(sprint: ISprint): CalendarEvent {
+  return {
+    uid: `sprint-${sprint._id.toString()}@taskflow`,
+    date: sprint.startDate,
+    endDate: sprint.endDate,
+    summary: `Sprint: ${sprint.name}`,
+    description: `${formatDateInputIST(sprint.startDate)} to ${formatDateInputIST(
+      sprint.endDate,
+    )}`,
+    categories: ["Sprint"],
+    updatedAt: sprint.updatedAt,
+  };
+}
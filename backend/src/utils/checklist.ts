@@ -0,0 +1,60 @@
+import mongoose from "mongoose";
+import { IChecklistItem } from "../models/Task";
+
+export interface ChecklistItemInput {
+  id?: string;
+  title: string;
+  done?: boolean;
+}
+
+export interface ChecklistProgress {
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+export function getChecklistProgress(
+  items: Pick<IChecklistItem, "done">[] | undefined | null,
+): ChecklistProgress {
+  const list = items || [];
+  const completed = list.filter((item) => item.done).length;
+  return {
+    total: list.length,
+    completed,
+    percent: list.length > 0 ? Math.round((completed / list.length) * 100) : 0,
+  };
+}
+
+/**
+ * Build the checklist to store from the list sent by the client. Items that
+ * carry the id of an existing item keep it, and completedAt is only stamped
+ * when an item flips to done.
+ */
+export function buildChecklist(
+  input: ChecklistItemInput[],
+  existing: IChecklistItem[] = [],
+) {
+  const existingById = new Map(
+    existing.map((item) => [item._id.toString(), item]),
+  );
+
+  return input.map((item) => {
+    const previous = item.id ? existingById.get(item.id) : undefined;
+    const done = Boolean(item.done);
+    return {
+      _id: previous ? previous._id : new mongoose.Types.ObjectId(),
+      title: item.title.trim(),
+      done,
+      completedAt: done ? previous?.completedAt || new Date() : null,
+    };
+  });
+}
+
+export function formatChecklist(items: IChecklistItem[] | undefined | null) {
+  return (items || []).map((item) => ({
+    id: item._id.toString(),
+    title: item.title,
+    done: item.done,
+    completedAt: item.completedAt || null,
+  }));
+}
@@ -0,0 +1,315 @@
+import Organization, {
+  CUSTOM_FIELD_TYPES,
+  ICustomFieldDefinition,
+} from "../models/Organization";
+import User from "../models/User";
+import { CustomFieldValue } from "../models/Task";
+import { parseDateIST } from "./dateUtils";
+import { isValidObjectId } from "./validators";
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,29}$/;
+const MAX_FIELDS = 20;
+const MAX_OPTIONS = 50;
+const MAX_TEXT_LENGTH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Query parameters like `cf.story_points=3..8` filter on custom fields
+export const CUSTOM_FIELD_PARAM_PREFIX = "cf.";
+
+type DefinitionsResult =
+  | { valid: true; fields: ICustomFieldDefinition[] }
+  | { valid: false; message: string };
+
+type ValueResult =
+  { valid: true; value: CustomFieldValue } | { valid: false; message: string };
+
+export async function getTenantCustomFields(
+  tenantId?: unknown,
+): Promise<ICustomFieldDefinition[]> {
+  if (!tenantId) return [];
+  const organization = await Organization.findById(tenantId)
+    .select("customFields")
+    .lean();
+  return organization?.customFields || [];
+}
+
+/**
+ * Validate the custom field definitions sent by a tenant admin. Select fields
+ * need at least one option; other types ignore options.
+ */
+export function validateCustomFieldDefinitions(
+  input: unknown,
+): DefinitionsResult {
+  if (!Array.isArray(input)) {
+    return { valid: false, message: "Custom fields must be an array" };
+  }
+  if (input.length > MAX_FIELDS) {
+    return {
+      valid: false,
+      message: `A tenant cannot have more than ${MAX_FIELDS} custom fields`,
+    };
+  }
+
+  const fields: ICustomFieldDefinition[] = [];
+  for (const item of input) {
+    const key = typeof item?.key === "string" ? item.key.trim() : "";
+    if (!FIELD_KEY_PATTERN.test(key)) {
+      return {
+        valid: false,
+        message:
+          "Custom field keys must start with a letter and use only lowercase letters, numbers and underscores (max 30)",
+      };
+    }
+    if (fields.some((field) => field.key === key)) {
+      return { valid: false, message: `Duplicate custom field key "${key}"` };
+    }
+
+    const label = typeof item.label === "string" ? item.label.trim() : "";
+    if (!label || label.length > 40) {
+      return {
+        valid: false,
+        message: `Custom field "${key}" needs a label of at most 40 characters`,
+      };
+    }
+
+    if (!CUSTOM_FIELD_TYPES.includes(item.type)) {
+      return {
+        valid: false,
+        message: `Custom field type must be one of: ${CUSTOM_FIELD_TYPES.join(", ")}`,
+      };
+    }
+
+    let options: string[] = [];
+    if (item.type === "select") {
+      options = Array.isArray(item.options)
+        ? Array.from(
+            new Set<string>(
+              item.options
+                .filter((option: unknown) => typeof option === "string")
+                .map((option: string) => option.trim())
+                .filter(Boolean),
+            ),
+          )
+        : [];
+      if (options.length === 0 || options.length > MAX_OPTIONS) {
+        return {
+          valid: false,
+          message: `Select field "${key}" needs between 1 and ${MAX_OPTIONS} options`,
+        };
+      }
+      if (options.some((option) => option.length > 50)) {
+        return {
+          valid: false,
+          message: `Options of "${key}" cannot exceed 50 characters`,
+        };
+      }
+    }
+
+    fields.push({
+      key,
+      label,
+      type: item.type,
+      options,
+      required: item.required === true,
+    });
+  }
+
+  return { valid: true, fields };
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "");
+
+// Type-check a single value; user fields are checked against the tenant later
+function parseValue(
+  field: ICustomFieldDefinition,
+  value: unknown,
+): ValueResult {
+  const invalid = (expected: string): ValueResult => ({
+    valid: false,
+    message: `"${field.label}" must be ${expected}`,
+  });
+
+  switch (field.type) {
+    case "text": {
+      if (typeof value !== "string") return invalid("text");
+      const text = value.trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        return invalid(`at most ${MAX_TEXT_LENGTH} characters`);
+      }
+      return { valid: true, value: text };
+    }
+    case "number": {
+      const number = typeof value === "string" ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        return invalid("a number");
+      }
+      return { valid: true, value: number };
+    }
+    case "date": {
+      const date = typeof value === "string" ? parseDateIST(value) : null;
+      if (!date) return invalid("a date (YYYY-MM-DD)");
+      return { valid: true, value: date };
+    }
+    case "select":
+      if (typeof value !== "string" || !field.options.includes(value)) {
+        return invalid(`one of: ${field.options.join(", ")}`);
+      }
+      return { valid: true, value };
+    case "user":
+      if (typeof value !== "string" || !isValidObjectId(value)) {
+        return invalid("a user");
+      }
+      return { valid: true, value };
+  }
+}
+
+/**
+ * Merge a partial `{ key: value }` object into a task's existing custom field
+ * values. Empty values clear a field, unless it is required. New tasks must
+ * provide every required field.
+ */
+export async function resolveCustomFieldValues(
+  input: unknown,
+  definitions: ICustomFieldDefinition[],
+  tenantId: unknown,
+  existing?: Map<string, CustomFieldValue> | Record<string, CustomFieldValue>,
+): Promise<{ values?: Record<string, CustomFieldValue>; error?: string }> {
+  if (
+    input !== undefined &&
+    input !== null &&
+    (typeof input !== "object" || Array.isArray(input))
+  ) {
+    return { error: "customFields must be an object keyed by field" };
+  }
+  const changes = (input || {}) as Record<string, unknown>;
+
+  const values = formatCustomFields(existing);
+  const userIds: string[] = [];
+
+  for (const [key, value] of Object.entries(changes)) {
+    const field = definitions.find((definition) => definition.key === key);
+    if (!field) {
+      return { error: `Unknown custom field "${key}"` };
+    }
+    if (isEmptyValue(value)) {
+      delete values[key];
+      continue;
+    }
+    const result = parseValue(field, value);
+    if (!result.valid) return { error: result.message };
+    values[key] = result.value;
+    if (field.type === "user") userIds.push(result.value as string);
+  }
+
+  const missing = definitions.find(
+    (field) => field.required && isEmptyValue(values[field.key]),
+  );
+  // Existing tasks may predate a required field; only block clearing it
+  if (missing && (!existing || missing.key in changes)) {
+    return { error: `"${missing.label}" is required` };
+  }
+
+  if (userIds.length > 0) {
+    const unique = Array.from(new Set(userIds));
+    const found = await User.countDocuments({ _id: { $in: unique }, tenantId });
+    if (found !== unique.length) {
+      return { error: "Custom field users must belong to the same tenant" };
+    }
+  }
+
+  return { values };
+}
+
+export function formatCustomFields(
+  values?: Map<string, CustomFieldValue> | Record<string, CustomFieldValue>,
+): Record<string, CustomFieldValue> {
+  if (!values) return {};
+  return values instanceof Map ? Object.fromEntries(values) : { ...values };
+}
+
+// "3..8", "3..", "..8" or a single value
+function parseRange<T>(raw: string, parse: (value: string) => T | null) {
+  const [min, max] = raw.includes("..") ? raw.split("..") : [raw, raw];
+  const from = min ? parse(min) : undefined;
+  const to = max ? parse(max) : undefined;
+  if (from === null || to === null) return null;
+  return { from, to, exact: !raw.includes("..") };
+}
+
+/**
+ * Mongo conditions for `cf.<key>` query parameters. Text matches by
+ * substring, number and date accept `min..max` ranges (a single date matches
+ * the whole IST day) and select/user accept comma-separated values.
+ */
+export function buildCustomFieldFilters(
+  query: Record<string, unknown>,
+  definitions: ICustomFieldDefinition[],
+): { filters: Record<string, unknown>; error?: string } {
+  const filters: Record<string, unknown> = {};
+
+  for (const [param, rawValue] of Object.entries(query)) {
+    if (!param.startsWith(CUSTOM_FIELD_PARAM_PREFIX)) continue;
+    if (typeof rawValue !== "string" || !rawValue.trim()) continue;
+
+    const key = param.slice(CUSTOM_FIELD_PARAM_PREFIX.length);
+    const field = definitions.find((definition) => definition.key === key);
+    if (!field) {
+      return { filters, error: `Unknown custom field "${key}"` };
+    }
+    const raw = rawValue.trim();
+    const path = `customFields.${key}`;
+
+    switch (field.type) {
+      case "text":
+        filters[path] = {
+          $regex: raw.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+          $options: "i",
+        };
+        break;
+      case "number": {
+        const range = parseRange(raw, (value) =>
+          Number.isFinite(Number(value)) ? Number(value) : null,
+        );
+        if (!range) {
+          return { filters, error: `"${field.label}" filter must be numeric` };
+        }
+        filters[path] = range.exact
+          ? range.from
+          : {
+              ...(range.from !== undefined && { $gte: range.from }),
+              ...(range.to !== undefined && { $lte: range.to }),
+            };
+        break;
+      }
+      case "date": {
+        const range = parseRange(raw, parseDateIST);
+        if (!range) {
+          return {
+            filters,
+            error: `"${field.label}" filter must use YYYY-MM-DD dates`,
+          };
+        }
+        filters[path] = {
+          ...(range.from && { $gte: range.from }),
+          // The end date is inclusive
+          ...(range.to && { $lt: new Date(range.to.getTime() + DAY_MS) }),
+        };
+        break;
+      }
+      case "select":
+      case "user":
+        filters[path] = {
+          $in: raw
+            .split(",")
+            .map((value) => value.trim())
+            .filter(Boolean),
+        };
+        break;
+    }
+  }
+
+  return { filters };
+}
@@ -1,17 +1,18 @@
-import Task from "../models/Task";
-import { notificationService } from "../notification";
+import { ITask } from "../models/Task";
 import { getNowIST, getTomorrowIST } from "./dateUtils";
+import { notifyTaskAudience, taskAssigneeIds } from "./taskAudience";
 
 /**
  * Check if a task is due within 1 day (tomorrow) and send notification
  * This is called immediately when tasks are created or updated
  */
 export async function checkAndNotifyDueSoon(
-  task: { _id: any; userId: any; tenantId: any; title: string; dueDate?: Date | null; status: string }
+  task: ITask,
+  doneStatuses: string[]
 ): Promise<void> {
   try {
-    // Skip if task is completed or has no due date
-    if (!task.dueDate || task.status === "completed") {
+    // Skip if task is in a done status or has no due date
+    if (!task.dueDate || doneStatuses.includes(task.status)) {
       return;
     }
 
@@ -29,18 +30,18 @@ export async function checkAndNotifyDueSoon(
 
       // Only send if it's within 24 hours (not already overdue)
       if (hoursUntilDue >= 0 && hoursUntilDue <= 24) {
-        await notificationService.sendToUser({
-          userId: task.userId.toString(),
-          tenantId: task.tenantId.toString(),
-          type: "task_due_soon",
-          title: "Task Due Soon",
-          message: `Task "${task.title}" is due in ${hoursUntilDue} hour(s)`,
-          taskId: task._id.toString(),
-          metadata: { 
-            hoursUntilDue: String(hoursUntilDue), 
-            dueDate: task.dueDate ? task.dueDate.toISOString() : '' 
+        await notifyTaskAudience(
+          task,
+          { type: "task_due_soon", only: taskAssigneeIds(task) },
+          {
+            title: "Task Due Soon",
+            message: `Task "${task.title}" is due in ${hoursUntilDue} hour(s)`,
+            metadata: {
+              hoursUntilDue: String(hoursUntilDue),
+              dueDate: task.dueDate ? task.dueDate.toISOString() : "",
+            },
           },
-        });
+        );
       }
     }
 
@@ -50,18 +51,18 @@ export async function checkAndNotifyDueSoon(
         (now.getTime() - taskDueDate.getTime()) / (1000 * 60 * 60 * 24)
       );
 
-      await notificationService.sendToUser({
-        userId: task.userId.toString(),
-        tenantId: task.tenantId.toString(),
-        type: "task_overdue",
-        title: "Task Overdue",
-        message: `Task "${task.title}" is ${daysOverdue} day(s) overdue`,
-        taskId: task._id.toString(),
-        metadata: { 
-          daysOverdue: String(daysOverdue), 
-          dueDate: task.dueDate ? task.dueDate.toISOString() : '' 
+      await notifyTaskAudience(
+        task,
+        { type: "task_overdue", only: taskAssigneeIds(task) },
+        {
+          title: "Task Overdue",
+          message: `Task "${task.title}" is ${daysOverdue} day(s) overdue`,
+          metadata: {
+            daysOverdue: String(daysOverdue),
+            dueDate: task.dueDate ? task.dueDate.toISOString() : "",
+          },
         },
-      });
+      );
     }
   } catch (error) {
     console.error("Error checking due date notification:", error);
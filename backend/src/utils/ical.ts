@@ -0,0 +1,112 @@
+import { formatDateInputIST, parseDateIST } from "./dateUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  // All-day event on this day in IST
+  date: Date;
+  // Last day of an event spanning several days
+  endDate?: Date;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  url?: string;
+  updatedAt?: Date;
+}
+
+/**
+ * Escape TEXT values as required by RFC 5545
+ */
+export function escapeIcsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Split a content line into lines of at most 75 octets, continuation lines
+ * starting with a space
+ */
+export function foldIcsLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const toLines = (lines: string[]) =>
+  lines.map((line) => `${foldIcsLine(line)}\r\n`).join("");
+
+// YYYYMMDD of the day `date` falls on in IST
+const icsDate = (date: Date) => formatDateInputIST(date).replace(/-/g, "");
+
+// UTC date-time, e.g. 20260105T083000Z
+const icsTimestamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * Start of a calendar, to be followed by events and `ICS_CALENDAR_END`
+ */
+export function icsCalendarStart(name: string) {
+  return toLines([
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TaskFlow//Tasks//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    "X-WR-TIMEZONE:Asia/Kolkata",
+  ]);
+}
+
+export const ICS_CALENDAR_END = "END:VCALENDAR\r\n";
+
+/**
+ * One all-day VEVENT. Due dates are stored as midnight IST, so the event is
+ * placed on the IST calendar day rather than the UTC one.
+ */
+export function icsEvent(event: CalendarEvent, now = new Date()) {
+  // DTEND is exclusive: the day after the last one
+  const day = formatDateInputIST(event.endDate || event.date);
+  const nextDay = new Date(parseDateIST(day)!.getTime() + DAY_MS);
+
+  return toLines([
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${icsTimestamp(now)}`,
+    `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+    `DTEND;VALUE=DATE:${icsDate(nextDay)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description
+      ? [`DESCRIPTION:${escapeIcsText(event.description)}`]
+      : []),
+    ...(event.categories?.length
+      ? [`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`]
+      : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    ...(event.updatedAt
+      ? [`LAST-MODIFIED:${icsTimestamp(event.updatedAt)}`]
+      : []),
+    "END:VEVENT",
+  ]);
+}
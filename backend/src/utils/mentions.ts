@@ -0,0 +1,50 @@
+export interface MentionCandidate {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const WORD_CHAR = /[\w.-]/;
+
+/**
+ * Resolve `@name` mentions in a comment body to user IDs.
+ * A mention matches a user's full name case-insensitively ("@Jane Doe") or the
+ * local part of their email ("@jane.doe"). Longer names win so that "@Jane Doe"
+ * is not swallowed by a user called "Jane". Email addresses are not mentions.
+ */
+export function extractMentions(
+  body: string,
+  users: MentionCandidate[],
+): string[] {
+  if (!body || !body.includes("@") || users.length === 0) return [];
+
+  const handles = users
+    .flatMap((user) => [
+      { id: user.id, handle: user.name.trim().toLowerCase() },
+      { id: user.id, handle: user.email.split("@")[0].toLowerCase() },
+    ])
+    .filter((entry) => entry.handle.length > 0)
+    .sort((a, b) => b.handle.length - a.handle.length);
+
+  const lowerBody = body.toLowerCase();
+  const mentioned = new Set<string>();
+
+  for (let i = 0; i < lowerBody.length; i++) {
+    if (lowerBody[i] !== "@") continue;
+    // Skip the "@" inside email addresses such as jane@example.com
+    if (i > 0 && WORD_CHAR.test(lowerBody[i - 1])) continue;
+
+    const rest = lowerBody.slice(i + 1);
+    const match = handles.find(
+      ({ handle }) =>
+        rest.startsWith(handle) &&
+        !/\w/.test(rest.charAt(handle.length)),
+    );
+    if (match) {
+      mentioned.add(match.id);
+      i += match.handle.length;
+    }
+  }
+
+  return Array.from(mentioned);
+}
@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import Task from "../models/Task";
+import { rebalanceTaskRanks } from "./taskRank";
+
+dotenv.config();
+
+const MONGO_URI = process.env.MONGO_URI || "mongodb://localhost:27017/taskflow";
+
+async function migrateTaskRanks() {
+  try {
+    console.log("🔄 Connecting to MongoDB...");
+    await mongoose.connect(MONGO_URI);
+    console.log("✅ Connected to MongoDB");
+
+    console.log("🔄 Ranking tasks created before the manual order...");
+
+    // Tenants with at least one task that has no stored rank
+    const tenantIds = await Task.distinct("tenantId", { rank: null });
+
+    console.log(`📊 Found ${tenantIds.length} tenants with unranked tasks`);
+
+    // Spreading out the whole tenant keeps the order a rank sort shows,
+    // with the older tasks first
+    for (const tenantId of tenantIds) {
+      await rebalanceTaskRanks(tenantId);
+    }
+
+    console.log(`✅ Migration complete! Ranked ${tenantIds.length} tenants.`);
+    console.log("🔌 Closing MongoDB connection...");
+    await mongoose.connection.close();
+    console.log("✅ Done!");
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+migrateTaskRanks();
@@ -0,0 +1,225 @@
+import { RecurrenceFrequency, RecurrenceRule } from "../models/Task";
+import { formatDateInputIST, parseDateIST } from "./dateUtils";
+
+const FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly"];
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RecurrenceResult =
+  { valid: true; rule: RecurrenceRule } | { valid: false; message: string };
+
+/**
+ * Parse the supported RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY with
+ * INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly) and UNTIL.
+ */
+export function parseRRule(rrule: string): RecurrenceResult {
+  const parts = rrule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean);
+  const values: Record<string, string> = {};
+
+  for (const part of parts) {
+    const [key, value] = part.split("=");
+    if (!key || !value) {
+      return { valid: false, message: `Invalid RRULE part "${part}"` };
+    }
+    values[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const supported = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "UNTIL"];
+  const unsupported = Object.keys(values).filter(
+    (key) => !supported.includes(key),
+  );
+  if (unsupported.length > 0) {
+    return {
+      valid: false,
+      message: `Unsupported RRULE parts: ${unsupported.join(", ")}`,
+    };
+  }
+
+  let until: string | null = null;
+  if (values.UNTIL) {
+    const match = values.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) {
+      return { valid: false, message: "RRULE UNTIL must be YYYYMMDD" };
+    }
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  const result = normalizeRecurrence({
+    frequency: values.FREQ?.toLowerCase(),
+    interval: values.INTERVAL ? Number(values.INTERVAL) : 1,
+    weekdays: values.BYDAY
+      ? values.BYDAY.split(",").map((day) => RRULE_DAYS.indexOf(day))
+      : [],
+    dayOfMonth: values.BYMONTHDAY ? Number(values.BYMONTHDAY) : null,
+    until,
+  });
+  if (result.valid) {
+    result.rule.rrule = rrule.trim();
+  }
+  return result;
+}
+
+/**
+ * Validate a recurrence rule sent by the client, either as fields or as an
+ * `rrule` string
+ */
+export function normalizeRecurrence(input: any): RecurrenceResult {
+  if (!input || typeof input !== "object") {
+    return { valid: false, message: "Recurrence must be an object" };
+  }
+  if (typeof input.rrule === "string" && input.rrule.trim()) {
+    return parseRRule(input.rrule);
+  }
+
+  const frequency = input.frequency as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) {
+    return {
+      valid: false,
+      message: `Recurrence frequency must be one of: ${FREQUENCIES.join(", ")}`,
+    };
+  }
+
+  const interval = input.interval === undefined ? 1 : Number(input.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    return {
+      valid: false,
+      message: "Recurrence interval must be a whole number from 1 to 365",
+    };
+  }
+
+  const weekdays: number[] = Array.isArray(input.weekdays)
+    ? Array.from(new Set<number>(input.weekdays.map(Number))).sort()
+    : [];
+  if (weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return {
+      valid: false,
+      message: "Recurrence weekdays must be numbers from 0 (Sunday) to 6",
+    };
+  }
+
+  const dayOfMonth =
+    input.dayOfMonth === undefined || input.dayOfMonth === null
+      ? null
+      : Number(input.dayOfMonth);
+  if (
+    dayOfMonth !== null &&
+    (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31)
+  ) {
+    return {
+      valid: false,
+      message: "Recurrence day of month must be from 1 to 31",
+    };
+  }
+
+  let until: Date | null = null;
+  if (input.until) {
+    until =
+      input.until instanceof Date ? input.until : parseDateIST(input.until);
+    if (!until) {
+      return { valid: false, message: "Invalid recurrence end date" };
+    }
+  }
+
+  return {
+    valid: true,
+    rule: {
+      frequency,
+      interval,
+      weekdays: frequency === "weekly" ? weekdays : [],
+      dayOfMonth: frequency === "monthly" ? dayOfMonth : null,
+      until,
+      rrule: null,
+    },
+  };
+}
+
+// Calendar maths is done on the IST date, using UTC dates as plain days
+function toCalendarDay(date: Date) {
+  const [year, month, day] = formatDateInputIST(date).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function fromCalendarDay(day: Date) {
+  return parseDateIST(day.toISOString().slice(0, 10))!;
+}
+
+function addDays(day: Date, days: number) {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function nextDay(rule: RecurrenceRule, day: Date): Date {
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(day, rule.interval);
+
+    case "weekly": {
+      const weekdays =
+        rule.weekdays.length > 0 ? rule.weekdays : [day.getUTCDay()];
+      // Weeks are counted from the Sunday of the current occurrence
+      const offset = day.getUTCDay();
+      for (let i = 1; i <= 7 * rule.interval + 7; i++) {
+        const candidate = addDays(day, i);
+        const week = Math.floor((offset + i) / 7);
+        if (
+          week % rule.interval === 0 &&
+          weekdays.includes(candidate.getUTCDay())
+        ) {
+          return candidate;
+        }
+      }
+      return addDays(day, 7 * rule.interval);
+    }
+
+    case "monthly": {
+      const target = rule.dayOfMonth || day.getUTCDate();
+      const year = day.getUTCFullYear();
+      const month = day.getUTCMonth();
+      // Still ahead of us in this month (e.g. rule moved to a later day)
+      if (target > day.getUTCDate() && target <= daysInMonth(year, month)) {
+        return new Date(Date.UTC(year, month, target));
+      }
+      const next = new Date(Date.UTC(year, month + rule.interval, 1));
+      return new Date(
+        Date.UTC(
+          next.getUTCFullYear(),
+          next.getUTCMonth(),
+          Math.min(
+            target,
+            daysInMonth(next.getUTCFullYear(), next.getUTCMonth()),
+          ),
+        ),
+      );
+    }
+  }
+}
+
+/**
+ * The next occurrence strictly after `from`, skipping any that fall before
+ * `notBefore` so a long outage does not produce a backlog of stale
+ * instances. Returns null once the rule's end date has passed.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: Date,
+  notBefore?: Date,
+): Date | null {
+  let day = nextDay(rule, toCalendarDay(from));
+  if (notBefore) {
+    const floor = toCalendarDay(notBefore);
+    while (day < floor) {
+      day = nextDay(rule, day);
+    }
+  }
+
+  const next = fromCalendarDay(day);
+  if (rule.until && next > rule.until) return null;
+  return next;
+}
@@ -0,0 +1,52 @@
+import mongoose, { Schema } from "mongoose";
+
+export interface SoftDeleteFields {
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId | null;
+}
+
+const QUERY_HOOKS = [
+  "countDocuments",
+  "find",
+  "findOne",
+  "findOneAndDelete",
+  "findOneAndUpdate",
+  "deleteMany",
+  "deleteOne",
+  "updateMany",
+  "updateOne",
+] as const;
+
+// Queries (and the first $match of a pipeline) that mention deletedAt are
+// looking for trashed documents on purpose
+const targetsDeleted = (filter: Record<string, unknown> | undefined) =>
+  Boolean(filter && "deletedAt" in filter);
+
+/**
+ * Soft deletion for a schema: adds `deletedAt`/`deletedBy` and hides trashed
+ * documents from every query and aggregation unless the filter mentions
+ * `deletedAt` or the query is run with the `withDeleted` option.
+ */
+export function softDeletePlugin(schema: Schema<any, any>) {
+  schema.add({
+    deletedAt: { type: Date, default: null, index: true },
+    deletedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  });
+
+  for (const hook of QUERY_HOOKS) {
+    schema.pre(hook, function () {
+      if (this.getOptions().withDeleted || targetsDeleted(this.getFilter())) {
+        return;
+      }
+      // null also matches documents saved before soft deletion existed
+      this.where({ deletedAt: null });
+    });
+  }
+
+  schema.pre("aggregate", function () {
+    const pipeline = this.pipeline();
+    const first = pipeline[0] as { $match?: Record<string, unknown> };
+    if (this.options.withDeleted || targetsDeleted(first?.$match)) return;
+    pipeline.unshift({ $match: { deletedAt: null } });
+  });
+}
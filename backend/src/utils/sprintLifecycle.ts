@@ -0,0 +1,79 @@
+import Sprint, { ISprint, SprintWorkSummary } from "../models/Sprint";
+import { ITask } from "../models/Task";
+import { IWorkflowStatus } from "../models/Organization";
+import { isDoneStatus } from "./workflow";
+
+type SprintTask = Pick<ITask, "_id" | "status" | "estimateMinutes">;
+
+/**
+ * The sprint a tenant is working in. Only one sprint per tenant can be
+ * active at a time.
+ */
+export async function findActiveSprint(tenantId: unknown, exceptId?: unknown) {
+  return Sprint.findOne({
+    tenantId,
+    status: "active",
+    ...(exceptId ? { _id: { $ne: exceptId } } : {}),
+  });
+}
+
+/**
+ * Where follow-up work of a sprint goes: the sprint its unfinished tasks
+ * moved to, or else the planned sprint that starts first
+ */
+export async function findNextSprint(sprint: ISprint) {
+  const nextSprintId = sprint.completion?.nextSprintId;
+  if (nextSprintId) {
+    const next = await Sprint.findOne({
+      _id: nextSprintId,
+      tenantId: sprint.tenantId,
+      status: { $ne: "completed" },
+    });
+    if (next) return next;
+  }
+  return Sprint.findOne({
+    tenantId: sprint.tenantId,
+    status: "planned",
+    _id: { $ne: sprint._id },
+  }).sort({ startDate: 1 });
+}
+
+export function summarizeWork(tasks: SprintTask[]): SprintWorkSummary {
+  return {
+    tasks: tasks.length,
+    estimateMinutes: tasks.reduce(
+      (total, task) => total + (task.estimateMinutes || 0),
+      0,
+    ),
+  };
+}
+
+/**
+ * Split the tasks of a sprint being completed into the ones it delivered
+ * and the unfinished ones that carry over, and summarise them against the
+ * tasks committed when it started (wherever those are now)
+ */
+export function buildSprintCompletion(
+  tasks: SprintTask[],
+  committedTasks: SprintTask[],
+  workflow: IWorkflowStatus[],
+) {
+  const committedIds = new Set(
+    committedTasks.map((task) => task._id.toString()),
+  );
+  const delivered = tasks.filter((task) => isDoneStatus(workflow, task.status));
+  const carriedOver = tasks.filter(
+    (task) => !isDoneStatus(workflow, task.status),
+  );
+
+  return {
+    committed: summarizeWork(committedTasks),
+    added: summarizeWork(
+      tasks.filter((task) => !committedIds.has(task._id.toString())),
+    ),
+    delivered: summarizeWork(delivered),
+    carriedOver: summarizeWork(carriedOver),
+    deliveredTaskIds: delivered.map((task) => task._id),
+    carriedOverTaskIds: carriedOver.map((task) => task._id),
+  };
+}
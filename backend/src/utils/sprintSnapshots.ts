@@ -0,0 +1,145 @@
+import Sprint, { ISprint } from "../models/Sprint";
+import Task, { ITask } from "../models/Task";
+import SprintSnapshot, { ISprintSnapshot } from "../models/SprintSnapshot";
+import { IWorkflowStatus } from "../models/Organization";
+import { formatDateInputIST, parseDateIST } from "./dateUtils";
+import { getTenantWorkflow, isDoneStatus } from "./workflow";
+import { summarizeWork } from "./sprintLifecycle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BURNDOWN_METRICS = ["tasks", "estimateMinutes"] as const;
+export type BurndownMetric = (typeof BURNDOWN_METRICS)[number];
+
+export interface BurndownPoint {
+  // IST day, YYYY-MM-DD
+  date: string;
+  ideal: number;
+  // Null on days without a snapshot
+  remaining: number | null;
+  completed: number | null;
+  scope: number | null;
+}
+
+type SnapshotTask = Pick<ITask, "_id" | "status" | "estimateMinutes">;
+type SnapshotValues = Pick<
+  ISprintSnapshot,
+  "date" | "total" | "remaining" | "completed"
+>;
+
+/**
+ * Tasks and estimates of a sprint per status (in workflow order) and split
+ * into remaining and completed work
+ */
+export function summarizeSprintTasks(
+  tasks: SnapshotTask[],
+  workflow: IWorkflowStatus[],
+) {
+  const statuses = [
+    ...workflow.map((status) => status.key),
+    // Tasks can sit in a status removed from the workflow since
+    ...tasks
+      .map((task) => task.status)
+      .filter((status) => !workflow.some((s) => s.key === status)),
+  ];
+
+  return {
+    byStatus: Array.from(new Set(statuses)).map((status) => ({
+      status,
+      ...summarizeWork(tasks.filter((task) => task.status === status)),
+    })),
+    total: summarizeWork(tasks),
+    remaining: summarizeWork(
+      tasks.filter((task) => !isDoneStatus(workflow, task.status)),
+    ),
+    completed: summarizeWork(
+      tasks.filter((task) => isDoneStatus(workflow, task.status)),
+    ),
+  };
+}
+
+/**
+ * Save the state of a sprint as its snapshot for the current IST day,
+ * replacing an earlier one from the same day. Failures are logged but never
+ * thrown, so charts cannot break the sprint operation that triggered them.
+ */
+export async function recordSprintSnapshot(sprint: ISprint, now = new Date()) {
+  try {
+    const [tasks, workflow] = await Promise.all([
+      Task.find({ sprintId: sprint._id }).select("_id status estimateMinutes"),
+      getTenantWorkflow(sprint.tenantId),
+    ]);
+
+    await SprintSnapshot.updateOne(
+      { sprintId: sprint._id, date: formatDateInputIST(now) },
+      {
+        $set: {
+          tenantId: sprint.tenantId,
+          ...summarizeSprintTasks(tasks, workflow),
+        },
+      },
+      { upsert: true },
+    );
+  } catch (error) {
+    console.error(`Error recording snapshot of sprint ${sprint._id}:`, error);
+  }
+}
+
+/**
+ * Snapshot every active sprint. Run by the scheduler, the last run of a day
+ * leaves that day's final numbers.
+ */
+export async function snapshotActiveSprints(now = new Date()) {
+  const sprints = await Sprint.find({ status: "active" });
+  for (const sprint of sprints) {
+    await recordSprintSnapshot(sprint, now);
+  }
+  return sprints.length;
+}
+
+const nextDay = (date: string) =>
+  formatDateInputIST(new Date(parseDateIST(date)!.getTime() + DAY_MS));
+
+/**
+ * Burndown and burnup lines of a sprint, one point per IST day from its
+ * start to its end (or its last snapshot when it ran over). The ideal line
+ * burns the work the sprint started with down to zero on its end date.
+ */
+export function buildBurndown(
+  sprint: Pick<ISprint, "startDate" | "endDate">,
+  snapshots: SnapshotValues[],
+  metric: BurndownMetric,
+): BurndownPoint[] {
+  const byDate = new Map(
+    snapshots.map((snapshot) => [snapshot.date, snapshot]),
+  );
+  const sorted = snapshots.map((snapshot) => snapshot.date).sort();
+
+  const endDay = formatDateInputIST(sprint.endDate);
+  let first = formatDateInputIST(sprint.startDate);
+  let last = endDay;
+  if (sorted.length > 0) {
+    if (sorted[0] < first) first = sorted[0];
+    if (sorted[sorted.length - 1] > last) last = sorted[sorted.length - 1];
+  }
+
+  const days: string[] = [];
+  for (let day = first; day <= last; day = nextDay(day)) {
+    days.push(day);
+  }
+
+  const start =
+    sorted.length > 0 ? byDate.get(sorted[0])!.remaining[metric] : 0;
+  const endIndex = Math.max(days.indexOf(endDay), 1);
+
+  return days.map((date, index) => {
+    const snapshot = byDate.get(date);
+    return {
+      date,
+      ideal: Math.round(start * Math.max(0, 1 - index / endIndex) * 100) / 100,
+      remaining: snapshot ? snapshot.remaining[metric] : null,
+      completed: snapshot ? snapshot.completed[metric] : null,
+      scope: snapshot ? snapshot.total[metric] : null,
+    };
+  });
+}
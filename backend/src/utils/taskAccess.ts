@@ -0,0 +1,15 @@
+/**
+ * Conditions (for `$or`) matching tasks assigned to `userId`. Tasks saved
+ * before `assignees` existed only carry the single `userId` owner.
+ */
+export function assigneeConditions(userId: string) {
+  return [{ userId }, { assignees: userId }];
+}
+
+/**
+ * Conditions (for `$or`) matching the tasks a member can see and work on:
+ * the ones they are assigned to or reviewing
+ */
+export function memberTaskConditions(userId: string) {
+  return [...assigneeConditions(userId), { reviewerId: userId }];
+}
@@ -0,0 +1,117 @@
+import TaskActivity, { TaskActivityAction } from "../models/TaskActivity";
+import { getChecklistProgress } from "./checklist";
+
+/**
+ * Task fields whose changes are written to the activity log
+ */
+export const TRACKED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "estimateMinutes",
+  "sprintId",
+  "userId",
+  "assignees",
+  "reviewerId",
+  "checklist",
+  "labels",
+  "blockedBy",
+  "customFields",
+] as const;
+
+// Fields holding a list of ids, stored in the log as a sorted "id1,id2" list
+export const TRACKED_LIST_FIELDS: readonly TrackedTaskField[] = [
+  "assignees",
+  "labels",
+  "blockedBy",
+];
+
+export type TrackedTaskField = (typeof TRACKED_TASK_FIELDS)[number];
+export type TaskSnapshot = Record<TrackedTaskField, string | null>;
+
+export interface TaskActivityEntry {
+  taskId: any;
+  tenantId: any;
+  actorId: string;
+  action: TaskActivityAction;
+  field?: string | null;
+  oldValue?: any;
+  newValue?: any;
+}
+
+function normalizeValue(value: any): string | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value.toString();
+}
+
+function normalizeIdList(ids: any[] | undefined): string | null {
+  if (!ids || ids.length === 0) return null;
+  return ids
+    .map((id) => id.toString())
+    .sort()
+    .join(",");
+}
+
+// Custom field values as JSON with sorted keys, leaving out empty ones
+function normalizeCustomFields(values: any): string | null {
+  const entries = Object.entries(
+    values instanceof Map ? Object.fromEntries(values) : values || {},
+  )
+    .filter(
+      ([, value]) => value !== null && value !== undefined && value !== "",
+    )
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0
+    ? JSON.stringify(Object.fromEntries(entries))
+    : null;
+}
+
+/**
+ * Capture the tracked fields of a task as plain strings so that two
+ * snapshots can be compared after the document has been mutated.
+ * The checklist is summarised as "completed/total", id lists are sorted so
+ * that reordering them is not a change.
+ */
+export function snapshotTask(task: Record<string, any>): TaskSnapshot {
+  return TRACKED_TASK_FIELDS.reduce((snapshot, field) => {
+    if (field === "checklist") {
+      const { completed, total } = getChecklistProgress(task.checklist);
+      snapshot[field] = total > 0 ? `${completed}/${total}` : null;
+    } else if (TRACKED_LIST_FIELDS.includes(field)) {
+      snapshot[field] = normalizeIdList(task[field]);
+    } else if (field === "customFields") {
+      snapshot[field] = normalizeCustomFields(task.customFields);
+    } else {
+      snapshot[field] = normalizeValue(task[field]);
+    }
+    return snapshot;
+  }, {} as TaskSnapshot);
+}
+
+export function diffTaskSnapshots(before: TaskSnapshot, after: TaskSnapshot) {
+  return TRACKED_TASK_FIELDS.filter(
+    (field) => before[field] !== after[field],
+  ).map((field) => ({
+    field,
+    oldValue: before[field],
+    newValue: after[field],
+  }));
+}
+
+/**
+ * Persist activity entries. Failures are logged but never thrown, so the
+ * audit trail cannot break the task operation it describes.
+ */
+export async function recordTaskActivity(
+  entries: TaskActivityEntry[],
+): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    await TaskActivity.insertMany(entries);
+  } catch (error) {
+    console.error("Error recording task activity:", error);
+  }
+}
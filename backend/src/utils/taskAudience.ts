@@ -0,0 +1,149 @@
+import mongoose from "mongoose";
+import Task, { ITask } from "../models/Task";
+import User from "../models/User";
+import { NotificationType } from "../models/Notification";
+import { notificationService } from "../notification";
+
+type AudienceTask = Pick<
+  ITask,
+  "_id" | "tenantId" | "userId" | "createdBy" | "title"
+> & {
+  watchers?: mongoose.Types.ObjectId[];
+  assignees?: mongoose.Types.ObjectId[];
+  reviewerId?: mongoose.Types.ObjectId | null;
+};
+
+export interface TaskAudienceOptions {
+  type: NotificationType;
+  // Whoever caused the event never hears about it
+  actorId?: string;
+  // Notify exactly these users instead of everyone involved in the task
+  only?: string[];
+  // Notify these users on top of everyone involved, e.g. a previous assignee
+  also?: string[];
+  // Leave these users out, e.g. people who already got a mention
+  except?: string[];
+}
+
+export interface TaskNotificationContent {
+  title: string;
+  message: string;
+  metadata?: Record<string, any>;
+}
+
+// Tasks saved before `assignees` existed only have their single owner
+export const taskAssigneeIds = (
+  task: Pick<AudienceTask, "userId" | "assignees">,
+) =>
+  (task.assignees?.length ? task.assignees : [task.userId])
+    .filter(Boolean)
+    .map((id) => id.toString());
+
+/**
+ * Everyone involved in a task: its assignees, the reviewer, the creator and
+ * its watchers
+ */
+export function taskParticipants(task: AudienceTask): string[] {
+  // Tasks created before createdBy existed may not have a creator
+  const ids = [
+    task.userId?.toString(),
+    ...(task.assignees || []).map((id) => id.toString()),
+    task.reviewerId?.toString(),
+    task.createdBy?.toString(),
+    ...(task.watchers || []).map((id) => id.toString()),
+  ];
+  return Array.from(new Set(ids.filter((id): id is string => Boolean(id))));
+}
+
+/**
+ * Drop the users who switched notifications of `type` off
+ */
+export async function filterByPreferences(
+  userIds: string[],
+  type: NotificationType,
+): Promise<string[]> {
+  const unique = Array.from(new Set(userIds.filter(Boolean)));
+  if (unique.length === 0) return [];
+
+  const muted = await User.find({
+    _id: { $in: unique },
+    "notificationPreferences.muted": type,
+  }).select("_id");
+  const mutedIds = new Set(muted.map((user) => user._id.toString()));
+
+  return unique.filter((id) => !mutedIds.has(id));
+}
+
+/**
+ * Work out who should hear about an event on a task. This is the one place
+ * that decides the audience, so every task notification honours watchers and
+ * each user's notification preferences the same way.
+ */
+export async function resolveTaskAudience(
+  task: AudienceTask,
+  options: TaskAudienceOptions,
+): Promise<string[]> {
+  const excluded = new Set([options.actorId, ...(options.except || [])]);
+  const candidates = [
+    ...(options.only || taskParticipants(task)),
+    ...(options.also || []),
+  ].filter((id) => !excluded.has(id));
+
+  return filterByPreferences(candidates, options.type);
+}
+
+/**
+ * Send one notification about a task to its resolved audience
+ */
+export async function notifyTaskAudience(
+  task: AudienceTask,
+  options: TaskAudienceOptions,
+  content: TaskNotificationContent,
+): Promise<string[]> {
+  const userIds = await resolveTaskAudience(task, options);
+
+  await Promise.all(
+    userIds.map((userId) =>
+      notificationService.sendToUser({
+        userId,
+        tenantId: task.tenantId.toString(),
+        type: options.type,
+        title: content.title,
+        message: content.message,
+        // Deleted tasks have nothing left to open
+        taskId:
+          options.type === "task_deleted" ? undefined : task._id.toString(),
+        triggeredBy: options.actorId,
+        metadata: content.metadata,
+      }),
+    ),
+  );
+
+  return userIds;
+}
+
+/**
+ * Start watching a task on behalf of users who commented on it or were
+ * mentioned, unless they turned auto-watching off. Assignees, the reviewer
+ * and the creator already hear about the task and are not added.
+ */
+export async function autoWatchTask(task: AudienceTask, userIds: string[]) {
+  const involved = new Set(taskParticipants(task));
+  const candidates = Array.from(new Set(userIds)).filter(
+    (id) => !involved.has(id),
+  );
+  if (candidates.length === 0) return;
+
+  const optedOut = await User.find({
+    _id: { $in: candidates },
+    "notificationPreferences.autoWatch": false,
+  }).select("_id");
+  const optedOutIds = new Set(optedOut.map((user) => user._id.toString()));
+  const watchers = candidates.filter((id) => !optedOutIds.has(id));
+  if (watchers.length === 0) return;
+
+  await Task.updateOne(
+    { _id: task._id },
+    { $addToSet: { watchers: { $each: watchers } } },
+  );
+}
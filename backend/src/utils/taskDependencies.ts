@@ -0,0 +1,70 @@
+import Task from "../models/Task";
+
+export type BlockedByLookup = (
+  taskIds: string[],
+) => Promise<Map<string, string[]>>;
+
+/**
+ * Check whether making `taskId` blocked by `blockerIds` would close a loop.
+ * Walks the blockedBy graph upwards from the proposed blockers; reaching
+ * `taskId` again means the task would (indirectly) be waiting on itself.
+ */
+export async function createsDependencyCycle(
+  taskId: string,
+  blockerIds: string[],
+  lookup: BlockedByLookup,
+): Promise<boolean> {
+  const visited = new Set<string>();
+  let frontier = blockerIds.filter((id) => id !== taskId);
+
+  if (frontier.length !== blockerIds.length) return true;
+
+  while (frontier.length > 0) {
+    frontier.forEach((id) => visited.add(id));
+    const edges = await lookup(frontier);
+    const next: string[] = [];
+
+    for (const blockers of edges.values()) {
+      for (const id of blockers) {
+        if (id === taskId) return true;
+        if (!visited.has(id)) next.push(id);
+      }
+    }
+    frontier = Array.from(new Set(next));
+  }
+
+  return false;
+}
+
+/**
+ * Build a lookup that reads blockedBy edges for tasks within one tenant
+ */
+export function tenantBlockedByLookup(tenantId: unknown): BlockedByLookup {
+  return async (taskIds) => {
+    const tasks = await Task.find({ _id: { $in: taskIds }, tenantId }).select(
+      "blockedBy",
+    );
+    return new Map(
+      tasks.map((task) => [
+        task._id.toString(),
+        (task.blockedBy || []).map((id) => id.toString()),
+      ]),
+    );
+  };
+}
+
+/**
+ * Blockers of a task that are not in one of the tenant's done statuses yet
+ */
+export async function findOpenBlockers(
+  blockedBy: unknown[] | undefined,
+  tenantId: unknown,
+  doneStatuses: string[],
+) {
+  if (!blockedBy || blockedBy.length === 0) return [];
+  return Task.find({
+    _id: { $in: blockedBy },
+    tenantId,
+    status: { $nin: doneStatuses },
+  }).select("title status");
+}
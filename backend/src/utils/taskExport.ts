@@ -0,0 +1,148 @@
+import { ITask } from "../models/Task";
+import { IWorkflowStatus } from "../models/Organization";
+import User from "../models/User";
+import Sprint from "../models/Sprint";
+import Tag from "../models/Tag";
+import { formatDateInputIST } from "./dateUtils";
+import { getChecklistProgress } from "./checklist";
+import { getStatusLabel, getTenantWorkflow } from "./workflow";
+import { CalendarEvent } from "./ical";
+
+export const EXPORT_FORMATS = ["csv", "json", "ics"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+};
+
+export const EXPORT_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assignee",
+  "assignees",
+  "reviewer",
+  "sprint",
+  "labels",
+  "dueDate",
+  "estimateMinutes",
+  "progress",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export type ExportRow = Record<
+  (typeof EXPORT_COLUMNS)[number],
+  string | number | null
+>;
+
+// Names shown instead of ids, loaded once per export
+export interface ExportLookups {
+  workflow: IWorkflowStatus[];
+  users: Map<string, string>;
+  sprints: Map<string, string>;
+  tags: Map<string, string>;
+}
+
+/**
+ * Load the users, sprints and tags of the tenant (of every tenant for a
+ * superadmin without one) so exported rows carry names instead of ids
+ */
+export async function loadExportLookups(
+  tenantId: unknown,
+): Promise<ExportLookups> {
+  const scope = tenantId ? { tenantId } : {};
+  const [workflow, users, sprints, tags] = await Promise.all([
+    getTenantWorkflow(tenantId),
+    User.find(scope).select("_id email"),
+    Sprint.find(scope).select("_id name"),
+    Tag.find(scope).select("_id name"),
+  ]);
+
+  return {
+    workflow,
+    users: new Map(users.map((user) => [user._id.toString(), user.email])),
+    sprints: new Map(
+      sprints.map((sprint) => [sprint._id.toString(), sprint.name]),
+    ),
+    tags: new Map(tags.map((tag) => [tag._id.toString(), tag.name])),
+  };
+}
+
+const lookup = (map: Map<string, string>, id: unknown) =>
+  id ? map.get(String(id)) || String(id) : null;
+
+/**
+ * A task as a flat row: users by email, dates as IST calendar days
+ */
+export function buildExportRow(task: ITask, lookups: ExportLookups) {
+  const assignees = task.assignees?.length ? task.assignees : [task.userId];
+  const row: ExportRow = {
+    id: task._id.toString(),
+    title: task.title,
+    description: task.description || "",
+    status: getStatusLabel(lookups.workflow, task.status),
+    priority: task.priority,
+    assignee: lookup(lookups.users, task.userId),
+    assignees: assignees
+      .map((id) => lookup(lookups.users, id))
+      .filter(Boolean)
+      .join("; "),
+    reviewer: lookup(lookups.users, task.reviewerId),
+    sprint: lookup(lookups.sprints, task.sprintId),
+    labels: (task.labels || [])
+      .map((id) => lookup(lookups.tags, id))
+      .join("; "),
+    dueDate: task.dueDate ? formatDateInputIST(task.dueDate) : null,
+    estimateMinutes: task.estimateMinutes ?? null,
+    progress: getChecklistProgress(task.checklist).percent,
+    createdAt: task.createdAt ? task.createdAt.toISOString() : null,
+    updatedAt: task.updatedAt ? task.updatedAt.toISOString() : null,
+  };
+  return row;
+}
+
+/**
+ * Quote a CSV cell when needed. Cells that a spreadsheet would run as a
+ * formula are prefixed with an apostrophe.
+ */
+export function escapeCsvCell(value: string | number | null) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(cells: (string | number | null)[]) {
+  return `${cells.map(escapeCsvCell).join(",")}\r\n`;
+}
+
+/**
+ * The calendar event of a task, on its due date
+ */
+export function buildTaskEvent(
+  task: ITask,
+  workflow: IWorkflowStatus[],
+): CalendarEvent {
+  const status = getStatusLabel(workflow, task.status);
+  return {
+    uid: `task-${task._id.toString()}@taskflow`,
+    date: task.dueDate!,
+    summary: task.title,
+    description: [
+      `Status: ${status}`,
+      `Priority: ${task.priority}`,
+      task.description,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    categories: [status],
+    updatedAt: task.updatedAt,
+  };
+}
@@ -0,0 +1,270 @@
+import { IWorkflowStatus } from "../models/Organization";
+import { TaskPriority } from "../models/Task";
+import { isValidTaskStatus, isValidTaskTitle } from "./validators";
+import { parseDateIST } from "./dateUtils";
+import { getStatusKeys } from "./workflow";
+import { TASK_PRIORITIES } from "./taskSearch";
+
+export const IMPORT_ROW_LIMIT = 500;
+
+// Task fields a column of the uploaded file can be mapped to
+export const IMPORT_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "assignee",
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export type ImportRow = Record<string, string>;
+
+// Column names recognised without an explicit mapping, compared lowercased
+// and without spaces, dashes or underscores
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ["title", "name", "task", "summary"],
+  description: ["description", "details", "notes", "body"],
+  status: ["status", "state"],
+  priority: ["priority"],
+  dueDate: ["duedate", "due", "deadline"],
+  assignee: ["assignee", "assigneeemail", "email", "owner", "assignedto"],
+};
+
+const normalizeColumn = (column: string) =>
+  column.toLowerCase().replace(/[\s_-]+/g, "");
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * escaped quotes and line breaks, CRLF line endings and a leading BOM.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no task
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+const toCell = (value: unknown) =>
+  value === null || value === undefined ? "" : String(value).trim();
+
+/**
+ * Read an uploaded CSV or JSON file into its columns and rows. JSON is an
+ * array of objects, or an object with such an array under `tasks`.
+ */
+export function parseImportFile(
+  content: string,
+  fileName: string,
+): { columns: string[]; rows: ImportRow[] } | { error: string } {
+  if (/\.json$/i.test(fileName)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { error: "The file is not valid JSON" };
+    }
+    const items = Array.isArray(data)
+      ? data
+      : (data as { tasks?: unknown } | null)?.tasks;
+    if (
+      !Array.isArray(items) ||
+      items.some((item) => !item || typeof item !== "object")
+    ) {
+      return { error: "JSON imports must be an array of task objects" };
+    }
+    const columns = Array.from(
+      new Set(items.flatMap((item) => Object.keys(item))),
+    );
+    const rows = items.map((item) =>
+      Object.fromEntries(
+        columns.map((column) => [column, toCell(item[column])]),
+      ),
+    );
+    return { columns, rows };
+  }
+
+  if (/\.csv$/i.test(fileName)) {
+    const [header, ...lines] = parseCsv(content);
+    if (!header) {
+      return { error: "The file is empty" };
+    }
+    const columns = header.map((column) => column.trim());
+    const rows = lines.map((cells) =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, toCell(cells[index])]),
+      ),
+    );
+    return { columns, rows };
+  }
+
+  return { error: "Only .csv and .json files can be imported" };
+}
+
+/**
+ * Map each task field to the first column whose name looks like it
+ */
+export function suggestMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find((name) =>
+      FIELD_ALIASES[field].includes(normalizeColumn(name)),
+    );
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+/**
+ * Check a mapping sent by the client against the columns of the file
+ */
+export function validateMapping(
+  mapping: unknown,
+  columns: string[],
+): { mapping: ImportMapping } | { error: string } {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return { error: "Column mapping must be an object" };
+  }
+  const result: ImportMapping = {};
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) {
+      return { error: `Unknown task field "${field}"` };
+    }
+    // An empty column leaves the field unmapped
+    if (column === "" || column === null || column === undefined) continue;
+    if (typeof column !== "string" || !columns.includes(column)) {
+      return { error: `Column "${column}" is not in the file` };
+    }
+    result[field as ImportField] = column;
+  }
+  if (!result.title) {
+    return { error: "A column must be mapped to the task title" };
+  }
+  return { mapping: result };
+}
+
+export interface ImportContext {
+  workflow: IWorkflowStatus[];
+  initialStatus: string;
+  // Users of the tenant by lowercased email
+  usersByEmail: Map<string, string>;
+  // Used when a row has no assignee, null when one is required
+  defaultAssigneeId: string | null;
+  // Members can only import tasks for themselves
+  canAssignOthers: boolean;
+}
+
+export interface ImportedTask {
+  title: string;
+  description: string;
+  status: string;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  userId: string;
+}
+
+/**
+ * Turn one row into the fields of a task, with the same checks as creating
+ * a task by hand. Returns every problem of the row, not just the first.
+ */
+export function validateImportRow(
+  row: ImportRow,
+  mapping: ImportMapping,
+  context: ImportContext,
+): { task: ImportedTask; errors: [] } | { task: null; errors: string[] } {
+  const value = (field: ImportField) =>
+    mapping[field] ? (row[mapping[field]!] ?? "").trim() : "";
+  const errors: string[] = [];
+
+  const title = value("title");
+  const titleCheck = isValidTaskTitle(title);
+  if (!titleCheck.valid) errors.push(titleCheck.message!);
+
+  const description = value("description");
+  if (description.length > 2000) {
+    errors.push("Task description cannot exceed 2000 characters");
+  }
+
+  // Statuses may be given by key or by their label on the board
+  let status = context.initialStatus;
+  const statusValue = value("status").toLowerCase();
+  if (statusValue) {
+    status =
+      context.workflow.find(
+        (state) => state.label.toLowerCase() === statusValue,
+      )?.key || statusValue;
+    const statusCheck = isValidTaskStatus(
+      status,
+      getStatusKeys(context.workflow),
+    );
+    if (!statusCheck.valid) errors.push(statusCheck.message!);
+  }
+
+  const priority = (value("priority").toLowerCase() ||
+    "medium") as TaskPriority;
+  if (!TASK_PRIORITIES.includes(priority)) {
+    errors.push(`Priority must be one of: ${TASK_PRIORITIES.join(", ")}`);
+  }
+
+  let dueDate: Date | null = null;
+  if (value("dueDate")) {
+    dueDate = parseDateIST(value("dueDate"));
+    if (!dueDate) errors.push("Invalid due date format");
+  }
+
+  let userId = context.defaultAssigneeId;
+  const email = value("assignee").toLowerCase();
+  if (email) {
+    const assigneeId = context.usersByEmail.get(email);
+    if (!assigneeId) {
+      errors.push(`No user with email ${email} in this organization`);
+    } else if (!context.canAssignOthers && assigneeId !== userId) {
+      errors.push("Users cannot assign tasks to others");
+    } else {
+      userId = assigneeId;
+    }
+  } else if (!userId) {
+    errors.push("An assignee email is required");
+  }
+
+  if (errors.length > 0) return { task: null, errors };
+  return {
+    task: { title, description, status, priority, dueDate, userId: userId! },
+    errors: [],
+  };
+}
@@ -0,0 +1,57 @@
+import Task from "../models/Task";
+
+// Gap left between tasks when their ranks are spread out again
+export const RANK_STEP = 1024;
+
+// Smallest gap worth splitting, relative to the size of the ranks. New
+// tasks are ranked by timestamp, where floats are only precise to about
+// 1e-4, so an absolute gap would never run out before the precision does.
+export const MIN_RANK_GAP_RATIO = 1e-12;
+
+/**
+ * A rank between the task a moved task goes after and the one it goes
+ * before, either of which is null at the ends of a list. It is picked at
+ * random from the middle half of the gap, so two tasks dropped into the same
+ * gap at the same time still end up with different ranks. Null when the gap
+ * is used up and the ranks have to be spread out first.
+ */
+export function rankBetween(
+  after: number | null,
+  before: number | null,
+  random = Math.random,
+): number | null {
+  if (after === null && before === null) return RANK_STEP;
+  if (after === null) return before! - RANK_STEP;
+  if (before === null) return after + RANK_STEP;
+
+  const gap = before - after;
+  const scale = Math.max(Math.abs(after), Math.abs(before), 1);
+  if (gap < scale * MIN_RANK_GAP_RATIO) return null;
+  const rank = after + gap * (0.25 + 0.5 * random());
+  // Rounding can land on a neighbour when the gap is down to a few steps
+  return rank > after && rank < before ? rank : null;
+}
+
+/**
+ * Give every task of the tenant an evenly spaced rank, keeping the order of
+ * a list sorted by rank. Also ranks older tasks created before ranks
+ * existed, which sort first.
+ */
+export async function rebalanceTaskRanks(tenantId: unknown) {
+  const tasks = await Task.find({ tenantId })
+    .sort({ rank: 1, createdAt: -1 })
+    .select("_id");
+
+  if (tasks.length === 0) return;
+
+  // Reordering is not an edit, so it leaves updatedAt alone
+  await Task.bulkWrite(
+    tasks.map((task, index) => ({
+      updateOne: {
+        filter: { _id: task._id },
+        update: { $set: { rank: (index + 1) * RANK_STEP } },
+        timestamps: false,
+      },
+    })),
+  );
+}
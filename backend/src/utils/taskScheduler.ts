@@ -1,6 +1,18 @@
 import Task from "../models/Task";
-import { notificationService } from "../notification";
-import { getNowIST, getTomorrowIST } from "./dateUtils";
+import {
+  getNowIST,
+  getTomorrowIST,
+  formatDateInputIST,
+  parseDateIST,
+} from "./dateUtils";
+import { getNextOccurrence } from "./recurrence";
+import { recordTaskActivity } from "./taskActivity";
+import { notifyTaskAudience, taskAssigneeIds } from "./taskAudience";
+import {
+  getInitialStatus,
+  getTenantWorkflow,
+  statusCategoryFilter,
+} from "./workflow";
 
 /**
  * Check for overdue and due soon tasks and send notifications
@@ -14,10 +26,13 @@ export async function checkTaskDueDates() {
     const tomorrow = getTomorrowIST();
     tomorrow.setHours(23, 59, 59, 999);
 
+    // Only tasks in an open status of their tenant's workflow
+    const openFilter = await statusCategoryFilter("open");
+
     // Find overdue tasks
     const overdueTasks = await Task.find({
       dueDate: { $lt: now },
-      status: { $ne: "completed" },
+      ...openFilter,
     }).exec();
 
     // Find tasks due within 24 hours
@@ -26,7 +41,7 @@ export async function checkTaskDueDates() {
         $gte: now,
         $lte: tomorrow,
       },
-      status: { $ne: "completed" },
+      ...openFilter,
     }).exec();
 
     // Send overdue notifications
@@ -35,18 +50,18 @@ export async function checkTaskDueDates() {
         (now.getTime() - task.dueDate!.getTime()) / (1000 * 60 * 60 * 24)
       );
 
-      await notificationService.sendToUser({
-        userId: task.userId.toString(),
-        tenantId: task.tenantId.toString(),
-        type: "task_overdue",
-        title: "Task Overdue",
-        message: `Task "${task.title}" is ${daysOverdue} day(s) overdue`,
-        taskId: task._id.toString(),
-        metadata: { 
-          daysOverdue: String(daysOverdue), 
-          dueDate: task.dueDate ? task.dueDate.toISOString() : '' 
+      await notifyTaskAudience(
+        task,
+        { type: "task_overdue", only: taskAssigneeIds(task) },
+        {
+          title: "Task Overdue",
+          message: `Task "${task.title}" is ${daysOverdue} day(s) overdue`,
+          metadata: {
+            daysOverdue: String(daysOverdue),
+            dueDate: task.dueDate ? task.dueDate.toISOString() : "",
+          },
         },
-      });
+      );
     }
 
     // Send due soon notifications
@@ -59,18 +74,18 @@ export async function checkTaskDueDates() {
       // Only send notification if task is due within 24 hours
       // This prevents duplicate notifications for tasks that are already overdue
       if (hoursUntilDue >= 0 && hoursUntilDue <= 24) {
-      await notificationService.sendToUser({
-        userId: task.userId.toString(),
-        tenantId: task.tenantId.toString(),
-        type: "task_due_soon",
-        title: "Task Due Soon",
-        message: `Task "${task.title}" is due in ${hoursUntilDue} hour(s)`,
-        taskId: task._id.toString(),
-        metadata: { 
-          hoursUntilDue: String(hoursUntilDue), 
-          dueDate: task.dueDate ? task.dueDate.toISOString() : '' 
-        },
-      });
+        await notifyTaskAudience(
+          task,
+          { type: "task_due_soon", only: taskAssigneeIds(task) },
+          {
+            title: "Task Due Soon",
+            message: `Task "${task.title}" is due in ${hoursUntilDue} hour(s)`,
+            metadata: {
+              hoursUntilDue: String(hoursUntilDue),
+              dueDate: task.dueDate ? task.dueDate.toISOString() : "",
+            },
+          },
+        );
       }
     }
 
@@ -88,6 +103,95 @@ export async function checkTaskDueDates() {
   }
 }
 
+/**
+ * Create the next instance of recurring tasks whose current instance was
+ * completed or whose due date has passed. Each instance is processed once:
+ * it is claimed by setting recurrenceProcessedAt before the next one is
+ * created, so overlapping runs cannot generate duplicates.
+ */
+export async function generateRecurringTasks() {
+  try {
+    const now = new Date();
+    const startOfToday = parseDateIST(formatDateInputIST(now))!;
+
+    const doneFilter = await statusCategoryFilter("done");
+
+    const dueTasks = await Task.find({
+      recurrence: { $ne: null },
+      recurrenceProcessedAt: null,
+      $or: [doneFilter, { dueDate: { $lt: startOfToday } }],
+    }).exec();
+
+    let created = 0;
+
+    for (const task of dueTasks) {
+      const claimed = await Task.updateOne(
+        { _id: task._id, recurrenceProcessedAt: null },
+        { $set: { recurrenceProcessedAt: now } },
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      const nextDueDate = getNextOccurrence(
+        task.recurrence!,
+        task.dueDate || task.createdAt,
+        now,
+      );
+      // The rule has run past its end date
+      if (!nextDueDate) continue;
+
+      const workflow = await getTenantWorkflow(task.tenantId);
+      const nextTask = await Task.create({
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        status: getInitialStatus(workflow),
+        userId: task.userId,
+        assignees: task.assignees,
+        reviewerId: task.reviewerId || null,
+        createdBy: task.createdBy,
+        tenantId: task.tenantId,
+        sprintId: task.sprintId || null,
+        dueDate: nextDueDate,
+        estimateMinutes: task.estimateMinutes ?? null,
+        recurrence: task.recurrence,
+        labels: task.labels,
+        customFields: task.customFields,
+        seriesId: task.seriesId || task._id,
+      });
+      created++;
+
+      await recordTaskActivity([
+        {
+          taskId: nextTask._id,
+          tenantId: nextTask.tenantId,
+          actorId: nextTask.createdBy.toString(),
+          action: "created",
+          newValue: nextTask.title,
+        },
+      ]);
+
+      await notifyTaskAudience(
+        nextTask,
+        { type: "task_assigned", only: taskAssigneeIds(nextTask) },
+        {
+          title: "Recurring Task Created",
+          message: `The next "${nextTask.title}" is due ${nextDueDate.toDateString()}`,
+          metadata: { previousTaskId: task._id.toString() },
+        },
+      );
+    }
+
+    console.log(
+      `🔁 Recurring task check complete: ${created} new instance(s) created`
+    );
+
+    return { processed: dueTasks.length, created };
+  } catch (error) {
+    console.error("Error generating recurring tasks:", error);
+    throw error;
+  }
+}
+
 /**
  * Schedule the due date check to run daily
  * Uncomment and import node-cron if you want automated scheduling
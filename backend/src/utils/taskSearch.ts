@@ -0,0 +1,318 @@
+import User from "../models/User";
+import Sprint from "../models/Sprint";
+import Tag from "../models/Tag";
+import { TaskPriority } from "../models/Task";
+import { isValidObjectId } from "./validators";
+import { parseDateIST, formatDateInputIST } from "./dateUtils";
+import { getTenantWorkflow, getStatusKeys, getDoneStatuses } from "./workflow";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TASK_PRIORITIES: TaskPriority[] = ["low", "medium", "high"];
+
+// Keys understood in a search string, e.g. "priority:high status:!done"
+export const TASK_SEARCH_KEYS = [
+  "status",
+  "priority",
+  "due",
+  "assignee",
+  "createdBy",
+  "sprint",
+  "label",
+  "sort",
+] as const;
+
+export type TaskSearchKey = (typeof TASK_SEARCH_KEYS)[number];
+
+export interface TaskSearchTerm {
+  key: Exclude<TaskSearchKey, "sort">;
+  negate: boolean;
+  values: string[];
+}
+
+export interface ParsedTaskSearch {
+  terms: TaskSearchTerm[];
+  // Whatever is left once the filters are taken out
+  text: string;
+  sort?: string;
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const findKey = (key: string) =>
+  TASK_SEARCH_KEYS.find((known) => known.toLowerCase() === key.toLowerCase());
+
+/**
+ * Split a search string into filter terms, an optional sort and free text.
+ * Values may be quoted (`sprint:"Sprint 12"`), negated with `!` and list
+ * alternatives with commas. Tokens with an unknown key stay free text.
+ */
+export function parseTaskSearch(input: string): ParsedTaskSearch {
+  const terms: TaskSearchTerm[] = [];
+  const text: string[] = [];
+  let sort: string | undefined;
+
+  const tokens = input.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+
+  for (const token of tokens) {
+    const separator = token.indexOf(":");
+    const key = separator > 0 ? findKey(token.slice(0, separator)) : undefined;
+    if (!key) {
+      text.push(token.replace(/"/g, ""));
+      continue;
+    }
+
+    let raw = token.slice(separator + 1).replace(/"/g, "");
+    if (key === "sort") {
+      sort = raw;
+      continue;
+    }
+
+    const negate = raw.startsWith("!");
+    if (negate) raw = raw.slice(1);
+
+    terms.push({
+      key,
+      negate,
+      values: raw
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean),
+    });
+  }
+
+  return { terms, text: text.join(" ").trim(), sort };
+}
+
+interface SearchContext {
+  tenantId?: unknown;
+  actorId: string;
+}
+
+type Condition = Record<string, unknown>;
+type Resolved = { condition?: Condition; error?: string };
+
+const startOfTodayIST = () => parseDateIST(formatDateInputIST(new Date()))!;
+
+// "7d" or "2w" from the start of today, otherwise a YYYY-MM-DD date
+function parseDueBound(value: string): Date | null {
+  const relative = value.match(/^(\d{1,3})([dw])$/);
+  if (relative) {
+    const days = Number(relative[1]) * (relative[2] === "w" ? 7 : 1);
+    return new Date(startOfTodayIST().getTime() + days * DAY_MS);
+  }
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDateIST(value) : null;
+}
+
+async function resolveDue(
+  value: string,
+  ctx: SearchContext,
+): Promise<Resolved> {
+  const today = startOfTodayIST();
+
+  switch (value) {
+    case "none":
+      return { condition: { dueDate: null } };
+    case "today":
+      return {
+        condition: {
+          dueDate: { $gte: today, $lt: new Date(today.getTime() + DAY_MS) },
+        },
+      };
+    case "overdue": {
+      const workflow = await getTenantWorkflow(ctx.tenantId);
+      return {
+        condition: {
+          dueDate: { $lt: today },
+          status: { $nin: getDoneStatuses(workflow) },
+        },
+      };
+    }
+  }
+
+  const error =
+    'due must be today, overdue, none, <7d, >2w, a YYYY-MM-DD date or a "from..to" range';
+
+  if (value.startsWith("<") || value.startsWith(">")) {
+    const bound = parseDueBound(value.slice(1));
+    if (!bound) return { error };
+    return {
+      condition: {
+        dueDate: value.startsWith("<") ? { $lt: bound } : { $gte: bound },
+      },
+    };
+  }
+
+  // A single date matches that whole IST day, the end of a range is inclusive
+  const [min, max] = value.includes("..") ? value.split("..") : [value, value];
+  const from = min ? parseDueBound(min) : undefined;
+  const to = max ? parseDueBound(max) : undefined;
+  if (from === null || to === null || (!from && !to)) return { error };
+
+  return {
+    condition: {
+      dueDate: {
+        ...(from && { $gte: from }),
+        ...(to && { $lt: new Date(to.getTime() + DAY_MS) }),
+      },
+    },
+  };
+}
+
+// "me", user ids and emails of people in the tenant, matched on any of `fields`
+async function resolveUsers(
+  fields: ("userId" | "assignees" | "createdBy")[],
+  values: string[],
+  ctx: SearchContext,
+): Promise<Resolved> {
+  const ids = values
+    .filter((value) => value === "me" || isValidObjectId(value))
+    .map((value) => (value === "me" ? ctx.actorId : value));
+  const emails = values
+    .filter((value) => value !== "me" && !isValidObjectId(value))
+    .map((value) => value.toLowerCase());
+
+  if (emails.length > 0) {
+    const users = await User.find({
+      email: { $in: emails },
+      ...(ctx.tenantId ? { tenantId: ctx.tenantId } : {}),
+    })
+      .select("_id email")
+      .lean();
+    const missing = emails.find(
+      (email) => !users.some((user) => user.email === email),
+    );
+    if (missing) return { error: `Unknown user "${missing}"` };
+    ids.push(...users.map((user) => user._id.toString()));
+  }
+
+  const conditions = fields.map((field) => ({ [field]: { $in: ids } }));
+  return {
+    condition: conditions.length === 1 ? conditions[0] : { $or: conditions },
+  };
+}
+
+// "current", "none", sprint ids and sprint names
+async function resolveSprints(
+  values: string[],
+  ctx: SearchContext,
+): Promise<Resolved> {
+  const tenantFilter = ctx.tenantId ? { tenantId: ctx.tenantId } : {};
+  const ids: unknown[] = [];
+
+  for (const value of values) {
+    if (value === "none") {
+      ids.push(null);
+    } else if (value === "current") {
+      const active = await Sprint.find({ ...tenantFilter, status: "active" })
+        .select("_id")
+        .lean();
+      ids.push(...active.map((sprint) => sprint._id));
+    } else if (isValidObjectId(value)) {
+      ids.push(value);
+    } else {
+      const sprint = await Sprint.findOne({
+        ...tenantFilter,
+        name: { $regex: `^${escapeRegex(value)}$`, $options: "i" },
+      })
+        .select("_id")
+        .lean();
+      if (!sprint) return { error: `Unknown sprint "${value}"` };
+      ids.push(sprint._id);
+    }
+  }
+
+  return { condition: { sprintId: { $in: ids } } };
+}
+
+// Tag names or ids from the tenant's catalog
+async function resolveTags(
+  values: string[],
+  ctx: SearchContext,
+): Promise<Resolved> {
+  const tenantFilter = ctx.tenantId ? { tenantId: ctx.tenantId } : {};
+  const ids: unknown[] = values.filter((value) => isValidObjectId(value));
+  const names = values.filter((value) => !isValidObjectId(value));
+
+  for (const name of names) {
+    const tag = await Tag.findOne({ ...tenantFilter, name })
+      .collation({ locale: "en", strength: 2 })
+      .select("_id")
+      .lean();
+    if (!tag) return { error: `Unknown label "${name}"` };
+    ids.push(tag._id);
+  }
+
+  return { condition: { labels: { $in: ids } } };
+}
+
+async function resolveTerm(
+  term: TaskSearchTerm,
+  ctx: SearchContext,
+): Promise<Resolved> {
+  const { key, values } = term;
+  if (values.length === 0) return { error: `${key} needs a value` };
+
+  switch (key) {
+    case "status": {
+      const keys = getStatusKeys(await getTenantWorkflow(ctx.tenantId));
+      const unknown = values.find((value) => !keys.includes(value));
+      if (unknown) return { error: `Unknown status "${unknown}"` };
+      return { condition: { status: { $in: values } } };
+    }
+    case "priority": {
+      const unknown = values.find(
+        (value) => !TASK_PRIORITIES.includes(value as TaskPriority),
+      );
+      if (unknown) {
+        return {
+          error: `Priority must be one of: ${TASK_PRIORITIES.join(", ")}`,
+        };
+      }
+      return { condition: { priority: { $in: values } } };
+    }
+    case "due": {
+      if (values.length > 1) {
+        return { error: "due takes a single value" };
+      }
+      return resolveDue(values[0], ctx);
+    }
+    case "assignee":
+      // Tasks saved before `assignees` existed only have their owner
+      return resolveUsers(["userId", "assignees"], values, ctx);
+    case "createdBy":
+      return resolveUsers(["createdBy"], values, ctx);
+    case "sprint":
+      return resolveSprints(values, ctx);
+    case "label":
+      return resolveTags(values, ctx);
+  }
+}
+
+/**
+ * Mongo conditions for the parsed search terms, to be combined with `$and`.
+ * Values are only ever used as literals, so a search cannot inject operators.
+ */
+export async function buildTaskSearchConditions(
+  terms: TaskSearchTerm[],
+  ctx: SearchContext,
+): Promise<{ conditions: Condition[]; error?: string }> {
+  const conditions: Condition[] = [];
+
+  for (const term of terms) {
+    const { condition, error } = await resolveTerm(term, ctx);
+    if (error) return { conditions, error };
+    conditions.push(term.negate ? { $nor: [condition!] } : condition!);
+  }
+
+  return { conditions };
+}
+
+/**
+ * Case-insensitive substring match on title or description
+ */
+export function buildTextCondition(text: string): Condition {
+  const regex = new RegExp(escapeRegex(text), "i");
+  return { $or: [{ title: regex }, { description: regex }] };
+}
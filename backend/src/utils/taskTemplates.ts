@@ -0,0 +1,46 @@
+import { formatDateInputIST, parseDateIST } from "./dateUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string>;
+
+/**
+ * Replace `{{name}}` placeholders with their values. Unknown variables are
+ * left in place so a typo shows up in the created task instead of vanishing.
+ */
+export function renderTemplate(text: string, variables: TemplateVariables) {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name)
+      ? variables[name]
+      : placeholder,
+  );
+}
+
+/**
+ * Custom variables sent by the client: string values only, and the built-in
+ * ones (`date`, `sprint`, `assignee`) cannot be overridden
+ */
+export function sanitizeTemplateVariables(
+  input: unknown,
+  builtIn: TemplateVariables,
+): TemplateVariables {
+  const custom: TemplateVariables = {};
+  if (input && typeof input === "object" && !Array.isArray(input)) {
+    for (const [name, value] of Object.entries(input)) {
+      if (/^[\w-]+$/.test(name) && typeof value === "string") {
+        custom[name] = value.trim();
+      }
+    }
+  }
+  return { ...custom, ...builtIn };
+}
+
+/**
+ * Midnight IST `offsetDays` days after `from`
+ */
+export function getTemplateDueDate(offsetDays: number, from = new Date()) {
+  return parseDateIST(
+    formatDateInputIST(new Date(from.getTime() + offsetDays * DAY_MS)),
+  );
+}
@@ -0,0 +1,72 @@
+import Task, { ITask } from "../models/Task";
+import Sprint from "../models/Sprint";
+import { TRASH_RETENTION_DAYS } from "../config/env";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When an item deleted at `deletedAt` is purged for good
+ */
+export function getPurgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Permanently remove tasks and sprints that have been in the trash longer
+ * than the retention period, along with the Cloudinary assets of their
+ * attachments. A task whose assets cannot be removed is kept for the next run.
+ */
+export async function purgeTrash(now = new Date()) {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  const importCloudinary = await import("../config/cloudinary");
+  const cloudinary = importCloudinary.default;
+
+  const expiredTasks = await Task.find({ deletedAt: { $lte: cutoff } }).select(
+    "_id attachments",
+  );
+  const purgedTaskIds: ITask["_id"][] = [];
+  for (const task of expiredTasks) {
+    try {
+      for (const attachment of task.attachments) {
+        if (attachment.publicId) {
+          await cloudinary.uploader.destroy(attachment.publicId);
+        }
+      }
+      purgedTaskIds.push(task._id);
+    } catch (error) {
+      console.error(`Failed to remove attachments of task ${task._id}:`, error);
+    }
+  }
+
+  if (purgedTaskIds.length > 0) {
+    await Task.deleteMany({
+      _id: { $in: purgedTaskIds },
+      deletedAt: { $ne: null },
+    });
+    // Nothing can stay blocked by a task that no longer exists
+    await Task.updateMany(
+      { blockedBy: { $in: purgedTaskIds } },
+      { $pull: { blockedBy: { $in: purgedTaskIds } } },
+    ).setOptions({ withDeleted: true });
+  }
+
+  const expiredSprints = await Sprint.find({
+    deletedAt: { $lte: cutoff },
+  }).select("_id");
+  const purgedSprintIds = expiredSprints.map((sprint) => sprint._id);
+
+  if (purgedSprintIds.length > 0) {
+    await Sprint.deleteMany({
+      _id: { $in: purgedSprintIds },
+      deletedAt: { $ne: null },
+    });
+    // Trashed tasks may still point at the sprint they were deleted from
+    await Task.updateMany(
+      { sprintId: { $in: purgedSprintIds } },
+      { $set: { sprintId: null } },
+    ).setOptions({ withDeleted: true });
+  }
+
+  return { tasks: purgedTaskIds.length, sprints: purgedSprintIds.length };
+}
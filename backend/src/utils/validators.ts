@@ -1,3 +1,5 @@
+import { DEFAULT_WORKFLOW } from "../models/Organization";
+
 export function isValidEmail(email: string): boolean {
   const emailRegex = /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/;
   return emailRegex.test(email);
@@ -23,8 +25,13 @@ export function isValidTaskTitle(title: string) {
   return { valid: true };
 }
 
-export function isValidTaskStatus(status: string) {
-  const validStatuses = ["todo", "in-progress", "in-review", "completed"];
+/**
+ * `validStatuses` are the keys of the tenant's workflow
+ */
+export function isValidTaskStatus(
+  status: string,
+  validStatuses: string[] = DEFAULT_WORKFLOW.map((s) => s.key),
+) {
   if (!validStatuses.includes(status)) {
     return {
       valid: false,
@@ -34,6 +41,44 @@ export function isValidTaskStatus(status: string) {
   return { valid: true };
 }
 
+export function isValidChecklist(items: unknown) {
+  if (!Array.isArray(items)) {
+    return { valid: false, message: "Checklist must be an array" };
+  }
+  if (items.length > 100) {
+    return { valid: false, message: "Checklist cannot exceed 100 items" };
+  }
+  for (const item of items) {
+    if (!item || typeof item.title !== "string" || !item.title.trim()) {
+      return { valid: false, message: "Checklist items need a title" };
+    }
+    if (item.title.length > 200) {
+      return {
+        valid: false,
+        message: "Checklist item cannot exceed 200 characters",
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Estimates are whole minutes, null clears them
+ */
+export function isValidEstimate(value: unknown) {
+  if (value === null) return { valid: true };
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    return {
+      valid: false,
+      message: "Estimate must be a whole number of minutes",
+    };
+  }
+  if (value > 60000) {
+    return { valid: false, message: "Estimate cannot exceed 1000 hours" };
+  }
+  return { valid: true };
+}
+
 export function isValidObjectId(id: string) {
   return /^[0-9a-fA-F]{24}$/.test(id);
 }
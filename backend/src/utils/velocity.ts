@@ -0,0 +1,119 @@
+import { ISprintCapacity, SprintWorkSummary } from "../models/Sprint";
+import { ITask } from "../models/Task";
+
+export const DEFAULT_VELOCITY_SPRINTS = 5;
+export const MAX_VELOCITY_SPRINTS = 20;
+
+type DeliveredTask = Pick<
+  ITask,
+  "_id" | "userId" | "assignees" | "estimateMinutes"
+>;
+
+export interface MemberThroughput {
+  userId: string;
+  delivered: SprintWorkSummary;
+  // Average over the sprints of the report
+  perSprint: SprintWorkSummary;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const average = (
+  summary: SprintWorkSummary,
+  count: number,
+): SprintWorkSummary => ({
+  tasks: count > 0 ? round(summary.tasks / count) : 0,
+  estimateMinutes: count > 0 ? round(summary.estimateMinutes / count) : 0,
+});
+
+/**
+ * Average work delivered per sprint
+ */
+export function averageVelocity(delivered: SprintWorkSummary[]) {
+  return average(
+    delivered.reduce(
+      (total, summary) => ({
+        tasks: total.tasks + summary.tasks,
+        estimateMinutes: total.estimateMinutes + summary.estimateMinutes,
+      }),
+      { tasks: 0, estimateMinutes: 0 },
+    ),
+    delivered.length,
+  );
+}
+
+/**
+ * Work delivered per member over `sprintCount` sprints. A task counts fully
+ * towards each of its assignees.
+ */
+export function buildThroughput(
+  tasks: DeliveredTask[],
+  sprintCount: number,
+): MemberThroughput[] {
+  const byUser = new Map<string, SprintWorkSummary>();
+  for (const task of tasks) {
+    const assignees = task.assignees?.length ? task.assignees : [task.userId];
+    for (const assignee of assignees) {
+      const key = assignee.toString();
+      const summary = byUser.get(key) || { tasks: 0, estimateMinutes: 0 };
+      summary.tasks += 1;
+      summary.estimateMinutes += task.estimateMinutes || 0;
+      byUser.set(key, summary);
+    }
+  }
+
+  return Array.from(byUser, ([userId, delivered]) => ({
+    userId,
+    delivered,
+    perSprint: average(delivered, sprintCount),
+  })).sort((a, b) => b.delivered.tasks - a.delivered.tasks);
+}
+
+/**
+ * Share of the usual velocity a sprint can expect from the availability of
+ * its members, each weighted by how much they usually deliver. Members
+ * without a capacity entry are fully available.
+ */
+export function capacityFactor(
+  throughput: MemberThroughput[],
+  capacity: Pick<ISprintCapacity, "userId" | "percent">[],
+) {
+  const percents = new Map(
+    capacity.map((entry) => [entry.userId.toString(), entry.percent]),
+  );
+  const usual = throughput.reduce(
+    (total, member) => total + member.delivered.tasks,
+    0,
+  );
+  if (usual === 0) return 1;
+
+  const expected = throughput.reduce(
+    (total, member) =>
+      total +
+      (member.delivered.tasks * (percents.get(member.userId) ?? 100)) / 100,
+    0,
+  );
+  return expected / usual;
+}
+
+/**
+ * Whether planned work is more than the sprint is expected to deliver.
+ * Estimates are only compared when the forecast has any.
+ */
+export function exceedsForecast(
+  committed: SprintWorkSummary,
+  forecast: SprintWorkSummary,
+) {
+  return (
+    committed.tasks > forecast.tasks ||
+    (forecast.estimateMinutes > 0 &&
+      committed.estimateMinutes > forecast.estimateMinutes)
+  );
+}
+
+export function scaleWork(summary: SprintWorkSummary, factor: number) {
+  return {
+    tasks: round(summary.tasks * factor),
+    estimateMinutes: round(summary.estimateMinutes * factor),
+  };
+}
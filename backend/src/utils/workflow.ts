@@ -0,0 +1,308 @@
+import Organization, {
+  ANY_STATUS,
+  DEFAULT_WORKFLOW,
+  IWorkflowStatus,
+  IWorkflowTransition,
+  WORKFLOW_COLORS,
+  WorkflowCategory,
+} from "../models/Organization";
+
+const STATUS_KEY_PATTERN = /^[a-z][a-z0-9-]{0,29}$/;
+const MAX_STATUSES = 12;
+const MAX_TRANSITIONS = 100;
+const TRANSITION_ROLES = ["tenantAdmin", "user"] as const;
+const ROLE_LABELS: Record<string, string> = {
+  tenantAdmin: "tenant admins",
+  user: "members",
+};
+
+type WorkflowResult =
+  | { valid: true; workflow: IWorkflowStatus[] }
+  | { valid: false; message: string };
+
+type TransitionsResult =
+  | { valid: true; transitions: IWorkflowTransition[] }
+  | { valid: false; message: string };
+
+type TransitionCheck = { allowed: true } | { allowed: false; message: string };
+
+// Review status of workflows saved before statuses could be flagged as one
+const LEGACY_REVIEW_STATUS = "in-review";
+
+/**
+ * The ordered statuses of a tenant, falling back to the default four for
+ * organizations that have not customised them (or tasks without a tenant).
+ */
+export async function getTenantWorkflow(
+  tenantId?: unknown,
+): Promise<IWorkflowStatus[]> {
+  if (!tenantId) return DEFAULT_WORKFLOW;
+  const organization = await Organization.findById(tenantId)
+    .select("workflow")
+    .lean();
+  return organization?.workflow?.length
+    ? withLegacyReviewStatus(organization.workflow)
+    : DEFAULT_WORKFLOW;
+}
+
+// Workflows saved before statuses could be flagged for review carry the
+// flag on no status at all; their "in-review" status keeps asking for one
+function withLegacyReviewStatus(workflow: IWorkflowStatus[]) {
+  if (workflow.some((status) => status.review !== undefined)) return workflow;
+  return workflow.map((status) =>
+    status.key === LEGACY_REVIEW_STATUS ? { ...status, review: true } : status,
+  );
+}
+
+export async function getTenantTransitions(
+  tenantId?: unknown,
+): Promise<IWorkflowTransition[]> {
+  if (!tenantId) return [];
+  const organization = await Organization.findById(tenantId)
+    .select("transitions")
+    .lean();
+  return organization?.transitions || [];
+}
+
+export function getStatusKeys(workflow: IWorkflowStatus[]) {
+  return workflow.map((status) => status.key);
+}
+
+export function getDoneStatuses(workflow: IWorkflowStatus[]) {
+  return workflow
+    .filter((status) => status.category === "done")
+    .map((status) => status.key);
+}
+
+export function isDoneStatus(workflow: IWorkflowStatus[], status: string) {
+  return getDoneStatuses(workflow).includes(status);
+}
+
+// New tasks start in the first column
+export function getInitialStatus(workflow: IWorkflowStatus[]) {
+  return workflow[0].key;
+}
+
+// The status that asks a task's reviewer for a review, if the tenant has one
+export function getReviewStatus(workflow: IWorkflowStatus[]) {
+  return workflow.find((status) => status.review)?.key || null;
+}
+
+export function getStatusLabel(workflow: IWorkflowStatus[], status: string) {
+  return workflow.find((s) => s.key === status)?.label || status;
+}
+
+/**
+ * Mongo filter matching tasks whose status falls in `category` of their own
+ * tenant's workflow, for jobs that scan tasks across every tenant.
+ */
+export async function statusCategoryFilter(category: WorkflowCategory) {
+  const organizations = await Organization.find({}).select("workflow").lean();
+  const inCategory = (workflow: IWorkflowStatus[]) =>
+    workflow.filter((s) => s.category === category).map((s) => s.key);
+
+  const customised = organizations.filter((org) => org.workflow?.length);
+  return {
+    $or: [
+      ...customised.map((org) => ({
+        tenantId: org._id,
+        status: { $in: inCategory(org.workflow) },
+      })),
+      {
+        tenantId: { $nin: customised.map((org) => org._id) },
+        status: { $in: inCategory(DEFAULT_WORKFLOW) },
+      },
+    ],
+  };
+}
+
+/**
+ * Validate a workflow sent by a tenant admin. The first status is where new
+ * tasks land, so it has to be an open one, and at least one status has to
+ * count as done.
+ */
+export function validateWorkflow(input: unknown): WorkflowResult {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { valid: false, message: "Workflow must be a non-empty array" };
+  }
+  if (input.length > MAX_STATUSES) {
+    return {
+      valid: false,
+      message: `Workflow cannot have more than ${MAX_STATUSES} statuses`,
+    };
+  }
+
+  const workflow: IWorkflowStatus[] = [];
+  for (const item of input) {
+    const key = typeof item?.key === "string" ? item.key.trim() : "";
+    if (!STATUS_KEY_PATTERN.test(key)) {
+      return {
+        valid: false,
+        message:
+          "Status keys must start with a letter and use only lowercase letters, numbers and dashes (max 30)",
+      };
+    }
+    if (workflow.some((status) => status.key === key)) {
+      return { valid: false, message: `Duplicate status key "${key}"` };
+    }
+
+    const label = typeof item.label === "string" ? item.label.trim() : "";
+    if (!label || label.length > 40) {
+      return {
+        valid: false,
+        message: `Status "${key}" needs a label of at most 40 characters`,
+      };
+    }
+
+    if (item.category !== "open" && item.category !== "done") {
+      return {
+        valid: false,
+        message: `Status "${key}" category must be one of: open, done`,
+      };
+    }
+
+    const color = item.color === undefined ? "gray" : item.color;
+    if (!WORKFLOW_COLORS.includes(color)) {
+      return {
+        valid: false,
+        message: `Status color must be one of: ${WORKFLOW_COLORS.join(", ")}`,
+      };
+    }
+
+    const review = item.review === undefined ? false : item.review;
+    if (typeof review !== "boolean") {
+      return {
+        valid: false,
+        message: `Status "${key}" review flag must be a boolean`,
+      };
+    }
+    if (review && item.category !== "open") {
+      return {
+        valid: false,
+        message: `Review status "${key}" must be an open one`,
+      };
+    }
+    if (review && workflow.some((status) => status.review)) {
+      return {
+        valid: false,
+        message: "Only one status can ask for a review",
+      };
+    }
+
+    workflow.push({ key, label, category: item.category, color, review });
+  }
+
+  if (workflow[0].category !== "open") {
+    return { valid: false, message: "The first status must be an open one" };
+  }
+  if (!workflow.some((status) => status.category === "done")) {
+    return {
+      valid: false,
+      message: "Workflow needs at least one done status",
+    };
+  }
+
+  return { valid: true, workflow };
+}
+
+/**
+ * Validate transition rules against the workflow they belong to. Rules may
+ * use "*" for any status; superadmins are never listed since they can make
+ * every allowed move anyway.
+ */
+export function validateTransitions(
+  input: unknown,
+  workflow: IWorkflowStatus[],
+): TransitionsResult {
+  if (!Array.isArray(input)) {
+    return { valid: false, message: "Transitions must be an array" };
+  }
+  if (input.length > MAX_TRANSITIONS) {
+    return {
+      valid: false,
+      message: `Workflow cannot have more than ${MAX_TRANSITIONS} transition rules`,
+    };
+  }
+
+  const keys = [ANY_STATUS, ...getStatusKeys(workflow)];
+  const transitions: IWorkflowTransition[] = [];
+  for (const item of input) {
+    const from = typeof item?.from === "string" ? item.from.trim() : "";
+    const to = typeof item?.to === "string" ? item.to.trim() : "";
+    if (!keys.includes(from) || !keys.includes(to)) {
+      return {
+        valid: false,
+        message: `Transition "${from}" -> "${to}" must use statuses of the workflow`,
+      };
+    }
+    if (from === to) {
+      return {
+        valid: false,
+        message: "A transition must move to a different status",
+      };
+    }
+
+    const roles = item.roles === undefined ? [] : item.roles;
+    if (
+      !Array.isArray(roles) ||
+      roles.some((role) => !TRANSITION_ROLES.includes(role))
+    ) {
+      return {
+        valid: false,
+        message: `Transition roles must be any of: ${TRANSITION_ROLES.join(", ")}`,
+      };
+    }
+
+    if (transitions.some((rule) => rule.from === from && rule.to === to)) {
+      return {
+        valid: false,
+        message: `Duplicate transition "${from}" -> "${to}"`,
+      };
+    }
+    transitions.push({ from, to, roles: Array.from(new Set(roles)) });
+  }
+
+  return { valid: true, transitions };
+}
+
+/**
+ * Whether `role` may move a task from one status to another under the
+ * tenant's rules. Without rules every move is allowed; superadmins skip the
+ * role restriction but not the rules themselves.
+ */
+export function checkTransition(
+  transitions: IWorkflowTransition[],
+  workflow: IWorkflowStatus[],
+  from: string,
+  to: string,
+  role?: string,
+): TransitionCheck {
+  if (from === to || transitions.length === 0) return { allowed: true };
+
+  const matching = transitions.filter(
+    (rule) =>
+      (rule.from === from || rule.from === ANY_STATUS) &&
+      (rule.to === to || rule.to === ANY_STATUS),
+  );
+  const move = `from "${getStatusLabel(workflow, from)}" to "${getStatusLabel(workflow, to)}"`;
+
+  if (matching.length === 0) {
+    return { allowed: false, message: `Tasks cannot move ${move}` };
+  }
+
+  const permitted = matching.some(
+    (rule) =>
+      rule.roles.length === 0 ||
+      role === "superadmin" ||
+      rule.roles.some((allowed) => allowed === role),
+  );
+  if (!permitted) {
+    const roles = Array.from(new Set(matching.flatMap((rule) => rule.roles)));
+    return {
+      allowed: false,
+      message: `Only ${roles.map((r) => ROLE_LABELS[r] || r).join(" or ")} can move tasks ${move}`,
+    };
+  }
+
+  return { allowed: true };
+}
@@ -1,8 +1,9 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNotificationStore } from "@/store";
 import { notificationService } from "@/services";
 import type { Notification } from "@/services";
 import { formatDistanceToNow } from "@/lib/utils";
+import NotificationPreferences from "./NotificationPreferences";
 
 interface NotificationBellProps {
   className?: string;
@@ -21,6 +22,7 @@ export default function NotificationBell({
     markAllAsRead,
   } = useNotificationStore();
 
+  const [showPreferences, setShowPreferences] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -73,6 +75,12 @@ export default function NotificationBell({
         return "💬";
       case "mention":
         return "👤";
+      case "task_unblocked":
+        return "🔓";
+      case "review_requested":
+        return "🔍";
+      case "tasks_imported":
+        return "📥";
       default:
         return "🔔";
     }
@@ -121,94 +129,108 @@ export default function NotificationBell({
                 </span>
               )}
             </h3>
-            {notifications.length > 0 && (
+            <div className="flex items-center gap-3">
+              {!showPreferences && notifications.length > 0 && (
+                <button
+                  onClick={handleMarkAllAsRead}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  Mark all read
+                </button>
+              )}
               <button
-                onClick={handleMarkAllAsRead}
-                className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                onClick={() => setShowPreferences(!showPreferences)}
+                className="text-xs font-medium text-gray-500 hover:text-gray-800"
               >
-                Mark all read
+                {showPreferences ? "Back" : "Settings"}
               </button>
-            )}
+            </div>
           </div>
 
-          {/* Notification List */}
-          <div className="max-h-96 overflow-y-auto">
-            {notifications.length === 0 ? (
-              <div className="px-4 py-8 text-center">
-                <svg
-                  className="mx-auto h-12 w-12 text-gray-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
-                  />
-                </svg>
-                <p className="mt-2 text-sm text-gray-500">
-                  No notifications yet
-                </p>
-              </div>
-            ) : (
-              <ul className="divide-y divide-gray-100">
-                {notifications.map((notification) => (
-                  <li
-                    key={notification.id}
-                    onClick={() => handleNotificationClick(notification)}
-                    className={`cursor-pointer px-4 py-3 hover:bg-gray-50 transition-colors ${
-                      !notification.isRead ? "bg-blue-50" : ""
-                    }`}
-                  >
-                    <div className="flex gap-3">
-                      <span className="flex-shrink-0 text-2xl">
-                        {getNotificationIcon(notification.type)}
-                      </span>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between gap-2">
-                          <p
-                            className={`text-sm font-medium text-gray-900 ${
-                              !notification.isRead ? "font-semibold" : ""
-                            }`}
-                          >
-                            {notification.title}
-                          </p>
-                          {!notification.isRead && (
-                            <span className="flex-shrink-0 h-2 w-2 rounded-full bg-indigo-600 mt-1.5"></span>
-                          )}
+          {showPreferences ? (
+            <NotificationPreferences />
+          ) : (
+            <>
+              {/* Notification List */}
+              <div className="max-h-96 overflow-y-auto">
+                {notifications.length === 0 ? (
+                  <div className="px-4 py-8 text-center">
+                    <svg
+                      className="mx-auto h-12 w-12 text-gray-400"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+                      />
+                    </svg>
+                    <p className="mt-2 text-sm text-gray-500">
+                      No notifications yet
+                    </p>
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {notifications.map((notification) => (
+                      <li
+                        key={notification.id}
+                        onClick={() => handleNotificationClick(notification)}
+                        className={`cursor-pointer px-4 py-3 hover:bg-gray-50 transition-colors ${
+                          !notification.isRead ? "bg-blue-50" : ""
+                        }`}
+                      >
+                        <div className="flex gap-3">
+                          <span className="flex-shrink-0 text-2xl">
+                            {getNotificationIcon(notification.type)}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between gap-2">
+                              <p
+                                className={`text-sm font-medium text-gray-900 ${
+                                  !notification.isRead ? "font-semibold" : ""
+                                }`}
+                              >
+                                {notification.title}
+                              </p>
+                              {!notification.isRead && (
+                                <span className="flex-shrink-0 h-2 w-2 rounded-full bg-indigo-600 mt-1.5"></span>
+                              )}
+                            </div>
+                            <p className="mt-1 text-sm text-gray-600 line-clamp-2">
+                              {notification.message}
+                            </p>
+                            <p className="mt-1 text-xs text-gray-500">
+                              {formatDistanceToNow(
+                                new Date(notification.createdAt)
+                              )}
+                            </p>
+                          </div>
                         </div>
-                        <p className="mt-1 text-sm text-gray-600 line-clamp-2">
-                          {notification.message}
-                        </p>
-                        <p className="mt-1 text-xs text-gray-500">
-                          {formatDistanceToNow(
-                            new Date(notification.createdAt)
-                          )}
-                        </p>
-                      </div>
-                    </div>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
 
-          {/* Footer */}
-          {notifications.length > 0 && (
-            <div className="border-t border-gray-200 bg-gray-50 px-4 py-2">
-              <button
-                onClick={() => {
-                  setOpen(false);
-                  // Navigate to notifications page if you have one
-                  // navigate('/notifications');
-                }}
-                className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
-              >
-                View all notifications
-              </button>
-            </div>
+              {/* Footer */}
+              {notifications.length > 0 && (
+                <div className="border-t border-gray-200 bg-gray-50 px-4 py-2">
+                  <button
+                    onClick={() => {
+                      setOpen(false);
+                      // Navigate to notifications page if you have one
+                      // navigate('/notifications');
+                    }}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                  >
+                    View all notifications
+                  </button>
+                </div>
+              )}
+            </>
           )}
         </div>
       )}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/services";
+import type { NotificationPreferences as Preferences } from "@/services";
+import type { NotificationType } from "@/services/notificationService";
+import { getErrorMessage } from "@/types/errors";
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  task_assigned: "Assigned to me",
+  task_updated: "Status and due date changes",
+  task_completed: "Tasks completed",
+  task_deleted: "Tasks deleted",
+  task_due_soon: "Due soon reminders",
+  task_overdue: "Overdue reminders",
+  comment_added: "New comments",
+  mention: "Mentions",
+  task_unblocked: "Blockers completed",
+  review_requested: "Review requests",
+  tasks_imported: "Finished imports",
+};
+
+export default function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getNotificationPreferences()
+      .then((response) => setPreferences(response.preferences))
+      .catch((err) => setError(getErrorMessage(err)));
+  }, []);
+
+  const save = async (changes: Partial<Preferences>) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, ...changes });
+    setError(null);
+    try {
+      const response = await updateNotificationPreferences(changes);
+      setPreferences(response.preferences);
+    } catch (err) {
+      setPreferences(previous);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const toggleType = (type: NotificationType) => {
+    if (!preferences) return;
+    const muted = preferences.muted.includes(type)
+      ? preferences.muted.filter((t) => t !== type)
+      : [...preferences.muted, type];
+    save({ muted });
+  };
+
+  if (!preferences) {
+    return (
+      <div className="px-4 py-6 text-center text-sm text-gray-500">
+        {error || "Loading preferences..."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-96 overflow-y-auto px-4 py-3 space-y-3">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+          Notify me about
+        </p>
+        <ul className="mt-2 space-y-1.5">
+          {(Object.keys(TYPE_LABELS) as NotificationType[]).map((type) => (
+            <li key={type}>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!preferences.muted.includes(type)}
+                  onChange={() => toggleType(type)}
+                />
+                {TYPE_LABELS[type]}
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <label className="flex items-start gap-2 border-t border-gray-100 pt-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="mt-0.5"
+          checked={preferences.autoWatch}
+          onChange={(e) => save({ autoWatch: e.target.checked })}
+        />
+        <span>
+          Watch tasks I comment on or am mentioned in
+          <span className="block text-xs text-gray-500">
+            Watchers hear about every change to a task
+          </span>
+        </span>
+      </label>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -12,26 +12,34 @@ import {
   Legend,
 } from "recharts";
 import { analyticsService } from "@/services/api/analyticsService";
-import type { TaskStats, WorkloadStat } from "@/services/api/analyticsService";
+import type {
+  TaskStats,
+  WorkloadStat,
+  TimeReport,
+} from "@/services/api/analyticsService";
 import { motion } from "framer-motion";
-
-const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042"];
+import { WORKFLOW_COLOR_CLASSES } from "@/constants/task";
+import { formatMinutes } from "@/utils/date";
+import { SprintBurndownChart } from "./SprintBurndownChart";
 
 export const AnalyticsDashboard = () => {
   const [stats, setStats] = useState<TaskStats | null>(null);
   const [workload, setWorkload] = useState<WorkloadStat[]>([]);
+  const [timeReport, setTimeReport] = useState<TimeReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [statsData, workloadData] = await Promise.all([
+        const [statsData, workloadData, timeData] = await Promise.all([
           analyticsService.getTaskStats(),
           analyticsService.getWorkloadStats(),
+          analyticsService.getTimeReport(),
         ]);
         setStats(statsData);
         setWorkload(workloadData);
+        setTimeReport(timeData);
       } catch (err) {
         setError("Failed to load analytics data");
         console.error(err);
@@ -56,16 +64,21 @@ export const AnalyticsDashboard = () => {
     );
   }
 
-  const pieData = [
-    { name: "Todo", value: stats.statusCounts.todo },
-    { name: "In Progress", value: stats.statusCounts["in-progress"] },
-    { name: "In Review", value: stats.statusCounts["in-review"] },
-    { name: "Completed", value: stats.statusCounts.completed },
-  ].filter((d) => d.value > 0);
+  const pieData = stats.workflow
+    .map((status) => ({
+      name: status.label,
+      value: stats.statusCounts[status.key] || 0,
+      color: WORKFLOW_COLOR_CLASSES[status.color].chart,
+    }))
+    .filter((d) => d.value > 0);
+
+  const minutesByUser = new Map(
+    (timeReport?.byUser ?? []).map((row) => [row.userId, row.minutes]),
+  );
 
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         {/* Metric Cards */}
         <StatCard
           title="Completion Rate"
@@ -91,6 +104,12 @@ export const AnalyticsDashboard = () => {
           color="bg-red-50 text-red-700"
           subtext="Missed deadlines"
         />
+        <StatCard
+          title="Checklist Progress"
+          value={`${stats.checklistProgress.percent}%`}
+          color="bg-green-50 text-green-700"
+          subtext={`${stats.checklistProgress.completedItems}/${stats.checklistProgress.totalItems} items done`}
+        />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -116,11 +135,8 @@ export const AnalyticsDashboard = () => {
                   paddingAngle={5}
                   dataKey="value"
                 >
-                  {pieData.map((_entry, index) => (
-                    <Cell
-                      key={`cell-${index}`}
-                      fill={COLORS[index % COLORS.length]}
-                    />
+                  {pieData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
                   ))}
                 </Pie>
                 <Tooltip />
@@ -154,38 +170,26 @@ export const AnalyticsDashboard = () => {
                   cursor={{ fill: "transparent" }}
                   contentStyle={{ borderRadius: "8px" }}
                 />
-                <Bar
-                  dataKey="completed"
-                  stackId="a"
-                  fill="#00C49F"
-                  name="Completed"
-                  radius={[0, 4, 4, 0]}
-                />
-                <Bar
-                  dataKey="inReview"
-                  stackId="a"
-                  fill="#8B5CF6"
-                  name="In Review"
-                />
-                <Bar
-                  dataKey="inProgress"
-                  stackId="a"
-                  fill="#FFBB28"
-                  name="In Progress"
-                />
-                <Bar
-                  dataKey="todo"
-                  stackId="a"
-                  fill="#0088FE"
-                  name="Todo"
-                  radius={[4, 0, 0, 4]}
-                />
+                {stats.workflow.map((status) => (
+                  <Bar
+                    key={status.key}
+                    dataKey={(row: WorkloadStat) =>
+                      row.statusCounts[status.key] || 0
+                    }
+                    stackId="a"
+                    fill={WORKFLOW_COLOR_CLASSES[status.color].chart}
+                    name={status.label}
+                  />
+                ))}
               </BarChart>
             </ResponsiveContainer>
           </div>
         </motion.div>
       </div>
 
+      {/* Burndown and burnup of a sprint */}
+      <SprintBurndownChart />
+
       {/* Detailed Workload Table */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-100">
@@ -201,7 +205,9 @@ export const AnalyticsDashboard = () => {
                 <th className="px-6 py-3 text-center">Completion Rate</th>
                 <th className="px-6 py-3 text-center">Total Tasks</th>
                 <th className="px-6 py-3 text-center">Completed</th>
-                <th className="px-6 py-3 text-center">In Progress</th>
+                <th className="px-6 py-3 text-center">Open</th>
+                <th className="px-6 py-3 text-center">Reviewing</th>
+                <th className="px-6 py-3 text-center">Time Logged</th>
                 <th className="px-6 py-3 text-center text-red-600">
                   Overdue Stats
                 </th>
@@ -241,7 +247,13 @@ export const AnalyticsDashboard = () => {
                     {user.completed}
                   </td>
                   <td className="px-6 py-4 text-center text-gray-600">
-                    {user.inProgress}
+                    {user.open}
+                  </td>
+                  <td className="px-6 py-4 text-center text-gray-600">
+                    {user.reviewing}
+                  </td>
+                  <td className="px-6 py-4 text-center text-gray-600">
+                    {formatMinutes(minutesByUser.get(user.userId) ?? 0)}
                   </td>
                   <td className="px-6 py-4 text-center text-gray-400">-</td>
                 </tr>
@@ -1,10 +1,12 @@
 import { useState } from "react";
 
+export type DashboardView = "tasks" | "overview" | "users" | "workflow";
+
 interface DashboardHeaderProps {
   isSuperAdmin: boolean;
   isTenantAdmin: boolean;
-  activeView: "tasks" | "overview" | "users";
-  setActiveView: (view: "tasks" | "overview" | "users") => void;
+  activeView: DashboardView;
+  setActiveView: (view: DashboardView) => void;
   orgName: string;
   onSaveOrgName: (newName: string) => Promise<void>;
   orgLabel: string;
@@ -47,7 +49,7 @@ export const DashboardHeader = ({
           {isSuperAdmin ? "System Administration" : "Tenant Dashboard"}
         </p>
         <h1 className="text-3xl font-bold text-gray-900 tracking-tight">
-          {activeView === "overview" ? "Analytics Overview" : activeView === "users" ? "User Management" : "Task Tracker"}
+          {activeView === "overview" ? "Analytics Overview" : activeView === "users" ? "User Management" : activeView === "workflow" ? "Workflow Settings" : "Task Tracker"}
         </h1>
 
         {!isSuperAdmin && (
@@ -126,6 +128,19 @@ export const DashboardHeader = ({
           </button>
         )}
 
+        {isTenantAdmin && (
+          <button
+            onClick={() => setActiveView("workflow")}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+              activeView === "workflow"
+                ? "bg-white text-blue-700 shadow-sm ring-1 ring-black/5"
+                : "text-gray-600 hover:text-gray-900 hover:bg-gray-200/50"
+            }`}
+          >
+            Workflow
+          </button>
+        )}
+
         <button
           onClick={() => setActiveView("users")}
           className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  CartesianGrid,
+} from "recharts";
+import { motion } from "framer-motion";
+import { analyticsService } from "@/services/api/analyticsService";
+import type {
+  BurndownMetric,
+  SprintBurndown,
+} from "@/services/api/analyticsService";
+import { sprintService } from "@/services/api/sprintService";
+import type { Sprint } from "@/types/sprint";
+import { getErrorMessage } from "@/types/errors";
+import { formatDateISTShort, formatMinutes } from "@/utils/date";
+
+/**
+ * Burndown and burnup of one started sprint, from its daily snapshots
+ */
+export const SprintBurndownChart = () => {
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [sprintId, setSprintId] = useState("");
+  const [metric, setMetric] = useState<BurndownMetric>("tasks");
+  const [burndown, setBurndown] = useState<SprintBurndown | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sprintService
+      .getSprints()
+      .then((data) => {
+        const started = data.filter((sprint) => sprint.status !== "planned");
+        setSprints(started);
+        // The active sprint first, otherwise the latest completed one
+        const initial =
+          started.find((sprint) => sprint.status === "active") ?? started[0];
+        if (initial) setSprintId(initial.id);
+      })
+      .catch((err) => setError(getErrorMessage(err)));
+  }, []);
+
+  useEffect(() => {
+    if (!sprintId) return;
+    analyticsService
+      .getSprintBurndown(sprintId, metric)
+      .then((data) => {
+        setBurndown(data);
+        setError(null);
+      })
+      .catch((err) => {
+        setBurndown(null);
+        setError(getErrorMessage(err));
+      });
+  }, [sprintId, metric]);
+
+  const formatValue = (value: number) =>
+    metric === "estimate" ? formatMinutes(value) : `${value} tasks`;
+
+  const charts = [
+    {
+      title: "Burndown",
+      lines: [
+        { key: "ideal", name: "Ideal", color: "#9ca3af", dashed: true },
+        { key: "remaining", name: "Remaining", color: "#2563eb" },
+      ],
+    },
+    {
+      title: "Burnup",
+      lines: [
+        { key: "scope", name: "Scope", color: "#9ca3af", dashed: true },
+        { key: "completed", name: "Completed", color: "#16a34a" },
+      ],
+    },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="bg-white p-6 rounded-xl shadow-sm border border-gray-100"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Sprint Progress</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={sprintId}
+            onChange={(e) => setSprintId(e.target.value)}
+            disabled={sprints.length === 0}
+            className="h-9 px-3 rounded-lg border border-gray-200 text-sm bg-white"
+          >
+            {sprints.length === 0 && (
+              <option value="">No started sprints</option>
+            )}
+            {sprints.map((sprint) => (
+              <option key={sprint.id} value={sprint.id}>
+                {sprint.name}
+                {sprint.status === "active" ? " (active)" : ""}
+              </option>
+            ))}
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as BurndownMetric)}
+            className="h-9 px-3 rounded-lg border border-gray-200 text-sm bg-white"
+          >
+            <option value="tasks">Tasks</option>
+            <option value="estimate">Estimates</option>
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : !burndown ? (
+        <p className="text-sm text-gray-500">
+          {sprints.length === 0
+            ? "Start a sprint to follow its progress here."
+            : "Loading sprint progress..."}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {charts.map((chart) => (
+            <div key={chart.title}>
+              <p className="text-sm font-medium text-gray-500 mb-2">
+                {chart.title}
+              </p>
+              <div className="h-64 w-full" style={{ minHeight: "250px" }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={burndown.points}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={(date: string) => formatDateISTShort(date)}
+                      tick={{ fontSize: 12 }}
+                    />
+                    <YAxis
+                      allowDecimals={false}
+                      tickFormatter={(value: number) =>
+                        metric === "estimate"
+                          ? `${Math.round(value / 60)}h`
+                          : `${value}`
+                      }
+                      tick={{ fontSize: 12 }}
+                    />
+                    <Tooltip
+                      labelFormatter={(date) =>
+                        formatDateISTShort(String(date))
+                      }
+                      formatter={(value) => formatValue(Number(value))}
+                      contentStyle={{ borderRadius: "8px" }}
+                    />
+                    <Legend />
+                    {chart.lines.map((line) => (
+                      <Line
+                        key={line.key}
+                        type="linear"
+                        dataKey={line.key}
+                        name={line.name}
+                        stroke={line.color}
+                        strokeDasharray={line.dashed ? "5 5" : undefined}
+                        dot={!line.dashed}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
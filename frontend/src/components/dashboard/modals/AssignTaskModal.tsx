@@ -2,12 +2,14 @@ import { useForm } from "react-hook-form";
 import { Button } from "@/components/ui";
 import { ErrorMessage } from "@/components";
 import type { User } from "@/types/user";
+import type { TaskStatus } from "@/types/task";
+import { useWorkflow } from "@/hooks/useWorkflow";
 
 interface AssignTaskForm {
   title: string;
   description?: string;
   userId: string;
-  status: "todo" | "in-progress" | "in-review" | "completed";
+  status: TaskStatus;
   priority?: "low" | "medium" | "high";
   dueDate?: string | null;
 }
@@ -29,6 +31,7 @@ export const AssignTaskModal = ({
   isLoading,
   error,
 }: AssignTaskModalProps) => {
+  const { workflow, initialStatus } = useWorkflow();
   const {
     register,
     handleSubmit,
@@ -116,13 +119,14 @@ export const AssignTaskModal = ({
             <select
               {...register("status", { required: true })}
               id="taskStatus"
-              defaultValue="todo"
+              defaultValue={initialStatus}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all"
             >
-              <option value="todo">To Do</option>
-              <option value="in-progress">In Progress</option>
-              <option value="in-review">In Review</option>
-              <option value="completed">Completed</option>
+              {workflow.map((status) => (
+                <option key={status.key} value={status.key}>
+                  {status.label}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { getErrorMessage } from "@/types/errors";
+import type {
+  CustomFieldDefinition,
+  CustomFieldType,
+} from "@/types/customField";
+
+const FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Select" },
+  { value: "user", label: "User" },
+];
+
+// "Story Points" -> "story_points"
+const toFieldKey = (label: string) =>
+  label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 30);
+
+type DraftField = CustomFieldDefinition & {
+  isNew?: boolean;
+  // Comma-separated while editing
+  optionsText: string;
+};
+
+const toDraft = (field: CustomFieldDefinition): DraftField => ({
+  ...field,
+  optionsText: field.options.join(", "),
+});
+
+interface CustomFieldEditorProps {
+  initial: CustomFieldDefinition[];
+  onSave: (fields: CustomFieldDefinition[]) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+const CustomFieldEditor = ({
+  initial,
+  onSave,
+  isSaving,
+}: CustomFieldEditorProps) => {
+  const [fields, setFields] = useState<DraftField[]>(initial.map(toDraft));
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const update = (index: number, changes: Partial<DraftField>) => {
+    setFields(
+      fields.map((field, i) => {
+        if (i !== index) return field;
+        const next = { ...field, ...changes };
+        // Values are stored by key, so only new fields follow the label
+        if (field.isNew && changes.label !== undefined) {
+          next.key = toFieldKey(changes.label);
+        }
+        return next;
+      }),
+    );
+    setSuccess(null);
+  };
+
+  const handleAdd = () => {
+    setFields([
+      ...fields,
+      {
+        key: "",
+        label: "",
+        type: "text",
+        options: [],
+        required: false,
+        optionsText: "",
+        isNew: true,
+      },
+    ]);
+    setSuccess(null);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSuccess(null);
+    try {
+      await onSave(
+        fields.map(({ key, label, type, required, optionsText }) => ({
+          key,
+          label: label.trim(),
+          type,
+          required,
+          options:
+            type === "select"
+              ? optionsText
+                  .split(",")
+                  .map((option) => option.trim())
+                  .filter(Boolean)
+              : [],
+        })),
+      );
+      setFields((current) => current.map((f) => ({ ...f, isNew: false })));
+      setSuccess("Custom fields saved");
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {fields.length === 0 && (
+          <p className="text-sm text-gray-400">No custom fields yet.</p>
+        )}
+        {fields.map((field, index) => (
+          <div
+            key={field.isNew ? `new-${index}` : field.key}
+            className="flex flex-wrap items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg"
+          >
+            <input
+              value={field.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+              maxLength={40}
+              placeholder="Field name"
+              className="flex-1 min-w-[10rem] h-8 px-2 text-sm border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+            />
+            <code className="text-xs text-gray-400 w-28 truncate">
+              {field.key || "key"}
+            </code>
+
+            <select
+              value={field.type}
+              onChange={(e) =>
+                update(index, { type: e.target.value as CustomFieldType })
+              }
+              className="h-8 px-2 text-xs border border-gray-200 rounded-md"
+            >
+              {FIELD_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={field.required}
+                onChange={(e) => update(index, { required: e.target.checked })}
+              />
+              Required
+            </label>
+
+            <button
+              onClick={() => {
+                setFields(fields.filter((_, i) => i !== index));
+                setSuccess(null);
+              }}
+              className="text-xs text-gray-400 hover:text-red-600"
+            >
+              Remove
+            </button>
+
+            {field.type === "select" && (
+              <input
+                value={field.optionsText}
+                onChange={(e) => update(index, { optionsText: e.target.value })}
+                placeholder="Options, separated by commas"
+                className="basis-full h-8 px-2 text-xs border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Removing a field, changing its type or dropping a select option clears
+        the affected values on existing tasks.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {success && <p className="text-sm text-green-600">{success}</p>}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={handleAdd}>
+          + Add Field
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Fields"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const CustomFieldSettings = () => {
+  const { fields, isLoading, updateFields, isUpdating } = useCustomFields();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Custom Fields</h2>
+        <p className="text-sm text-gray-500">
+          Extra attributes shown on every task, such as story points or
+          environment.
+        </p>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading custom fields...</p>
+      ) : (
+        // Re-mount when the saved fields change so the draft starts fresh
+        <CustomFieldEditor
+          key={JSON.stringify(fields)}
+          initial={fields}
+          onSave={updateFields}
+          isSaving={isUpdating}
+        />
+      )}
+    </div>
+  );
+};
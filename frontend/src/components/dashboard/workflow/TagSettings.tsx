@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { WORKFLOW_COLOR_CLASSES } from "@/constants/task";
+import { useTags } from "@/hooks/useTags";
+import { getErrorMessage } from "@/types/errors";
+import type { Tag, TagData } from "@/types/tag";
+import type { WorkflowColor } from "@/types/workflow";
+
+const COLORS = Object.keys(WORKFLOW_COLOR_CLASSES) as WorkflowColor[];
+
+const inputClass =
+  "flex-1 min-w-[10rem] h-8 px-2 text-sm border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+interface TagRowProps {
+  tag: Tag;
+  onUpdate: (data: Partial<TagData>) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+const TagRow = ({ tag, onUpdate, onDelete }: TagRowProps) => {
+  const [name, setName] = useState(tag.name);
+
+  const handleRename = () => {
+    if (name.trim() && name.trim() !== tag.name) {
+      void onUpdate({ name: name.trim() });
+    } else {
+      setName(tag.name);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg">
+      <span
+        className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${
+          WORKFLOW_COLOR_CLASSES[tag.color].badge
+        }`}
+      >
+        {tag.name}
+      </span>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleRename}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        maxLength={30}
+        className={inputClass}
+      />
+      <select
+        value={tag.color}
+        onChange={(e) => onUpdate({ color: e.target.value as WorkflowColor })}
+        className="h-8 px-2 text-xs border border-gray-200 rounded-md"
+      >
+        {COLORS.map((color) => (
+          <option key={color} value={color}>
+            {color}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onDelete}
+        className="text-xs text-gray-400 hover:text-red-600"
+      >
+        Delete
+      </button>
+    </div>
+  );
+};
+
+export const TagSettings = () => {
+  const { tags, isLoading, createTag, updateTag, deleteTag } = useTags();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<WorkflowColor>("gray");
+  const [error, setError] = useState<string | null>(null);
+
+  // Surface server errors (e.g. duplicate names) inline
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err));
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    if (await run(() => createTag({ name: name.trim(), color }))) {
+      setName("");
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (
+      !window.confirm(
+        `Delete the "${tag.name}" label? It will be removed from every task.`,
+      )
+    ) {
+      return;
+    }
+    await run(() => deleteTag(tag.id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Labels</h2>
+        <p className="text-sm text-gray-500">
+          Shared tags your team can put on tasks and filter the board by.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading labels...</p>
+      ) : (
+        <div className="space-y-2">
+          {tags.length === 0 && (
+            <p className="text-sm text-gray-400">No labels yet.</p>
+          )}
+          {tags.map((tag) => (
+            // Re-mount after a rename so the input shows the saved name
+            <TagRow
+              key={`${tag.id}-${tag.name}`}
+              tag={tag}
+              onUpdate={async (data) => {
+                await run(() => updateTag(tag.id, data));
+              }}
+              onDelete={() => handleDelete(tag)}
+            />
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+          maxLength={30}
+          placeholder="New label name"
+          className={inputClass}
+        />
+        <select
+          value={color}
+          onChange={(e) => setColor(e.target.value as WorkflowColor)}
+          className="h-8 px-2 text-xs border border-gray-200 rounded-md"
+        >
+          {COLORS.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          onClick={handleCreate}
+          disabled={!name.trim()}
+        >
+          + Add Label
+        </Button>
+      </div>
+    </div>
+  );
+};
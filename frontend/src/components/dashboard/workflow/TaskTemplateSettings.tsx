@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { PRIORITY_LABELS } from "@/constants/task";
+import { useTaskTemplates } from "@/hooks/useTaskTemplates";
+import { getErrorMessage } from "@/types/errors";
+import type { TaskPriority } from "@/types/task";
+import type { TaskTemplate, TemplateAssigneeRole } from "@/types/taskTemplate";
+
+const inputClass =
+  "w-full h-8 px-2 text-sm border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+const ASSIGNEE_ROLE_LABELS: Record<TemplateAssigneeRole, string> = {
+  creator: "Whoever creates it",
+  tenantAdmin: "Tenant admin",
+};
+
+const EMPTY_FORM = {
+  name: "",
+  titlePattern: "",
+  description: "",
+  priority: "medium" as TaskPriority,
+  assigneeRole: "creator" as TemplateAssigneeRole,
+  dueOffsetDays: "",
+  subtasks: "",
+};
+
+const describeTemplate = (template: TaskTemplate) =>
+  [
+    PRIORITY_LABELS[template.priority],
+    ASSIGNEE_ROLE_LABELS[template.assigneeRole],
+    template.dueOffsetDays !== null && `due +${template.dueOffsetDays}d`,
+    template.subtasks.length > 0 && `${template.subtasks.length} subtasks`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+export const TaskTemplateSettings = () => {
+  const { templates, isLoading, createTemplate, deleteTemplate } =
+    useTaskTemplates();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<typeof EMPTY_FORM>) =>
+    setForm({ ...form, ...changes });
+
+  // Surface server errors (e.g. duplicate names) inline
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err));
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim() || !form.titlePattern.trim()) return;
+    const created = await run(() =>
+      createTemplate({
+        name: form.name.trim(),
+        titlePattern: form.titlePattern.trim(),
+        description: form.description.trim(),
+        priority: form.priority,
+        assigneeRole: form.assigneeRole,
+        dueOffsetDays:
+          form.dueOffsetDays === "" ? null : Number(form.dueOffsetDays),
+        // One subtask per line
+        subtasks: form.subtasks
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean),
+      }),
+    );
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    await run(() => deleteTemplate(template.id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Task Templates</h2>
+        <p className="text-sm text-gray-500">
+          Reusable tasks for repeatable work. Titles, descriptions and subtasks
+          can use {"{{date}}"}, {"{{sprint}}"}, {"{{assignee}}"} or your own
+          variables.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading templates...</p>
+      ) : (
+        <div className="space-y-2">
+          {templates.length === 0 && (
+            <p className="text-sm text-gray-400">No templates yet.</p>
+          )}
+          {templates.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center justify-between gap-3 p-3 bg-white border border-gray-200 rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {template.name}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {template.titlePattern} — {describeTemplate(template)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(template)}
+                className="text-xs text-gray-400 hover:text-red-600"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <input
+          value={form.name}
+          onChange={(e) => update({ name: e.target.value })}
+          maxLength={50}
+          placeholder="Template name, e.g. Release checklist"
+          className={inputClass}
+        />
+        <input
+          value={form.titlePattern}
+          onChange={(e) => update({ titlePattern: e.target.value })}
+          maxLength={200}
+          placeholder="Title, e.g. Release {{version}} ({{date}})"
+          className={inputClass}
+        />
+        <select
+          value={form.priority}
+          onChange={(e) => update({ priority: e.target.value as TaskPriority })}
+          className={inputClass}
+        >
+          {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label} priority
+            </option>
+          ))}
+        </select>
+        <select
+          value={form.assigneeRole}
+          onChange={(e) =>
+            update({ assigneeRole: e.target.value as TemplateAssigneeRole })
+          }
+          className={inputClass}
+        >
+          {Object.entries(ASSIGNEE_ROLE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              Assign to: {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          max={365}
+          value={form.dueOffsetDays}
+          onChange={(e) => update({ dueOffsetDays: e.target.value })}
+          placeholder="Due after (days), empty for tomorrow"
+          className={inputClass}
+        />
+        <textarea
+          value={form.description}
+          onChange={(e) => update({ description: e.target.value })}
+          maxLength={2000}
+          rows={2}
+          placeholder="Description"
+          className={`${inputClass} h-auto py-1`}
+        />
+        <textarea
+          value={form.subtasks}
+          onChange={(e) => update({ subtasks: e.target.value })}
+          rows={3}
+          placeholder="Subtasks, one per line"
+          className={`${inputClass} h-auto py-1`}
+        />
+      </div>
+      <Button
+        variant="outline"
+        onClick={handleCreate}
+        disabled={!form.name.trim() || !form.titlePattern.trim()}
+      >
+        + Add Template
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { ANY_STATUS, WORKFLOW_COLOR_CLASSES } from "@/constants/task";
+import { getErrorMessage } from "@/types/errors";
+import type {
+  WorkflowColor,
+  WorkflowConfig,
+  WorkflowStatus,
+  WorkflowTransition,
+} from "@/types/workflow";
+
+const COLORS = Object.keys(WORKFLOW_COLOR_CLASSES) as WorkflowColor[];
+
+// "Ready for QA" -> "ready-for-qa"
+const toStatusKey = (label: string) =>
+  label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^[^a-z]+|-+$/g, "")
+    .slice(0, 30);
+
+type DraftStatus = WorkflowStatus & { isNew?: boolean };
+
+interface WorkflowEditorProps {
+  initial: WorkflowConfig;
+  onSave: (config: WorkflowConfig) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+const WorkflowEditor = ({ initial, onSave, isSaving }: WorkflowEditorProps) => {
+  const [statuses, setStatuses] = useState<DraftStatus[]>(initial.workflow);
+  const [rules, setRules] = useState<WorkflowTransition[]>(initial.transitions);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const update = (index: number, changes: Partial<DraftStatus>) => {
+    setStatuses(
+      statuses.map((status, i) => {
+        if (i !== index) return status;
+        const next = { ...status, ...changes };
+        // Keys of saved statuses are stored on tasks, so only new ones follow the label
+        if (status.isNew && changes.label !== undefined) {
+          next.key = toStatusKey(changes.label);
+        }
+        return next;
+      }),
+    );
+    setSuccess(null);
+  };
+
+  // Only one open column asks for a review
+  const setReview = (index: number, review: boolean) => {
+    setStatuses(
+      statuses.map((status, i) => ({
+        ...status,
+        review: i === index ? review : review ? false : status.review,
+      })),
+    );
+    setSuccess(null);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= statuses.length) return;
+    const next = [...statuses];
+    [next[index], next[target]] = [next[target], next[index]];
+    setStatuses(next);
+    setSuccess(null);
+  };
+
+  const handleAdd = () => {
+    setStatuses([
+      ...statuses,
+      { key: "", label: "", category: "open", color: "gray", isNew: true },
+    ]);
+    setSuccess(null);
+  };
+
+  const updateRule = (index: number, changes: Partial<WorkflowTransition>) => {
+    setRules(
+      rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    );
+    setSuccess(null);
+  };
+
+  const handleAddRule = () => {
+    const [first, second] = statuses;
+    setRules([
+      ...rules,
+      { from: first.key, to: second?.key || ANY_STATUS, roles: [] },
+    ]);
+    setSuccess(null);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSuccess(null);
+    // Rules pointing at removed columns go with them
+    const keys = [ANY_STATUS, ...statuses.map((s) => s.key)];
+    try {
+      await onSave({
+        workflow: statuses.map(({ key, label, category, color, review }) => ({
+          key,
+          label: label.trim(),
+          category,
+          color,
+          review: category === "open" && !!review,
+        })),
+        transitions: rules.filter(
+          (rule) => keys.includes(rule.from) && keys.includes(rule.to),
+        ),
+      });
+      setStatuses((current) => current.map((s) => ({ ...s, isNew: false })));
+      setSuccess("Workflow saved");
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {statuses.map((status, index) => (
+          <div
+            key={status.isNew ? `new-${index}` : status.key}
+            className="flex flex-wrap items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg"
+          >
+            <div className="flex flex-col">
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-gray-700 disabled:opacity-30 text-xs"
+                title="Move left"
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === statuses.length - 1}
+                className="text-gray-400 hover:text-gray-700 disabled:opacity-30 text-xs"
+                title="Move right"
+              >
+                ▼
+              </button>
+            </div>
+
+            <span
+              className={`w-3 h-3 rounded-full ${WORKFLOW_COLOR_CLASSES[status.color].dot}`}
+            />
+
+            <input
+              value={status.label}
+              onChange={(e) => update(index, { label: e.target.value })}
+              maxLength={40}
+              placeholder="Column name"
+              className="flex-1 min-w-[10rem] h-8 px-2 text-sm border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+            />
+            <code className="text-xs text-gray-400 w-28 truncate">
+              {status.key || "key"}
+            </code>
+
+            <select
+              value={status.category}
+              onChange={(e) =>
+                update(index, {
+                  category: e.target.value as DraftStatus["category"],
+                })
+              }
+              className="h-8 px-2 text-xs border border-gray-200 rounded-md"
+            >
+              <option value="open">Open</option>
+              <option value="done">Done</option>
+            </select>
+
+            <select
+              value={status.color}
+              onChange={(e) =>
+                update(index, { color: e.target.value as WorkflowColor })
+              }
+              className="h-8 px-2 text-xs border border-gray-200 rounded-md capitalize"
+            >
+              {COLORS.map((color) => (
+                <option key={color} value={color}>
+                  {color}
+                </option>
+              ))}
+            </select>
+
+            <label className="flex items-center gap-1.5 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={status.category === "open" && !!status.review}
+                onChange={(e) => setReview(index, e.target.checked)}
+                disabled={status.category !== "open"}
+              />
+              Review
+            </label>
+
+            <button
+              onClick={() => {
+                setStatuses(statuses.filter((_, i) => i !== index));
+                setSuccess(null);
+              }}
+              disabled={statuses.length === 1}
+              className="text-xs text-gray-400 hover:text-red-600 disabled:opacity-30"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        New tasks start in the first column. Tasks in a "Done" column count as
+        completed in analytics, notifications and dependencies. Moving a task
+        into the "Review" column asks its reviewer for a review. Columns that
+        still contain tasks cannot be removed.
+      </p>
+
+      <div className="space-y-2 pt-2">
+        <h3 className="text-sm font-semibold text-gray-900">Allowed moves</h3>
+        <p className="text-xs text-gray-500">
+          Without rules tasks can move between any columns. Once you add one,
+          only the listed moves are allowed.
+        </p>
+        {rules.map((rule, index) => (
+          <div
+            key={index}
+            className="flex flex-wrap items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg text-xs"
+          >
+            <select
+              value={rule.from}
+              onChange={(e) => updateRule(index, { from: e.target.value })}
+              className="h-8 px-2 border border-gray-200 rounded-md"
+            >
+              <option value={ANY_STATUS}>Any column</option>
+              {statuses.map((status) => (
+                <option key={status.key} value={status.key}>
+                  {status.label || status.key}
+                </option>
+              ))}
+            </select>
+            <span className="text-gray-400">→</span>
+            <select
+              value={rule.to}
+              onChange={(e) => updateRule(index, { to: e.target.value })}
+              className="h-8 px-2 border border-gray-200 rounded-md"
+            >
+              <option value={ANY_STATUS}>Any column</option>
+              {statuses.map((status) => (
+                <option key={status.key} value={status.key}>
+                  {status.label || status.key}
+                </option>
+              ))}
+            </select>
+            <select
+              value={rule.roles.length > 0 ? "admins" : "everyone"}
+              onChange={(e) =>
+                updateRule(index, {
+                  roles: e.target.value === "admins" ? ["tenantAdmin"] : [],
+                })
+              }
+              className="h-8 px-2 border border-gray-200 rounded-md"
+            >
+              <option value="everyone">Everyone</option>
+              <option value="admins">Admins only</option>
+            </select>
+            <button
+              onClick={() => {
+                setRules(rules.filter((_, i) => i !== index));
+                setSuccess(null);
+              }}
+              className="ml-auto text-gray-400 hover:text-red-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <Button variant="outline" onClick={handleAddRule}>
+          + Add Rule
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {success && <p className="text-sm text-green-600">{success}</p>}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={handleAdd}>
+          + Add Column
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Workflow"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const WorkflowSettings = () => {
+  const { workflow, transitions, isLoading, updateWorkflow, isUpdating } =
+    useWorkflow();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Task Workflow</h2>
+        <p className="text-sm text-gray-500">
+          The columns of your task board, from left to right.
+        </p>
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading workflow...</p>
+      ) : (
+        // Re-mount when the saved workflow changes so the draft starts fresh
+        <WorkflowEditor
+          key={JSON.stringify([workflow.map((s) => s.key), transitions])}
+          initial={{ workflow, transitions }}
+          onSave={updateWorkflow}
+          isSaving={isUpdating}
+        />
+      )}
+    </div>
+  );
+};
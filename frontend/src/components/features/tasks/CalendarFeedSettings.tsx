@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { calendarService } from "@/services/api";
+import { getErrorMessage } from "@/types/errors";
+import type { CalendarFeed } from "@/types/calendar";
+import { formatDateIST } from "@/utils/date";
+
+/**
+ * The user's calendar subscription: a secret URL calendar apps poll for
+ * their open tasks and the current sprint
+ */
+export const CalendarFeedSettings = () => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    calendarService
+      .getFeed()
+      .then(setFeed)
+      .catch((err) => toast.error(getErrorMessage(err)));
+  }, []);
+
+  const run = async (action: () => Promise<CalendarFeed>) => {
+    setIsSaving(true);
+    try {
+      setFeed(await action());
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (
+      feed?.enabled &&
+      !window.confirm(
+        "Calendars subscribed to the current link will stop updating. Continue?",
+      )
+    ) {
+      return;
+    }
+    run(calendarService.regenerateFeed);
+  };
+
+  const handleCopy = async () => {
+    if (!feed?.url) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success("Calendar link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  if (!feed) {
+    return <p className="px-4 py-2 text-xs text-gray-400">Loading...</p>;
+  }
+
+  return (
+    <div className="px-4 py-3 space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+        Calendar subscription
+      </p>
+
+      {feed.url ? (
+        <>
+          <input
+            readOnly
+            value={feed.url}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-2 py-1 text-xs border border-gray-200 rounded-lg bg-gray-50 text-gray-700"
+          />
+          <p className="text-xs text-gray-500">
+            Copy it now, the link is only shown once.
+          </p>
+          <button
+            onClick={handleCopy}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            Copy link
+          </button>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {feed.enabled
+            ? `Active since ${formatDateIST(feed.createdAt)}`
+            : "Add your due dates to Google Calendar, Outlook or Apple Calendar."}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleRegenerate}
+          disabled={isSaving}
+          className="text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          {feed.enabled ? "New link" : "Create link"}
+        </button>
+        {feed.enabled && (
+          <button
+            onClick={() => run(calendarService.revokeFeed)}
+            disabled={isSaving}
+            className="text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            Turn off
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,19 +2,32 @@ import { useEffect, useState } from "react";
 import { toast } from "react-hot-toast";
 import { Button } from "@/components/ui/button";
 import { sprintService } from "@/services/api/sprintService";
-import type { Sprint, SprintStatus } from "@/types/sprint";
+import { analyticsService } from "@/services/api/analyticsService";
+import type { VelocityReport } from "@/services/api/analyticsService";
+import type { Sprint, SprintWorkSummary } from "@/types/sprint";
+import type { User } from "@/types/user";
+import { formatMinutes } from "@/utils/date";
+import { SprintReviewPanel } from "./SprintReviewPanel";
 
 const formatDateInput = (value: Date | string) =>
   new Date(value).toISOString().split("T")[0];
 
+const formatWork = (work: SprintWorkSummary) =>
+  work.estimateMinutes > 0
+    ? `${work.tasks} tasks (${formatMinutes(work.estimateMinutes)})`
+    : `${work.tasks} tasks`;
+
 interface ManageSprintsModalProps {
   onClose: () => void;
   onSprintsChange?: () => void;
+  // Members of the tenant, for planning capacity
+  users?: User[];
 }
 
 export const ManageSprintsModal = ({
   onClose,
   onSprintsChange,
+  users = [],
 }: ManageSprintsModalProps) => {
   const today = formatDateInput(new Date());
   const [sprints, setSprints] = useState<Sprint[]>([]);
@@ -29,8 +42,24 @@ export const ManageSprintsModal = ({
     name: string;
     startDate: string;
     endDate: string;
-    status: SprintStatus;
-  }>({ name: "", startDate: today, endDate: today, status: "planned" });
+  }>({ name: "", startDate: today, endDate: today });
+  // Sprint being completed and where its unfinished tasks go ("" = backlog)
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [nextSprintId, setNextSprintId] = useState("");
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [velocity, setVelocity] = useState<VelocityReport | null>(null);
+  // Sprint whose capacity is being planned, percent per member id
+  const [capacityId, setCapacityId] = useState<string | null>(null);
+  // Sprint whose goals and retrospective are open
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [capacityValues, setCapacityValues] = useState<Record<string, number>>(
+    {},
+  );
+
+  const activeSprint = sprints.find((sprint) => sprint.status === "active");
+  const plannedSprints = sprints.filter(
+    (sprint) => sprint.status === "planned",
+  );
 
   useEffect(() => {
     void loadSprints();
@@ -41,6 +70,11 @@ export const ManageSprintsModal = ({
       setLoading(true);
       const data = await sprintService.getSprints();
       setSprints(data);
+      // Velocity only adds warnings, sprints work without it
+      analyticsService
+        .getVelocity()
+        .then(setVelocity)
+        .catch((error) => console.error("Failed to load velocity", error));
     } catch (error: unknown) {
       console.error("Failed to load sprints", error);
       toast.error("Failed to load sprints");
@@ -105,7 +139,6 @@ export const ManageSprintsModal = ({
       name: sprint.name,
       startDate: formatDateInput(sprint.startDate),
       endDate: formatDateInput(sprint.endDate),
-      status: sprint.status,
     });
   };
 
@@ -127,7 +160,6 @@ export const ManageSprintsModal = ({
         name: editValues.name,
         startDate: editValues.startDate,
         endDate: editValues.endDate,
-        status: editValues.status,
       });
       toast.success("Sprint updated");
       setEditingId(null);
@@ -143,6 +175,94 @@ export const ManageSprintsModal = ({
     }
   };
 
+  // Tenant members and anyone who delivered in recent sprints
+  const capacityMembers = [
+    ...users.map((member) => ({
+      id: (member.id || member._id)!,
+      name: member.name,
+    })),
+    ...(velocity?.throughput ?? [])
+      .filter((member) => !users.some((u) => (u.id || u._id) === member.userId))
+      .map((member) => ({
+        id: member.userId,
+        name: member.name || member.email || "Former member",
+      })),
+  ];
+
+  const startPlanningCapacity = (sprint: Sprint) => {
+    setCapacityId(sprint.id);
+    setCapacityValues(
+      Object.fromEntries(
+        sprint.capacity.map((entry) => [entry.userId, entry.percent]),
+      ),
+    );
+  };
+
+  const handleSaveCapacity = async () => {
+    if (!capacityId) return;
+
+    try {
+      setIsSaving(true);
+      await sprintService.updateCapacity(
+        capacityId,
+        // Fully available members need no entry
+        Object.entries(capacityValues)
+          .filter(([, percent]) => percent !== 100)
+          .map(([userId, percent]) => ({ userId, percent })),
+      );
+      toast.success("Capacity updated");
+      setCapacityId(null);
+      await loadSprints();
+    } catch (error: unknown) {
+      console.error("Failed to update capacity", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update capacity";
+      toast.error(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStart = async (sprint: Sprint) => {
+    try {
+      setIsChangingStatus(true);
+      await sprintService.startSprint(sprint.id);
+      toast.success(`${sprint.name} started`);
+      await loadSprints();
+      if (onSprintsChange) onSprintsChange();
+    } catch (error: unknown) {
+      console.error("Failed to start sprint", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to start sprint";
+      toast.error(message);
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!completingId) return;
+
+    try {
+      setIsChangingStatus(true);
+      const { message } = await sprintService.completeSprint(
+        completingId,
+        nextSprintId || null,
+      );
+      toast.success(message || "Sprint completed");
+      setCompletingId(null);
+      await loadSprints();
+      if (onSprintsChange) onSprintsChange();
+    } catch (error: unknown) {
+      console.error("Failed to complete sprint", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to complete sprint";
+      toast.error(message);
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
@@ -226,6 +346,147 @@ export const ManageSprintsModal = ({
             <h3 className="font-semibold text-gray-900 text-sm uppercase tracking-wide">
               Existing Sprints
             </h3>
+            {completingId && (
+              <div className="space-y-3 p-4 rounded-xl border border-amber-200 bg-amber-50">
+                <p className="text-sm font-medium text-gray-900">
+                  Complete{" "}
+                  {sprints.find((sprint) => sprint.id === completingId)?.name}
+                </p>
+                <label className="block text-xs font-medium text-gray-500">
+                  Move unfinished tasks to
+                  <select
+                    value={nextSprintId}
+                    onChange={(e) => setNextSprintId(e.target.value)}
+                    className="mt-1 w-full h-10 px-3 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none bg-white"
+                  >
+                    {plannedSprints.map((sprint) => (
+                      <option key={sprint.id} value={sprint.id}>
+                        {sprint.name}
+                      </option>
+                    ))}
+                    <option value="">Backlog</option>
+                  </select>
+                </label>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setCompletingId(null)}
+                    className="border-gray-200 text-gray-700 bg-white"
+                    disabled={isChangingStatus}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleComplete}
+                    className="bg-gray-900 text-white hover:bg-gray-800"
+                    disabled={isChangingStatus}
+                  >
+                    {isChangingStatus ? "Completing..." : "Complete Sprint"}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {reviewingId &&
+              (() => {
+                const reviewing = sprints.find(
+                  (sprint) => sprint.id === reviewingId,
+                );
+                return (
+                  reviewing && (
+                    <SprintReviewPanel
+                      key={reviewing.id}
+                      sprint={reviewing}
+                      users={users}
+                      onClose={() => setReviewingId(null)}
+                      onSprintChange={(updated) =>
+                        setSprints((prev) =>
+                          prev.map((sprint) =>
+                            sprint.id === updated.id ? updated : sprint,
+                          ),
+                        )
+                      }
+                      onTasksChange={() => {
+                        void loadSprints();
+                        if (onSprintsChange) onSprintsChange();
+                      }}
+                    />
+                  )
+                );
+              })()}
+            {capacityId && (
+              <div className="space-y-3 p-4 rounded-xl border border-blue-200 bg-blue-50">
+                <p className="text-sm font-medium text-gray-900">
+                  Capacity for{" "}
+                  {sprints.find((sprint) => sprint.id === capacityId)?.name}
+                </p>
+                {capacityMembers.length === 0 ? (
+                  <p className="text-xs text-gray-500">No members to plan.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {capacityMembers.map((member) => {
+                      const usual = velocity?.throughput.find(
+                        (t) => t.userId === member.id,
+                      );
+                      return (
+                        <li
+                          key={member.id}
+                          className="flex items-center justify-between gap-3"
+                        >
+                          <span className="text-sm text-gray-700">
+                            {member.name}
+                            {usual && (
+                              <span className="block text-xs text-gray-400">
+                                Usually {usual.perSprint.tasks} tasks per sprint
+                              </span>
+                            )}
+                          </span>
+                          <label className="flex items-center gap-1 text-sm text-gray-500">
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step={10}
+                              value={capacityValues[member.id] ?? 100}
+                              onChange={(e) =>
+                                setCapacityValues((prev) => ({
+                                  ...prev,
+                                  [member.id]: Math.min(
+                                    100,
+                                    Math.max(
+                                      0,
+                                      Math.round(Number(e.target.value)),
+                                    ),
+                                  ),
+                                }))
+                              }
+                              className="w-20 h-9 px-2 rounded-lg border border-gray-200 text-sm bg-white"
+                            />
+                            %
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setCapacityId(null)}
+                    className="border-gray-200 text-gray-700 bg-white"
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleSaveCapacity}
+                    className="bg-gray-900 text-white hover:bg-gray-800"
+                    disabled={isSaving}
+                  >
+                    {isSaving ? "Saving..." : "Save Capacity"}
+                  </Button>
+                </div>
+              </div>
+            )}
             {loading ? (
               <div className="text-center py-8 text-gray-500">
                 <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
@@ -246,7 +507,7 @@ export const ManageSprintsModal = ({
                   >
                     {editingId === sprint.id ? (
                       <div className="w-full space-y-4">
-                        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                           <input
                             type="text"
                             value={editValues.name}
@@ -280,20 +541,6 @@ export const ManageSprintsModal = ({
                             }
                             className="w-full h-10 px-3 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none"
                           />
-                          <select
-                            value={editValues.status}
-                            onChange={(e) =>
-                              setEditValues((prev) => ({
-                                ...prev,
-                                status: e.target.value as SprintStatus,
-                              }))
-                            }
-                            className="w-full h-10 px-3 rounded-lg border border-gray-200 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none bg-white"
-                          >
-                            <option value="planned">Planned</option>
-                            <option value="active">Active</option>
-                            <option value="completed">Completed</option>
-                          </select>
                         </div>
                         <div className="flex justify-end gap-2">
                           <Button
@@ -340,9 +587,81 @@ export const ManageSprintsModal = ({
                             <span className="w-1 h-1 bg-gray-300 rounded-full"></span>
                             <span>{sprint.taskCount} tasks</span>
                           </div>
+                          {sprint.completion && (
+                            <div className="text-xs text-gray-500">
+                              Delivered {sprint.completion.delivered.tasks} of{" "}
+                              {sprint.completion.committed.tasks} committed
+                              {sprint.completion.added.tasks > 0 &&
+                                ` (+${sprint.completion.added.tasks} added)`}
+                              , {sprint.completion.carriedOver.tasks} carried
+                              over
+                            </div>
+                          )}
+                          {sprint.goals.length > 0 && (
+                            <div className="text-xs text-gray-500">
+                              {sprint.status === "planned"
+                                ? `${sprint.goals.length} goals`
+                                : `${sprint.goals.filter((goal) => goal.achieved).length} of ${sprint.goals.length} goals achieved`}
+                            </div>
+                          )}
+                          {(() => {
+                            const plan = velocity?.planned.find(
+                              (p) => p.sprintId === sprint.id,
+                            );
+                            return (
+                              plan?.overCommitted && (
+                                <div className="text-xs font-medium text-amber-700">
+                                  ⚠ {formatWork(plan.committed)} planned, above
+                                  the expected {formatWork(plan.forecast)} (
+                                  {velocity!.average.tasks} tasks per sprint on
+                                  average)
+                                </div>
+                              )
+                            );
+                          })()}
                         </div>
 
                         <div className="flex items-center gap-2">
+                          {sprint.status === "planned" && (
+                            <button
+                              onClick={() => handleStart(sprint)}
+                              disabled={isChangingStatus || !!activeSprint}
+                              title={
+                                activeSprint
+                                  ? `Complete ${activeSprint.name} first`
+                                  : undefined
+                              }
+                              className="px-3 py-1.5 text-xs font-semibold text-green-700 bg-green-50 hover:bg-green-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Start
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setReviewingId(sprint.id)}
+                            className="px-3 py-1.5 text-xs font-semibold text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors"
+                          >
+                            {sprint.status === "planned" ? "Goals" : "Review"}
+                          </button>
+                          {sprint.status !== "completed" && (
+                            <button
+                              onClick={() => startPlanningCapacity(sprint)}
+                              className="px-3 py-1.5 text-xs font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                            >
+                              Capacity
+                            </button>
+                          )}
+                          {sprint.status === "active" && (
+                            <button
+                              onClick={() => {
+                                setCompletingId(sprint.id);
+                                setNextSprintId(plannedSprints[0]?.id ?? "");
+                              }}
+                              disabled={isChangingStatus}
+                              className="px-3 py-1.5 text-xs font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              Complete
+                            </button>
+                          )}
                           <button
                             onClick={() => startEditing(sprint)}
                             className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuthStore } from "@/store";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { getErrorMessage } from "@/types/errors";
+import type { SavedView, SavedViewData } from "@/types/savedView";
+
+interface SavedViewSwitcherProps {
+  activeViewId: string | null;
+  // The page's current filters, sort, grouping and mode
+  current: Omit<SavedViewData, "name" | "visibility">;
+  onApply: (view: SavedView | null) => void;
+}
+
+export const SavedViewSwitcher = ({
+  activeViewId,
+  current,
+  onApply,
+}: SavedViewSwitcherProps) => {
+  const { user } = useAuthStore();
+  const {
+    views,
+    defaultViewId,
+    createView,
+    updateView,
+    deleteView,
+    setDefaultView,
+  } = useSavedViews();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+  const personalViews = views.filter((view) => view.visibility === "personal");
+  const sharedViews = views.filter((view) => view.visibility === "shared");
+
+  const isAdmin = user?.role === "tenantAdmin" || user?.role === "superadmin";
+  const canManage = (view: SavedView) =>
+    view.userId === user?.id || (view.visibility === "shared" && isAdmin);
+
+  // Close on outside click
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err));
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    await run(async () => {
+      const view = await createView({
+        ...current,
+        name: name.trim(),
+        visibility: shared ? "shared" : "personal",
+      });
+      setName("");
+      setShared(false);
+      onApply(view);
+    });
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!window.confirm(`Delete the "${view.name}" view?`)) return;
+    if (await run(() => deleteView(view.id))) {
+      if (view.id === activeViewId) onApply(null);
+    }
+  };
+
+  const renderView = (view: SavedView) => (
+    <li
+      key={view.id}
+      className={`group flex items-center gap-2 px-3 py-1.5 text-sm ${
+        view.id === activeViewId ? "bg-blue-50 text-blue-700" : ""
+      }`}
+    >
+      <button
+        onClick={() => {
+          onApply(view);
+          setIsOpen(false);
+        }}
+        className="flex-1 text-left truncate"
+      >
+        {view.name}
+      </button>
+      <button
+        onClick={() =>
+          run(() => setDefaultView(view.isDefault ? null : view.id))
+        }
+        title={view.isDefault ? "Your default view" : "Open with this view"}
+        className={`text-xs ${
+          view.isDefault
+            ? "text-amber-500"
+            : "text-gray-300 opacity-0 group-hover:opacity-100 hover:text-amber-500"
+        }`}
+      >
+        ★
+      </button>
+      {canManage(view) && (
+        <button
+          onClick={() => handleDelete(view)}
+          title="Delete view"
+          className="text-xs text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-600"
+        >
+          ✕
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-9 px-3 flex items-center gap-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span className="text-gray-400">View:</span>
+        <span className="max-w-[10rem] truncate">
+          {activeView?.name || "All tasks"}
+        </span>
+        <svg
+          className="w-4 h-4 text-gray-400"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-lg z-30">
+          <ul className="py-2 max-h-80 overflow-y-auto">
+            <li>
+              <button
+                onClick={() => {
+                  onApply(null);
+                  setIsOpen(false);
+                }}
+                className={`w-full text-left px-3 py-1.5 text-sm ${
+                  !activeViewId ? "bg-blue-50 text-blue-700" : ""
+                }`}
+              >
+                All tasks
+              </button>
+            </li>
+            {personalViews.length > 0 && (
+              <li className="px-3 pt-3 pb-1 text-[10px] font-bold text-gray-400 uppercase tracking-wide">
+                My views
+              </li>
+            )}
+            {personalViews.map(renderView)}
+            {sharedViews.length > 0 && (
+              <li className="px-3 pt-3 pb-1 text-[10px] font-bold text-gray-400 uppercase tracking-wide">
+                Shared with the team
+              </li>
+            )}
+            {sharedViews.map(renderView)}
+            {defaultViewId === null && views.length > 0 && (
+              <li className="px-3 pt-2 text-[10px] text-gray-400">
+                Star a view to open the tasks page with it.
+              </li>
+            )}
+          </ul>
+
+          <div className="p-3 space-y-2 border-t border-gray-100">
+            {activeView && canManage(activeView) && (
+              <button
+                onClick={() => run(() => updateView(activeView.id, current))}
+                className="w-full h-8 text-xs font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+              >
+                Update "{activeView.name}" with current filters
+              </button>
+            )}
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                maxLength={50}
+                placeholder="Save current as..."
+                className="flex-1 h-8 px-2 text-xs border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="h-8 px-3 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={shared}
+                onChange={(e) => setShared(e.target.checked)}
+              />
+              Share with the team
+            </label>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { sprintService } from "@/services/api/sprintService";
+import type {
+  RetrospectiveCategory,
+  Sprint,
+  SprintGoalInput,
+} from "@/types/sprint";
+import type { User } from "@/types/user";
+
+const RETRO_COLUMNS: {
+  category: RetrospectiveCategory;
+  label: string;
+  className: string;
+}[] = [
+  {
+    category: "went-well",
+    label: "Went well",
+    className: "bg-green-50 border-green-100",
+  },
+  {
+    category: "to-improve",
+    label: "To improve",
+    className: "bg-amber-50 border-amber-100",
+  },
+  {
+    category: "action-item",
+    label: "Action items",
+    className: "bg-blue-50 border-blue-100",
+  },
+];
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+interface SprintReviewPanelProps {
+  sprint: Sprint;
+  users: User[];
+  onClose: () => void;
+  onSprintChange: (sprint: Sprint) => void;
+  // Called when an action item became a task
+  onTasksChange?: () => void;
+}
+
+/**
+ * Goals, review notes and the retrospective board of one sprint. The
+ * retrospective opens once the sprint has started.
+ */
+export const SprintReviewPanel = ({
+  sprint,
+  users,
+  onClose,
+  onSprintChange,
+  onTasksChange,
+}: SprintReviewPanelProps) => {
+  const [newGoal, setNewGoal] = useState("");
+  const [reviewNotes, setReviewNotes] = useState(sprint.reviewNotes);
+  const [drafts, setDrafts] = useState<Record<RetrospectiveCategory, string>>({
+    "went-well": "",
+    "to-improve": "",
+    "action-item": "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasStarted = sprint.status !== "planned";
+
+  const authorName = (authorId: string) => {
+    const author = users.find((u) => (u.id || u._id) === authorId);
+    return author?.name || author?.email || "Former member";
+  };
+
+  const run = async (
+    action: () => Promise<Sprint>,
+    failure: string,
+    success?: string,
+  ) => {
+    try {
+      setIsSaving(true);
+      onSprintChange(await action());
+      if (success) toast.success(success);
+      return true;
+    } catch (error: unknown) {
+      console.error(failure, error);
+      toast.error(errorMessage(error, failure));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Goals are saved as a whole list
+  const saveGoals = (goals: SprintGoalInput[]) =>
+    run(
+      () => sprintService.updateGoals(sprint.id, goals),
+      "Failed to update goals",
+    );
+
+  const currentGoals = (): SprintGoalInput[] =>
+    sprint.goals.map(({ id, text, achieved }) => ({ id, text, achieved }));
+
+  const handleAddGoal = async () => {
+    if (!newGoal.trim()) return;
+    const saved = await saveGoals([
+      ...currentGoals(),
+      { text: newGoal.trim(), achieved: null },
+    ]);
+    if (saved) setNewGoal("");
+  };
+
+  const handleMarkGoal = (goalId: string, achieved: boolean) =>
+    saveGoals(
+      currentGoals().map((goal) =>
+        goal.id === goalId
+          ? // Clicking the current flag clears it
+            { ...goal, achieved: goal.achieved === achieved ? null : achieved }
+          : goal,
+      ),
+    );
+
+  const handleRemoveGoal = (goalId: string) =>
+    saveGoals(currentGoals().filter((goal) => goal.id !== goalId));
+
+  const handleSaveNotes = () =>
+    run(
+      () => sprintService.updateSprint(sprint.id, { reviewNotes }),
+      "Failed to save review notes",
+      "Review notes saved",
+    );
+
+  const handleAddItem = async (category: RetrospectiveCategory) => {
+    const text = drafts[category].trim();
+    if (!text) return;
+    const saved = await run(
+      () => sprintService.addRetrospectiveItem(sprint.id, category, text),
+      "Failed to add retrospective item",
+    );
+    if (saved) setDrafts((prev) => ({ ...prev, [category]: "" }));
+  };
+
+  const handleRemoveItem = (itemId: string) =>
+    run(
+      () => sprintService.deleteRetrospectiveItem(sprint.id, itemId),
+      "Failed to remove retrospective item",
+    );
+
+  const handleConvertItem = async (itemId: string) => {
+    try {
+      setIsSaving(true);
+      const { sprint: updated, message } =
+        await sprintService.convertActionItem(sprint.id, itemId);
+      onSprintChange(updated);
+      toast.success(message || "Action item added to the next sprint");
+      if (onTasksChange) onTasksChange();
+    } catch (error: unknown) {
+      console.error("Failed to turn the action item into a task", error);
+      toast.error(
+        errorMessage(error, "Failed to turn the action item into a task"),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5 p-4 rounded-xl border border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-900">
+          {hasStarted ? "Review of" : "Goals for"} {sprint.name}
+        </p>
+        <button
+          onClick={onClose}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          Close
+        </button>
+      </div>
+
+      <section className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+          Goals
+        </h4>
+        {sprint.goals.length === 0 && (
+          <p className="text-xs text-gray-400">No goals yet.</p>
+        )}
+        <ul className="space-y-1.5">
+          {sprint.goals.map((goal) => (
+            <li
+              key={goal.id}
+              className="flex items-center justify-between gap-3 px-3 py-2 bg-white rounded-lg border border-gray-100"
+            >
+              <span
+                className={`text-sm ${
+                  goal.achieved === false
+                    ? "text-gray-400 line-through"
+                    : "text-gray-800"
+                }`}
+              >
+                {goal.text}
+              </span>
+              <div className="flex items-center gap-1.5 shrink-0">
+                {hasStarted && (
+                  <>
+                    <button
+                      onClick={() => handleMarkGoal(goal.id, true)}
+                      disabled={isSaving}
+                      className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${
+                        goal.achieved === true
+                          ? "bg-green-600 text-white"
+                          : "bg-green-50 text-green-700 hover:bg-green-100"
+                      }`}
+                    >
+                      Achieved
+                    </button>
+                    <button
+                      onClick={() => handleMarkGoal(goal.id, false)}
+                      disabled={isSaving}
+                      className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${
+                        goal.achieved === false
+                          ? "bg-red-600 text-white"
+                          : "bg-red-50 text-red-700 hover:bg-red-100"
+                      }`}
+                    >
+                      Missed
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => handleRemoveGoal(goal.id)}
+                  disabled={isSaving}
+                  className="px-2 py-1 text-xs text-gray-400 hover:text-red-600"
+                  title="Remove goal"
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newGoal}
+            onChange={(e) => setNewGoal(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAddGoal()}
+            maxLength={200}
+            placeholder="Add a goal"
+            className="flex-1 h-9 px-3 rounded-lg border border-gray-200 text-sm bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none"
+          />
+          <Button
+            onClick={handleAddGoal}
+            className="h-9 bg-gray-900 text-white hover:bg-gray-800"
+            disabled={isSaving || !newGoal.trim()}
+          >
+            Add
+          </Button>
+        </div>
+      </section>
+
+      {hasStarted ? (
+        <>
+          <section className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Review Notes
+            </h4>
+            <textarea
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="What was shown and decided in the review"
+              className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none resize-y"
+            />
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                onClick={handleSaveNotes}
+                className="h-9 border-gray-200 text-gray-700 bg-white"
+                disabled={isSaving || reviewNotes === sprint.reviewNotes}
+              >
+                Save Notes
+              </Button>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Retrospective
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {RETRO_COLUMNS.map(({ category, label, className }) => (
+                <div
+                  key={category}
+                  className={`flex flex-col gap-2 p-3 rounded-lg border ${className}`}
+                >
+                  <p className="text-xs font-semibold text-gray-700">{label}</p>
+                  {sprint.retrospective
+                    .filter((item) => item.category === category)
+                    .map((item) => (
+                      <div
+                        key={item.id}
+                        className="p-2 bg-white rounded-md border border-gray-100 space-y-1"
+                      >
+                        <p className="text-sm text-gray-800">{item.text}</p>
+                        <div className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                          <span>{authorName(item.authorId)}</span>
+                          <span className="flex items-center gap-2">
+                            {category === "action-item" &&
+                              (item.taskId ? (
+                                <span className="font-medium text-green-700">
+                                  Task created
+                                </span>
+                              ) : (
+                                <button
+                                  onClick={() => handleConvertItem(item.id)}
+                                  disabled={isSaving}
+                                  className="font-semibold text-blue-700 hover:text-blue-900"
+                                >
+                                  Make task
+                                </button>
+                              ))}
+                            <button
+                              onClick={() => handleRemoveItem(item.id)}
+                              disabled={isSaving}
+                              className="hover:text-red-600"
+                              title="Remove item"
+                            >
+                              ✕
+                            </button>
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  <input
+                    type="text"
+                    value={drafts[category]}
+                    onChange={(e) =>
+                      setDrafts((prev) => ({
+                        ...prev,
+                        [category]: e.target.value,
+                      }))
+                    }
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && handleAddItem(category)
+                    }
+                    maxLength={200}
+                    placeholder="Add and press Enter"
+                    disabled={isSaving}
+                    className="h-8 px-2 rounded-md border border-gray-200 text-xs bg-white outline-none focus:border-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Review notes and the retrospective open once the sprint has started.
+        </p>
+      )}
+    </div>
+  );
+};
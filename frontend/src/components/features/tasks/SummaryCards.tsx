@@ -1,16 +1,21 @@
 import type { Task } from "@/types/task";
+import { useWorkflow } from "@/hooks/useWorkflow";
 
 interface SummaryCardsProps {
   tasks: Task[];
 }
 
 export const SummaryCards = ({ tasks }: SummaryCardsProps) => {
+  const { initialStatus, isDone } = useWorkflow();
   const total = tasks.length;
-  const completed = tasks.filter((t) => t.status === "completed").length;
-  const inProgress = tasks.filter((t) => t.status === "in-progress").length;
+  const completed = tasks.filter((t) => isDone(t.status)).length;
+  // Open tasks that have left the first column
+  const inProgress = tasks.filter(
+    (t) => !isDone(t.status) && t.status !== initialStatus
+  ).length;
   // Assuming "overdue" is based on date, logic reused from TaskCard
   const overdue = tasks.filter((t) => {
-    if (t.status === "completed" || !t.dueDate) return false;
+    if (isDone(t.status) || !t.dueDate) return false;
     return new Date(t.dueDate) < new Date();
   }).length;
 
@@ -0,0 +1,130 @@
+import type { TaskActivity } from "@/types/task";
+import { useTaskActivity } from "@/hooks/useTaskActivity";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { PRIORITY_LABELS } from "@/constants/task";
+import { formatDateISTShort, formatMinutes } from "@/utils/date";
+
+interface TaskActivityLogProps {
+  taskId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  dueDate: "due date",
+  estimateMinutes: "estimate",
+  sprintId: "sprint",
+  userId: "assignee",
+  assignees: "assignees",
+  reviewerId: "reviewer",
+  checklist: "checklist",
+  labels: "labels",
+  blockedBy: "blockers",
+};
+
+type StatusLabel = (status: string) => string;
+
+const formatValue = (
+  field: string | null,
+  value: string | null,
+  label: string | null,
+  getStatusLabel: StatusLabel,
+) => {
+  if (label) return label;
+  if (value === null || value === "") return "none";
+  switch (field) {
+    case "status":
+      return getStatusLabel(value);
+    case "priority":
+      return PRIORITY_LABELS[value] || value;
+    case "dueDate":
+      return formatDateISTShort(value);
+    case "estimateMinutes":
+      return formatMinutes(Number(value));
+    case "userId":
+    case "reviewerId":
+      return "a former member";
+    case "assignees":
+      return "former members";
+    case "labels":
+      return "deleted labels";
+    case "blockedBy":
+      return "deleted tasks";
+    default:
+      return value;
+  }
+};
+
+const describeActivity = (
+  activity: TaskActivity,
+  getStatusLabel: StatusLabel,
+) => {
+  const { action, field, oldValue, newValue, oldLabel, newLabel } = activity;
+  switch (action) {
+    case "created":
+      return "created the task";
+    case "deleted":
+      return "deleted the task";
+    case "restored":
+      return "restored the task from the trash";
+    case "attachment_added":
+      return `attached "${newValue}"`;
+    case "attachment_removed":
+      return `removed attachment "${oldValue}"`;
+    default:
+      // Long text fields are summarised rather than quoted in full
+      if (field === "description") return "edited the description";
+      if (field === "customFields") return "edited the custom fields";
+      return `changed ${FIELD_LABELS[field || ""] || field} from ${formatValue(
+        field,
+        oldValue,
+        oldLabel,
+        getStatusLabel,
+      )} to ${formatValue(field, newValue, newLabel, getStatusLabel)}`;
+  }
+};
+
+const formatTimestamp = (date: Date) =>
+  date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export const TaskActivityLog = ({ taskId }: TaskActivityLogProps) => {
+  const { activities, isLoading, error } = useTaskActivity(taskId);
+  const { getLabel } = useWorkflow();
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-400">Loading history...</p>;
+  }
+  if (error) {
+    return <p className="text-xs text-red-500">{error}</p>;
+  }
+  if (activities.length === 0) {
+    return <p className="text-xs text-gray-400 italic">No history yet.</p>;
+  }
+
+  return (
+    <div className="relative pl-4 space-y-6 before:absolute before:left-0 before:top-2 before:bottom-0 before:w-0.5 before:bg-gray-100">
+      {activities.map((activity) => (
+        <div key={activity.id} className="relative text-sm">
+          <div className="absolute -left-[21px] top-1 min-w-[10px] h-[10px] rounded-full bg-blue-400 border-2 border-white shadow-sm z-10"></div>
+          <p className="text-gray-800 text-xs">
+            <span className="font-semibold">
+              {activity.actor.name || "Someone"}
+            </span>{" "}
+            {describeActivity(activity, getLabel)}
+          </p>
+          <span className="text-[10px] text-gray-400">
+            {formatTimestamp(activity.createdAt)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { useBacklog } from "@/hooks/useBacklog";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { PRIORITY_COLORS, PRIORITY_LABELS } from "@/constants/task";
+import { getErrorMessage } from "@/types/errors";
+import type { Task } from "@/types/task";
+import type { User } from "@/types/user";
+import { formatMinutes } from "@/utils/date";
+import { dropPosition } from "@/utils/taskRank";
+
+interface TaskBacklogProps {
+  // Search text of the task page, the backlog adds `sprint:none`
+  search: string;
+  onEdit: (task: Task) => void;
+  users?: User[];
+}
+
+/**
+ * Tasks outside every sprint, ranked by hand: drag a row to reorder
+ */
+export const TaskBacklog = ({
+  search,
+  onEdit,
+  users = [],
+}: TaskBacklogProps) => {
+  const { tasks, total, isLoading, error, moveTask } = useBacklog(search);
+  const { getLabel, getColorClasses } = useWorkflow();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // Row the dragged task would be dropped in front of
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const assigneeName = (task: Task) => {
+    const assignee = users.find((u) => (u.id || u._id) === task.userId);
+    return assignee?.name || assignee?.email || "";
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < top + height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const taskId = draggedId;
+    const index = dropIndex;
+    setDraggedId(null);
+    setDropIndex(null);
+    if (!taskId || index === null) return;
+
+    const position = dropPosition(tasks, taskId, index);
+    if (!position) return;
+    try {
+      await moveTask({ id: taskId, position });
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
+        <p className="mt-2 text-sm">Loading backlog...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-600">{error}</p>;
+  }
+
+  if (tasks.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="text-sm">The backlog is empty.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">
+        Drag tasks to rank them. Tasks at the top are picked up first.
+        {total > tasks.length &&
+          ` Showing the first ${tasks.length} of ${total}.`}
+      </p>
+      <ol
+        className="bg-white border border-gray-100 rounded-xl divide-y divide-gray-100"
+        onDragOver={(e) => draggedId && e.preventDefault()}
+        onDrop={handleDrop}
+      >
+        {tasks.map((task, index) => (
+          <li
+            key={task.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData("taskId", task.id);
+              setDraggedId(task.id);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropIndex(null);
+            }}
+            onDragOver={(e) => handleDragOver(e, index)}
+            onClick={() => onEdit(task)}
+            className={`flex items-center gap-3 px-4 py-2.5 cursor-grab active:cursor-grabbing hover:bg-gray-50 ${
+              draggedId === task.id ? "opacity-40" : ""
+            } ${dropIndex === index ? "border-t-2 border-t-blue-500" : ""} ${
+              dropIndex === index + 1 && index === tasks.length - 1
+                ? "border-b-2 border-b-blue-500"
+                : ""
+            }`}
+          >
+            <span className="w-6 text-xs font-semibold text-gray-400 text-right">
+              {index + 1}
+            </span>
+            <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-900">
+              {task.title}
+            </span>
+            <span
+              className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${
+                getColorClasses(task.status).badge
+              }`}
+            >
+              {getLabel(task.status)}
+            </span>
+            {task.priority && (
+              <span
+                className={`px-2 py-0.5 rounded text-[10px] uppercase tracking-wide font-bold ${
+                  PRIORITY_COLORS[task.priority]
+                }`}
+              >
+                {PRIORITY_LABELS[task.priority]}
+              </span>
+            )}
+            {task.estimateMinutes ? (
+              <span className="w-14 text-xs text-gray-500 text-right">
+                {formatMinutes(task.estimateMinutes)}
+              </span>
+            ) : (
+              <span className="w-14" />
+            )}
+            <span className="w-32 truncate text-xs text-gray-500">
+              {assigneeName(task)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
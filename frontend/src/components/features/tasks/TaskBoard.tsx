@@ -1,7 +1,14 @@
 import React from "react";
-import type { Task, TaskStatus } from "@/types/task";
+import type {
+  Task,
+  TaskStatus,
+  TaskChanges,
+  TaskMovePosition,
+} from "@/types/task";
 import { TaskCard } from "./TaskCard";
 import { UnifiedTaskModal } from "./UnifiedTaskModal";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { dropPosition } from "@/utils/taskRank";
 
 import type { User } from "@/types/user";
 
@@ -12,7 +19,9 @@ interface TaskBoardProps {
   onStatusChange: (id: string, status: TaskStatus) => void;
   onAddTask: (status: TaskStatus) => void;
   onTaskUpdate?: () => void;
-  onUpdate?: (taskId: string, updates: Partial<Omit<Task, 'dueDate'>> & { dueDate?: string | Date | null }) => void;
+  onUpdate?: (taskId: string, updates: TaskChanges) => void;
+  // Set when the tasks are in their manual order, cards can then be reordered
+  onReorder?: (taskId: string, position: TaskMovePosition) => void;
   users?: User[];
   currentUserId?: string;
   isTenantAdmin?: boolean;
@@ -26,11 +35,19 @@ export const TaskBoard = ({
   onAddTask,
   onTaskUpdate,
   onUpdate,
+  onReorder,
   users,
   currentUserId,
   isTenantAdmin = false,
 }: TaskBoardProps) => {
   const [selectedTask, setSelectedTask] = React.useState<Task | null>(null);
+  const [draggedTask, setDraggedTask] = React.useState<Task | null>(null);
+  // Card of a column the dragged task would be dropped in front of
+  const [dropTarget, setDropTarget] = React.useState<{
+    status: TaskStatus;
+    index: number;
+  } | null>(null);
+  const { workflow, getColorClasses, canTransition } = useWorkflow();
 
   // Sync selectedTask with updated tasks prop
   React.useEffect(() => {
@@ -40,37 +57,61 @@ export const TaskBoard = ({
     }
   }, [tasks, selectedTask]);
 
-  const columns: { id: TaskStatus; title: string; color: string }[] = [
-    { id: "todo", title: "To Do", color: "bg-gray-100/50" },
-    { id: "in-progress", title: "In Progress", color: "bg-blue-50/50" },
-    { id: "in-review", title: "In Review", color: "bg-purple-50/50" },
-    { id: "completed", title: "Completed", color: "bg-green-50/50" },
-  ];
+  // One column per status of the tenant's workflow, in workflow order
+  const columns: { id: TaskStatus; title: string; color: string }[] =
+    workflow.map((status) => ({
+      id: status.key,
+      title: status.label,
+      color: getColorClasses(status.key).column,
+    }));
 // ... existing drag logic ...
-  const handleDragStart = (e: React.DragEvent, taskId: string) => {
-    e.dataTransfer.setData("taskId", taskId);
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    e.dataTransfer.setData("taskId", task.id);
+    setDraggedTask(task);
   };
-  const handleDragOver = (e: React.DragEvent) => {
+  // Columns the dragged task may not move to under the tenant's rules
+  const isBlockedTarget = (status: TaskStatus) =>
+    draggedTask !== null && !canTransition(draggedTask.status, status);
+  const handleDragOver = (e: React.DragEvent, status: TaskStatus, count: number) => {
+    if (isBlockedTarget(status)) return;
     e.preventDefault();
+    // Below the last card
+    if (onReorder && dropTarget?.status !== status) {
+      setDropTarget({ status, index: count });
+    }
+  };
+  const handleCardDragOver = (e: React.DragEvent, status: TaskStatus, index: number) => {
+    if (!onReorder || isBlockedTarget(status)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    setDropTarget({ status, index: e.clientY < top + height / 2 ? index : index + 1 });
   };
-  const handleDrop = (e: React.DragEvent, newStatus: TaskStatus) => {
+  const handleDrop = (e: React.DragEvent, newStatus: TaskStatus, colTasks: Task[]) => {
     e.preventDefault();
     const taskId = e.dataTransfer.getData("taskId");
-    if (taskId) {
+    const blocked = isBlockedTarget(newStatus);
+    const target = dropTarget;
+    setDraggedTask(null);
+    setDropTarget(null);
+    if (!taskId || blocked) return;
+
+    if (draggedTask?.status !== newStatus) {
       onStatusChange(taskId, newStatus);
     }
+    if (onReorder && target?.status === newStatus) {
+      const position = dropPosition(colTasks, taskId, target.index);
+      if (position) onReorder(taskId, position);
+    }
   };
   const handleTaskClick = (task: Task) => {
     setSelectedTask(task);
   };
-  const handleTaskUpdate = (taskId: string, updates: Partial<Omit<Task, 'dueDate'>> & { dueDate?: string | Date | null }) => {
-    // Call the onUpdate prop to save all changes
+  const handleTaskUpdate = (taskId: string, updates: TaskChanges) => {
+    // Call the onUpdate prop to save all changes (status included)
     if (onUpdate) {
       onUpdate(taskId, updates);
-    }
-    
-    // Also handle status change if status was updated
-    if (updates.status) {
+    } else if (updates.status) {
       onStatusChange(taskId, updates.status);
     }
     
@@ -82,16 +123,18 @@ export const TaskBoard = ({
 
   return (
     <>
-      <div className="flex flex-col md:grid md:grid-cols-4 gap-6 h-full md:overflow-x-auto pb-4">
+      <div className="flex flex-col md:grid md:grid-flow-col md:auto-cols-[minmax(16rem,1fr)] gap-6 h-full md:overflow-x-auto pb-4">
         {columns.map((col) => {
           const colTasks = tasks.filter((t) => t.status === col.id);
+          const blocked = isBlockedTarget(col.id);
           
           return (
             <div 
               key={col.id} 
-              className={`flex flex-col min-h-[500px] md:h-full rounded-2xl ${col.color} p-4 border border-gray-200/60 transition-colors`}
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, col.id)}
+              className={`flex flex-col min-h-[500px] md:h-full rounded-2xl ${col.color} p-4 border border-gray-200/60 transition-all ${blocked ? "opacity-40 grayscale cursor-not-allowed" : ""}`}
+              onDragOver={(e) => handleDragOver(e, col.id, colTasks.length)}
+              onDrop={(e) => handleDrop(e, col.id, colTasks)}
+              title={blocked ? "Tasks cannot be moved here from their current status" : undefined}
             >
               <div className="flex items-center justify-between mb-3 px-1">
                 <div className="flex items-center gap-2">
@@ -117,11 +160,19 @@ export const TaskBoard = ({
                       <p className="text-gray-400 text-xs font-medium">Drop tasks here</p>
                    </div>
                  ) : (
-                   colTasks.map((task) => (
+                   colTasks.map((task, index) => (
+                     <React.Fragment key={task.id}>
+                     {dropTarget?.status === col.id && dropTarget.index === index && (
+                       <div className="h-1 rounded-full bg-blue-400" />
+                     )}
                      <div 
-                       key={task.id}
                        draggable
-                       onDragStart={(e) => handleDragStart(e, task.id)}
+                       onDragStart={(e) => handleDragStart(e, task)}
+                       onDragEnd={() => {
+                         setDraggedTask(null);
+                         setDropTarget(null);
+                       }}
+                       onDragOver={(e) => handleCardDragOver(e, col.id, index)}
                        onClick={() => handleTaskClick(task)}
                        className="cursor-grab active:cursor-grabbing hover:shadow-md hover:shadow-gray-400/20 transition-all duration-200 rounded-xl"
                      >
@@ -132,8 +183,12 @@ export const TaskBoard = ({
                          users={users}
                        />
                      </div>
+                     </React.Fragment>
                    ))
                  )}
+                 {dropTarget?.status === col.id && dropTarget.index === colTasks.length && colTasks.length > 0 && (
+                   <div className="h-1 rounded-full bg-blue-400" />
+                 )}
               </div>
             </div>
           );
@@ -150,6 +205,7 @@ export const TaskBoard = ({
           users={users}
           currentUserId={currentUserId}
           isTenantAdmin={isTenantAdmin}
+          availableTasks={tasks}
         />
       )}
     </>
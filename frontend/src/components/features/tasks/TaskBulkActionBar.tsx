@@ -0,0 +1,145 @@
+import { useState } from "react";
+import type { BulkTaskPatch } from "@/types/task";
+import type { Sprint } from "@/types/sprint";
+import type { User } from "@/types/user";
+import { PRIORITY_LABELS } from "@/constants/task";
+import { useWorkflow } from "@/hooks/useWorkflow";
+
+interface TaskBulkActionBarProps {
+  count: number;
+  sprints?: Sprint[];
+  users?: User[];
+  // Only admins can hand tasks to someone else
+  canReassign?: boolean;
+  isBusy?: boolean;
+  // Outcome of the last bulk action, e.g. failed items
+  summary?: string | null;
+  onUpdate: (patch: BulkTaskPatch) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const selectClassName =
+  "h-8 px-2 text-xs border border-gray-200 rounded-md bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 disabled:opacity-50";
+
+// Sentinel for "move to backlog", the select cannot hold null
+const BACKLOG = "__backlog__";
+
+export const TaskBulkActionBar = ({
+  count,
+  sprints = [],
+  users = [],
+  canReassign = false,
+  isBusy = false,
+  summary,
+  onUpdate,
+  onDelete,
+  onClear,
+}: TaskBulkActionBarProps) => {
+  const { workflow } = useWorkflow();
+  // Reset the selects after each action so the same value can be picked again
+  const [revision, setRevision] = useState(0);
+
+  const apply = (patch: BulkTaskPatch) => {
+    setRevision((value) => value + 1);
+    onUpdate(patch);
+  };
+
+  return (
+    <div className="sticky top-0 z-20 mb-4 flex flex-wrap items-center gap-2 rounded-xl border border-blue-200 bg-blue-50 px-4 py-2 shadow-sm">
+      <span className="text-sm font-medium text-blue-800">
+        {count} selected
+      </span>
+
+      <select
+        key={`status-${revision}`}
+        defaultValue=""
+        disabled={isBusy}
+        onChange={(e) => e.target.value && apply({ status: e.target.value })}
+        className={selectClassName}
+      >
+        <option value="">Set status...</option>
+        {workflow.map((status) => (
+          <option key={status.key} value={status.key}>
+            {status.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        key={`priority-${revision}`}
+        defaultValue=""
+        disabled={isBusy}
+        onChange={(e) =>
+          e.target.value &&
+          apply({ priority: e.target.value as BulkTaskPatch["priority"] })
+        }
+        className={selectClassName}
+      >
+        <option value="">Set priority...</option>
+        {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {sprints.length > 0 && (
+        <select
+          key={`sprint-${revision}`}
+          defaultValue=""
+          disabled={isBusy}
+          onChange={(e) =>
+            e.target.value &&
+            apply({
+              sprintId: e.target.value === BACKLOG ? null : e.target.value,
+            })
+          }
+          className={selectClassName}
+        >
+          <option value="">Move to sprint...</option>
+          <option value={BACKLOG}>Backlog (no sprint)</option>
+          {sprints.map((sprint) => (
+            <option key={sprint.id} value={sprint.id}>
+              {sprint.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {canReassign && users.length > 0 && (
+        <select
+          key={`assignee-${revision}`}
+          defaultValue=""
+          disabled={isBusy}
+          onChange={(e) => e.target.value && apply({ userId: e.target.value })}
+          className={selectClassName}
+        >
+          <option value="">Assign to...</option>
+          {users.map((u) => (
+            <option key={u.id || u._id} value={u.id || u._id}>
+              {u.name || u.email}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <button
+        onClick={onDelete}
+        disabled={isBusy}
+        className="h-8 px-3 text-xs font-medium text-red-600 border border-red-200 bg-white rounded-md hover:bg-red-50 disabled:opacity-50"
+      >
+        Delete
+      </button>
+
+      <button
+        onClick={onClear}
+        className="ml-auto h-8 px-2 text-xs text-gray-500 hover:text-gray-700"
+      >
+        Clear selection
+      </button>
+
+      {summary && <p className="w-full text-xs text-blue-900">{summary}</p>}
+    </div>
+  );
+};
@@ -2,12 +2,17 @@ import type { Task } from "../../../types/task";
 import type { User } from "../../../types/user";
 import { Button } from "../../ui/button";
 import {
-  STATUS_COLORS,
-  STATUS_LABELS,
   PRIORITY_COLORS,
   PRIORITY_LABELS,
+  WORKFLOW_COLOR_CLASSES,
 } from "../../../constants/task";
 import { useAuthStore } from "@/store";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import {
+  formatCustomFieldValue,
+  useCustomFields,
+} from "@/hooks/useCustomFields";
+import { useTags } from "@/hooks/useTags";
 import { formatDateISTShort } from "@/utils/date";
 
 interface TaskCardProps {
@@ -19,6 +24,17 @@ interface TaskCardProps {
 
 export const TaskCard = ({ task, onEdit, onDelete, users }: TaskCardProps) => {
   const { user } = useAuthStore();
+  const { getLabel, getColorClasses, isDone } = useWorkflow();
+  const { fields: customFields } = useCustomFields();
+  const { getTag } = useTags();
+  const isCompleted = isDone(task.status);
+  const customFieldValues = customFields.filter(
+    (field) => task.customFields?.[field.key] !== undefined,
+  );
+  // Labels whose tag is no longer in the catalog are skipped
+  const labelTags = (task.labels || [])
+    .map((id) => getTag(id))
+    .filter((tag) => tag !== undefined);
 
   const isTenantAdmin =
     user?.role === "tenantAdmin" || user?.role === "superadmin";
@@ -58,16 +74,14 @@ export const TaskCard = ({ task, onEdit, onDelete, users }: TaskCardProps) => {
   const canDelete = isOwn || isTenantAdmin;
 
   const isOverdue =
-    task.dueDate &&
-    new Date(task.dueDate) < new Date() &&
-    task.status !== "completed";
+    task.dueDate && new Date(task.dueDate) < new Date() && !isCompleted;
 
   const dueDateObj = task.dueDate ? new Date(task.dueDate) : null;
   const now = new Date();
 
   const isUrgent =
     dueDateObj &&
-    task.status !== "completed" &&
+    !isCompleted &&
     !isOverdue &&
     dueDateObj.getTime() - now.getTime() < 2 * 24 * 60 * 60 * 1000;
 
@@ -102,6 +116,29 @@ export const TaskCard = ({ task, onEdit, onDelete, users }: TaskCardProps) => {
               </span>
             )}
 
+            {/* Recurring Badge */}
+            {task.recurrence && (
+              <span
+                className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-teal-50 text-teal-700 border border-teal-100"
+                title={`Repeats ${task.recurrence.frequency}`}
+              >
+                <svg
+                  className="w-3 h-3 mr-0.5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                  />
+                </svg>
+                REPEATS
+              </span>
+            )}
+
             {/* Priority Badge */}
             {task.priority && (
               <span
@@ -117,7 +154,7 @@ export const TaskCard = ({ task, onEdit, onDelete, users }: TaskCardProps) => {
 
         <div className="mt-1">
           <h3
-            className={`text-sm font-semibold text-gray-900 leading-snug break-words pr-2 ${task.status === "completed" ? "line-through text-gray-400" : ""}`}
+            className={`text-sm font-semibold text-gray-900 leading-snug break-words pr-2 ${isCompleted ? "line-through text-gray-400" : ""}`}
           >
             {task.title}
           </h3>
@@ -129,6 +166,62 @@ export const TaskCard = ({ task, onEdit, onDelete, users }: TaskCardProps) => {
           </p>
         </div>
 
+        {/* Labels */}
+        {labelTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {labelTags.map((tag) => (
+              <span
+                key={tag.id}
+                className={`inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium ${
+                  WORKFLOW_COLOR_CLASSES[tag.color].badge
+                }`}
+              >
+                {tag.name}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Custom Fields */}
+        {customFieldValues.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {customFieldValues.map((field) => (
+              <span
+                key={field.key}
+                className="inline-flex max-w-full items-center px-1.5 py-0.5 rounded text-[10px] bg-gray-50 text-gray-600 border border-gray-100 truncate"
+                title={field.label}
+              >
+                <span className="text-gray-400 mr-1">{field.label}:</span>
+                {formatCustomFieldValue(
+                  field,
+                  task.customFields![field.key],
+                  users,
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Checklist Progress */}
+        {task.progress && task.progress.total > 0 && (
+          <div
+            className="flex items-center gap-2"
+            title={`${task.progress.percent}% of checklist done`}
+          >
+            <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${
+                  task.progress.percent === 100 ? "bg-green-500" : "bg-blue-500"
+                }`}
+                style={{ width: `${task.progress.percent}%` }}
+              />
+            </div>
+            <span className="text-[10px] font-medium text-gray-500">
+              {task.progress.completed}/{task.progress.total}
+            </span>
+          </div>
+        )}
+
         <div className="flex items-center justify-between pt-2 mt-auto">
           <div className="flex items-center gap-2">
             {isUserRole && isAssignedToMe && !isOwn && (
@@ -138,9 +231,9 @@ export const TaskCard = ({ task, onEdit, onDelete, users }: TaskCardProps) => {
               ></span>
             )}
             <span
-              className={`text-[10px] px-2 py-0.5 rounded font-medium ${STATUS_COLORS[task.status]}`}
+              className={`text-[10px] px-2 py-0.5 rounded font-medium ${getColorClasses(task.status).badge}`}
             >
-              {STATUS_LABELS[task.status]}
+              {getLabel(task.status)}
             </span>
 
             {/* Tenant Admin: Profile Circle in side of status */}
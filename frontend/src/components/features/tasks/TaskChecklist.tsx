@@ -0,0 +1,134 @@
+import { useState } from "react";
+import type { ChecklistItemInput } from "@/types/task";
+
+interface TaskChecklistProps {
+  items: ChecklistItemInput[];
+  onChange: (items: ChecklistItemInput[]) => void;
+}
+
+export const TaskChecklist = ({ items, onChange }: TaskChecklistProps) => {
+  const [newItem, setNewItem] = useState("");
+
+  const completed = items.filter((item) => item.done).length;
+  const percent =
+    items.length > 0 ? Math.round((completed / items.length) * 100) : 0;
+
+  const handleAdd = () => {
+    if (!newItem.trim()) return;
+    onChange([...items, { title: newItem.trim(), done: false }]);
+    setNewItem("");
+  };
+
+  const handleToggle = (index: number) => {
+    onChange(
+      items.map((item, i) =>
+        i === index ? { ...item, done: !item.done } : item,
+      ),
+    );
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+            />
+          </svg>
+          Checklist
+        </label>
+        {items.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {completed}/{items.length} ({percent}%)
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-all ${percent === 100 ? "bg-green-500" : "bg-blue-500"}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {items.map((item, index) => (
+          <div
+            key={item.id || `new-${index}`}
+            className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-gray-50 group"
+          >
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => handleToggle(index)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span
+              className={`flex-1 text-sm ${item.done ? "line-through text-gray-400" : "text-gray-700"}`}
+            >
+              {item.title}
+            </span>
+            <button
+              onClick={() => handleRemove(index)}
+              className="p-1 text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-all"
+              title="Remove item"
+            >
+              <svg
+                className="w-3.5 h-3.5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="flex-1 h-8 px-3 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-gray-50/50 focus:bg-white"
+          placeholder="Add an item..."
+          value={newItem}
+          maxLength={200}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newItem.trim()}
+          className="text-xs text-blue-600 hover:text-blue-700 font-medium px-2 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
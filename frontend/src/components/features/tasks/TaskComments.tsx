@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { useTaskComments } from "@/hooks/useTaskComments";
+import { useAuthStore } from "@/store";
+import { getErrorMessage } from "@/types/errors";
+import type { TaskComment } from "@/types/comment";
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+const getInitials = (name?: string | null) => {
+  if (!name) return "?";
+  const parts = name.trim().split(" ");
+  if (parts.length === 1) return parts[0].substring(0, 2).toUpperCase();
+  return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+};
+
+const formatCommentDate = (date: Date) =>
+  date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Highlight @mentions so people can see who was pinged
+const renderBody = (body: string) =>
+  body.split(/(@[\w.-]+)/g).map((part, index) =>
+    part.startsWith("@") ? (
+      <span key={index} className="text-blue-600 font-medium">
+        {part}
+      </span>
+    ) : (
+      part
+    ),
+  );
+
+export const TaskComments = ({ taskId }: TaskCommentsProps) => {
+  const { user } = useAuthStore();
+  const {
+    comments,
+    isLoading,
+    error,
+    addComment,
+    updateComment,
+    deleteComment,
+    isSubmitting,
+  } = useTaskComments(taskId);
+
+  const [commentText, setCommentText] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  const isAdmin = user?.role === "tenantAdmin" || user?.role === "superadmin";
+  const rootComments = comments.filter((c) => !c.parentId);
+  const repliesFor = (commentId: string) =>
+    comments.filter((c) => c.parentId === commentId);
+
+  const handleAdd = async (body: string, parentId?: string) => {
+    if (!body.trim()) return;
+    try {
+      await addComment({ body, parentId });
+      if (parentId) {
+        setReplyText("");
+        setReplyingTo(null);
+      } else {
+        setCommentText("");
+      }
+    } catch (err) {
+      console.error("Failed to add comment", err);
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (!editText.trim()) return;
+    try {
+      await updateComment({ commentId, body: editText });
+      setEditingId(null);
+    } catch (err) {
+      console.error("Failed to update comment", err);
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    const hasReplies = repliesFor(comment.id).length > 0;
+    if (
+      !confirm(
+        hasReplies
+          ? "Delete this comment and all of its replies?"
+          : "Delete this comment?",
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteComment(comment.id);
+    } catch (err) {
+      console.error("Failed to delete comment", err);
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const renderComment = (comment: TaskComment, isReply = false) => {
+    const isAuthor = comment.author.id === user?.id;
+
+    return (
+      <div key={comment.id} className="flex gap-3">
+        <div
+          className={`${isReply ? "w-6 h-6" : "w-7 h-7"} rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold text-[10px] shrink-0`}
+        >
+          {getInitials(comment.author.name)}
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="bg-gray-50 rounded-xl rounded-tl-none p-2.5 shadow-sm border border-gray-100">
+            <div className="flex justify-between items-start mb-0.5">
+              <span className="font-semibold text-xs text-gray-900">
+                {comment.author.name || "Unknown user"}
+              </span>
+              <span className="text-[10px] text-gray-400">
+                {formatCommentDate(comment.createdAt)}
+                {comment.editedAt && " (edited)"}
+              </span>
+            </div>
+            {editingId === comment.id ? (
+              <div className="space-y-2">
+                <textarea
+                  className="w-full p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none text-xs min-h-[50px]"
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 text-[10px] px-2"
+                    onClick={() => setEditingId(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="h-6 text-[10px] px-2"
+                    disabled={!editText.trim()}
+                    onClick={() => handleSaveEdit(comment.id)}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-700 leading-relaxed whitespace-pre-wrap break-words">
+                {renderBody(comment.body)}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-3 px-1 text-[10px] text-gray-400">
+            {!isReply && (
+              <button
+                className="hover:text-blue-600"
+                onClick={() => {
+                  setReplyingTo(comment.id);
+                  setReplyText("");
+                }}
+              >
+                Reply
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                className="hover:text-blue-600"
+                onClick={() => {
+                  setEditingId(comment.id);
+                  setEditText(comment.body);
+                }}
+              >
+                Edit
+              </button>
+            )}
+            {(isAuthor || isAdmin) && (
+              <button
+                className="hover:text-red-500"
+                onClick={() => handleDelete(comment)}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+
+          {!isReply && (
+            <div className="space-y-3 pl-1">
+              {repliesFor(comment.id).map((reply) => renderComment(reply, true))}
+              {replyingTo === comment.id && (
+                <div className="space-y-2">
+                  <textarea
+                    autoFocus
+                    className="w-full p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none text-xs min-h-[50px]"
+                    placeholder="Write a reply... Use @name to mention someone"
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 text-[10px] px-2"
+                      onClick={() => setReplyingTo(null)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-6 text-[10px] px-2"
+                      disabled={!replyText.trim() || isSubmitting}
+                      onClick={() => handleAdd(replyText, comment.id)}
+                    >
+                      Reply
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-3 mb-4">
+        {isLoading ? (
+          <p className="text-xs text-gray-400">Loading comments...</p>
+        ) : error ? (
+          <p className="text-xs text-red-500">{error}</p>
+        ) : rootComments.length === 0 ? (
+          <p className="text-xs text-gray-400 italic">No comments yet.</p>
+        ) : (
+          rootComments.map((comment) => renderComment(comment))
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <div className="w-7 h-7 rounded-full bg-gray-200 flex items-center justify-center shrink-0 text-gray-500 text-[10px] font-bold">
+          {getInitials(user?.name)}
+        </div>
+        <div className="flex-1">
+          <textarea
+            className="w-full p-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none text-xs min-h-[60px]"
+            placeholder="Write a comment... Use @name to mention someone"
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+          />
+          <div className="flex justify-end mt-2">
+            <Button
+              size="sm"
+              className="h-7 text-xs px-3"
+              disabled={!commentText.trim() || isSubmitting}
+              onClick={() => handleAdd(commentText)}
+            >
+              {isSubmitting ? "Posting..." : "Comment"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { formatDateInputIST } from "@/utils/date";
+import type {
+  CustomFieldDefinition,
+  CustomFieldValues,
+} from "@/types/customField";
+import type { User } from "@/types/user";
+
+interface TaskCustomFieldsProps {
+  fields: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  users?: User[];
+}
+
+const inputClass =
+  "w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+export const TaskCustomFields = ({
+  fields,
+  values,
+  onChange,
+  users = [],
+}: TaskCustomFieldsProps) => {
+  if (fields.length === 0) return null;
+
+  // Empty inputs are sent as null so the server clears the field
+  const update = (key: string, value: string | number | null) =>
+    onChange({ ...values, [key]: value === "" ? null : value });
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-200">
+      {fields.map((field) => {
+        const value = values[field.key] ?? "";
+        return (
+          <div key={field.key}>
+            <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+              {field.label}
+              {field.required && <span className="text-red-500"> *</span>}
+            </label>
+            {field.type === "select" || field.type === "user" ? (
+              <select
+                value={String(value)}
+                onChange={(e) => update(field.key, e.target.value)}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {field.type === "select"
+                  ? field.options.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))
+                  : users.map((user) => (
+                      <option
+                        key={user.id || user._id}
+                        value={user.id || user._id}
+                      >
+                        {user.name || user.email}
+                      </option>
+                    ))}
+              </select>
+            ) : field.type === "date" ? (
+              <input
+                type="date"
+                value={value ? formatDateInputIST(String(value)) : ""}
+                onChange={(e) => update(field.key, e.target.value)}
+                className={inputClass}
+              />
+            ) : (
+              <input
+                type={field.type === "number" ? "number" : "text"}
+                value={value}
+                maxLength={field.type === "text" ? 500 : undefined}
+                onChange={(e) =>
+                  update(
+                    field.key,
+                    field.type === "number" && e.target.value !== ""
+                      ? Number(e.target.value)
+                      : e.target.value,
+                  )
+                }
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
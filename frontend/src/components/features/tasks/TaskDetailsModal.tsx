@@ -2,9 +2,13 @@
 import { useState, useEffect, useRef } from "react";
 import type { Task, TaskStatus, TaskPriority } from "@/types/task";
 import { Button } from "@/components/ui/button";
-import { STATUS_LABELS, PRIORITY_LABELS } from "@/constants/task";
+import { PRIORITY_LABELS } from "@/constants/task";
+import { useWorkflow } from "@/hooks/useWorkflow";
 import { taskService } from "@/services/api/taskService";
 import { toast } from "react-hot-toast";
+import { TaskComments } from "./TaskComments";
+import { TaskActivityLog } from "./TaskActivityLog";
+import { TaskTimeTracking } from "./TaskTimeTracking";
 
 interface TaskDetailsModalProps {
   task: Task;
@@ -14,26 +18,15 @@ interface TaskDetailsModalProps {
   onTaskUpdate?: () => void;
 }
 
-// Mock Activity Data
-const mockActivity = [
-  { id: 1, type: "created", text: "Task created", date: "2 days ago" },
-  { id: 2, type: "status", text: "Status changed from To Do to In Progress", date: "1 day ago" },
-];
-
-// Mock Comments Data
-const mockComments = [
-  { id: 1, user: "Jane Doe", text: "Looks good, proceeding with the initial draft.", date: "1 day ago", avatar: "JD" },
-];
-
 export const TaskDetailsModal = ({ task, isOpen, onClose, onSave, onTaskUpdate }: TaskDetailsModalProps) => {
+  const { workflow } = useWorkflow();
   const [description, setDescription] = useState(task.description || "");
   const [status, setStatus] = useState<TaskStatus>(task.status);
   const [priority, setPriority] = useState(task.priority || "medium");
   const [dueDate, setDueDate] = useState<string>(task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : "");
-  const [commentText, setCommentText] = useState("");
   const [startDate, setStartDate] = useState("");
-  const [estimatedHours, setEstimatedHours] = useState("");
-  const [actualHours, setActualHours] = useState("");
+  const [estimatedHours, setEstimatedHours] = useState(task.estimateMinutes != null ? String(task.estimateMinutes / 60) : "");
+  const [activeTab, setActiveTab] = useState<"comments" | "history">("comments");
   
   // Attachments state
   const [attachments, setAttachments] = useState(task.attachments || []);
@@ -53,6 +46,7 @@ export const TaskDetailsModal = ({ task, isOpen, onClose, onSave, onTaskUpdate }
       status,
       priority,
       dueDate: dueDate ? new Date(dueDate) : null,
+      estimateMinutes: estimatedHours ? Math.round(parseFloat(estimatedHours) * 60) : null,
     });
     onClose();
   };
@@ -204,59 +198,30 @@ export const TaskDetailsModal = ({ task, isOpen, onClose, onSave, onTaskUpdate }
                   )}
                </div>
 
-              {/* Activity Timeline */}
-              <div className="space-y-4">
-                 <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                    Activity
-                 </label>
-                 <div className="relative pl-4 space-y-6 before:absolute before:left-0 before:top-2 before:bottom-0 before:w-0.5 before:bg-gray-100">
-                    {mockActivity.map((act) => (
-                       <div key={act.id} className="relative text-sm">
-                          <div className="absolute -left-[21px] top-1 min-w-[10px] h-[10px] rounded-full bg-blue-400 border-2 border-white shadow-sm z-10"></div>
-                          <p className="text-gray-800 font-medium text-xs">{act.text}</p>
-                          <span className="text-[10px] text-gray-400">{act.date}</span>
-                       </div>
-                    ))}
-                 </div>
-              </div>
-
-              {/* Comments Section */}
+              {/* Comments / History */}
               <div className="space-y-3 pt-4 border-t border-gray-100">
-                  <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
-                    Comments
-                  </label>
-                  
-                  <div className="space-y-3 mb-4">
-                     {mockComments.map((comment) => (
-                        <div key={comment.id} className="flex gap-3">
-                           <div className="w-7 h-7 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold text-[10px] shrink-0">{comment.avatar}</div>
-                           <div className="flex-1 bg-gray-50 rounded-xl rounded-tl-none p-2.5 shadow-sm border border-gray-100 relative group">
-                              <div className="flex justify-between items-start mb-0.5">
-                                 <span className="font-semibold text-xs text-gray-900">{comment.user}</span>
-                                 <span className="text-[10px] text-gray-400">{comment.date}</span>
-                              </div>
-                              <p className="text-xs text-gray-700 leading-relaxed">{comment.text}</p>
-                           </div>
-                        </div>
-                     ))}
+                  <div className="flex gap-4 border-b border-gray-100">
+                    {(["comments", "history"] as const).map((tab) => (
+                      <button
+                        key={tab}
+                        onClick={() => setActiveTab(tab)}
+                        className={`pb-2 text-xs font-bold uppercase tracking-wider flex items-center gap-2 border-b-2 -mb-px transition-colors ${activeTab === tab ? "border-blue-500 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700"}`}
+                      >
+                        {tab === "comments" ? (
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+                        ) : (
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                        )}
+                        {tab === "comments" ? "Comments" : "History"}
+                      </button>
+                    ))}
                   </div>
 
-                  <div className="flex gap-3">
-                     <div className="w-7 h-7 rounded-full bg-gray-200 flex items-center justify-center shrink-0 text-gray-500 text-[10px] font-bold">ME</div>
-                     <div className="flex-1">
-                        <textarea 
-                           className="w-full p-2.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none text-xs min-h-[60px]"
-                           placeholder="Write a comment..."
-                           value={commentText}
-                           onChange={(e) => setCommentText(e.target.value)}
-                        />
-                        <div className="flex justify-end mt-2">
-                           <Button size="sm" className="h-7 text-xs px-3" disabled={!commentText.trim()}>Comment</Button>
-                        </div>
-                     </div>
-                  </div>
+                  {activeTab === "comments" ? (
+                    <TaskComments taskId={task.id} />
+                  ) : (
+                    <TaskActivityLog taskId={task.id} />
+                  )}
               </div>
 
            </div>
@@ -273,8 +238,8 @@ export const TaskDetailsModal = ({ task, isOpen, onClose, onSave, onTaskUpdate }
                        onChange={(e) => setStatus(e.target.value as TaskStatus)}
                        className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
                     >
-                       {Object.entries(STATUS_LABELS).map(([key, label]) => (
-                          <option key={key} value={key}>{label}</option>
+                       {workflow.map((s) => (
+                          <option key={s.key} value={s.key}>{s.label}</option>
                        ))}
                     </select>
                  </div>
@@ -337,30 +302,22 @@ export const TaskDetailsModal = ({ task, isOpen, onClose, onSave, onTaskUpdate }
 
               {/* Time Tracking */}
               <div className="space-y-3 pt-3 border-t border-gray-200">
-                 <div className="grid grid-cols-2 gap-2">
-                    <div>
-                       <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">Est. Hours</label>
-                       <input 
-                          type="number" 
-                          placeholder="0h"
-                          className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
-                          value={estimatedHours}
-                          onChange={(e) => setEstimatedHours(e.target.value)}
-                       />
-                    </div>
-                     <div>
-                       <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">Actual</label>
-                       <input 
-                          type="number" 
-                          placeholder="0h"
-                          className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
-                          value={actualHours}
-                          onChange={(e) => setActualHours(e.target.value)}
-                       />
-                    </div>
+                 <div>
+                    <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">Est. Hours</label>
+                    <input 
+                       type="number" 
+                       min="0"
+                       step="0.25"
+                       placeholder="0h"
+                       className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                       value={estimatedHours}
+                       onChange={(e) => setEstimatedHours(e.target.value)}
+                    />
                  </div>
               </div>
 
+              <TaskTimeTracking taskId={task.id} />
+
            </div>
         </div>
 
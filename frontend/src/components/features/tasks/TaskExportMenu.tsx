@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui";
+import { taskService } from "@/services/api/taskService";
+import { getErrorMessage } from "@/types/errors";
+import type { TaskExportFormat, TaskQueryParams } from "@/types/task";
+import { formatDateInputIST } from "@/utils/date";
+import { CalendarFeedSettings } from "./CalendarFeedSettings";
+
+const FORMATS: { format: TaskExportFormat; label: string; hint: string }[] = [
+  { format: "csv", label: "CSV", hint: "Spreadsheets" },
+  { format: "json", label: "JSON", hint: "Scripts and other tools" },
+  { format: "ics", label: "Calendar (.ics)", hint: "Tasks with a due date" },
+];
+
+interface TaskExportMenuProps {
+  // The filters of the list, every matching task is exported
+  params: TaskQueryParams;
+}
+
+export const TaskExportMenu = ({ params }: TaskExportMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<TaskExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleExport = async (format: TaskExportFormat) => {
+    setExporting(format);
+    try {
+      const blob = await taskService.exportTasks(format, params);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `tasks-${formatDateInputIST(new Date())}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="outline"
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-11 px-5 rounded-xl border-gray-200 text-gray-700 font-medium shadow-sm hover:bg-gray-50"
+      >
+        Export
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-lg z-20 py-1">
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="w-full text-left px-4 py-2 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <span className="block text-sm font-medium text-gray-800">
+                {exporting === format ? "Exporting..." : label}
+              </span>
+              <span className="block text-xs text-gray-400">{hint}</span>
+            </button>
+          ))}
+          <div className="border-t border-gray-100 mt-1">
+            <CalendarFeedSettings />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import type { Task, TaskFormData, TaskStatus } from "../../../types/task";
 import { Button } from "../../ui/button";
 import { TASK_VALIDATION, PRIORITY_LABELS } from "../../../constants/task";
 import { formatDateInputIST, getTomorrowIST } from "../../../utils/date";
+import { useWorkflow } from "@/hooks/useWorkflow";
 
 interface TaskFormProps {
   task?: Task | null;
@@ -19,6 +20,7 @@ export const TaskForm = ({
   isSubmitting = false,
   defaultStatus,
 }: TaskFormProps) => {
+  const { workflow, initialStatus } = useWorkflow();
   const {
     register,
     handleSubmit,
@@ -37,7 +39,7 @@ export const TaskForm = ({
       : {
           title: "",
           description: "",
-          status: defaultStatus || "todo",
+          status: defaultStatus || initialStatus,
           priority: "medium",
           dueDate: getTomorrowIST(),
         },
@@ -117,10 +119,11 @@ export const TaskForm = ({
             {...register("status", { required: true })}
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
-            <option value="todo">To Do</option>
-            <option value="in-progress">In Progress</option>
-            <option value="in-review">In Review</option>
-            <option value="completed">Completed</option>
+            {workflow.map((status) => (
+              <option key={status.key} value={status.key}>
+                {status.label}
+              </option>
+            ))}
           </select>
         </div>
 
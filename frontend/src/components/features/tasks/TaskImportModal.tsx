@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { taskService } from "@/services/api/taskService";
+import { getErrorMessage } from "@/types/errors";
+import type {
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportReport,
+} from "@/types/task";
+
+const FIELD_LABELS: Record<TaskImportField, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  dueDate: "Due date (YYYY-MM-DD)",
+  assignee: "Assignee email",
+};
+
+interface TaskImportModalProps {
+  // Imported tasks go into this sprint
+  sprintId?: string | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export const TaskImportModal = ({
+  sprintId,
+  onClose,
+  onImported,
+}: TaskImportModalProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<TaskImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Dry run: nothing is created, every row is checked
+  const check = async (selected: File, mapping?: TaskImportMapping) => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      setReport(await taskService.checkImport(selected, { mapping, sprintId }));
+    } catch (err) {
+      // A rejected mapping keeps the last good one on screen
+      if (!mapping) setReport(null);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile(selected);
+    void check(selected);
+  };
+
+  const handleMappingChange = (field: TaskImportField, column: string) => {
+    if (!file || !report) return;
+    void check(file, { ...report.mapping, [field]: column });
+  };
+
+  const handleImport = async () => {
+    if (!file || !report) return;
+    setIsImporting(true);
+    try {
+      const result = await taskService.importTasks(file, {
+        mapping: report.mapping,
+        sprintId,
+      });
+      toast.success(result.message);
+      onImported();
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canImport =
+    report !== null && report.errors.length === 0 && !isChecking;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+          <h2 className="text-xl font-bold text-gray-900">Import Tasks</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-200 text-gray-500"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">
+              Upload a CSV file with a header row, or a JSON array of tasks.
+              Nothing is created until every row is valid.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.json"
+              onChange={handleFile}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+          </div>
+
+          {report && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+                Columns
+              </h3>
+              {(Object.keys(FIELD_LABELS) as TaskImportField[]).map((field) => (
+                <div key={field} className="flex items-center gap-3">
+                  <label className="w-48 text-sm text-gray-700">
+                    {FIELD_LABELS[field]}
+                    {field === "title" && (
+                      <span className="text-red-500"> *</span>
+                    )}
+                  </label>
+                  <select
+                    value={report.mapping[field] || ""}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    disabled={isChecking}
+                    className="flex-1 h-8 px-2 text-sm border border-gray-200 rounded-md"
+                  >
+                    <option value="">Not imported</option>
+                    {report.columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isChecking && (
+            <p className="text-sm text-gray-400">Checking rows...</p>
+          )}
+
+          {report && !isChecking && (
+            <div className="space-y-2">
+              <p
+                className={`text-sm font-medium ${
+                  report.errors.length > 0 ? "text-amber-700" : "text-green-700"
+                }`}
+              >
+                {report.valid} of {report.total} rows ready to import
+              </p>
+              {report.errors.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto space-y-1 text-xs text-red-600">
+                  {report.errors.map(({ row, errors }) => (
+                    <li key={row}>
+                      <span className="font-semibold">Row {row}:</span>{" "}
+                      {errors.join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3 bg-gray-50/50">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || isImporting}>
+            {isImporting
+              ? "Importing..."
+              : `Import ${report?.valid ?? 0} Tasks`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { WORKFLOW_COLOR_CLASSES } from "@/constants/task";
+import type { Tag } from "@/types/tag";
+
+interface TaskLabelsFieldProps {
+  tags: Tag[];
+  value: string[];
+  onChange: (labels: string[]) => void;
+}
+
+export const TaskLabelsField = ({
+  tags,
+  value,
+  onChange,
+}: TaskLabelsFieldProps) => {
+  if (tags.length === 0) return null;
+
+  const toggle = (id: string) =>
+    onChange(
+      value.includes(id)
+        ? value.filter((label) => label !== id)
+        : [...value, id],
+    );
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-gray-200">
+      <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+        Labels
+      </label>
+      <div className="flex flex-wrap gap-1.5">
+        {tags.map((tag) => {
+          const selected = value.includes(tag.id);
+          return (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => toggle(tag.id)}
+              aria-pressed={selected}
+              className={`px-2 py-0.5 rounded-full text-[11px] font-medium transition-opacity ${
+                WORKFLOW_COLOR_CLASSES[tag.color].badge
+              } ${selected ? "ring-1 ring-current" : "opacity-40 hover:opacity-80"}`}
+            >
+              {tag.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,21 @@
 import { useState, useMemo } from "react";
-import type { Task, TaskStatus, TaskPriority } from "../../../types/task";
+import type {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  BulkTaskPatch,
+  BulkTaskRequest,
+  BulkTaskResponse,
+} from "../../../types/task";
+import type { User } from "../../../types/user";
+import type { Sprint } from "../../../types/sprint";
+import type { SavedViewGroupBy } from "../../../types/savedView";
+import { getErrorMessage } from "../../../types/errors";
 import { TaskCard } from "./TaskCard";
+import { TaskBulkActionBar } from "./TaskBulkActionBar";
 import { Button } from "../../ui/button";
 import { PRIORITY_LABELS } from "../../../constants/task";
+import { useWorkflow } from "@/hooks/useWorkflow";
 
 interface TaskListProps {
   tasks: Task[];
@@ -14,6 +27,20 @@ interface TaskListProps {
   onPrevPage?: () => void;
   onNextPage?: () => void;
   isAssignedView?: boolean;
+  // Hide the built-in filters when the tasks are already filtered by the caller
+  showFilters?: boolean;
+  groupBy?: SavedViewGroupBy;
+  users?: User[];
+  // Enables multi-select with a bulk action bar
+  onBulkAction?: (request: BulkTaskRequest) => Promise<BulkTaskResponse>;
+  sprints?: Sprint[];
+  canReassign?: boolean;
+}
+
+interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: Task[];
 }
 
 export const TaskList = ({
@@ -24,6 +51,12 @@ export const TaskList = ({
   totalPages = 1,
   onPrevPage,
   onNextPage,
+  showFilters = true,
+  groupBy = "none",
+  users = [],
+  onBulkAction,
+  sprints = [],
+  canReassign = false,
 }: TaskListProps) => {
   const [statusFilter, setStatusFilter] = useState<TaskStatus | "all">("all");
   const [priorityFilter, setPriorityFilter] = useState<TaskPriority | "all">(
@@ -32,16 +65,23 @@ export const TaskList = ({
   const [dueDateFilter, setDueDateFilter] = useState<
     "all" | "overdue" | "today" | "week"
   >("all");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkSummary, setBulkSummary] = useState<string | null>(null);
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+
+  const { workflow } = useWorkflow();
+
+  const taskCounts = useMemo(() => {
+    const counts: Record<string, number> = { all: tasks.length };
+    workflow.forEach((status) => {
+      counts[status.key] = tasks.filter((t) => t.status === status.key).length;
+    });
+    return counts;
+  }, [tasks, workflow]);
 
-  const taskCounts = useMemo(
-    () => ({
-      all: tasks.length,
-      todo: tasks.filter((t) => t.status === "todo").length,
-      "in-progress": tasks.filter((t) => t.status === "in-progress").length,
-      "in-review": tasks.filter((t) => t.status === "in-review").length,
-      completed: tasks.filter((t) => t.status === "completed").length,
-    }),
-    [tasks]
+  const doneStatuses = useMemo(
+    () => workflow.filter((s) => s.category === "done").map((s) => s.key),
+    [workflow]
   );
 
   const filteredTasks = useMemo(() => {
@@ -74,7 +114,7 @@ export const TaskList = ({
 
         switch (dueDateFilter) {
           case "overdue":
-            return dueDateNorm < today && task.status !== "completed";
+            return dueDateNorm < today && !doneStatuses.includes(task.status);
           case "today":
             return dueDateNorm.getTime() === today.getTime();
           case "week":
@@ -86,111 +126,192 @@ export const TaskList = ({
     }
 
     return result;
-  }, [tasks, statusFilter, priorityFilter, dueDateFilter]);
+  }, [tasks, statusFilter, priorityFilter, dueDateFilter, doneStatuses]);
+
+  // Tasks that left the list (other page, filtered out, deleted) drop out
+  const selected = useMemo(
+    () =>
+      selectedIds.filter((id) => filteredTasks.some((task) => task.id === id)),
+    [selectedIds, filteredTasks]
+  );
+  const allSelected =
+    filteredTasks.length > 0 && selected.length === filteredTasks.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]
+    );
+  };
+
+  const runBulkAction = async (request: BulkTaskRequest) => {
+    if (!onBulkAction) return;
+    setIsBulkBusy(true);
+    setBulkSummary(null);
+    try {
+      const { message, results } = await onBulkAction(request);
+      const failed = results.filter((result) => !result.success);
+      // Failed tasks stay selected so they can be fixed and retried
+      setSelectedIds(failed.map((result) => result.id));
+      if (failed.length > 0) {
+        const reasons = failed.map((result) => {
+          const title = tasks.find((task) => task.id === result.id)?.title;
+          return `"${title || result.id}": ${result.error}`;
+        });
+        setBulkSummary(`${message}. ${reasons.join("; ")}`);
+      }
+    } catch (err) {
+      setBulkSummary(getErrorMessage(err));
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  const handleBulkUpdate = (patch: BulkTaskPatch) =>
+    runBulkAction({ action: "update", ids: selected, patch });
+
+  const handleBulkDelete = () => {
+    if (
+      window.confirm(
+        `Are you sure you want to delete ${selected.length} task(s)?`
+      )
+    ) {
+      void runBulkAction({ action: "delete", ids: selected });
+    }
+  };
+
+  const groups = useMemo<TaskGroup[]>(() => {
+    const byKey = (
+      keys: { key: string; label: string }[],
+      getKey: (task: Task) => string
+    ) =>
+      keys
+        .map(({ key, label }) => ({
+          key,
+          label,
+          tasks: filteredTasks.filter((task) => getKey(task) === key),
+        }))
+        .filter((group) => group.tasks.length > 0);
+
+    switch (groupBy) {
+      case "status":
+        return byKey(workflow, (task) => task.status);
+      case "priority":
+        return byKey(
+          ["high", "medium", "low"].map((key) => ({
+            key,
+            label: PRIORITY_LABELS[key],
+          })),
+          (task) => task.priority || "medium"
+        );
+      case "assignee": {
+        const assigneeIds = Array.from(
+          new Set(filteredTasks.map((task) => task.userId || ""))
+        );
+        return byKey(
+          assigneeIds.map((id) => {
+            const assignee = users.find((u) => (u.id || u._id) === id);
+            return {
+              key: id,
+              label: id
+                ? assignee?.name || assignee?.email || "Unknown user"
+                : "Unassigned",
+            };
+          }),
+          (task) => task.userId || ""
+        );
+      }
+      default:
+        return [{ key: "all", label: "", tasks: filteredTasks }];
+    }
+  }, [filteredTasks, groupBy, workflow, users]);
 
   return (
     <div>
-      <div className="space-y-3 mb-6">
-        <div className="flex flex-wrap gap-2">
-          <Button
-            variant={statusFilter === "all" ? "default" : "outline"}
-            onClick={() => setStatusFilter("all")}
-            size="sm"
-          >
-            All ({taskCounts.all})
-          </Button>
-          <Button
-            variant={statusFilter === "todo" ? "default" : "outline"}
-            onClick={() => setStatusFilter("todo")}
-            size="sm"
-          >
-            To Do ({taskCounts.todo})
-          </Button>
-          <Button
-            variant={statusFilter === "in-progress" ? "default" : "outline"}
-            onClick={() => setStatusFilter("in-progress")}
-            size="sm"
-          >
-            In Progress ({taskCounts["in-progress"]})
-          </Button>
-          <Button
-            variant={statusFilter === "in-review" ? "default" : "outline"}
-            onClick={() => setStatusFilter("in-review")}
-            size="sm"
-          >
-            In Review ({taskCounts["in-review"]})
-          </Button>
-          <Button
-            variant={statusFilter === "completed" ? "default" : "outline"}
-            onClick={() => setStatusFilter("completed")}
-            size="sm"
-          >
-            Completed ({taskCounts.completed})
-          </Button>
-        </div>
+      {showFilters && (
+        <div className="space-y-3 mb-6">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={statusFilter === "all" ? "default" : "outline"}
+              onClick={() => setStatusFilter("all")}
+              size="sm"
+            >
+              All ({taskCounts.all})
+            </Button>
+            {workflow.map((status) => (
+              <Button
+                key={status.key}
+                variant={statusFilter === status.key ? "default" : "outline"}
+                onClick={() => setStatusFilter(status.key)}
+                size="sm"
+              >
+                {status.label} ({taskCounts[status.key]})
+              </Button>
+            ))}
+          </div>
 
-        <div className="flex flex-wrap gap-2">
-          <Button
-            variant={priorityFilter === "all" ? "default" : "outline"}
-            onClick={() => setPriorityFilter("all")}
-            size="sm"
-          >
-            All Priority
-          </Button>
-          <Button
-            variant={priorityFilter === "low" ? "default" : "outline"}
-            onClick={() => setPriorityFilter("low")}
-            size="sm"
-          >
-            {PRIORITY_LABELS.low}
-          </Button>
-          <Button
-            variant={priorityFilter === "medium" ? "default" : "outline"}
-            onClick={() => setPriorityFilter("medium")}
-            size="sm"
-          >
-            {PRIORITY_LABELS.medium}
-          </Button>
-          <Button
-            variant={priorityFilter === "high" ? "default" : "outline"}
-            onClick={() => setPriorityFilter("high")}
-            size="sm"
-          >
-            {PRIORITY_LABELS.high}
-          </Button>
-        </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={priorityFilter === "all" ? "default" : "outline"}
+              onClick={() => setPriorityFilter("all")}
+              size="sm"
+            >
+              All Priority
+            </Button>
+            <Button
+              variant={priorityFilter === "low" ? "default" : "outline"}
+              onClick={() => setPriorityFilter("low")}
+              size="sm"
+            >
+              {PRIORITY_LABELS.low}
+            </Button>
+            <Button
+              variant={priorityFilter === "medium" ? "default" : "outline"}
+              onClick={() => setPriorityFilter("medium")}
+              size="sm"
+            >
+              {PRIORITY_LABELS.medium}
+            </Button>
+            <Button
+              variant={priorityFilter === "high" ? "default" : "outline"}
+              onClick={() => setPriorityFilter("high")}
+              size="sm"
+            >
+              {PRIORITY_LABELS.high}
+            </Button>
+          </div>
 
-        <div className="flex flex-wrap gap-2">
-          <Button
-            variant={dueDateFilter === "all" ? "default" : "outline"}
-            onClick={() => setDueDateFilter("all")}
-            size="sm"
-          >
-            All Dates
-          </Button>
-          <Button
-            variant={dueDateFilter === "overdue" ? "default" : "outline"}
-            onClick={() => setDueDateFilter("overdue")}
-            size="sm"
-          >
-            Overdue
-          </Button>
-          <Button
-            variant={dueDateFilter === "today" ? "default" : "outline"}
-            onClick={() => setDueDateFilter("today")}
-            size="sm"
-          >
-            Today
-          </Button>
-          <Button
-            variant={dueDateFilter === "week" ? "default" : "outline"}
-            onClick={() => setDueDateFilter("week")}
-            size="sm"
-          >
-            Next 7 Days
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={dueDateFilter === "all" ? "default" : "outline"}
+              onClick={() => setDueDateFilter("all")}
+              size="sm"
+            >
+              All Dates
+            </Button>
+            <Button
+              variant={dueDateFilter === "overdue" ? "default" : "outline"}
+              onClick={() => setDueDateFilter("overdue")}
+              size="sm"
+            >
+              Overdue
+            </Button>
+            <Button
+              variant={dueDateFilter === "today" ? "default" : "outline"}
+              onClick={() => setDueDateFilter("today")}
+              size="sm"
+            >
+              Today
+            </Button>
+            <Button
+              variant={dueDateFilter === "week" ? "default" : "outline"}
+              onClick={() => setDueDateFilter("week")}
+              size="sm"
+            >
+              Next 7 Days
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
 
       {filteredTasks.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
@@ -216,14 +337,90 @@ export const TaskList = ({
         </div>
       ) : (
         <>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {filteredTasks.map((task) => (
-              <TaskCard
-                key={task.id}
-                task={task}
-                onEdit={onEdit}
-                onDelete={onDelete}
-              />
+          {onBulkAction && (
+            <>
+              {selected.length > 0 ? (
+                <TaskBulkActionBar
+                  count={selected.length}
+                  sprints={sprints}
+                  users={users}
+                  canReassign={canReassign}
+                  isBusy={isBulkBusy}
+                  summary={bulkSummary}
+                  onUpdate={handleBulkUpdate}
+                  onDelete={handleBulkDelete}
+                  onClear={() => {
+                    setSelectedIds([]);
+                    setBulkSummary(null);
+                  }}
+                />
+              ) : (
+                bulkSummary && (
+                  <p className="mb-4 text-xs text-red-600">{bulkSummary}</p>
+                )
+              )}
+              <label className="mb-3 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() =>
+                    setSelectedIds(
+                      allSelected ? [] : filteredTasks.map((task) => task.id)
+                    )
+                  }
+                />
+                Select all ({filteredTasks.length})
+              </label>
+            </>
+          )}
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <section key={group.key}>
+                {group.label && (
+                  <h3 className="mb-3 text-sm font-semibold text-gray-700">
+                    {group.label}{" "}
+                    <span className="text-gray-400 font-normal">
+                      ({group.tasks.length})
+                    </span>
+                  </h3>
+                )}
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {group.tasks.map((task) =>
+                    onBulkAction ? (
+                      <div
+                        key={task.id}
+                        className={`relative rounded-xl ${
+                          selected.includes(task.id)
+                            ? "ring-2 ring-blue-500"
+                            : ""
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          aria-label={`Select "${task.title}"`}
+                          checked={selected.includes(task.id)}
+                          onChange={() => toggleSelected(task.id)}
+                          className="absolute -left-1.5 -top-1.5 z-10 h-4 w-4 cursor-pointer"
+                        />
+                        <TaskCard
+                          task={task}
+                          onEdit={onEdit}
+                          onDelete={onDelete}
+                          users={users}
+                        />
+                      </div>
+                    ) : (
+                      <TaskCard
+                        key={task.id}
+                        task={task}
+                        onEdit={onEdit}
+                        onDelete={onDelete}
+                        users={users}
+                      />
+                    )
+                  )}
+                </div>
+              </section>
             ))}
           </div>
           <div className="flex items-center justify-center gap-3 mt-6">
@@ -0,0 +1,99 @@
+import type { User } from "@/types/user";
+
+interface TaskPeopleFieldProps {
+  users: User[];
+  // The primary assignee, picked in the Assignee select
+  assigneeId: string;
+  // Everyone else working on the task
+  coAssignees: string[];
+  onCoAssigneesChange: (userIds: string[]) => void;
+  reviewerId: string;
+  onReviewerChange: (userId: string) => void;
+}
+
+const userKey = (user: User) => user.id || user._id || "";
+
+export const TaskPeopleField = ({
+  users,
+  assigneeId,
+  coAssignees,
+  onCoAssigneesChange,
+  reviewerId,
+  onReviewerChange,
+}: TaskPeopleFieldProps) => {
+  if (users.length === 0) return null;
+
+  // The reviewer approves the work, so they cannot also be assigned to it
+  const candidates = users.filter(
+    (user) => userKey(user) !== assigneeId && userKey(user) !== reviewerId,
+  );
+
+  const toggle = (id: string) =>
+    onCoAssigneesChange(
+      coAssignees.includes(id)
+        ? coAssignees.filter((userId) => userId !== id)
+        : [...coAssignees, id],
+    );
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-200">
+      {candidates.length > 0 && (
+        <div>
+          <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+            Also Assigned
+          </label>
+          <div className="flex flex-wrap gap-1.5">
+            {candidates.map((user) => {
+              const id = userKey(user);
+              const selected = coAssignees.includes(id);
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => toggle(id)}
+                  aria-pressed={selected}
+                  className={`px-2 py-0.5 rounded-full text-[11px] font-medium border ${
+                    selected
+                      ? "border-blue-200 bg-blue-50 text-blue-700"
+                      : "border-gray-200 bg-white text-gray-500 hover:bg-gray-50"
+                  }`}
+                >
+                  {user.name || user.email}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+          Reviewer
+        </label>
+        <select
+          value={reviewerId}
+          onChange={(e) => onReviewerChange(e.target.value)}
+          className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+        >
+          <option value="">No review needed</option>
+          {users
+            .filter(
+              (user) =>
+                userKey(user) !== assigneeId &&
+                !coAssignees.includes(userKey(user)),
+            )
+            .map((user) => (
+              <option key={userKey(user)} value={userKey(user)}>
+                {user.name || user.email}
+              </option>
+            ))}
+        </select>
+        {reviewerId && (
+          <p className="mt-1 text-[10px] text-gray-400">
+            Moving the task to review notifies the reviewer, who approves it
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import type { Recurrence, RecurrenceFrequency } from "@/types/task";
+
+interface TaskRecurrenceFieldProps {
+  value: Recurrence | null;
+  onChange: (value: Recurrence | null) => void;
+}
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+};
+
+export const TaskRecurrenceField = ({
+  value,
+  onChange,
+}: TaskRecurrenceFieldProps) => {
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      weekdays: frequency === "weekly" ? [new Date().getDay()] : [],
+      dayOfMonth: frequency === "monthly" ? new Date().getDate() : null,
+      until: value?.until || null,
+    });
+  };
+
+  // Edits made here replace any imported RRULE string
+  const update = (changes: Partial<Recurrence>) => {
+    if (value) onChange({ ...value, ...changes, rrule: null });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day].sort();
+    // Keep at least one day selected
+    if (weekdays.length > 0) update({ weekdays });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+        Repeat
+      </label>
+      <select
+        value={value?.frequency || ""}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+        className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+      >
+        <option value="">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) =>
+                update({ interval: Math.max(1, Number(e.target.value) || 1) })
+              }
+              className="w-14 h-7 px-2 bg-white border border-gray-200 rounded-md text-xs"
+            />
+            <span>{UNIT_LABELS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === "weekly" && (
+            <div className="flex gap-1">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`w-7 h-7 rounded-full text-[10px] font-bold transition-colors ${
+                    value.weekdays.includes(day)
+                      ? "bg-blue-600 text-white"
+                      : "bg-white border border-gray-200 text-gray-500 hover:border-blue-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === "monthly" && (
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              <span>On day</span>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={value.dayOfMonth ?? 1}
+                onChange={(e) =>
+                  update({
+                    dayOfMonth: Math.min(
+                      31,
+                      Math.max(1, Number(e.target.value) || 1),
+                    ),
+                  })
+                }
+                className="w-14 h-7 px-2 bg-white border border-gray-200 rounded-md text-xs"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <span>Until</span>
+            <input
+              type="date"
+              value={value.until || ""}
+              onChange={(e) => update({ until: e.target.value || null })}
+              className="flex-1 h-7 px-2 bg-white border border-gray-200 rounded-md text-xs"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
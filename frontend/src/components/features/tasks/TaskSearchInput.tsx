@@ -0,0 +1,122 @@
+import { useMemo, useRef, useState } from "react";
+import {
+  applySuggestion,
+  getSearchSuggestions,
+  hasSearchFilters,
+  type SearchSources,
+  type SearchSuggestion,
+} from "@/utils/taskSearch";
+
+interface TaskSearchInputProps {
+  initialValue?: string;
+  onSearch: (value: string) => void;
+  sources: SearchSources;
+}
+
+export const TaskSearchInput = ({
+  initialValue = "",
+  onSearch,
+  sources,
+}: TaskSearchInputProps) => {
+  const [text, setText] = useState(initialValue);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const suggestions = useMemo(
+    () => (isOpen ? getSearchSuggestions(text, sources) : []),
+    [isOpen, text, sources],
+  );
+
+  const handleChange = (value: string) => {
+    setText(value);
+    setIsOpen(true);
+    setActiveIndex(0);
+    // Plain text searches as you type; filters wait for Enter so a
+    // half-typed value doesn't hit the server
+    if (!hasSearchFilters(value)) onSearch(value);
+  };
+
+  const accept = (suggestion: SearchSuggestion) => {
+    const next = applySuggestion(text, suggestion);
+    setText(next);
+    setActiveIndex(0);
+    if (suggestion.complete) onSearch(next);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const token = text.split(/\s/).pop() || "";
+    if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(
+        (activeIndex - 1 + suggestions.length) % suggestions.length,
+      );
+    } else if (e.key === "Tab" && suggestions.length > 0 && token) {
+      e.preventDefault();
+      accept(suggestions[activeIndex]);
+    } else if (e.key === "Enter") {
+      // Enter completes a half-typed filter value, otherwise runs the search
+      if (suggestions.length > 0 && token.includes(":")) {
+        accept(suggestions[activeIndex]);
+      } else {
+        onSearch(text);
+        setIsOpen(false);
+      }
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 md:w-80">
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        placeholder="Search or filter, e.g. priority:high due:<7d"
+        className="w-full pl-4 pr-4 py-2 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 text-sm"
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-autocomplete="list"
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute top-full left-0 right-0 mt-1 py-1 bg-white border border-gray-200 rounded-lg shadow-lg z-30 max-h-72 overflow-y-auto"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input while picking
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-3 px-3 py-1.5 text-sm cursor-pointer ${
+                index === activeIndex ? "bg-blue-50 text-blue-700" : ""
+              }`}
+            >
+              <code className="font-mono text-xs">{suggestion.label}</code>
+              {suggestion.hint && (
+                <span className="text-xs text-gray-400 truncate">
+                  {suggestion.hint}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { useTaskTemplates } from "@/hooks/useTaskTemplates";
+import { taskService } from "@/services/api/taskService";
+import { getErrorMessage } from "@/types/errors";
+import type { Task } from "@/types/task";
+import type { TaskTemplate } from "@/types/taskTemplate";
+
+// Filled in by the server when the task is created
+const BUILT_IN_VARIABLES = ["date", "sprint", "assignee"];
+
+// Placeholders the user has to provide a value for, e.g. {{version}}
+const customVariables = (template?: TaskTemplate) => {
+  if (!template) return [];
+  const text = [
+    template.titlePattern,
+    template.description,
+    ...template.subtasks,
+  ].join("\n");
+  const names = [...text.matchAll(/\{\{\s*([\w-]+)\s*\}\}/g)].map(
+    (match) => match[1],
+  );
+  return [...new Set(names)].filter(
+    (name) => !BUILT_IN_VARIABLES.includes(name),
+  );
+};
+
+interface TaskTemplatePickerProps {
+  sprintId?: string | null;
+  // Overrides the template's default assignee (admins only)
+  assigneeId?: string;
+  onCreated: (task: Task) => void;
+}
+
+export const TaskTemplatePicker = ({
+  sprintId,
+  assigneeId,
+  onCreated,
+}: TaskTemplatePickerProps) => {
+  const { templates } = useTaskTemplates();
+  const [templateId, setTemplateId] = useState("");
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  if (templates.length === 0) return null;
+
+  const template = templates.find((t) => t.id === templateId);
+  const variableNames = customVariables(template);
+
+  const handleCreate = async () => {
+    if (!template) return;
+    setIsCreating(true);
+    try {
+      const task = await taskService.createFromTemplate(template.id, {
+        sprintId: sprintId || null,
+        ...(assigneeId && { userId: assigneeId }),
+        variables,
+      });
+      toast.success(`Created "${task.title}" from ${template.name}`);
+      onCreated(task);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-dashed border-blue-200 bg-blue-50/40 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+          New from template
+        </label>
+        <select
+          value={templateId}
+          onChange={(e) => {
+            setTemplateId(e.target.value);
+            setVariables({});
+          }}
+          className="flex-1 min-w-[12rem] h-8 px-2 bg-white border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+        >
+          <option value="">Start from scratch</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        {template && (
+          <Button
+            variant="outline"
+            onClick={handleCreate}
+            disabled={
+              isCreating || variableNames.some((name) => !variables[name])
+            }
+          >
+            {isCreating ? "Creating..." : "Create from template"}
+          </Button>
+        )}
+      </div>
+
+      {template && (
+        <>
+          <p className="text-xs text-gray-500">
+            <span className="font-medium text-gray-700">
+              {template.titlePattern}
+            </span>
+            {template.subtasks.length > 0 &&
+              ` · ${template.subtasks.length} subtasks`}
+            {template.dueOffsetDays !== null &&
+              ` · due in ${template.dueOffsetDays} day${
+                template.dueOffsetDays === 1 ? "" : "s"
+              }`}
+          </p>
+          {variableNames.map((name) => (
+            <div key={name} className="flex items-center gap-3">
+              <label className="w-28 text-xs font-medium text-gray-500">
+                {name}
+              </label>
+              <input
+                value={variables[name] || ""}
+                onChange={(e) =>
+                  setVariables({ ...variables, [name]: e.target.value })
+                }
+                className="flex-1 h-8 px-2 text-sm border border-gray-200 rounded-md focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
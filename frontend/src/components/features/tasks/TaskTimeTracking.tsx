@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { useTimeEntries } from "@/hooks/useTimeEntries";
+import { useAuthStore } from "@/store";
+import { getErrorMessage } from "@/types/errors";
+import { formatDateISTShort, formatMinutes, parseDuration } from "@/utils/date";
+
+interface TaskTimeTrackingProps {
+  taskId: string;
+}
+
+const elapsedMinutes = (startedAt: Date, now: number) =>
+  Math.max(0, Math.round((now - startedAt.getTime()) / 60000));
+
+export const TaskTimeTracking = ({ taskId }: TaskTimeTrackingProps) => {
+  const { user } = useAuthStore();
+  const {
+    entries,
+    totals,
+    runningTimer,
+    isLoading,
+    logTime,
+    deleteEntry,
+    startTimer,
+    stopTimer,
+    isSubmitting,
+  } = useTimeEntries(taskId);
+
+  const [duration, setDuration] = useState("");
+  const [note, setNote] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  const isAdmin = user?.role === "tenantAdmin" || user?.role === "superadmin";
+  const isRunningHere = runningTimer?.taskId === taskId;
+
+  // Keep the running timer's elapsed time current
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 30000);
+    return () => window.clearInterval(interval);
+  }, [isRunningHere]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setNow(Date.now());
+      return true;
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+      return false;
+    }
+  };
+
+  const handleLog = async () => {
+    const minutes = parseDuration(duration);
+    if (!minutes) {
+      toast.error('Enter a duration like "1.5", "90m" or "1h 30m"');
+      return;
+    }
+    const logged = await run(() =>
+      logTime({ durationMinutes: minutes, note: note.trim() || undefined }),
+    );
+    if (logged) {
+      setDuration("");
+      setNote("");
+    }
+  };
+
+  const loggedMinutes = totals?.totalMinutes ?? 0;
+  const estimateMinutes = totals?.estimateMinutes ?? null;
+  const percent =
+    estimateMinutes && estimateMinutes > 0
+      ? Math.round((loggedMinutes / estimateMinutes) * 100)
+      : null;
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-200">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wide">
+          Time Tracked
+        </label>
+        <span className="text-xs font-medium text-gray-700">
+          {formatMinutes(loggedMinutes)}
+          {estimateMinutes !== null && (
+            <span className="text-gray-400">
+              {" "}
+              / {formatMinutes(estimateMinutes)}
+            </span>
+          )}
+        </span>
+      </div>
+
+      {percent !== null && (
+        <div className="h-1.5 w-full rounded-full bg-gray-200 overflow-hidden">
+          <div
+            className={`h-full ${percent > 100 ? "bg-red-500" : "bg-blue-500"}`}
+            style={{ width: `${Math.min(percent, 100)}%` }}
+          />
+        </div>
+      )}
+
+      {isRunningHere && runningTimer ? (
+        <button
+          onClick={() => run(() => stopTimer())}
+          disabled={isSubmitting}
+          className="w-full h-8 text-xs font-medium text-white bg-red-500 rounded-md hover:bg-red-600 disabled:opacity-50"
+        >
+          Stop timer (
+          {formatMinutes(elapsedMinutes(runningTimer.startedAt, now))})
+        </button>
+      ) : (
+        <button
+          onClick={() => run(() => startTimer(undefined))}
+          disabled={isSubmitting || Boolean(runningTimer)}
+          title={
+            runningTimer
+              ? "Stop the timer running on your other task first"
+              : undefined
+          }
+          className="w-full h-8 text-xs font-medium text-blue-600 border border-blue-200 bg-white rounded-md hover:bg-blue-50 disabled:opacity-50"
+        >
+          {runningTimer ? "Timer running on another task" : "Start timer"}
+        </button>
+      )}
+
+      <div className="space-y-1.5">
+        <div className="flex gap-1.5">
+          <input
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleLog()}
+            placeholder="1h 30m"
+            className="w-20 h-8 px-2 bg-white border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+          />
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleLog()}
+            maxLength={500}
+            placeholder="Note (optional)"
+            className="flex-1 min-w-0 h-8 px-2 bg-white border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleLog}
+          disabled={isSubmitting || !duration.trim()}
+          className="w-full h-7 text-xs font-medium text-gray-600 border border-gray-200 bg-white rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Log time
+        </button>
+      </div>
+
+      {totals && totals.byUser.length > 1 && (
+        <ul className="space-y-0.5 text-[11px] text-gray-500">
+          {totals.byUser.map((total) => (
+            <li key={total.userId} className="flex justify-between">
+              <span className="truncate">{total.name || "Former member"}</span>
+              <span>{formatMinutes(total.minutes)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isLoading ? (
+        <p className="text-[11px] text-gray-400">Loading time entries...</p>
+      ) : (
+        entries.length > 0 && (
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className="group flex items-start gap-2 text-[11px] text-gray-600"
+              >
+                <span className="w-12 shrink-0 font-medium text-gray-700">
+                  {entry.isRunning
+                    ? "running"
+                    : formatMinutes(entry.durationMinutes)}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate">
+                    {entry.user.name || "Former member"} ·{" "}
+                    {formatDateISTShort(entry.startedAt)}
+                  </span>
+                  {entry.note && (
+                    <span className="block truncate text-gray-400">
+                      {entry.note}
+                    </span>
+                  )}
+                </span>
+                {(entry.user.id === user?.id || isAdmin) && (
+                  <button
+                    onClick={() => run(() => deleteEntry(entry.id))}
+                    title="Delete entry"
+                    className="text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-500"
+                  >
+                    ✕
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
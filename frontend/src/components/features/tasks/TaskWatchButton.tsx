@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { taskService } from "@/services/api/taskService";
+import { getErrorMessage } from "@/types/errors";
+
+interface TaskWatchButtonProps {
+  taskId: string;
+  watchers: string[];
+  currentUserId: string;
+  onChange?: () => void;
+}
+
+export const TaskWatchButton = ({
+  taskId,
+  watchers: initialWatchers,
+  currentUserId,
+  onChange,
+}: TaskWatchButtonProps) => {
+  const [watchers, setWatchers] = useState(initialWatchers);
+  const [isSaving, setIsSaving] = useState(false);
+  const isWatching = watchers.includes(currentUserId);
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    try {
+      setWatchers(await taskService.setWatching(taskId, !isWatching));
+      onChange?.();
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={isSaving}
+      title={
+        isWatching
+          ? "You get notified about changes and comments"
+          : "Get notified about changes and comments"
+      }
+      className={`h-8 px-3 flex items-center gap-1.5 rounded-md border text-xs font-medium disabled:opacity-50 ${
+        isWatching
+          ? "border-blue-200 bg-blue-50 text-blue-700 hover:bg-blue-100"
+          : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+      }`}
+    >
+      <svg
+        className="w-4 h-4"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+        />
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+        />
+      </svg>
+      {isWatching ? "Watching" : "Watch"}
+      {watchers.length > 0 && (
+        <span className="text-gray-400">{watchers.length}</span>
+      )}
+    </button>
+  );
+};
@@ -3,18 +3,33 @@ import type {
   Task,
   TaskStatus,
   TaskPriority,
-  TaskFormData,
+  UpdateTaskData,
+  TaskChanges,
   CreateTaskData,
+  TaskMovePosition,
 } from "@/types/task";
+import { getErrorMessage } from "@/types/errors";
 import type { Sprint } from "@/types/sprint";
-import { useTasks } from "@/hooks";
+import type {
+  SavedView,
+  SavedViewGroupBy,
+  SavedViewMode,
+} from "@/types/savedView";
+import { useSavedViews, useTags, useTasks, useWorkflow } from "@/hooks";
 import { TaskBoard } from "./TaskBoard";
 import { UnifiedTaskModal } from "./UnifiedTaskModal";
 import { SummaryCards } from "./SummaryCards";
 import { TimelineView } from "./TimelineView";
 import { ManageSprintsModal } from "./ManageSprintsModal";
+import { TaskBacklog } from "./TaskBacklog";
+import { TaskImportModal } from "./TaskImportModal";
+import { TaskExportMenu } from "./TaskExportMenu";
+import { TaskSearchInput } from "./TaskSearchInput";
+import { TaskList } from "./TaskList";
+import { SavedViewSwitcher } from "./SavedViewSwitcher";
 import { Loader, ErrorMessage } from "@/components/common";
 import { Button } from "@/components/ui";
+import { WORKFLOW_COLOR_CLASSES } from "@/constants/task";
 import { useAuthStore } from "@/store";
 import type { User } from "@/types/user";
 import { sprintService } from "@/services/api/sprintService";
@@ -22,10 +37,13 @@ import { formatDateInputIST } from "@/utils/date";
 
 export const Tasks = () => {
   const { user } = useAuthStore();
+  const { workflow, initialStatus, isDone, canTransition, getLabel } =
+    useWorkflow();
+  const { tags } = useTags();
 
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [defaultStatus, setDefaultStatus] = useState<TaskStatus>("todo");
+  const [defaultStatus, setDefaultStatus] = useState<TaskStatus>();
   const [orgName, setOrgName] = useState("");
 
   // Local Filters
@@ -33,9 +51,15 @@ export const Tasks = () => {
   const filterRef = useRef<HTMLDivElement>(null);
   const [priorityFilter] = useState<TaskPriority | "all">("all");
   const [dueDateFilter] = useState<string>(""); // "" means all
-  const [view, setView] = useState<"kanban" | "timeline">("kanban");
+  const [view, setView] = useState<SavedViewMode>("board");
+  const [groupBy, setGroupBy] = useState<SavedViewGroupBy>("none");
   const canUseTimeline = user?.role === "tenantAdmin" || user?.role === "user";
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  // Bumped whenever a view is applied so the search box picks up its text
+  const [viewRevision, setViewRevision] = useState(0);
+  const [appliedDefaultView, setAppliedDefaultView] = useState(false);
   const [isSprintsOpen, setIsSprintsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [usersList, setUsersList] = useState<User[]>([]);
   const [sprints, setSprints] = useState<Sprint[]>([]);
   const [selectedSprintId, setSelectedSprintId] = useState<string | null>(null);
@@ -43,12 +67,22 @@ export const Tasks = () => {
   const {
     tasks,
     setSearch,
+    q: search,
+    status: statusFilter,
+    setStatusFilter,
+    labels: labelFilter,
+    excludeLabels: excludeLabelFilter,
+    setLabelFilter,
+    sort,
+    setSort,
     isLoading,
     isError,
     error,
     createTask,
     updateTask,
     deleteTask,
+    bulkTasks,
+    moveTask,
     refetch,
   } = useTasks({
     userId: user?.id,
@@ -92,11 +126,81 @@ export const Tasks = () => {
     };
   }, []);
 
-  // Show all tasks that user has access to (created by them OR assigned to them)
+  const {
+    views: savedViews,
+    defaultViewId,
+    isLoading: viewsLoading,
+  } = useSavedViews();
+
+  const applyView = (savedView: SavedView | null) => {
+    setActiveViewId(savedView?.id ?? null);
+    setViewRevision((revision) => revision + 1);
+    const mode = savedView?.viewMode ?? "board";
+    setView(mode === "timeline" && !canUseTimeline ? "board" : mode);
+    setGroupBy(savedView?.groupBy ?? "none");
+    setSearch(savedView?.filters.q ?? "");
+    setStatusFilter(savedView?.filters.status ?? "all");
+    setLabelFilter(
+      savedView?.filters.labels ?? [],
+      savedView?.filters.excludeLabels ?? [],
+    );
+    setSort(savedView?.sort ?? "");
+  };
+
+  // Open with the user's default view once the views have loaded
+  if (!appliedDefaultView && !viewsLoading) {
+    setAppliedDefaultView(true);
+    const defaultView = savedViews.find((v) => v.id === defaultViewId);
+    if (defaultView) applyView(defaultView);
+  }
+
+  const currentView = {
+    filters: {
+      q: search,
+      status: statusFilter,
+      labels: labelFilter,
+      excludeLabels: excludeLabelFilter,
+    },
+    sort,
+    groupBy,
+    viewMode: view,
+  };
+
+  const searchSources = useMemo(
+    () => ({ workflow, tags, users: usersList, sprints }),
+    [workflow, tags, usersList, sprints],
+  );
+
+  // Clicking a label cycles it through include -> exclude -> off
+  const cycleLabelFilter = (tagId: string) => {
+    if (labelFilter.includes(tagId)) {
+      setLabelFilter(
+        labelFilter.filter((id) => id !== tagId),
+        [...excludeLabelFilter, tagId],
+      );
+    } else if (excludeLabelFilter.includes(tagId)) {
+      setLabelFilter(
+        labelFilter,
+        excludeLabelFilter.filter((id) => id !== tagId),
+      );
+    } else {
+      setLabelFilter([...labelFilter, tagId], excludeLabelFilter);
+    }
+  };
+
+  const activeFilterCount =
+    (statusFilter !== "all" ? 1 : 0) +
+    labelFilter.length +
+    excludeLabelFilter.length;
+
+  // Show all tasks that user has access to (created by them, assigned to
+  // them or waiting on their review)
   const baseTasks = tasks.filter(
     (task) =>
       task.createdBy === user?.id ||
       task.userId === user?.id ||
+      (!!user?.id && task.assignees?.includes(user.id)) ||
+      task.reviewerId === user?.id ||
       !task.createdBy,
   );
 
@@ -148,13 +252,11 @@ export const Tasks = () => {
     tasks.length,
     sprints,
   ]);
-  const handleCreate = (
-    data: Partial<Omit<Task, "dueDate">> & { dueDate?: string | Date | null },
-  ) => {
+  const handleCreate = (data: TaskChanges) => {
     const taskData: CreateTaskData & { sprintId?: string | null } = {
       title: data.title!,
       description: data.description || "",
-      status: data.status || "todo",
+      status: data.status || initialStatus,
       priority: data.priority || "medium",
       // Send date string (YYYY-MM-DD) - backend will parse as IST
       dueDate: data.dueDate
@@ -163,6 +265,13 @@ export const Tasks = () => {
           : formatDateInputIST(data.dueDate)
         : null,
       sprintId: data.sprintId || selectedSprintId || null,
+      checklist: data.checklist,
+      blockedBy: data.blockedBy,
+      recurrence: data.recurrence,
+      customFields: data.customFields,
+      labels: data.labels,
+      estimateMinutes: data.estimateMinutes,
+      ...(data.overrideChecklist && { overrideChecklist: true }),
       // Only use user?.id as fallback if userId is not provided (undefined/null), not if it's empty string
       userId:
         data.userId !== undefined && data.userId !== null && data.userId !== ""
@@ -170,6 +279,8 @@ export const Tasks = () => {
           : user?.role === "user"
             ? user?.id
             : undefined,
+      ...(data.assignees && { assignees: data.assignees }),
+      ...(data.reviewerId && { reviewerId: data.reviewerId }),
       tenantId: user?.tenantId || undefined,
     };
 
@@ -181,20 +292,24 @@ export const Tasks = () => {
     });
   };
 
-  const handleUpdate = (
-    taskId: string,
-    updates: Partial<Omit<Task, "dueDate">> & {
-      dueDate?: string | Date | null;
-    },
-  ) => {
+  const handleUpdate = (taskId: string, updates: TaskChanges) => {
     // Convert Date to string for dueDate if needed (IST format)
     const { dueDate, userId, ...rest } = updates;
 
-    const formattedUpdates: Partial<TaskFormData & { userId?: string }> = {
+    const formattedUpdates: UpdateTaskData = {
       ...(rest.title && { title: rest.title }),
       ...(rest.description !== undefined && { description: rest.description }),
       ...(rest.status && { status: rest.status }),
       ...(rest.priority && { priority: rest.priority }),
+      ...(rest.checklist && { checklist: rest.checklist }),
+      ...(rest.blockedBy && { blockedBy: rest.blockedBy }),
+      ...(rest.recurrence !== undefined && { recurrence: rest.recurrence }),
+      ...(rest.customFields && { customFields: rest.customFields }),
+      ...(rest.labels && { labels: rest.labels }),
+      ...(rest.estimateMinutes !== undefined && {
+        estimateMinutes: rest.estimateMinutes,
+      }),
+      ...(rest.overrideChecklist && { overrideChecklist: true }),
       ...(dueDate !== undefined && {
         dueDate:
           dueDate === null
@@ -207,6 +322,8 @@ export const Tasks = () => {
       ...(userId !== undefined &&
         userId !== null &&
         userId !== "" && { userId }),
+      ...(rest.assignees && { assignees: rest.assignees }),
+      ...(rest.reviewerId !== undefined && { reviewerId: rest.reviewerId }),
     };
 
     updateTask(
@@ -232,7 +349,7 @@ export const Tasks = () => {
     setIsFormOpen(true);
   };
 
-  const handleAddTask = (status: TaskStatus = "todo") => {
+  const handleAddTask = (status?: TaskStatus) => {
     setDefaultStatus(status);
     setEditingTask(null);
     setIsFormOpen(true);
@@ -255,7 +372,60 @@ export const Tasks = () => {
     setIsFormOpen(false);
   };
 
+  const handleReorder = async (id: string, position: TaskMovePosition) => {
+    try {
+      await moveTask({ id, position });
+    } catch (err) {
+      // The order is restored, e.g. when someone else moved the task first
+      alert(getErrorMessage(err));
+    }
+  };
+
   const handleStatusChange = (id: string, status: TaskStatus) => {
+    const task = tasks.find((t) => t.id === id);
+    const openItems = task?.checklist?.filter((item) => !item.done).length ?? 0;
+    const openBlockers = tasks.filter(
+      (t) => task?.blockedBy?.includes(t.id) && !isDone(t.status),
+    );
+
+    if (task && !canTransition(task.status, status)) {
+      alert(
+        `Tasks cannot move from "${getLabel(task.status)}" to "${getLabel(status)}".`,
+      );
+      return;
+    }
+
+    // Tasks stay in the first column while a blocker is open
+    if (
+      status !== initialStatus &&
+      task?.status !== status &&
+      openBlockers.length > 0
+    ) {
+      alert(
+        `This task is blocked by: ${openBlockers.map((t) => `"${t.title}"`).join(", ")}`,
+      );
+      return;
+    }
+
+    // Open checklist items block completion unless an admin overrides
+    if (isDone(status) && task && !isDone(task.status) && openItems) {
+      if (user?.role === "user") {
+        alert(
+          `This task still has ${openItems} open checklist item(s). Complete them first.`,
+        );
+        return;
+      }
+      if (
+        !window.confirm(
+          `This task still has ${openItems} open checklist item(s). Mark it as completed anyway?`,
+        )
+      ) {
+        return;
+      }
+      updateTask({ id, data: { status, overrideChecklist: true } });
+      return;
+    }
+
     updateTask({ id, data: { status } });
   };
 
@@ -374,6 +544,23 @@ export const Tasks = () => {
               Manage Sprints
             </Button>
           )}
+          <Button
+            variant="outline"
+            onClick={() => setIsImportOpen(true)}
+            className="h-11 px-5 rounded-xl border-gray-200 text-gray-700 font-medium shadow-sm hover:bg-gray-50"
+          >
+            Import
+          </Button>
+          <TaskExportMenu
+            params={{
+              q: search,
+              status: statusFilter,
+              labels: labelFilter,
+              excludeLabels: excludeLabelFilter,
+              sort,
+              tenantId: user?.tenantId ?? undefined,
+            }}
+          />
           <Button
             onClick={() => handleAddTask()}
             className="h-11 px-6 rounded-xl bg-blue-600 hover:bg-blue-700 text-white font-semibold shadow-lg shadow-blue-200 transition-all hover:scale-105"
@@ -388,73 +575,217 @@ export const Tasks = () => {
 
       {/* View Switcher and Filters */}
       <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4 border-b border-gray-100 pb-2">
-        <div className="flex p-1 bg-gray-100/80 rounded-lg self-start">
-          <button
-            onClick={() => setView("kanban")}
-            className={`px-6 py-2 rounded-md text-sm font-semibold transition-all ${
-              view === "kanban"
-                ? "bg-white text-gray-900 shadow-sm"
-                : "text-gray-500 hover:text-gray-700"
-            }`}
-          >
-            Kanban Board
-          </button>
-          <button
-            onClick={() => canUseTimeline && setView("timeline")}
-            disabled={!canUseTimeline}
-            className={`px-6 py-2 rounded-md text-sm font-semibold transition-all ${
-              view === "timeline"
-                ? "bg-white text-gray-900 shadow-sm"
-                : canUseTimeline
-                  ? "text-gray-500 hover:text-gray-700"
-                  : "text-gray-400 cursor-not-allowed"
-            }`}
-            title={
-              canUseTimeline
-                ? "View tasks on a timeline"
-                : "Timeline is available for Tenant Admins and Users"
-            }
+        <div className="flex flex-wrap items-center gap-3 self-start">
+          <SavedViewSwitcher
+            activeViewId={activeViewId}
+            current={currentView}
+            onApply={applyView}
+          />
+          <div className="flex p-1 bg-gray-100/80 rounded-lg">
+            <button
+              onClick={() => setView("board")}
+              className={`px-6 py-2 rounded-md text-sm font-semibold transition-all ${
+                view === "board"
+                  ? "bg-white text-gray-900 shadow-sm"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              Kanban Board
+            </button>
+            <button
+              onClick={() => setView("list")}
+              className={`px-6 py-2 rounded-md text-sm font-semibold transition-all ${
+                view === "list"
+                  ? "bg-white text-gray-900 shadow-sm"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              List
+            </button>
+            <button
+              onClick={() => setView("backlog")}
+              className={`px-6 py-2 rounded-md text-sm font-semibold transition-all ${
+                view === "backlog"
+                  ? "bg-white text-gray-900 shadow-sm"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+              title="Rank the tasks outside every sprint"
+            >
+              Backlog
+            </button>
+            <button
+              onClick={() => canUseTimeline && setView("timeline")}
+              disabled={!canUseTimeline}
+              className={`px-6 py-2 rounded-md text-sm font-semibold transition-all ${
+                view === "timeline"
+                  ? "bg-white text-gray-900 shadow-sm"
+                  : canUseTimeline
+                    ? "text-gray-500 hover:text-gray-700"
+                    : "text-gray-400 cursor-not-allowed"
+              }`}
+              title={
+                canUseTimeline
+                  ? "View tasks on a timeline"
+                  : "Timeline is available for Tenant Admins and Users"
+              }
+            >
+              Timeline
+            </button>
+          </div>
+          {view === "list" && (
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as SavedViewGroupBy)}
+              className="h-9 px-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700"
+              title="Group tasks"
+            >
+              <option value="none">No grouping</option>
+              <option value="status">Group by status</option>
+              <option value="priority">Group by priority</option>
+              <option value="assignee">Group by assignee</option>
+            </select>
+          )}
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value)}
+            className="h-9 px-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-700"
+            title="Sort tasks"
           >
-            Timeline
-          </button>
+            <option value="">Newest first</option>
+            <option value="createdAt">Oldest first</option>
+            <option value="dueDate">Due date, soonest first</option>
+            <option value="-dueDate">Due date, latest first</option>
+            <option value="-updatedAt">Recently updated</option>
+            <option value="title">Title A-Z</option>
+            <option value="rank">Manual order</option>
+            {/* Sorts saved from the search syntax keep their own label */}
+            {![
+              "",
+              "createdAt",
+              "dueDate",
+              "-dueDate",
+              "-updatedAt",
+              "title",
+              "rank",
+            ].includes(sort) && <option value={sort}>Custom: {sort}</option>}
+          </select>
         </div>
 
         <div className="flex-1"></div>
 
         {/* Right Side Filters (Keep existing logic but styled cleaner) */}
         <div className="flex items-center gap-3 w-full md:w-auto">
-          <div className="relative flex-1 md:w-64">
-            <input
-              type="text"
-              placeholder="Search tasks..."
-              className="w-full pl-4 pr-4 py-2 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 text-sm"
-              onChange={(e) => setSearch(e.target.value)}
-            />
-          </div>
-          {/* Simple visual filter button for now to match cleaner look */}
-          <button
-            onClick={() => setShowFilters(!showFilters)}
-            className={`p-2 rounded-lg border ${showFilters ? "bg-blue-50 border-blue-200 text-blue-600" : "bg-white border-gray-200 text-gray-500 hover:bg-gray-50"}`}
-          >
-            <svg
-              className="w-5 h-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          <TaskSearchInput
+            key={viewRevision}
+            initialValue={search}
+            onSearch={setSearch}
+            sources={searchSources}
+          />
+          <div className="relative" ref={filterRef}>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`relative p-2 rounded-lg border ${showFilters || activeFilterCount > 0 ? "bg-blue-50 border-blue-200 text-blue-600" : "bg-white border-gray-200 text-gray-500 hover:bg-gray-50"}`}
+              title="Filter tasks"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth="2"
-                d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
-              />
-            </svg>
-          </button>
-          {showFilters && (
-            <div className="absolute top-full right-0 mt-2 bg-white ....">
-              {/* Reuse existing filter dropdown content logic here or keep it hidden for this mockup phase if too complex to inline again */}
-            </div>
-          )}
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+                />
+              </svg>
+              {activeFilterCount > 0 && (
+                <span className="absolute -top-1.5 -right-1.5 min-w-[1rem] h-4 px-1 rounded-full bg-blue-600 text-white text-[10px] font-bold leading-4">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+            {showFilters && (
+              <div className="absolute top-full right-0 mt-2 w-72 p-4 space-y-4 bg-white border border-gray-200 rounded-xl shadow-lg z-20">
+                <div>
+                  <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+                    Status
+                  </label>
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value)}
+                    className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  >
+                    <option value="all">All statuses</option>
+                    {workflow.map((s) => (
+                      <option key={s.key} value={s.key}>
+                        {s.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+                    Labels
+                  </label>
+                  {tags.length === 0 ? (
+                    <p className="text-xs text-gray-400">No labels yet.</p>
+                  ) : (
+                    <>
+                      <div className="flex flex-wrap gap-1.5">
+                        {tags.map((tag) => {
+                          const included = labelFilter.includes(tag.id);
+                          const excluded = excludeLabelFilter.includes(tag.id);
+                          return (
+                            <button
+                              key={tag.id}
+                              onClick={() => cycleLabelFilter(tag.id)}
+                              className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${
+                                WORKFLOW_COLOR_CLASSES[tag.color].badge
+                              } ${
+                                included
+                                  ? "ring-1 ring-current"
+                                  : excluded
+                                    ? "line-through opacity-60"
+                                    : "opacity-40 hover:opacity-80"
+                              }`}
+                              title={
+                                included
+                                  ? "Showing tasks with this label"
+                                  : excluded
+                                    ? "Hiding tasks with this label"
+                                    : "Not filtering"
+                              }
+                            >
+                              {excluded ? "not " : ""}
+                              {tag.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      <p className="mt-2 text-[10px] text-gray-400">
+                        Click once to include, twice to exclude.
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                {activeFilterCount > 0 && (
+                  <button
+                    onClick={() => {
+                      setStatusFilter("all");
+                      setLabelFilter([], []);
+                    }}
+                    className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -468,7 +799,19 @@ export const Tasks = () => {
           <div className="p-4">
             <ErrorMessage message={error || "Failed to load tasks."} />
           </div>
-        ) : view === "kanban" ? (
+        ) : view === "list" ? (
+          <TaskList
+            tasks={filteredTasks}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+            showFilters={false}
+            groupBy={groupBy}
+            users={usersList}
+            onBulkAction={bulkTasks}
+            sprints={sprints}
+            canReassign={user?.role === "tenantAdmin"}
+          />
+        ) : view === "board" ? (
           <TaskBoard
             tasks={filteredTasks}
             onEdit={handleEdit}
@@ -477,10 +820,13 @@ export const Tasks = () => {
             onAddTask={handleAddTask}
             onTaskUpdate={() => refetch()}
             onUpdate={handleUpdate}
+            onReorder={sort === "rank" ? handleReorder : undefined}
             users={usersList}
             currentUserId={user?.id}
             isTenantAdmin={user?.role === "tenantAdmin"}
           />
+        ) : view === "backlog" ? (
+          <TaskBacklog search={search} onEdit={handleEdit} users={usersList} />
         ) : (
           <TimelineView tasks={filteredTasks} users={usersList} />
         )}
@@ -498,11 +844,21 @@ export const Tasks = () => {
         users={usersList}
         currentUserId={user?.id}
         isTenantAdmin={user?.role === "tenantAdmin"}
+        availableTasks={tasks}
         currentSprintId={selectedSprintId}
       />
 
+      {isImportOpen && (
+        <TaskImportModal
+          sprintId={selectedSprintId}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => refetch()}
+        />
+      )}
+
       {isSprintsOpen && (
         <ManageSprintsModal
+          users={usersList}
           onClose={() => setIsSprintsOpen(false)}
           onSprintsChange={async () => {
             try {
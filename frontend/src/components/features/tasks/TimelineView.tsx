@@ -1,5 +1,6 @@
 import type { Task } from "@/types/task";
 import type { User } from "@/types/user";
+import { useWorkflow } from "@/hooks/useWorkflow";
 
 interface TimelineViewProps {
   tasks: Task[];
@@ -11,31 +12,9 @@ type ParsedTask = Task & {
   endDate: Date;
 };
 
-const STATUS_STYLES: Record<
-  Task["status"],
-  { bar: string; dot: string; label: string }
-> = {
-  todo: {
-    bar: "bg-gray-200 border-gray-300 text-gray-700",
-    dot: "bg-gray-400",
-    label: "To do",
-  },
-  "in-progress": {
-    bar: "bg-blue-100 border-blue-300 text-blue-800",
-    dot: "bg-blue-500",
-    label: "In progress",
-  },
-  "in-review": {
-    bar: "bg-purple-100 border-purple-300 text-purple-800",
-    dot: "bg-purple-500",
-    label: "In review",
-  },
-  completed: {
-    bar: "bg-green-100 border-green-300 text-green-800",
-    dot: "bg-green-500",
-    label: "Completed",
-  },
-};
+// Row geometry in px, must match the h-16 rows and top-3/h-8 bars below
+const ROW_HEIGHT = 64;
+const BAR_CENTER = 28;
 
 const toDate = (value?: Date | string | null): Date | null => {
   if (!value) return null;
@@ -62,6 +41,7 @@ const formatRangeLabel = (start: Date, end: Date) => {
 
 export const TimelineView = (props: TimelineViewProps) => {
   const { tasks, users } = props;
+  const { getColorClasses, getLabel, isDone } = useWorkflow();
 
   const getInitials = (name?: string) => {
     if (!name) return "U";
@@ -135,6 +115,49 @@ export const TimelineView = (props: TimelineViewProps) => {
     return (dayDiff(timelineStart, new Date(clamped)) / totalDays) * 100;
   };
 
+  const bars = new Map(
+    parsedTasks.map((task, row) => {
+      const startPercent = getPercent(task.startDate);
+      const endPercent = Math.max(startPercent + 4, getPercent(task.endDate)); // ensure visible width
+      const width = Math.min(100 - startPercent, endPercent - startPercent);
+      return [task.id, { row, startPercent, width }];
+    }),
+  );
+
+  // Elbow connectors from the end of each blocker's bar to the start of the
+  // task it blocks. x is in percent of the track, y in px.
+  const dependencyArrows = parsedTasks.flatMap((task) =>
+    (task.blockedBy || []).flatMap((blockerId) => {
+      const from = bars.get(blockerId);
+      const to = bars.get(task.id)!;
+      if (!from) return [];
+
+      const blocker = parsedTasks[from.row];
+      const x1 = from.startPercent + from.width;
+      const y1 = from.row * ROW_HEIGHT + BAR_CENTER;
+      const x2 = to.startPercent;
+      const y2 = to.row * ROW_HEIGHT + BAR_CENTER;
+      const gap = 1;
+
+      // Route between rows when the dependent starts before the blocker ends
+      const laneY = y2 > y1 ? y2 - BAR_CENTER : y2 + ROW_HEIGHT - BAR_CENTER;
+      const path =
+        x2 - x1 >= gap * 2
+          ? `M ${x1} ${y1} H ${x1 + gap} V ${y2} H ${x2}`
+          : `M ${x1} ${y1} H ${x1 + gap} V ${laneY} H ${x2 - gap} V ${y2} H ${x2}`;
+
+      return [
+        {
+          key: `${blockerId}-${task.id}`,
+          path,
+          x2,
+          y2,
+          isOpen: !isDone(blocker.status),
+        },
+      ];
+    }),
+  );
+
   const weekMarkers: Date[] = [];
   const startMarker = new Date(timelineStart);
   startMarker.setDate(startMarker.getDate() - startMarker.getDay()); // start of week (Sunday)
@@ -166,15 +189,46 @@ export const TimelineView = (props: TimelineViewProps) => {
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto">
+      <div className="flex-1 overflow-y-auto relative">
+        {dependencyArrows.length > 0 && (
+          <div
+            className="absolute top-0 left-64 right-0 pointer-events-none z-10"
+            style={{ height: parsedTasks.length * ROW_HEIGHT }}
+          >
+            <svg
+              className="absolute inset-0 w-full h-full overflow-visible"
+              viewBox={`0 0 100 ${parsedTasks.length * ROW_HEIGHT}`}
+              preserveAspectRatio="none"
+            >
+              {dependencyArrows.map((arrow) => (
+                <path
+                  key={arrow.key}
+                  d={arrow.path}
+                  fill="none"
+                  stroke={arrow.isOpen ? "#f87171" : "#d1d5db"}
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            </svg>
+            {/* Arrowheads are HTML so the stretched viewBox cannot distort them */}
+            {dependencyArrows.map((arrow) => (
+              <span
+                key={arrow.key}
+                className={`absolute w-0 h-0 border-y-4 border-y-transparent border-l-[6px] ${
+                  arrow.isOpen ? "border-l-red-400" : "border-l-gray-300"
+                }`}
+                style={{
+                  left: `calc(${arrow.x2}% - 6px)`,
+                  top: arrow.y2 - 4,
+                }}
+              />
+            ))}
+          </div>
+        )}
         {parsedTasks.map((task) => {
-          const startPercent = getPercent(task.startDate);
-          const endPercent = Math.max(
-            startPercent + 4,
-            getPercent(task.endDate),
-          ); // ensure visible width
-          const width = Math.min(100 - startPercent, endPercent - startPercent);
-          const styles = STATUS_STYLES[task.status];
+          const { startPercent, width } = bars.get(task.id)!;
+          const styles = getColorClasses(task.status);
 
           return (
             <div
@@ -226,7 +280,7 @@ export const TimelineView = (props: TimelineViewProps) => {
                     })()}
                 </div>
                 <div className="text-[11px] text-gray-500 mt-1">
-                  {styles.label} •{" "}
+                  {getLabel(task.status)} •{" "}
                   {formatRangeLabel(task.startDate, task.endDate)}
                 </div>
               </div>
@@ -1,35 +1,71 @@
 import { useState, useEffect, useRef } from "react";
-import type { Task, TaskStatus, TaskPriority } from "@/types/task";
+import type {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  TaskChanges,
+  ChecklistItemInput,
+  Recurrence,
+} from "@/types/task";
 import type { User } from "@/types/user";
+import type { CustomFieldValues } from "@/types/customField";
 import { Button } from "@/components/ui/button";
-import {
-  STATUS_LABELS,
-  PRIORITY_LABELS,
-  TASK_VALIDATION,
-} from "@/constants/task";
+import { PRIORITY_LABELS, TASK_VALIDATION } from "@/constants/task";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useTags } from "@/hooks/useTags";
 import { taskService } from "@/services/api/taskService";
 import { toast } from "react-hot-toast";
 import { formatDateInputIST, getTomorrowIST } from "@/utils/date";
+import { TaskChecklist } from "./TaskChecklist";
+import { TaskRecurrenceField } from "./TaskRecurrenceField";
+import { TaskCustomFields } from "./TaskCustomFields";
+import { TaskLabelsField } from "./TaskLabelsField";
+import { TaskPeopleField } from "./TaskPeopleField";
+import { TaskTimeTracking } from "./TaskTimeTracking";
+import { TaskWatchButton } from "./TaskWatchButton";
+import { TaskTemplatePicker } from "./TaskTemplatePicker";
+
+const toEstimateHours = (task?: Task | null) =>
+  task?.estimateMinutes != null ? String(task.estimateMinutes / 60) : "";
+
+// Assignees besides the primary one, who is picked separately
+const toCoAssignees = (task?: Task | null) =>
+  (task?.assignees || []).filter((id) => id !== task?.userId);
+
+const toChecklistInput = (task?: Task | null): ChecklistItemInput[] =>
+  (task?.checklist || []).map(({ id, title, done }) => ({ id, title, done }));
+
+// Tasks that (transitively) wait on `taskId`; picking one as a blocker would
+// create a cycle
+const findDependents = (taskId: string, tasks: Task[]) => {
+  const dependents = new Set<string>();
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    tasks.forEach((t) => {
+      if (t.blockedBy?.includes(current) && !dependents.has(t.id)) {
+        dependents.add(t.id);
+        queue.push(t.id);
+      }
+    });
+  }
+  return dependents;
+};
 
 interface UnifiedTaskModalProps {
   task?: Task | null; // If null/undefined, it's create mode
   isOpen: boolean;
   onClose: () => void;
-  onSave: (
-    taskId: string,
-    updates: Partial<Omit<Task, "dueDate">> & {
-      dueDate?: string | Date | null;
-    },
-  ) => void;
-  onCreate?: (
-    data: Partial<Omit<Task, "dueDate">> & { dueDate?: string | Date | null },
-  ) => void;
+  onSave: (taskId: string, updates: TaskChanges) => void;
+  onCreate?: (data: TaskChanges) => void;
   onTaskUpdate?: () => void;
   defaultStatus?: TaskStatus;
   users?: User[]; // For tenant admin assignee selection
   currentUserId?: string;
   isTenantAdmin?: boolean;
   currentSprintId?: string | null; // Current sprint context
+  availableTasks?: Task[]; // Candidates for "blocked by"
 }
 
 export const UnifiedTaskModal = ({
@@ -39,20 +75,30 @@ export const UnifiedTaskModal = ({
   onSave,
   onCreate,
   onTaskUpdate,
-  defaultStatus = "todo",
+  defaultStatus,
   users = [],
   currentUserId,
   isTenantAdmin = false,
   currentSprintId = null,
+  availableTasks = [],
 }: UnifiedTaskModalProps) => {
   const isCreateMode = !task;
+  const {
+    workflow,
+    initialStatus,
+    getLabel,
+    getColorClasses,
+    isDone,
+    canTransition,
+  } = useWorkflow();
+  const { fields: customFieldDefinitions } = useCustomFields();
+  const { tags } = useTags();
+  const startStatus = defaultStatus || initialStatus;
 
   // Form state
   const [title, setTitle] = useState(task?.title || "");
   const [description, setDescription] = useState(task?.description || "");
-  const [status, setStatus] = useState<TaskStatus>(
-    task?.status || defaultStatus,
-  );
+  const [status, setStatus] = useState<TaskStatus>(task?.status || startStatus);
   const [priority, setPriority] = useState<TaskPriority>(
     task?.priority || "medium",
   );
@@ -62,6 +108,23 @@ export const UnifiedTaskModal = ({
   const [selectedUserId, setSelectedUserId] = useState<string>(
     task?.userId || currentUserId || "",
   );
+  const [checklist, setChecklist] = useState<ChecklistItemInput[]>(() =>
+    toChecklistInput(task),
+  );
+  const [blockedBy, setBlockedBy] = useState<string[]>(task?.blockedBy || []);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(
+    task?.recurrence || null,
+  );
+  const [customFields, setCustomFields] = useState<CustomFieldValues>(
+    task?.customFields || {},
+  );
+  const [labels, setLabels] = useState<string[]>(task?.labels || []);
+  const [coAssignees, setCoAssignees] = useState<string[]>(() =>
+    toCoAssignees(task),
+  );
+  const [reviewerId, setReviewerId] = useState(task?.reviewerId || "");
+  // Hours as typed, stored on the task in minutes
+  const [estimateHours, setEstimateHours] = useState(toEstimateHours(task));
 
   // Sprint is set from context (parent component) for create mode, or from task for edit
   const lockedSprintId = task ? task.sprintId || "" : currentSprintId || "";
@@ -94,15 +157,31 @@ export const UnifiedTaskModal = ({
           task.dueDate ? formatDateInputIST(task.dueDate) : getTomorrowIST(),
         );
         setSelectedUserId(task.userId || currentUserId || "");
+        setChecklist(toChecklistInput(task));
+        setBlockedBy(task.blockedBy || []);
+        setRecurrence(task.recurrence || null);
+        setCustomFields(task.customFields || {});
+        setLabels(task.labels || []);
+        setCoAssignees(toCoAssignees(task));
+        setReviewerId(task.reviewerId || "");
+        setEstimateHours(toEstimateHours(task));
         // Sprint is read-only in edit mode
       } else {
         // Reset for create mode
         setTitle("");
         setDescription("");
-        setStatus(defaultStatus);
+        setStatus(startStatus);
         setPriority("medium");
         setDueDate(getTomorrowIST());
         setSelectedUserId(currentUserId || "");
+        setChecklist([]);
+        setBlockedBy([]);
+        setRecurrence(null);
+        setCustomFields({});
+        setLabels([]);
+        setCoAssignees([]);
+        setReviewerId("");
+        setEstimateHours("");
         // Sprint is set from context
       }
       setErrors({});
@@ -117,8 +196,16 @@ export const UnifiedTaskModal = ({
     task?.dueDate,
     task?.userId,
     task?.sprintId,
+    task?.checklist,
+    task?.blockedBy,
+    task?.recurrence,
+    task?.customFields,
+    task?.labels,
+    task?.assignees,
+    task?.reviewerId,
+    task?.estimateMinutes,
     currentSprintId,
-    defaultStatus,
+    startStatus,
     currentUserId,
   ]);
 
@@ -154,6 +241,64 @@ export const UnifiedTaskModal = ({
       return;
     }
 
+    const missingField = customFieldDefinitions.find(
+      (field) =>
+        field.required &&
+        (customFields[field.key] ?? "") === "" &&
+        (isCreateMode || field.key in customFields),
+    );
+    if (missingField) {
+      toast.error(`${missingField.label} is required`);
+      return;
+    }
+
+    const estimate = estimateHours.trim() ? parseFloat(estimateHours) : null;
+    if (estimate !== null && (isNaN(estimate) || estimate < 0)) {
+      toast.error("Estimate must be a positive number of hours");
+      return;
+    }
+    const estimateMinutes =
+      estimate === null ? null : Math.round(estimate * 60);
+
+    // Open blockers keep a task in the first column
+    const openBlockers = availableTasks.filter(
+      (t) => blockedBy.includes(t.id) && !isDone(t.status),
+    );
+    if (
+      status !== initialStatus &&
+      status !== task?.status &&
+      openBlockers.length > 0
+    ) {
+      toast.error(
+        `Task is blocked by: ${openBlockers.map((t) => `"${t.title}"`).join(", ")}`,
+      );
+      return;
+    }
+
+    // Open checklist items block completion; admins may override
+    let overrideChecklist = false;
+    if (
+      isDone(status) &&
+      !(task && isDone(task.status)) &&
+      checklist.some((item) => !item.done)
+    ) {
+      if (!isTenantAdmin) {
+        toast.error("Complete all checklist items before completing the task");
+        return;
+      }
+      if (
+        !window.confirm(
+          "This task still has open checklist items. Mark it as completed anyway?",
+        )
+      ) {
+        return;
+      }
+      overrideChecklist = true;
+    }
+
+    // The primary assignee may have been picked from the co-assignees
+    const otherAssignees = coAssignees.filter((id) => id !== selectedUserId);
+
     if (isCreateMode) {
       // Create new task
       if (onCreate) {
@@ -165,6 +310,13 @@ export const UnifiedTaskModal = ({
           // Send date string (YYYY-MM-DD) - backend will parse as IST
           dueDate: dueDate || null,
           sprintId: lockedSprintId || null,
+          checklist,
+          blockedBy,
+          recurrence,
+          customFields,
+          labels,
+          estimateMinutes,
+          ...(overrideChecklist && { overrideChecklist }),
           // For tenant admin: send selectedUserId if it's not empty, otherwise undefined
           // For regular users: send currentUserId
           userId: isTenantAdmin
@@ -172,6 +324,11 @@ export const UnifiedTaskModal = ({
               ? selectedUserId
               : undefined
             : currentUserId,
+          ...(isTenantAdmin &&
+            otherAssignees.length > 0 && {
+              assignees: [selectedUserId, ...otherAssignees],
+            }),
+          ...(reviewerId && { reviewerId }),
         });
       }
     } else {
@@ -184,10 +341,23 @@ export const UnifiedTaskModal = ({
         // Send date string (YYYY-MM-DD) - backend will parse as IST
         dueDate: dueDate || null,
         sprintId: lockedSprintId || null,
+        checklist,
+        blockedBy,
+        recurrence,
+        customFields,
+        labels,
+        estimateMinutes,
+        ...(overrideChecklist && { overrideChecklist }),
         // Include userId only if tenant admin and selectedUserId is not empty
         ...(isTenantAdmin &&
           selectedUserId &&
-          selectedUserId.trim() !== "" && { userId: selectedUserId }),
+          selectedUserId.trim() !== "" && {
+            userId: selectedUserId,
+            assignees: [selectedUserId, ...otherAssignees],
+          }),
+        ...(reviewerId !== (task.reviewerId || "") && {
+          reviewerId: reviewerId || null,
+        }),
       });
     }
     onClose();
@@ -266,6 +436,16 @@ export const UnifiedTaskModal = ({
 
   const userInfo = getSelectedUserInfo();
 
+  const excludedBlockers = task
+    ? findDependents(task.id, availableTasks)
+    : new Set<string>();
+  const blockerOptions = availableTasks.filter(
+    (t) =>
+      t.id !== task?.id &&
+      !blockedBy.includes(t.id) &&
+      !excludedBlockers.has(t.id),
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
       {/* Modal Container */}
@@ -286,6 +466,15 @@ export const UnifiedTaskModal = ({
             </h2>
           </div>
           <div className="flex items-center gap-2">
+            {!isCreateMode && currentUserId && (
+              <TaskWatchButton
+                key={task.id}
+                taskId={task.id}
+                watchers={task.watchers || []}
+                currentUserId={currentUserId}
+                onChange={onTaskUpdate}
+              />
+            )}
             <Button
               variant="ghost"
               onClick={onClose}
@@ -312,6 +501,18 @@ export const UnifiedTaskModal = ({
         <div className="flex-1 flex overflow-hidden">
           {/* Left Section (Main) */}
           <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+            {/* Templates - Create mode only, replaces filling in the form */}
+            {isCreateMode && (
+              <TaskTemplatePicker
+                sprintId={lockedSprintId}
+                assigneeId={isTenantAdmin ? selectedUserId : undefined}
+                onCreated={() => {
+                  onTaskUpdate?.();
+                  onClose();
+                }}
+              />
+            )}
+
             {/* Title - Always editable */}
             <div className="space-y-2">
               <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">
@@ -350,6 +551,9 @@ export const UnifiedTaskModal = ({
               />
             </div>
 
+            {/* Checklist */}
+            <TaskChecklist items={checklist} onChange={setChecklist} />
+
             {/* Attachments - Available in both modes but disabled in create */}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
@@ -511,9 +715,14 @@ export const UnifiedTaskModal = ({
                   onChange={(e) => setStatus(e.target.value as TaskStatus)}
                   className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
                 >
-                  {Object.entries(STATUS_LABELS).map(([key, label]) => (
-                    <option key={key} value={key}>
-                      {label}
+                  {workflow.map((s) => (
+                    <option
+                      key={s.key}
+                      value={s.key}
+                      // Existing tasks can only move where the tenant's rules allow
+                      disabled={!!task && !canTransition(task.status, s.key)}
+                    >
+                      {s.label}
                     </option>
                   ))}
                 </select>
@@ -579,6 +788,91 @@ export const UnifiedTaskModal = ({
               </div>
             </div>
 
+            <TaskCustomFields
+              fields={customFieldDefinitions}
+              values={customFields}
+              onChange={setCustomFields}
+              users={users}
+            />
+
+            {isTenantAdmin && (
+              <TaskPeopleField
+                users={users}
+                assigneeId={selectedUserId}
+                coAssignees={coAssignees}
+                onCoAssigneesChange={setCoAssignees}
+                reviewerId={reviewerId}
+                onReviewerChange={setReviewerId}
+              />
+            )}
+
+            <TaskLabelsField tags={tags} value={labels} onChange={setLabels} />
+
+            {/* Dependencies */}
+            <div className="space-y-2 pt-3 border-t border-gray-200">
+              <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+                Blocked By
+              </label>
+              {blockedBy.map((blockerId) => {
+                const blocker = availableTasks.find((t) => t.id === blockerId);
+                return (
+                  <div
+                    key={blockerId}
+                    className="flex items-center gap-2 px-2 py-1.5 bg-white border border-gray-200 rounded-md"
+                  >
+                    {blocker && (
+                      <span
+                        className={`text-[9px] px-1.5 py-0.5 rounded font-medium shrink-0 ${getColorClasses(blocker.status).badge}`}
+                      >
+                        {getLabel(blocker.status)}
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-700 truncate flex-1">
+                      {blocker ? blocker.title : "Task not in current view"}
+                    </span>
+                    <button
+                      onClick={() =>
+                        setBlockedBy(blockedBy.filter((id) => id !== blockerId))
+                      }
+                      className="text-gray-400 hover:text-red-500"
+                      title="Remove dependency"
+                    >
+                      <svg
+                        className="w-3 h-3"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth="2"
+                          d="M6 18L18 6M6 6l12 12"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                );
+              })}
+              {blockerOptions.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) =>
+                    e.target.value &&
+                    setBlockedBy([...blockedBy, e.target.value])
+                  }
+                  className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs font-medium focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                >
+                  <option value="">Add blocking task...</option>
+                  {blockerOptions.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
             {/* Dates */}
             <div className="space-y-3 pt-3 border-t border-gray-200">
               <div>
@@ -592,7 +886,27 @@ export const UnifiedTaskModal = ({
                   onChange={(e) => setDueDate(e.target.value)}
                 />
               </div>
+              <TaskRecurrenceField
+                value={recurrence}
+                onChange={setRecurrence}
+              />
+              <div>
+                <label className="text-[10px] font-bold text-gray-400 uppercase mb-1 block tracking-wide">
+                  Estimate (hours)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  placeholder="0"
+                  className="w-full h-8 px-2 bg-white border border-gray-200 rounded-md text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                  value={estimateHours}
+                  onChange={(e) => setEstimateHours(e.target.value)}
+                />
+              </div>
             </div>
+
+            {!isCreateMode && <TaskTimeTracking taskId={task.id} />}
           </div>
         </div>
 
@@ -24,6 +24,8 @@ export const API_ENDPOINTS = {
     UPDATE_USER: (id: string) => `/api/auth/users/${id}`,
     DELETE_USER: (id: string) => `/api/auth/users/${id}`,
     ORGANIZATION: "/api/auth/organization",
+    WORKFLOW: "/api/auth/organization/workflow",
+    CUSTOM_FIELDS: "/api/auth/organization/custom-fields",
     ALL_ORGANIZATIONS: "/api/auth/organizations",
     CREATE_ORGANIZATION: "/api/auth/organizations",
   },
@@ -32,6 +34,44 @@ export const API_ENDPOINTS = {
     CREATE: "/api/tasks",
     UPDATE: (id: string) => `/api/tasks/${id}`,
     DELETE: (id: string) => `/api/tasks/${id}`,
+    BULK: "/api/tasks/bulk",
+    IMPORT: "/api/tasks/import",
+    EXPORT: "/api/tasks/export",
+    FROM_TEMPLATE: (templateId: string) =>
+      `/api/tasks/from-template/${templateId}`,
+    ACTIVITY: (id: string) => `/api/tasks/${id}/activity`,
+    COMMENTS: (id: string) => `/api/tasks/${id}/comments`,
+    COMMENT: (id: string, commentId: string) =>
+      `/api/tasks/${id}/comments/${commentId}`,
+    TIME: (id: string) => `/api/tasks/${id}/time`,
+    TIME_ENTRY: (id: string, entryId: string) =>
+      `/api/tasks/${id}/time/${entryId}`,
+    TIMER_START: (id: string) => `/api/tasks/${id}/timer/start`,
+    TIMER_STOP: (id: string) => `/api/tasks/${id}/timer/stop`,
+    WATCH: (id: string) => `/api/tasks/${id}/watch`,
+    RANK: (id: string) => `/api/tasks/${id}/rank`,
+  },
+  TAGS: {
+    LIST: "/api/tags",
+    CREATE: "/api/tags",
+    UPDATE: (id: string) => `/api/tags/${id}`,
+    DELETE: (id: string) => `/api/tags/${id}`,
+  },
+  TASK_TEMPLATES: {
+    LIST: "/api/task-templates",
+    CREATE: "/api/task-templates",
+    UPDATE: (id: string) => `/api/task-templates/${id}`,
+    DELETE: (id: string) => `/api/task-templates/${id}`,
+  },
+  CALENDAR: {
+    FEED: "/api/calendar/feed",
+  },
+  VIEWS: {
+    LIST: "/api/views",
+    CREATE: "/api/views",
+    UPDATE: (id: string) => `/api/views/${id}`,
+    DELETE: (id: string) => `/api/views/${id}`,
+    DEFAULT: "/api/views/default",
   },
   NOTIFICATIONS: {
     LIST: "/api/notifications",
@@ -40,10 +80,14 @@ export const API_ENDPOINTS = {
     MARK_ALL_READ: "/api/notifications/mark-all-read",
     DELETE: (id: string) => `/api/notifications/${id}`,
     DELETE_ALL_READ: "/api/notifications",
+    PREFERENCES: "/api/notifications/preferences",
   },
   ANALYTICS: {
     STATS: "/api/analytics/stats",
     WORKLOAD: "/api/analytics/workload",
+    TIME: "/api/analytics/time",
+    VELOCITY: "/api/analytics/velocity",
+    SPRINT_BURNDOWN: (id: string) => `/api/analytics/sprints/${id}/burndown`,
   },
 } as const;
 
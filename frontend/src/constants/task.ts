@@ -1,12 +1,7 @@
 /**
  * Task Constants
  */
-export const TASK_STATUS = {
-  TODO: "todo",
-  IN_PROGRESS: "in-progress",
-  IN_REVIEW: "in-review",
-  COMPLETED: "completed",
-} as const;
+import type { WorkflowColor, WorkflowStatus } from "@/types/workflow";
 
 export const TASK_PRIORITY = {
   LOW: "low",
@@ -14,18 +9,91 @@ export const TASK_PRIORITY = {
   HIGH: "high",
 } as const;
 
-export const STATUS_COLORS: Record<string, string> = {
-  todo: "bg-gray-100 text-gray-800",
-  "in-progress": "bg-blue-100 text-blue-800",
-  "in-review": "bg-purple-100 text-purple-800",
-  completed: "bg-green-100 text-green-800",
-};
+// Used until the tenant's workflow has loaded, matches the backend default
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { key: "todo", label: "To Do", category: "open", color: "gray" },
+  { key: "in-progress", label: "In Progress", category: "open", color: "blue" },
+  {
+    key: "in-review",
+    label: "In Review",
+    category: "open",
+    color: "purple",
+    review: true,
+  },
+  { key: "completed", label: "Completed", category: "done", color: "green" },
+];
 
-export const STATUS_LABELS: Record<string, string> = {
-  todo: "To Do",
-  "in-progress": "In Progress",
-  "in-review": "In Review",
-  completed: "Completed",
+// Matches any status in a transition rule
+export const ANY_STATUS = "*";
+
+// Full class names so Tailwind picks them up, plus a hex color for charts
+export const WORKFLOW_COLOR_CLASSES: Record<
+  WorkflowColor,
+  { badge: string; column: string; bar: string; dot: string; chart: string }
+> = {
+  gray: {
+    badge: "bg-gray-100 text-gray-800",
+    column: "bg-gray-50/50",
+    bar: "bg-gray-200 border-gray-300 text-gray-700",
+    dot: "bg-gray-400",
+    chart: "#9CA3AF",
+  },
+  blue: {
+    badge: "bg-blue-100 text-blue-800",
+    column: "bg-blue-50/50",
+    bar: "bg-blue-100 border-blue-300 text-blue-800",
+    dot: "bg-blue-500",
+    chart: "#3B82F6",
+  },
+  purple: {
+    badge: "bg-purple-100 text-purple-800",
+    column: "bg-purple-50/50",
+    bar: "bg-purple-100 border-purple-300 text-purple-800",
+    dot: "bg-purple-500",
+    chart: "#A855F7",
+  },
+  green: {
+    badge: "bg-green-100 text-green-800",
+    column: "bg-green-50/50",
+    bar: "bg-green-100 border-green-300 text-green-800",
+    dot: "bg-green-500",
+    chart: "#22C55E",
+  },
+  yellow: {
+    badge: "bg-yellow-100 text-yellow-800",
+    column: "bg-yellow-50/50",
+    bar: "bg-yellow-100 border-yellow-300 text-yellow-800",
+    dot: "bg-yellow-500",
+    chart: "#EAB308",
+  },
+  orange: {
+    badge: "bg-orange-100 text-orange-800",
+    column: "bg-orange-50/50",
+    bar: "bg-orange-100 border-orange-300 text-orange-800",
+    dot: "bg-orange-500",
+    chart: "#F97316",
+  },
+  red: {
+    badge: "bg-red-100 text-red-800",
+    column: "bg-red-50/50",
+    bar: "bg-red-100 border-red-300 text-red-800",
+    dot: "bg-red-500",
+    chart: "#EF4444",
+  },
+  teal: {
+    badge: "bg-teal-100 text-teal-800",
+    column: "bg-teal-50/50",
+    bar: "bg-teal-100 border-teal-300 text-teal-800",
+    dot: "bg-teal-500",
+    chart: "#14B8A6",
+  },
+  pink: {
+    badge: "bg-pink-100 text-pink-800",
+    column: "bg-pink-50/50",
+    bar: "bg-pink-100 border-pink-300 text-pink-800",
+    dot: "bg-pink-500",
+    chart: "#EC4899",
+  },
 };
 
 export const PRIORITY_COLORS: Record<string, string> = {
@@ -51,3 +119,15 @@ export const DEFAULT_PAGINATION = {
   LIMIT: 10,
   PAGE: 1,
 } as const;
+
+// Filters understood by the task search box, matches the backend syntax
+export const TASK_SEARCH_KEYS = [
+  { key: "status", example: "status:!completed" },
+  { key: "priority", example: "priority:high,medium" },
+  { key: "due", example: "due:<7d, due:overdue" },
+  { key: "assignee", example: "assignee:me" },
+  { key: "createdBy", example: "createdBy:me" },
+  { key: "sprint", example: "sprint:current" },
+  { key: "label", example: "label:bug" },
+  { key: "sort", example: "sort:-due,title" },
+] as const;
@@ -1,2 +1,9 @@
 export { useTasks } from "./useTasks";
 export { useNotifications } from "./useNotifications";
+export { useTaskComments } from "./useTaskComments";
+export { useTaskActivity } from "./useTaskActivity";
+export { useWorkflow } from "./useWorkflow";
+export { useCustomFields } from "./useCustomFields";
+export { useTags } from "./useTags";
+export { useSavedViews } from "./useSavedViews";
+export { useBacklog } from "./useBacklog";
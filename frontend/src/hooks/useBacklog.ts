@@ -0,0 +1,72 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { taskService } from "@/services/api";
+import { useAuthStore } from "@/store";
+import { getErrorMessage } from "@/types/errors";
+import type { TaskMovePosition, TaskPage } from "@/types/task";
+import { moveTaskInList } from "@/utils/taskRank";
+
+// The most tasks a page of getTasks returns
+const BACKLOG_LIMIT = 100;
+
+/**
+ * Tasks outside every sprint in their manual order, narrowed by the search
+ * of the task page, with a mutation to reorder them
+ */
+export const useBacklog = (search = "") => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const q = `${search} sprint:none`.trim();
+  const queryKey = ["tasks", "backlog", user?.tenantId ?? "self", q];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () =>
+      taskService.getTasks({
+        q,
+        sort: "rank",
+        limit: BACKLOG_LIMIT,
+        tenantId: user?.tenantId ?? undefined,
+        userId: user?.role === "user" ? user.id : undefined,
+      }),
+    enabled: Boolean(user),
+  });
+
+  const moveTaskMutation = useMutation({
+    mutationFn: ({
+      id,
+      position,
+    }: {
+      id: string;
+      position: TaskMovePosition;
+    }) => taskService.moveTask(id, position),
+    // Show the new order right away, the refetch confirms it
+    onMutate: async ({ id, position }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<TaskPage>(queryKey);
+      if (previous) {
+        queryClient.setQueryData<TaskPage>(queryKey, {
+          ...previous,
+          tasks: moveTaskInList(previous.tasks, id, position),
+        });
+      }
+      return { previous };
+    },
+    onError: (_error, _variables, moved) => {
+      if (moved?.previous) {
+        queryClient.setQueryData(queryKey, moved.previous);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["tasks"] }),
+  });
+
+  const tasks = useMemo(() => data?.tasks ?? [], [data]);
+
+  return {
+    tasks,
+    total: data?.total ?? 0,
+    isLoading,
+    error: error ? getErrorMessage(error) : null,
+    moveTask: moveTaskMutation.mutateAsync,
+  };
+};
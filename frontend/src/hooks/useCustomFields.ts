@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { customFieldService } from "@/services/api";
+import { useAuthStore } from "@/store";
+import { formatDateISTShort } from "@/utils/date";
+import type {
+  CustomFieldDefinition,
+  CustomFieldValue,
+} from "@/types/customField";
+import type { User } from "@/types/user";
+
+const NO_FIELDS: CustomFieldDefinition[] = [];
+
+export const customFieldsQueryKey = (tenantId?: string | null) => [
+  "customFields",
+  tenantId,
+];
+
+/**
+ * Display text for a custom field value; user fields show the user's name
+ * when the user is in `users`.
+ */
+export const formatCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue,
+  users: User[] = [],
+) => {
+  if (field.type === "date") return formatDateISTShort(String(value));
+  if (field.type === "user") {
+    const user = users.find((u) => (u.id || u._id) === value);
+    return user ? user.name || user.email : "Unknown user";
+  }
+  return String(value);
+};
+
+/**
+ * The custom task fields defined by the tenant
+ */
+export const useCustomFields = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: customFieldsQueryKey(user?.tenantId),
+    queryFn: () => customFieldService.getCustomFields(),
+    enabled: Boolean(user),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const updateFieldsMutation = useMutation({
+    mutationFn: (fields: CustomFieldDefinition[]) =>
+      customFieldService.updateCustomFields(
+        fields,
+        user?.tenantId || undefined,
+      ),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(customFieldsQueryKey(user?.tenantId), updated);
+      // Values that no longer fit a field were cleared on the server
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+  });
+
+  return {
+    fields: data || NO_FIELDS,
+    isLoading,
+    updateFields: updateFieldsMutation.mutateAsync,
+    isUpdating: updateFieldsMutation.isPending,
+  };
+};
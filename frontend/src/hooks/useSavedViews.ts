@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { savedViewService } from "@/services/api";
+import { useAuthStore } from "@/store";
+import type { SavedView, SavedViewData } from "@/types/savedView";
+
+const NO_VIEWS: SavedView[] = [];
+
+export const savedViewsQueryKey = (userId?: string) => ["savedViews", userId];
+
+/**
+ * The user's personal views and the tenant's shared views
+ */
+export const useSavedViews = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const queryKey = savedViewsQueryKey(user?.id);
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => savedViewService.getViews(),
+    enabled: Boolean(user?.tenantId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const createViewMutation = useMutation({
+    mutationFn: (view: SavedViewData) => savedViewService.createView(view),
+    onSuccess: invalidate,
+  });
+
+  const updateViewMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<SavedViewData> }) =>
+      savedViewService.updateView(id, data),
+    onSuccess: invalidate,
+  });
+
+  const deleteViewMutation = useMutation({
+    mutationFn: (id: string) => savedViewService.deleteView(id),
+    onSuccess: invalidate,
+  });
+
+  const setDefaultViewMutation = useMutation({
+    mutationFn: (viewId: string | null) =>
+      savedViewService.setDefaultView(viewId),
+    onSuccess: invalidate,
+  });
+
+  return {
+    views: data?.views || NO_VIEWS,
+    defaultViewId: data?.defaultViewId ?? null,
+    isLoading: Boolean(user?.tenantId) && isLoading,
+    createView: createViewMutation.mutateAsync,
+    updateView: (id: string, data: Partial<SavedViewData>) =>
+      updateViewMutation.mutateAsync({ id, data }),
+    deleteView: deleteViewMutation.mutateAsync,
+    setDefaultView: setDefaultViewMutation.mutateAsync,
+  };
+};
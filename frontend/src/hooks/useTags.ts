@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { tagService } from "@/services/api";
+import { useAuthStore } from "@/store";
+import type { Tag, TagData } from "@/types/tag";
+
+const NO_TAGS: Tag[] = [];
+
+export const tagsQueryKey = (tenantId?: string | null) => ["tags", tenantId];
+
+/**
+ * The tenant's tag catalog, with mutations for admins to manage it
+ */
+export const useTags = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const queryKey = tagsQueryKey(user?.tenantId);
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => tagService.getTags(),
+    enabled: Boolean(user),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const tags = data || NO_TAGS;
+
+  const createTagMutation = useMutation({
+    mutationFn: (tag: TagData) => tagService.createTag(tag),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const updateTagMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TagData> }) =>
+      tagService.updateTag(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: (id: string) => tagService.deleteTag(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      // The tag was removed from every task that carried it
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+  });
+
+  return {
+    tags,
+    isLoading,
+    getTag: (id: string) => tags.find((tag) => tag.id === id),
+    createTag: createTagMutation.mutateAsync,
+    updateTag: (id: string, data: Partial<TagData>) =>
+      updateTagMutation.mutateAsync({ id, data }),
+    deleteTag: deleteTagMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { taskService } from "@/services/api";
+import { getErrorMessage } from "@/types/errors";
+
+export const taskActivityQueryKey = (taskId?: string) => [
+  "task-activity",
+  taskId,
+];
+
+export const useTaskActivity = (taskId?: string, enabled = true) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: taskActivityQueryKey(taskId),
+    queryFn: () => taskService.getActivity(taskId!),
+    enabled: Boolean(taskId) && enabled,
+  });
+
+  return {
+    activities: data ?? [],
+    isLoading,
+    error: error ? getErrorMessage(error) : null,
+  };
+};
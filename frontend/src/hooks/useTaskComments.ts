@@ -0,0 +1,49 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { commentService } from "@/services/api";
+import { getErrorMessage } from "@/types/errors";
+import type { CreateCommentData } from "@/types/comment";
+
+const commentsQueryKey = (taskId?: string) => ["task-comments", taskId];
+
+export const useTaskComments = (taskId?: string) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: commentsQueryKey(taskId),
+    queryFn: () => commentService.getComments(taskId!),
+    enabled: Boolean(taskId),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: commentsQueryKey(taskId) });
+
+  const addCommentMutation = useMutation({
+    mutationFn: (data: CreateCommentData) =>
+      commentService.createComment(taskId!, data),
+    onSuccess: invalidate,
+  });
+
+  const updateCommentMutation = useMutation({
+    mutationFn: ({ commentId, body }: { commentId: string; body: string }) =>
+      commentService.updateComment(taskId!, commentId, body),
+    onSuccess: invalidate,
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: (commentId: string) =>
+      commentService.deleteComment(taskId!, commentId),
+    onSuccess: invalidate,
+  });
+
+  return {
+    comments: data ?? [],
+    isLoading,
+    error: error ? getErrorMessage(error) : null,
+
+    addComment: addCommentMutation.mutateAsync,
+    updateComment: updateCommentMutation.mutateAsync,
+    deleteComment: deleteCommentMutation.mutateAsync,
+
+    isSubmitting: addCommentMutation.isPending,
+  };
+};
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { taskTemplateService } from "@/services/api";
+import { useAuthStore } from "@/store";
+import type { TaskTemplate, TaskTemplateData } from "@/types/taskTemplate";
+
+const NO_TEMPLATES: TaskTemplate[] = [];
+
+export const taskTemplatesQueryKey = (tenantId?: string | null) => [
+  "taskTemplates",
+  tenantId,
+];
+
+/**
+ * The tenant's task templates, with mutations for admins to manage them
+ */
+export const useTaskTemplates = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const queryKey = taskTemplatesQueryKey(user?.tenantId);
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => taskTemplateService.getTemplates(),
+    enabled: Boolean(user),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const createTemplateMutation = useMutation({
+    mutationFn: (template: TaskTemplateData) =>
+      taskTemplateService.createTemplate(template),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const updateTemplateMutation = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<TaskTemplateData>;
+    }) => taskTemplateService.updateTemplate(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (id: string) => taskTemplateService.deleteTemplate(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    templates: data || NO_TEMPLATES,
+    isLoading,
+    createTemplate: createTemplateMutation.mutateAsync,
+    updateTemplate: (id: string, data: Partial<TaskTemplateData>) =>
+      updateTemplateMutation.mutateAsync({ id, data }),
+    deleteTemplate: deleteTemplateMutation.mutateAsync,
+  };
+};
@@ -2,11 +2,15 @@ import { useMemo, useState, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { taskService } from "@/services/api";
 import { getErrorMessage } from "@/types/errors";
+import { moveTaskInList } from "@/utils/taskRank";
 import type {
   Task,
   CreateTaskData,
   UpdateTaskData,
+  BulkTaskRequest,
   TaskFormData,
+  TaskMovePosition,
+  TaskPage,
   TaskQueryParams,
 } from "../types/task";
 
@@ -27,6 +31,9 @@ const tasksQueryKey = (context?: UseTasksContext, params?: TaskQueryParams) => [
   params?.limit ?? 6,
   params?.q ?? "",
   params?.status ?? "all",
+  params?.labels?.join(",") ?? "",
+  params?.excludeLabels?.join(",") ?? "",
+  params?.sort ?? "",
 ];
 
 export const useTasks = (context?: UseTasksContext) => {
@@ -35,6 +42,9 @@ export const useTasks = (context?: UseTasksContext) => {
   const [limit, setLimit] = useState(6);
   const [q, setQ] = useState("");
   const [status, setStatus] = useState<"all" | Task["status"]>("all");
+  const [labels, setLabels] = useState<string[]>([]);
+  const [excludeLabels, setExcludeLabels] = useState<string[]>([]);
+  const [sort, setSortState] = useState("");
 
   const tenantId = context?.tenantId ?? undefined;
   const userId = context?.userId ?? undefined;
@@ -44,13 +54,24 @@ export const useTasks = (context?: UseTasksContext) => {
     role === "superadmin" ? true : Boolean(tenantId || userId);
 
   const { data, isLoading, isError, error, refetch } = useQuery({
-    queryKey: tasksQueryKey(context, { page, limit, q, status }),
+    queryKey: tasksQueryKey(context, {
+      page,
+      limit,
+      q,
+      status,
+      labels,
+      excludeLabels,
+      sort,
+    }),
     queryFn: () =>
       taskService.getTasks({
         page,
         limit,
         q,
         status,
+        labels,
+        excludeLabels,
+        sort,
         tenantId,
         userId: role === "user" ? userId : undefined,
       }),
@@ -77,7 +98,15 @@ export const useTasks = (context?: UseTasksContext) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({
-        queryKey: tasksQueryKey(context, { page, limit, q, status }),
+        queryKey: tasksQueryKey(context, {
+          page,
+          limit,
+          q,
+          status,
+          labels,
+          excludeLabels,
+          sort,
+        }),
       });
     },
   });
@@ -87,7 +116,15 @@ export const useTasks = (context?: UseTasksContext) => {
       taskService.updateTask(id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({
-        queryKey: tasksQueryKey(context, { page, limit, q, status }),
+        queryKey: tasksQueryKey(context, {
+          page,
+          limit,
+          q,
+          status,
+          labels,
+          excludeLabels,
+          sort,
+        }),
       });
     },
   });
@@ -96,11 +133,76 @@ export const useTasks = (context?: UseTasksContext) => {
     mutationFn: (id: string) => taskService.deleteTask(id),
     onSuccess: () => {
       queryClient.invalidateQueries({
-        queryKey: tasksQueryKey(context, { page, limit, q, status }),
+        queryKey: tasksQueryKey(context, {
+          page,
+          limit,
+          q,
+          status,
+          labels,
+          excludeLabels,
+          sort,
+        }),
       });
     },
   });
 
+  const bulkTaskMutation = useMutation({
+    mutationFn: (request: BulkTaskRequest) => taskService.bulkTasks(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: tasksQueryKey(context, {
+          page,
+          limit,
+          q,
+          status,
+          labels,
+          excludeLabels,
+          sort,
+        }),
+      });
+    },
+  });
+
+  const moveTaskMutation = useMutation({
+    mutationFn: ({
+      id,
+      position,
+    }: {
+      id: string;
+      position: TaskMovePosition;
+    }) => taskService.moveTask(id, position),
+    // Show the new order right away, the refetch confirms it
+    onMutate: async ({ id, position }) => {
+      const queryKey = tasksQueryKey(context, {
+        page,
+        limit,
+        q,
+        status,
+        labels,
+        excludeLabels,
+        sort,
+      });
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<TaskPage>(queryKey);
+      if (previous) {
+        queryClient.setQueryData<TaskPage>(queryKey, {
+          ...previous,
+          tasks: moveTaskInList(previous.tasks, id, position),
+        });
+      }
+      return { queryKey, previous };
+    },
+    onError: (_error, _variables, moved) => {
+      if (moved?.previous) {
+        queryClient.setQueryData(moved.queryKey, moved.previous);
+      }
+    },
+    onSettled: () => {
+      // The backlog view lists the same tasks
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+  });
+
   const setSearch = useCallback((value: string) => {
     setPage(1);
     setQ(value);
@@ -111,6 +213,17 @@ export const useTasks = (context?: UseTasksContext) => {
     setStatus(value);
   }, []);
 
+  const setLabelFilter = useCallback((include: string[], exclude: string[]) => {
+    setPage(1);
+    setLabels(include);
+    setExcludeLabels(exclude);
+  }, []);
+
+  const setSort = useCallback((value: string) => {
+    setPage(1);
+    setSortState(value);
+  }, []);
+
   const nextPage = useCallback(() => {
     setPage((p) => p + 1);
   }, []);
@@ -128,7 +241,14 @@ export const useTasks = (context?: UseTasksContext) => {
     setPage,
     setLimit,
     setSearch,
+    q,
+    status,
     setStatusFilter,
+    labels,
+    excludeLabels,
+    setLabelFilter,
+    sort,
+    setSort,
     nextPage,
     prevPage,
     isLoading,
@@ -138,6 +258,8 @@ export const useTasks = (context?: UseTasksContext) => {
     createTask: createTaskMutation.mutate,
     updateTask: updateTaskMutation.mutate,
     deleteTask: deleteTaskMutation.mutate,
+    bulkTasks: bulkTaskMutation.mutateAsync,
+    moveTask: moveTaskMutation.mutateAsync,
 
     createError: createTaskMutation.error
       ? getErrorMessage(createTaskMutation.error)
@@ -152,6 +274,7 @@ export const useTasks = (context?: UseTasksContext) => {
     isCreating: createTaskMutation.isPending,
     isUpdating: updateTaskMutation.isPending,
     isDeleting: deleteTaskMutation.isPending,
+    isBulkUpdating: bulkTaskMutation.isPending,
     refetch,
   };
 };
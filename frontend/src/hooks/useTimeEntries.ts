@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { timeEntryService } from "@/services/api";
+import { getErrorMessage } from "@/types/errors";
+import type { LogTimeData } from "@/types/timeEntry";
+
+const timeEntriesQueryKey = (taskId?: string) => ["task-time", taskId];
+
+export const useTimeEntries = (taskId?: string) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: timeEntriesQueryKey(taskId),
+    queryFn: () => timeEntryService.getTimeEntries(taskId!),
+    enabled: Boolean(taskId),
+  });
+
+  // Timers are per user, so a start or stop can change other tasks too
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["task-time"] });
+
+  const logTimeMutation = useMutation({
+    mutationFn: (data: LogTimeData) => timeEntryService.logTime(taskId!, data),
+    onSuccess: invalidate,
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (entryId: string) =>
+      timeEntryService.deleteTimeEntry(taskId!, entryId),
+    onSuccess: invalidate,
+  });
+
+  const startTimerMutation = useMutation({
+    mutationFn: (note?: string) => timeEntryService.startTimer(taskId!, note),
+    onSuccess: invalidate,
+  });
+
+  const stopTimerMutation = useMutation({
+    mutationFn: () => timeEntryService.stopTimer(taskId!),
+    onSuccess: invalidate,
+  });
+
+  return {
+    entries: data?.entries ?? [],
+    totals: data?.totals ?? null,
+    runningTimer: data?.runningTimer ?? null,
+    isLoading,
+    error: error ? getErrorMessage(error) : null,
+
+    logTime: logTimeMutation.mutateAsync,
+    deleteEntry: deleteEntryMutation.mutateAsync,
+    startTimer: startTimerMutation.mutateAsync,
+    stopTimer: stopTimerMutation.mutateAsync,
+
+    isSubmitting:
+      logTimeMutation.isPending ||
+      startTimerMutation.isPending ||
+      stopTimerMutation.isPending,
+  };
+};
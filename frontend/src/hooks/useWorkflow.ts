@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { workflowService } from "@/services/api";
+import { useAuthStore } from "@/store";
+import {
+  ANY_STATUS,
+  DEFAULT_WORKFLOW,
+  WORKFLOW_COLOR_CLASSES,
+} from "@/constants/task";
+import type { WorkflowConfig, WorkflowTransition } from "@/types/workflow";
+
+const NO_TRANSITIONS: WorkflowTransition[] = [];
+
+/**
+ * Mirrors the server's rule check: without rules any move is allowed,
+ * otherwise a matching rule is needed and its roles (if any) must include the
+ * user's. Superadmins skip the role restriction.
+ */
+export const isTransitionAllowed = (
+  transitions: WorkflowTransition[],
+  from: string,
+  to: string,
+  role?: string,
+) => {
+  if (from === to || transitions.length === 0) return true;
+  return transitions.some(
+    (rule) =>
+      (rule.from === from || rule.from === ANY_STATUS) &&
+      (rule.to === to || rule.to === ANY_STATUS) &&
+      (rule.roles.length === 0 ||
+        role === "superadmin" ||
+        rule.roles.some((allowed) => allowed === role)),
+  );
+};
+
+export const workflowQueryKey = (tenantId?: string | null) => [
+  "workflow",
+  tenantId,
+];
+
+/**
+ * The tenant's ordered task statuses and transition rules, with lookups for
+ * labels, colors, whether a status counts as done and which moves the
+ * current user may make.
+ */
+export const useWorkflow = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: workflowQueryKey(user?.tenantId),
+    queryFn: () => workflowService.getWorkflow(),
+    enabled: Boolean(user),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const workflow =
+    data && data.workflow.length > 0 ? data.workflow : DEFAULT_WORKFLOW;
+  const transitions = data?.transitions || NO_TRANSITIONS;
+  const findStatus = (key: string) => workflow.find((s) => s.key === key);
+
+  const updateWorkflowMutation = useMutation({
+    mutationFn: (config: WorkflowConfig) =>
+      workflowService.updateWorkflow(
+        config.workflow,
+        config.transitions,
+        user?.tenantId || undefined,
+      ),
+    onSuccess: (updated) =>
+      queryClient.setQueryData(workflowQueryKey(user?.tenantId), updated),
+  });
+
+  return {
+    workflow,
+    isLoading,
+    initialStatus: workflow[0].key,
+    getLabel: (key: string) => findStatus(key)?.label || key,
+    getColorClasses: (key: string) =>
+      WORKFLOW_COLOR_CLASSES[findStatus(key)?.color || "gray"],
+    // Unknown statuses (e.g. removed from the workflow) count as open
+    isDone: (key: string) => findStatus(key)?.category === "done",
+    transitions,
+    canTransition: (from: string, to: string) =>
+      isTransitionAllowed(transitions, from, to, user?.role),
+
+    updateWorkflow: updateWorkflowMutation.mutateAsync,
+    isUpdating: updateWorkflowMutation.isPending,
+  };
+};
@@ -7,6 +7,11 @@ import { API_ENDPOINTS } from "@/config/api";
 import { AnalyticsDashboard } from "@/components/dashboard/AnalyticsDashboard";
 import { UserManagement } from "@/components/dashboard/users/UserManagement";
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
+import type { DashboardView } from "@/components/dashboard/DashboardHeader";
+import { WorkflowSettings } from "@/components/dashboard/workflow/WorkflowSettings";
+import { CustomFieldSettings } from "@/components/dashboard/workflow/CustomFieldSettings";
+import { TagSettings } from "@/components/dashboard/workflow/TagSettings";
+import { TaskTemplateSettings } from "@/components/dashboard/workflow/TaskTemplateSettings";
 import { Tasks } from "@/components/features/tasks";
 
 export const DashboardPage = () => {
@@ -16,7 +21,7 @@ export const DashboardPage = () => {
   const isTenantAdmin = user?.role === "tenantAdmin";
   const ORG_NAME_KEY = "org-name-display";
   
-  const [activeView, setActiveView] = useState<"tasks" | "overview" | "users">(
+  const [activeView, setActiveView] = useState<DashboardView>(
     isSuperAdmin ? "users" : "tasks"
   );
   
@@ -99,6 +104,15 @@ export const DashboardPage = () => {
             {activeView === "users" && (
               <UserManagement />
             )}
+
+            {activeView === "workflow" && isTenantAdmin && (
+              <div className="space-y-6">
+                <WorkflowSettings />
+                <CustomFieldSettings />
+                <TagSettings />
+                <TaskTemplateSettings />
+              </div>
+            )}
           </div>
         </div>
       </main>
@@ -1,19 +1,24 @@
 import { httpClient } from "@/lib/httpClient";
 import { API_ENDPOINTS } from "@/config/api";
+import type { WorkflowStatus } from "@/types/workflow";
+import type { SprintStatus, SprintWorkSummary } from "@/types/sprint";
 
 export interface TaskStats {
   total: number;
   completionRate: number;
-  statusCounts: {
-    todo: number;
-    "in-progress": number;
-    "in-review": number;
-    completed: number;
-  };
+  // Keyed by workflow status, in workflow order
+  statusCounts: Record<string, number>;
+  workflow: WorkflowStatus[];
   dueStats: {
     overdue: number;
     dueSoon: number;
   };
+  checklistProgress: {
+    tasks: number;
+    totalItems: number;
+    completedItems: number;
+    percent: number;
+  };
 }
 
 export interface WorkloadStat {
@@ -22,12 +27,98 @@ export interface WorkloadStat {
   email: string;
   total: number;
   completed: number;
-  inReview: number;
-  inProgress: number;
-  todo: number;
+  open: number;
+  // Open tasks the user is the reviewer of
+  reviewing: number;
+  statusCounts: Record<string, number>;
   completionRate: number;
 }
 
+export interface TimeReport {
+  range: { startDate: string | null; endDate: string | null };
+  totalMinutes: number;
+  entries: number;
+  byUser: {
+    userId: string;
+    name: string | null;
+    email: string | null;
+    minutes: number;
+    entries: number;
+    tasks: number;
+  }[];
+  // sprintId is null for time logged outside any sprint
+  bySprint: {
+    sprintId: string | null;
+    name: string | null;
+    minutes: number;
+    entries: number;
+  }[];
+  // One row per IST day with logged time
+  byDate: { date: string; minutes: number }[];
+}
+
+export interface TimeReportParams {
+  startDate?: string;
+  endDate?: string;
+  userId?: string;
+  sprintId?: string;
+}
+
+export type BurndownMetric = "tasks" | "estimate";
+
+export interface BurndownPoint {
+  // IST day, YYYY-MM-DD
+  date: string;
+  ideal: number;
+  // Null on days without a snapshot
+  remaining: number | null;
+  completed: number | null;
+  scope: number | null;
+}
+
+export interface SprintBurndown {
+  sprint: {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    status: SprintStatus;
+  };
+  metric: BurndownMetric;
+  // Estimates are in minutes
+  points: BurndownPoint[];
+}
+
+export interface VelocityReport {
+  // Completed sprints, oldest first
+  sprints: {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    completedAt: string;
+    committed: SprintWorkSummary;
+    delivered: SprintWorkSummary;
+  }[];
+  // Delivered per sprint
+  average: SprintWorkSummary;
+  throughput: {
+    userId: string;
+    name: string | null;
+    email: string | null;
+    delivered: SprintWorkSummary;
+    perSprint: SprintWorkSummary;
+  }[];
+  planned: {
+    sprintId: string;
+    name: string;
+    committed: SprintWorkSummary;
+    // Average velocity scaled by the capacity of the members
+    forecast: SprintWorkSummary;
+    overCommitted: boolean;
+  }[];
+}
+
 export const analyticsService = {
   getTaskStats: async (params?: { startDate?: string; endDate?: string }) => {
     let url = API_ENDPOINTS.ANALYTICS.STATS;
@@ -49,4 +140,37 @@ export const analyticsService = {
     );
     return response.data;
   },
+
+  getTimeReport: async (params: TimeReportParams = {}) => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) searchParams.append(key, value);
+    });
+    const queryString = searchParams.toString();
+    const url = queryString
+      ? `${API_ENDPOINTS.ANALYTICS.TIME}?${queryString}`
+      : API_ENDPOINTS.ANALYTICS.TIME;
+
+    const response = await httpClient.get<{ data: TimeReport }>(url);
+    return response.data;
+  },
+
+  getSprintBurndown: async (
+    sprintId: string,
+    metric: BurndownMetric = "tasks",
+  ) => {
+    const response = await httpClient.get<{ data: SprintBurndown }>(
+      `${API_ENDPOINTS.ANALYTICS.SPRINT_BURNDOWN(sprintId)}?metric=${metric}`,
+    );
+    return response.data;
+  },
+
+  // Velocity over the last `sprints` completed sprints
+  getVelocity: async (sprints?: number) => {
+    const url = sprints
+      ? `${API_ENDPOINTS.ANALYTICS.VELOCITY}?sprints=${sprints}`
+      : API_ENDPOINTS.ANALYTICS.VELOCITY;
+    const response = await httpClient.get<{ data: VelocityReport }>(url);
+    return response.data;
+  },
 };
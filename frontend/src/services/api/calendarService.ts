@@ -0,0 +1,40 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_BASE_URL, API_ENDPOINTS } from "@/config/api";
+import type { CalendarFeed } from "@/types/calendar";
+
+interface CalendarFeedResponse {
+  success: boolean;
+  message?: string;
+  enabled: boolean;
+  createdAt: string | null;
+  path?: string;
+}
+
+const toFeed = (response: CalendarFeedResponse): CalendarFeed => ({
+  enabled: response.enabled,
+  createdAt: response.createdAt,
+  ...(response.path && { url: `${API_BASE_URL}${response.path}` }),
+});
+
+export const calendarService = {
+  async getFeed(): Promise<CalendarFeed> {
+    return toFeed(
+      await httpClient.get<CalendarFeedResponse>(API_ENDPOINTS.CALENDAR.FEED),
+    );
+  },
+
+  // Replaces the feed URL, the previous one stops working
+  async regenerateFeed(): Promise<CalendarFeed> {
+    return toFeed(
+      await httpClient.post<CalendarFeedResponse>(API_ENDPOINTS.CALENDAR.FEED),
+    );
+  },
+
+  async revokeFeed(): Promise<CalendarFeed> {
+    return toFeed(
+      await httpClient.delete<CalendarFeedResponse>(
+        API_ENDPOINTS.CALENDAR.FEED,
+      ),
+    );
+  },
+};
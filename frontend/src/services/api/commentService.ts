@@ -0,0 +1,86 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type {
+  TaskComment,
+  CommentAuthor,
+  CreateCommentData,
+} from "@/types/comment";
+
+interface CommentResponse {
+  id: string;
+  taskId: string;
+  parentId: string | null;
+  author: CommentAuthor;
+  body: string;
+  mentions?: string[];
+  editedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CommentsListResponse {
+  success: boolean;
+  message?: string;
+  count?: number;
+  comments: CommentResponse[];
+}
+
+interface CommentDetailResponse {
+  success: boolean;
+  message?: string;
+  comment: CommentResponse;
+}
+
+const normalizeComment = (comment: CommentResponse): TaskComment => ({
+  id: comment.id,
+  taskId: comment.taskId,
+  parentId: comment.parentId ?? null,
+  author: comment.author,
+  body: comment.body,
+  mentions: comment.mentions ?? [],
+  editedAt: comment.editedAt ? new Date(comment.editedAt) : null,
+  createdAt: new Date(comment.createdAt),
+  updatedAt: new Date(comment.updatedAt),
+});
+
+export const commentService = {
+  async getComments(taskId: string): Promise<TaskComment[]> {
+    const response = await httpClient.get<CommentsListResponse>(
+      API_ENDPOINTS.TASKS.COMMENTS(taskId),
+    );
+    return (response.comments || []).map(normalizeComment);
+  },
+
+  async createComment(
+    taskId: string,
+    data: CreateCommentData,
+  ): Promise<TaskComment> {
+    const response = await httpClient.post<CommentDetailResponse>(
+      API_ENDPOINTS.TASKS.COMMENTS(taskId),
+      data,
+    );
+    if (!response.comment) {
+      throw new Error("Failed to add comment");
+    }
+    return normalizeComment(response.comment);
+  },
+
+  async updateComment(
+    taskId: string,
+    commentId: string,
+    body: string,
+  ): Promise<TaskComment> {
+    const response = await httpClient.patch<CommentDetailResponse>(
+      API_ENDPOINTS.TASKS.COMMENT(taskId, commentId),
+      { body },
+    );
+    if (!response.comment) {
+      throw new Error("Failed to update comment");
+    }
+    return normalizeComment(response.comment);
+  },
+
+  async deleteComment(taskId: string, commentId: string): Promise<void> {
+    await httpClient.delete(API_ENDPOINTS.TASKS.COMMENT(taskId, commentId));
+  },
+};
@@ -0,0 +1,28 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type { CustomFieldDefinition } from "@/types/customField";
+
+interface CustomFieldsResponse {
+  success: boolean;
+  customFields: CustomFieldDefinition[];
+}
+
+export const customFieldService = {
+  async getCustomFields(): Promise<CustomFieldDefinition[]> {
+    const response = await httpClient.get<CustomFieldsResponse>(
+      API_ENDPOINTS.AUTH.CUSTOM_FIELDS,
+    );
+    return response.customFields;
+  },
+
+  async updateCustomFields(
+    customFields: CustomFieldDefinition[],
+    tenantId?: string,
+  ): Promise<CustomFieldDefinition[]> {
+    const response = await httpClient.put<CustomFieldsResponse>(
+      API_ENDPOINTS.AUTH.CUSTOM_FIELDS,
+      { customFields, tenantId },
+    );
+    return response.customFields;
+  },
+};
@@ -1,3 +1,11 @@
 export { authService } from "./authService";
 export { taskService } from "./taskService";
+export { commentService } from "./commentService";
+export { timeEntryService } from "./timeEntryService";
+export { workflowService } from "./workflowService";
+export { customFieldService } from "./customFieldService";
+export { tagService } from "./tagService";
+export { savedViewService } from "./savedViewService";
+export { taskTemplateService } from "./taskTemplateService";
+export { calendarService } from "./calendarService";
 export type { LoginData, RegisterData, AuthResponse } from "./authService";
@@ -0,0 +1,64 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type { SavedView, SavedViewData } from "@/types/savedView";
+
+interface ViewsListResponse {
+  success: boolean;
+  message?: string;
+  views: SavedView[];
+  defaultViewId: string | null;
+}
+
+interface ViewDetailResponse {
+  success: boolean;
+  message?: string;
+  view: SavedView;
+}
+
+export const savedViewService = {
+  async getViews(): Promise<{
+    views: SavedView[];
+    defaultViewId: string | null;
+  }> {
+    const response = await httpClient.get<ViewsListResponse>(
+      API_ENDPOINTS.VIEWS.LIST,
+    );
+    return {
+      views: response.views || [],
+      defaultViewId: response.defaultViewId ?? null,
+    };
+  },
+
+  async createView(data: SavedViewData): Promise<SavedView> {
+    const response = await httpClient.post<ViewDetailResponse>(
+      API_ENDPOINTS.VIEWS.CREATE,
+      data,
+    );
+    if (!response.view) {
+      throw new Error("Failed to save view");
+    }
+    return response.view;
+  },
+
+  async updateView(
+    id: string,
+    data: Partial<SavedViewData>,
+  ): Promise<SavedView> {
+    const response = await httpClient.put<ViewDetailResponse>(
+      API_ENDPOINTS.VIEWS.UPDATE(id),
+      data,
+    );
+    if (!response.view) {
+      throw new Error("Failed to update view");
+    }
+    return response.view;
+  },
+
+  async deleteView(id: string): Promise<void> {
+    await httpClient.delete(API_ENDPOINTS.VIEWS.DELETE(id));
+  },
+
+  async setDefaultView(viewId: string | null): Promise<void> {
+    await httpClient.put(API_ENDPOINTS.VIEWS.DEFAULT, { viewId });
+  },
+};
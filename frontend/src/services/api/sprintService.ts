@@ -1,7 +1,13 @@
 import { httpClient } from "@/lib/httpClient";
 import type {
   Sprint,
+  SprintCapacity,
+  SprintCompletion,
+  SprintGoal,
+  SprintGoalInput,
   SprintStatus,
+  RetrospectiveCategory,
+  RetrospectiveItem,
   CreateSprintData,
   UpdateSprintData,
 } from "@/types/sprint";
@@ -17,6 +23,13 @@ interface SprintResponse {
   tenantId: string;
   createdBy: string;
   taskCount: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  completion: SprintCompletion | null;
+  capacity?: SprintCapacity[];
+  goals?: SprintGoal[];
+  reviewNotes?: string;
+  retrospective?: RetrospectiveItem[];
   createdAt: string;
   updatedAt: string;
 }
@@ -42,6 +55,13 @@ const normalizeSprint = (sprint: SprintResponse): Sprint => ({
   tenantId: sprint.tenantId,
   createdBy: sprint.createdBy,
   taskCount: sprint.taskCount,
+  startedAt: sprint.startedAt ? new Date(sprint.startedAt) : null,
+  completedAt: sprint.completedAt ? new Date(sprint.completedAt) : null,
+  completion: sprint.completion ?? null,
+  capacity: sprint.capacity ?? [],
+  goals: sprint.goals ?? [],
+  reviewNotes: sprint.reviewNotes ?? "",
+  retrospective: sprint.retrospective ?? [],
   createdAt: new Date(sprint.createdAt),
   updatedAt: new Date(sprint.updatedAt),
 });
@@ -84,6 +104,103 @@ export const sprintService = {
     return normalizeSprint(response.sprint);
   },
 
+  async startSprint(id: string): Promise<Sprint> {
+    const response = await httpClient.post<SprintDetailResponse>(
+      `${API_BASE}/${id}/start`,
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to start sprint");
+    }
+    return normalizeSprint(response.sprint);
+  },
+
+  // Unfinished tasks move to `nextSprintId`, or the backlog when it is null
+  async completeSprint(
+    id: string,
+    nextSprintId: string | null,
+  ): Promise<{ sprint: Sprint; message?: string }> {
+    const response = await httpClient.post<SprintDetailResponse>(
+      `${API_BASE}/${id}/complete`,
+      { nextSprintId },
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to complete sprint");
+    }
+    return {
+      sprint: normalizeSprint(response.sprint),
+      message: response.message,
+    };
+  },
+
+  // Replaces the capacity list, members left out are fully available
+  async updateCapacity(
+    id: string,
+    capacity: SprintCapacity[],
+  ): Promise<Sprint> {
+    const response = await httpClient.put<SprintDetailResponse>(
+      `${API_BASE}/${id}/capacity`,
+      { capacity },
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to update sprint capacity");
+    }
+    return normalizeSprint(response.sprint);
+  },
+
+  // Replaces the goals, goals sent without an id are added
+  async updateGoals(id: string, goals: SprintGoalInput[]): Promise<Sprint> {
+    const response = await httpClient.put<SprintDetailResponse>(
+      `${API_BASE}/${id}/goals`,
+      { goals },
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to update sprint goals");
+    }
+    return normalizeSprint(response.sprint);
+  },
+
+  async addRetrospectiveItem(
+    id: string,
+    category: RetrospectiveCategory,
+    text: string,
+  ): Promise<Sprint> {
+    const response = await httpClient.post<SprintDetailResponse>(
+      `${API_BASE}/${id}/retrospective`,
+      { category, text },
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to add retrospective item");
+    }
+    return normalizeSprint(response.sprint);
+  },
+
+  async deleteRetrospectiveItem(id: string, itemId: string): Promise<Sprint> {
+    const response = await httpClient.delete<SprintDetailResponse>(
+      `${API_BASE}/${id}/retrospective/${itemId}`,
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to remove retrospective item");
+    }
+    return normalizeSprint(response.sprint);
+  },
+
+  // The task goes to the next sprint, assigned to the author of the item
+  async convertActionItem(
+    id: string,
+    itemId: string,
+  ): Promise<{ sprint: Sprint; message?: string }> {
+    const response = await httpClient.post<SprintDetailResponse>(
+      `${API_BASE}/${id}/retrospective/${itemId}/task`,
+    );
+    if (!response.sprint) {
+      throw new Error("Failed to turn the action item into a task");
+    }
+    return {
+      sprint: normalizeSprint(response.sprint),
+      message: response.message,
+    };
+  },
+
   async deleteSprint(id: string): Promise<void> {
     await httpClient.delete(`${API_BASE}/${id}`);
   },
@@ -0,0 +1,50 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type { Tag, TagData } from "@/types/tag";
+
+interface TagsListResponse {
+  success: boolean;
+  message?: string;
+  tags: Tag[];
+}
+
+interface TagDetailResponse {
+  success: boolean;
+  message?: string;
+  tag: Tag;
+}
+
+export const tagService = {
+  async getTags(): Promise<Tag[]> {
+    const response = await httpClient.get<TagsListResponse>(
+      API_ENDPOINTS.TAGS.LIST,
+    );
+    return response.tags || [];
+  },
+
+  async createTag(data: TagData): Promise<Tag> {
+    const response = await httpClient.post<TagDetailResponse>(
+      API_ENDPOINTS.TAGS.CREATE,
+      data,
+    );
+    if (!response.tag) {
+      throw new Error("Failed to create tag");
+    }
+    return response.tag;
+  },
+
+  async updateTag(id: string, data: Partial<TagData>): Promise<Tag> {
+    const response = await httpClient.put<TagDetailResponse>(
+      API_ENDPOINTS.TAGS.UPDATE(id),
+      data,
+    );
+    if (!response.tag) {
+      throw new Error("Failed to update tag");
+    }
+    return response.tag;
+  },
+
+  async deleteTag(id: string): Promise<void> {
+    await httpClient.delete(API_ENDPOINTS.TAGS.DELETE(id));
+  },
+};
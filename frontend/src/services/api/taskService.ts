@@ -3,12 +3,25 @@ import type {
   TaskStatus,
   CreateTaskData,
   UpdateTaskData,
+  BulkTaskRequest,
+  BulkTaskResponse,
   TaskQueryParams,
   TaskPage,
   TaskPriority,
+  TaskActivity,
+  TaskExportFormat,
+  TaskImportOptions,
+  TaskImportReport,
+  TaskImportResult,
+  TaskProgress,
+  TaskMovePosition,
+  Recurrence,
 } from "@/types/task";
+import type { CustomFieldValue } from "@/types/customField";
+import type { CreateFromTemplateData } from "@/types/taskTemplate";
 import { API_ENDPOINTS } from "@/config/api";
 import { httpClient } from "@/lib/httpClient";
+import { formatDateInputIST } from "@/utils/date";
 
 const buildQuery = (params?: TaskQueryParams): string => {
   const q = new URLSearchParams();
@@ -21,20 +34,45 @@ const buildQuery = (params?: TaskQueryParams): string => {
     q.set("priority", params.priority);
   if (params.tenantId) q.set("tenantId", params.tenantId);
   if (params.userId) q.set("userId", params.userId);
+  if (params.labels?.length) q.set("labels", params.labels.join(","));
+  if (params.excludeLabels?.length)
+    q.set("excludeLabels", params.excludeLabels.join(","));
+  if (params.sort) q.set("sort", params.sort);
   return q.toString();
 };
 
+const EXPORT_MIME_TYPES: Record<TaskExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ics: "text/calendar",
+};
+
+const buildImportForm = (file: File, options: TaskImportOptions) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("dryRun", String(Boolean(options.dryRun)));
+  if (options.mapping) {
+    formData.append("mapping", JSON.stringify(options.mapping));
+  }
+  if (options.sprintId) formData.append("sprintId", options.sprintId);
+  return formData;
+};
+
 interface TaskResponse {
   id?: string;
   _id?: string;
   tenantId?: string;
   userId?: string;
+  assignees?: string[];
+  reviewerId?: string | null;
   sprintId?: string | null;
   createdBy?: string;
   title: string;
   description?: string;
   priority?: string;
   dueDate?: string | null;
+  estimateMinutes?: number | null;
+  rank?: number | null;
   status: TaskStatus;
   createdAt: string | Date;
   updatedAt: string | Date;
@@ -45,6 +83,19 @@ interface TaskResponse {
     publicId: string;
     uploadedAt: string | Date;
   }[];
+  checklist?: {
+    id: string;
+    title: string;
+    done: boolean;
+    completedAt?: string | Date | null;
+  }[];
+  progress?: TaskProgress;
+  blockedBy?: string[];
+  labels?: string[];
+  watchers?: string[];
+  recurrence?: Recurrence | null;
+  seriesId?: string | null;
+  customFields?: Record<string, CustomFieldValue>;
 }
 
 interface TaskListResponse {
@@ -58,6 +109,13 @@ interface TaskListResponse {
   tasks?: TaskResponse[];
 }
 
+interface TaskActivityResponse {
+  success?: boolean;
+  activities?: (Omit<TaskActivity, "createdAt"> & {
+    createdAt: string | Date;
+  })[];
+}
+
 interface TaskCreateResponse {
   task?: TaskResponse;
   [key: string]: unknown;
@@ -72,6 +130,8 @@ const normalizeTask = (task: TaskResponse): Task => ({
   id: task.id || task._id || "",
   tenantId: task.tenantId || "",
   userId: task.userId,
+  assignees: task.assignees ?? (task.userId ? [task.userId] : []),
+  reviewerId: task.reviewerId ?? null,
   createdBy: task.createdBy,
   sprintId: task.sprintId ?? null,
   title: task.title,
@@ -79,12 +139,32 @@ const normalizeTask = (task: TaskResponse): Task => ({
   status: task.status as TaskStatus,
   priority: task.priority as TaskPriority,
   dueDate: task.dueDate ? new Date(task.dueDate) : null,
+  estimateMinutes: task.estimateMinutes ?? null,
+  rank: task.rank ?? null,
   createdAt: new Date(task.createdAt),
   updatedAt: new Date(task.updatedAt),
   attachments: task.attachments?.map((att) => ({
     ...att,
     uploadedAt: new Date(att.uploadedAt),
   })),
+  checklist: (task.checklist || []).map((item) => ({
+    ...item,
+    completedAt: item.completedAt ? new Date(item.completedAt) : null,
+  })),
+  progress: task.progress ?? { total: 0, completed: 0, percent: 0 },
+  blockedBy: task.blockedBy ?? [],
+  labels: task.labels ?? [],
+  watchers: task.watchers ?? [],
+  recurrence: task.recurrence
+    ? {
+        ...task.recurrence,
+        until: task.recurrence.until
+          ? formatDateInputIST(task.recurrence.until)
+          : null,
+      }
+    : null,
+  seriesId: task.seriesId ?? null,
+  customFields: task.customFields ?? {},
 });
 
 export const taskService = {
@@ -119,6 +199,19 @@ export const taskService = {
     return normalizeTask(task as TaskResponse);
   },
 
+  async createFromTemplate(
+    templateId: string,
+    data: CreateFromTemplateData,
+  ): Promise<Task> {
+    const result = await httpClient.post<TaskCreateResponse>(
+      API_ENDPOINTS.TASKS.FROM_TEMPLATE(templateId),
+      data,
+    );
+    const task = result.task || result;
+
+    return normalizeTask(task as TaskResponse);
+  },
+
   async updateTask(id: string, data: UpdateTaskData): Promise<Task> {
     const result = await httpClient.put<TaskUpdateResponse>(
       API_ENDPOINTS.TASKS.UPDATE(id),
@@ -129,10 +222,67 @@ export const taskService = {
     return normalizeTask(task as TaskResponse);
   },
 
+  // Place a task in the manual order, between the tasks it was dropped on
+  async moveTask(id: string, position: TaskMovePosition): Promise<Task> {
+    const result = await httpClient.put<TaskUpdateResponse>(
+      API_ENDPOINTS.TASKS.RANK(id),
+      position,
+    );
+    const task = result.task || result;
+
+    return normalizeTask(task as TaskResponse);
+  },
+
   async deleteTask(id: string): Promise<void> {
     await httpClient.delete(API_ENDPOINTS.TASKS.DELETE(id));
   },
 
+  async bulkTasks(request: BulkTaskRequest): Promise<BulkTaskResponse> {
+    const result = await httpClient.post<BulkTaskResponse>(
+      API_ENDPOINTS.TASKS.BULK,
+      request,
+    );
+    return { message: result.message, results: result.results || [] };
+  },
+
+  async checkImport(
+    file: File,
+    options: TaskImportOptions,
+  ): Promise<TaskImportReport> {
+    return httpClient.post<TaskImportReport>(
+      API_ENDPOINTS.TASKS.IMPORT,
+      buildImportForm(file, { ...options, dryRun: true }),
+    );
+  },
+
+  async importTasks(
+    file: File,
+    options: TaskImportOptions,
+  ): Promise<TaskImportResult> {
+    return httpClient.post<TaskImportResult>(
+      API_ENDPOINTS.TASKS.IMPORT,
+      buildImportForm(file, { ...options, dryRun: false }),
+    );
+  },
+
+  async exportTasks(
+    format: TaskExportFormat,
+    params?: TaskQueryParams,
+  ): Promise<Blob> {
+    const query = new URLSearchParams(buildQuery(params));
+    query.delete("page");
+    query.delete("limit");
+    query.set("format", format);
+    const data = await httpClient.get<unknown>(
+      `${API_ENDPOINTS.TASKS.EXPORT}?${query.toString()}`,
+    );
+    // JSON exports come back parsed
+    return new Blob(
+      [typeof data === "string" ? data : JSON.stringify(data, null, 2)],
+      { type: EXPORT_MIME_TYPES[format] },
+    );
+  },
+
   async addAttachments(id: string, files: File[]): Promise<Task> {
     const formData = new FormData();
     files.forEach((file) => formData.append("files", file));
@@ -147,6 +297,16 @@ export const taskService = {
     return normalizeTask(task as TaskResponse);
   },
 
+  async getActivity(id: string): Promise<TaskActivity[]> {
+    const data = await httpClient.get<TaskActivityResponse>(
+      API_ENDPOINTS.TASKS.ACTIVITY(id),
+    );
+    return (data.activities || []).map((activity) => ({
+      ...activity,
+      createdAt: new Date(activity.createdAt),
+    }));
+  },
+
   async removeAttachment(taskId: string, attachmentId: string): Promise<Task> {
     const result = await httpClient.delete<TaskUpdateResponse>(
       `${API_ENDPOINTS.TASKS.UPDATE(taskId)}/attachments/${attachmentId}`,
@@ -154,4 +314,13 @@ export const taskService = {
     const task = result.task || result;
     return normalizeTask(task as TaskResponse);
   },
+
+  // Returns the task's watchers after the change
+  async setWatching(id: string, watching: boolean): Promise<string[]> {
+    const url = API_ENDPOINTS.TASKS.WATCH(id);
+    const result = watching
+      ? await httpClient.post<{ watchers?: string[] }>(url, {})
+      : await httpClient.delete<{ watchers?: string[] }>(url);
+    return result.watchers || [];
+  },
 };
@@ -0,0 +1,53 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type { TaskTemplate, TaskTemplateData } from "@/types/taskTemplate";
+
+interface TemplatesListResponse {
+  success: boolean;
+  message?: string;
+  templates: TaskTemplate[];
+}
+
+interface TemplateDetailResponse {
+  success: boolean;
+  message?: string;
+  template: TaskTemplate;
+}
+
+export const taskTemplateService = {
+  async getTemplates(): Promise<TaskTemplate[]> {
+    const response = await httpClient.get<TemplatesListResponse>(
+      API_ENDPOINTS.TASK_TEMPLATES.LIST,
+    );
+    return response.templates || [];
+  },
+
+  async createTemplate(data: TaskTemplateData): Promise<TaskTemplate> {
+    const response = await httpClient.post<TemplateDetailResponse>(
+      API_ENDPOINTS.TASK_TEMPLATES.CREATE,
+      data,
+    );
+    if (!response.template) {
+      throw new Error("Failed to create template");
+    }
+    return response.template;
+  },
+
+  async updateTemplate(
+    id: string,
+    data: Partial<TaskTemplateData>,
+  ): Promise<TaskTemplate> {
+    const response = await httpClient.put<TemplateDetailResponse>(
+      API_ENDPOINTS.TASK_TEMPLATES.UPDATE(id),
+      data,
+    );
+    if (!response.template) {
+      throw new Error("Failed to update template");
+    }
+    return response.template;
+  },
+
+  async deleteTemplate(id: string): Promise<void> {
+    await httpClient.delete(API_ENDPOINTS.TASK_TEMPLATES.DELETE(id));
+  },
+};
@@ -0,0 +1,92 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type { CommentAuthor } from "@/types/comment";
+import type {
+  TimeEntry,
+  TimeTotals,
+  TaskTimeSummary,
+  LogTimeData,
+} from "@/types/timeEntry";
+
+interface TimeEntryResponse {
+  id: string;
+  taskId: string;
+  user: CommentAuthor;
+  startedAt: string;
+  endedAt: string | null;
+  durationMinutes: number;
+  note?: string;
+  isRunning: boolean;
+  createdAt: string;
+}
+
+interface TimeEntriesListResponse {
+  success: boolean;
+  entries: TimeEntryResponse[];
+  totals: TimeTotals;
+  runningTimer: { id: string; taskId: string; startedAt: string } | null;
+}
+
+interface TimeEntryDetailResponse {
+  success: boolean;
+  message?: string;
+  entry: TimeEntryResponse;
+}
+
+const normalizeTimeEntry = (entry: TimeEntryResponse): TimeEntry => ({
+  id: entry.id,
+  taskId: entry.taskId,
+  user: entry.user,
+  startedAt: new Date(entry.startedAt),
+  endedAt: entry.endedAt ? new Date(entry.endedAt) : null,
+  durationMinutes: entry.durationMinutes,
+  note: entry.note ?? "",
+  isRunning: entry.isRunning,
+  createdAt: new Date(entry.createdAt),
+});
+
+export const timeEntryService = {
+  async getTimeEntries(taskId: string): Promise<TaskTimeSummary> {
+    const response = await httpClient.get<TimeEntriesListResponse>(
+      API_ENDPOINTS.TASKS.TIME(taskId),
+    );
+    return {
+      entries: (response.entries || []).map(normalizeTimeEntry),
+      totals: response.totals,
+      runningTimer: response.runningTimer
+        ? {
+            ...response.runningTimer,
+            startedAt: new Date(response.runningTimer.startedAt),
+          }
+        : null,
+    };
+  },
+
+  async logTime(taskId: string, data: LogTimeData): Promise<TimeEntry> {
+    const response = await httpClient.post<TimeEntryDetailResponse>(
+      API_ENDPOINTS.TASKS.TIME(taskId),
+      data,
+    );
+    return normalizeTimeEntry(response.entry);
+  },
+
+  async deleteTimeEntry(taskId: string, entryId: string): Promise<void> {
+    await httpClient.delete(API_ENDPOINTS.TASKS.TIME_ENTRY(taskId, entryId));
+  },
+
+  async startTimer(taskId: string, note?: string): Promise<TimeEntry> {
+    const response = await httpClient.post<TimeEntryDetailResponse>(
+      API_ENDPOINTS.TASKS.TIMER_START(taskId),
+      { note },
+    );
+    return normalizeTimeEntry(response.entry);
+  },
+
+  async stopTimer(taskId: string): Promise<TimeEntry> {
+    const response = await httpClient.post<TimeEntryDetailResponse>(
+      API_ENDPOINTS.TASKS.TIMER_STOP(taskId),
+      {},
+    );
+    return normalizeTimeEntry(response.entry);
+  },
+};
@@ -0,0 +1,32 @@
+import { httpClient } from "@/lib/httpClient";
+import { API_ENDPOINTS } from "@/config/api";
+import type {
+  WorkflowConfig,
+  WorkflowStatus,
+  WorkflowTransition,
+} from "@/types/workflow";
+
+interface WorkflowResponse extends WorkflowConfig {
+  success: boolean;
+}
+
+export const workflowService = {
+  async getWorkflow(): Promise<WorkflowConfig> {
+    const response = await httpClient.get<WorkflowResponse>(
+      API_ENDPOINTS.AUTH.WORKFLOW,
+    );
+    return { workflow: response.workflow, transitions: response.transitions };
+  },
+
+  async updateWorkflow(
+    workflow: WorkflowStatus[],
+    transitions?: WorkflowTransition[],
+    tenantId?: string,
+  ): Promise<WorkflowConfig> {
+    const response = await httpClient.put<WorkflowResponse>(
+      API_ENDPOINTS.AUTH.WORKFLOW,
+      { workflow, transitions, tenantId },
+    );
+    return { workflow: response.workflow, transitions: response.transitions };
+  },
+};
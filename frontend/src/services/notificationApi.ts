@@ -1,5 +1,5 @@
 import { httpClient } from "@/lib/httpClient";
-import type { Notification } from "./notificationService";
+import type { Notification, NotificationType } from "./notificationService";
 
 export interface NotificationListResponse {
   success: boolean;
@@ -18,6 +18,17 @@ export interface UnreadCountResponse {
   count: number;
 }
 
+export interface NotificationPreferences {
+  muted: NotificationType[];
+  autoWatch: boolean;
+}
+
+export interface NotificationPreferencesResponse {
+  success: boolean;
+  message: string;
+  preferences: NotificationPreferences;
+}
+
 export interface MarkAsReadResponse {
   success: boolean;
   message: string;
@@ -100,3 +111,24 @@ export async function deleteAllReadNotifications(): Promise<{
     count: number;
   }>("/api/notifications");
 }
+
+/**
+ * Get the user's notification preferences
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreferencesResponse> {
+  return httpClient.get<NotificationPreferencesResponse>(
+    "/api/notifications/preferences"
+  );
+}
+
+/**
+ * Update muted notification types and auto-watching
+ */
+export async function updateNotificationPreferences(
+  preferences: Partial<NotificationPreferences>
+): Promise<NotificationPreferencesResponse> {
+  return httpClient.put<NotificationPreferencesResponse>(
+    "/api/notifications/preferences",
+    preferences
+  );
+}
@@ -9,7 +9,10 @@ export type NotificationType =
   | "task_due_soon"
   | "task_overdue"
   | "comment_added"
-  | "mention";
+  | "mention"
+  | "task_unblocked"
+  | "review_requested"
+  | "tasks_imported";
 
 export interface Notification {
   id: string;
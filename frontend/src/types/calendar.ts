@@ -0,0 +1,6 @@
+export interface CalendarFeed {
+  enabled: boolean;
+  createdAt: string | null;
+  // Only returned right after the feed is (re)generated
+  url?: string;
+}
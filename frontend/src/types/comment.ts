@@ -0,0 +1,22 @@
+export interface CommentAuthor {
+  id: string | null;
+  name: string | null;
+  email: string | null;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  parentId: string | null;
+  author: CommentAuthor;
+  body: string;
+  mentions: string[];
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCommentData {
+  body: string;
+  parentId?: string | null;
+}
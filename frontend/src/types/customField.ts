@@ -0,0 +1,15 @@
+export type CustomFieldType = "text" | "number" | "date" | "select" | "user";
+
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[]; // select only
+  required: boolean;
+}
+
+// Dates arrive as ISO strings and are sent as YYYY-MM-DD; users are user ids
+export type CustomFieldValue = string | number;
+
+// null (or "") clears a field
+export type CustomFieldValues = Record<string, CustomFieldValue | null>;
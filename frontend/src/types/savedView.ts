@@ -0,0 +1,37 @@
+export type SavedViewVisibility = "personal" | "shared";
+
+export type SavedViewMode = "list" | "board" | "timeline" | "backlog";
+
+export type SavedViewGroupBy = "none" | "status" | "priority" | "assignee";
+
+// Mirrors the filter state of useTasks
+export interface SavedViewFilters {
+  q: string;
+  status: string;
+  labels: string[];
+  excludeLabels: string[];
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  tenantId: string;
+  userId: string;
+  visibility: SavedViewVisibility;
+  filters: SavedViewFilters;
+  sort: string;
+  groupBy: SavedViewGroupBy;
+  viewMode: SavedViewMode;
+  isDefault: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface SavedViewData {
+  name: string;
+  visibility: SavedViewVisibility;
+  filters: SavedViewFilters;
+  sort: string;
+  groupBy: SavedViewGroupBy;
+  viewMode: SavedViewMode;
+}
@@ -1,5 +1,48 @@
 export type SprintStatus = "planned" | "active" | "completed";
 
+export interface SprintWorkSummary {
+  tasks: number;
+  estimateMinutes: number;
+}
+
+// Recorded when a sprint is completed
+export interface SprintCompletion {
+  completedBy: string;
+  // Tasks in the sprint when it was started
+  committed: SprintWorkSummary;
+  // Tasks moved in after it was started
+  added: SprintWorkSummary;
+  delivered: SprintWorkSummary;
+  carriedOver: SprintWorkSummary;
+  // Where unfinished tasks went, null for the backlog
+  nextSprintId: string | null;
+}
+
+// How much of the sprint a member is available for, e.g. 50 for half
+export interface SprintCapacity {
+  userId: string;
+  percent: number;
+}
+
+export interface SprintGoal {
+  id: string;
+  text: string;
+  // Null until the goal is reviewed
+  achieved: boolean | null;
+}
+
+export type RetrospectiveCategory = "went-well" | "to-improve" | "action-item";
+
+export interface RetrospectiveItem {
+  id: string;
+  category: RetrospectiveCategory;
+  text: string;
+  authorId: string;
+  // The task an action item was turned into
+  taskId: string | null;
+  createdAt: Date | string;
+}
+
 export interface Sprint {
   id: string;
   name: string;
@@ -9,6 +52,14 @@ export interface Sprint {
   tenantId: string;
   createdBy: string;
   taskCount: number;
+  startedAt: Date | string | null;
+  completedAt: Date | string | null;
+  completion: SprintCompletion | null;
+  // Members left out are fully available
+  capacity: SprintCapacity[];
+  goals: SprintGoal[];
+  reviewNotes: string;
+  retrospective: RetrospectiveItem[];
   createdAt: Date | string;
   updatedAt: Date | string;
 }
@@ -20,9 +71,17 @@ export interface CreateSprintData {
   status?: SprintStatus;
 }
 
+// The status only changes by starting or completing the sprint
 export interface UpdateSprintData {
   name?: string;
   startDate?: string;
   endDate?: string;
-  status?: SprintStatus;
+  reviewNotes?: string;
+}
+
+// Goals without an id are new
+export interface SprintGoalInput {
+  id?: string;
+  text: string;
+  achieved: boolean | null;
 }
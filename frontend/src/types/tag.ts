@@ -0,0 +1,16 @@
+import type { WorkflowColor } from "./workflow";
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: WorkflowColor;
+  tenantId: string;
+  createdBy: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface TagData {
+  name: string;
+  color?: WorkflowColor;
+}
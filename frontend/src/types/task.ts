@@ -1,9 +1,44 @@
-export type TaskStatus = "todo" | "in-progress" | "in-review" | "completed";
+import type { CustomFieldValue, CustomFieldValues } from "./customField";
+
+// One of the keys of the tenant's workflow (see types/workflow.ts)
+export type TaskStatus = string;
 export type TaskPriority = "low" | "medium" | "high";
 
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+  completedAt?: Date | null;
+}
+
+export type ChecklistItemInput = {
+  id?: string;
+  title: string;
+  done: boolean;
+};
+
+export interface TaskProgress {
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  dayOfMonth: number | null;
+  until: string | null; // YYYY-MM-DD
+  rrule?: string | null;
+}
+
 export interface Task {
   id: string;
-  userId?: string;
+  userId?: string; // Primary assignee, always first in assignees
+  assignees?: string[];
+  reviewerId?: string | null; // Approves the task out of review
   createdBy?: string;
   tenantId: string;
   title: string;
@@ -12,6 +47,10 @@ export interface Task {
   priority?: TaskPriority;
   sprintId?: string | null;
   dueDate?: Date | null;
+  // Expected effort; logged work is in TimeEntry
+  estimateMinutes?: number | null;
+  // Manual order, lowest first; null for tasks not ranked yet
+  rank?: number | null;
   createdAt: Date;
   updatedAt: Date;
   attachments?: {
@@ -21,23 +60,134 @@ export interface Task {
     publicId: string;
     uploadedAt: Date;
   }[];
+  checklist?: ChecklistItem[];
+  progress?: TaskProgress;
+  blockedBy?: string[];
+  labels?: string[]; // Tag ids
+  watchers?: string[]; // User ids, besides assignee and creator
+  recurrence?: Recurrence | null;
+  seriesId?: string | null;
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+export type TaskActivityAction =
+  | "created"
+  | "updated"
+  | "deleted"
+  | "restored"
+  | "attachment_added"
+  | "attachment_removed";
+
+export interface TaskActivity {
+  id: string;
+  taskId: string;
+  action: TaskActivityAction;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  oldLabel: string | null;
+  newLabel: string | null;
+  actor: {
+    id: string | null;
+    name: string | null;
+    email: string | null;
+  };
+  createdAt: Date;
 }
 
+// Changes emitted by the task modals before they are mapped to API payloads
+export type TaskChanges = Partial<
+  Omit<Task, "dueDate" | "checklist" | "customFields">
+> & {
+  dueDate?: string | Date | null;
+  checklist?: ChecklistItemInput[];
+  customFields?: CustomFieldValues;
+  overrideChecklist?: boolean;
+};
+
 export type TaskFormData = {
   title: string;
   description?: string;
   status: TaskStatus;
   priority?: TaskPriority;
   dueDate?: string | null;
+  estimateMinutes?: number | null;
+  checklist?: ChecklistItemInput[];
+  blockedBy?: string[];
+  labels?: string[];
+  recurrence?: Recurrence | null;
+  customFields?: CustomFieldValues;
+  reviewerId?: string | null;
+  // Lets an admin complete a task whose checklist still has open items
+  overrideChecklist?: boolean;
 };
 
 export type CreateTaskData = TaskFormData & {
   userId?: string;
+  assignees?: string[];
   tenantId?: string;
 };
 
 export type UpdateTaskData = Partial<TaskFormData> & {
   userId?: string;
+  assignees?: string[];
+};
+
+// Fields POST /api/tasks/bulk can set on every selected task
+export type BulkTaskPatch = {
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  sprintId?: string | null;
+  userId?: string;
+};
+
+export type BulkTaskRequest =
+  | { action: "update"; ids: string[]; patch: BulkTaskPatch }
+  | { action: "delete"; ids: string[] };
+
+export type BulkTaskResult = {
+  id: string;
+  success: boolean;
+  error?: string;
+};
+
+export type BulkTaskResponse = {
+  message: string;
+  results: BulkTaskResult[];
+};
+
+export type TaskExportFormat = "csv" | "json" | "ics";
+
+// Task fields a column of an imported file can be mapped to
+export type TaskImportField =
+  | "title"
+  | "description"
+  | "status"
+  | "priority"
+  | "dueDate"
+  | "assignee";
+
+export type TaskImportMapping = Partial<Record<TaskImportField, string>>;
+
+export type TaskImportOptions = {
+  mapping?: TaskImportMapping;
+  dryRun?: boolean;
+  sprintId?: string | null;
+};
+
+export type TaskImportReport = {
+  columns: string[];
+  mapping: TaskImportMapping;
+  total: number;
+  valid: number;
+  // Rows are numbered from 1, not counting a CSV header
+  errors: { row: number; errors: string[] }[];
+};
+
+export type TaskImportResult = {
+  message: string;
+  count: number;
+  taskIds: string[];
 };
 
 export type TaskQueryParams = {
@@ -48,6 +198,11 @@ export type TaskQueryParams = {
   tenantId?: string;
   userId?: string;
   priority?: TaskPriority | "all";
+  // Tasks with any of `labels` and none of `excludeLabels`
+  labels?: string[];
+  excludeLabels?: string[];
+  // e.g. "-dueDate,title"
+  sort?: string;
 };
 
 export type TaskPage = {
@@ -60,3 +215,9 @@ export type TaskPage = {
   count: number;
   tasks: Task[];
 };
+
+// Where a dragged task was dropped: after one task and/or before another
+export interface TaskMovePosition {
+  afterId?: string | null;
+  beforeId?: string | null;
+}
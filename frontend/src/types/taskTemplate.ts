@@ -0,0 +1,37 @@
+import type { TaskPriority } from "./task";
+
+// Who tasks created from a template are assigned to by default
+export type TemplateAssigneeRole = "creator" | "tenantAdmin";
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  // May use {{date}}, {{sprint}} and {{assignee}}
+  titlePattern: string;
+  description: string;
+  priority: TaskPriority;
+  assigneeRole: TemplateAssigneeRole;
+  // Days after creation the task is due, null for tomorrow
+  dueOffsetDays: number | null;
+  subtasks: string[];
+  tenantId: string;
+  createdBy: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface TaskTemplateData {
+  name: string;
+  titlePattern: string;
+  description?: string;
+  priority?: TaskPriority;
+  assigneeRole?: TemplateAssigneeRole;
+  dueOffsetDays?: number | null;
+  subtasks?: string[];
+}
+
+export interface CreateFromTemplateData {
+  sprintId?: string | null;
+  userId?: string;
+  variables?: Record<string, string>;
+}
@@ -0,0 +1,42 @@
+import type { CommentAuthor } from "./comment";
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  user: CommentAuthor;
+  startedAt: Date;
+  // Null while the timer is running
+  endedAt: Date | null;
+  durationMinutes: number;
+  note: string;
+  isRunning: boolean;
+  createdAt: Date;
+}
+
+export interface TimeTotals {
+  totalMinutes: number;
+  estimateMinutes: number | null;
+  remainingMinutes: number | null;
+  byUser: { userId: string; name: string | null; minutes: number }[];
+}
+
+// The current user's timer, possibly on another task
+export interface RunningTimer {
+  id: string;
+  taskId: string;
+  startedAt: Date;
+}
+
+export interface TaskTimeSummary {
+  entries: TimeEntry[];
+  totals: TimeTotals;
+  runningTimer: RunningTimer | null;
+}
+
+// Either a start and end time, or a duration ending at `endedAt` (default now)
+export interface LogTimeData {
+  durationMinutes?: number;
+  startedAt?: string;
+  endedAt?: string;
+  note?: string;
+}
@@ -0,0 +1,34 @@
+export type WorkflowCategory = "open" | "done";
+
+export type WorkflowColor =
+  | "gray"
+  | "blue"
+  | "purple"
+  | "green"
+  | "yellow"
+  | "orange"
+  | "red"
+  | "teal"
+  | "pink";
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  category: WorkflowCategory;
+  color: WorkflowColor;
+  // Moving a task with a reviewer here asks them for a review
+  review?: boolean;
+}
+
+// `from`/`to` may be "*" to match any status
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  // Empty means everyone may make the move
+  roles: ("tenantAdmin" | "user")[];
+}
+
+export interface WorkflowConfig {
+  workflow: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+}
@@ -126,3 +126,26 @@ export const formatDateISTShort = (dateString?: string | Date | null) => {
       month: "short",
     });
   };
+
+/**
+ * Format a number of minutes as "2h 15m", "45m" or "3h"
+ */
+export const formatMinutes = (minutes?: number | null) => {
+  if (!minutes || minutes <= 0) return "0m";
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Parse "1.5" (hours), "90m", "2h" or "1h 30m" into whole minutes
+ */
+export const parseDuration = (input: string): number | null => {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.round(parseFloat(value) * 60);
+  const match = value.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return Math.round(parseFloat(match[1] || "0") * 60) + Number(match[2] || 0);
+};
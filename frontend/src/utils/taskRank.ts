@@ -0,0 +1,46 @@
+import type { Task, TaskMovePosition } from "@/types/task";
+
+/**
+ * The neighbours of the spot a task is dropped on: before the task at
+ * `index` of `list`, or at its end when `index` is its length. `list` may
+ * hold the dragged task itself. Null when the task would not move.
+ */
+export function dropPosition(
+  list: Task[],
+  taskId: string,
+  index: number,
+): TaskMovePosition | null {
+  const current = list.findIndex((task) => task.id === taskId);
+  const rest = list.filter((task) => task.id !== taskId);
+  // Dropping below its own spot, the task itself no longer counts
+  const target = current !== -1 && current < index ? index - 1 : index;
+  if (current === target) return null;
+
+  const position = {
+    afterId: rest[target - 1]?.id ?? null,
+    beforeId: rest[target]?.id ?? null,
+  };
+  return position.afterId || position.beforeId ? position : null;
+}
+
+/**
+ * `tasks` with one task moved to `position`, the order the list will have
+ * once the move is saved
+ */
+export function moveTaskInList(
+  tasks: Task[],
+  taskId: string,
+  position: TaskMovePosition,
+) {
+  const task = tasks.find((t) => t.id === taskId);
+  if (!task) return tasks;
+
+  const rest = tasks.filter((t) => t.id !== taskId);
+  const anchor = position.afterId
+    ? rest.findIndex((t) => t.id === position.afterId)
+    : rest.findIndex((t) => t.id === position.beforeId);
+  if (anchor === -1) return tasks;
+
+  const index = position.afterId ? anchor + 1 : anchor;
+  return [...rest.slice(0, index), task, ...rest.slice(index)];
+}
@@ -0,0 +1,155 @@
+import { PRIORITY_LABELS, TASK_SEARCH_KEYS } from "@/constants/task";
+import type { Sprint } from "@/types/sprint";
+import type { Tag } from "@/types/tag";
+import type { User } from "@/types/user";
+import type { WorkflowStatus } from "@/types/workflow";
+
+export interface SearchSuggestion {
+  // Text that replaces the token being typed
+  value: string;
+  label: string;
+  hint?: string;
+  // Key suggestions need a value before the search can run
+  complete: boolean;
+}
+
+export interface SearchSources {
+  workflow: WorkflowStatus[];
+  tags: Tag[];
+  users: User[];
+  sprints: Sprint[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const KEY_PATTERN = new RegExp(
+  `(^|\\s)(${TASK_SEARCH_KEYS.map(({ key }) => key).join("|")}):`,
+  "i",
+);
+
+// The token under the cursor, including an unterminated `key:"quoted value`
+const CURRENT_TOKEN = /(?:^|\s)([A-Za-z]+:!?"[^"]*|\S*)$/;
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Whether the search text uses any `key:value` filter
+ */
+export const hasSearchFilters = (input: string) => KEY_PATTERN.test(input);
+
+const valueOptions = (
+  key: string,
+  sources: SearchSources,
+): { value: string; hint?: string }[] => {
+  switch (key) {
+    case "status":
+      return sources.workflow.map((s) => ({ value: s.key, hint: s.label }));
+    case "priority":
+      return Object.entries(PRIORITY_LABELS).map(([value, hint]) => ({
+        value,
+        hint,
+      }));
+    case "due":
+      return [
+        { value: "today", hint: "Due today" },
+        { value: "overdue", hint: "Past due and not done" },
+        { value: "<7d", hint: "Due within a week" },
+        { value: "<30d", hint: "Due within a month" },
+        { value: ">30d", hint: "Due in more than a month" },
+        { value: "none", hint: "No due date" },
+      ];
+    case "assignee":
+    case "createdBy":
+      return [
+        { value: "me", hint: "You" },
+        ...sources.users.map((user) => ({
+          value: user.email,
+          hint: user.name,
+        })),
+      ];
+    case "sprint":
+      return [
+        { value: "current", hint: "The active sprint" },
+        { value: "none", hint: "Backlog" },
+        ...sources.sprints.map((sprint) => ({ value: quote(sprint.name) })),
+      ];
+    case "label":
+      return sources.tags.map((tag) => ({ value: quote(tag.name) }));
+    case "sort":
+      return [
+        { value: "due", hint: "Due date, soonest first" },
+        { value: "-due", hint: "Due date, latest first" },
+        { value: "-created", hint: "Newest first" },
+        { value: "created", hint: "Oldest first" },
+        { value: "-updated", hint: "Recently updated" },
+        { value: "title", hint: "Title A-Z" },
+      ];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Suggestions for the token at the end of `input`: filter keys while the key
+ * is typed, then values for that key
+ */
+export const getSearchSuggestions = (
+  input: string,
+  sources: SearchSources,
+): SearchSuggestion[] => {
+  const token = input.match(CURRENT_TOKEN)?.[1] ?? "";
+  const separator = token.indexOf(":");
+
+  if (separator < 0) {
+    const prefix = token.toLowerCase();
+    return TASK_SEARCH_KEYS.filter(({ key }) =>
+      key.toLowerCase().startsWith(prefix),
+    ).map(({ key, example }) => ({
+      value: `${key}:`,
+      label: `${key}:`,
+      hint: example,
+      complete: false,
+    }));
+  }
+
+  const key = token.slice(0, separator);
+  const match = TASK_SEARCH_KEYS.find(
+    (known) => known.key.toLowerCase() === key.toLowerCase(),
+  );
+  if (!match) return [];
+
+  // Keep the negation and any values already listed before the last comma
+  const raw = token.slice(separator + 1);
+  const negate = raw.startsWith("!") && match.key !== "sort" ? "!" : "";
+  const listed = raw.slice(negate.length);
+  const head = listed.includes(",")
+    ? listed.slice(0, listed.lastIndexOf(",") + 1)
+    : "";
+  const partial = listed.slice(head.length).replace(/"/g, "").toLowerCase();
+
+  return valueOptions(match.key, sources)
+    .filter(
+      ({ value, hint }) =>
+        value.replace(/"/g, "").toLowerCase().includes(partial) ||
+        hint?.toLowerCase().includes(partial),
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ value, hint }) => ({
+      value: `${match.key}:${negate}${head}${value}`,
+      label: value,
+      hint,
+      complete: true,
+    }));
+};
+
+/**
+ * Replace the token being typed with the chosen suggestion
+ */
+export const applySuggestion = (
+  input: string,
+  suggestion: SearchSuggestion,
+) => {
+  const token = input.match(CURRENT_TOKEN)?.[1] ?? "";
+  const before = input.slice(0, input.length - token.length);
+  return `${before}${suggestion.value}${suggestion.complete ? " " : ""}`;
+};